@@ -19,7 +19,11 @@ describe("Proxy", () => {
     });
 
     it("should allow access to cron endpoints", () => {
-      const cronPaths = ["/api/cron/sync-notion", "/api/cron/renew-webhook"];
+      const cronPaths = [
+        "/api/cron/sync-notion",
+        "/api/cron/renew-webhook",
+        "/api/cron/process-queue",
+      ];
 
       for (const path of cronPaths) {
         expect(path.startsWith("/api/cron/")).toBe(true);
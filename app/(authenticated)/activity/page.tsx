@@ -1,5 +1,8 @@
 "use client";
 
+import { ConflictQueue } from "@/components/activity/conflict-queue";
+import { DuplicateReview } from "@/components/activity/duplicate-review";
+import { SyncPlanReview } from "@/components/activity/sync-plan-review";
 import { LogsViewer } from "@/components/dashboard/logs-viewer";
 import type { SyncLog } from "@/lib/types";
 import {
@@ -26,6 +29,7 @@ export default function ActivityPage() {
   const [syncing, setSyncing] = useState(false);
   const [autoRefresh, setAutoRefresh] = useState(true);
   const [timeWindow, setTimeWindow] = useState<TimeWindow>("90d");
+  const [refreshCount, setRefreshCount] = useState(0);
 
   const fetchLogs = useCallback(
     async (isRefresh = false) => {
@@ -38,6 +42,7 @@ export default function ActivityPage() {
           const data = await response.json();
           setLogs(data.recentLogs || []);
         }
+        setRefreshCount((count) => count + 1);
       } catch (error) {
         console.error("Error fetching logs:", error);
       } finally {
@@ -109,6 +114,15 @@ export default function ActivityPage() {
         </div>
       </div>
 
+      {/* Conflicts awaiting review */}
+      <ConflictQueue refreshKey={refreshCount} />
+
+      {/* Dry run of a manual sync, applied after review */}
+      <SyncPlanReview onApplied={() => fetchLogs(true)} />
+
+      {/* Suspected duplicates, scanned on demand */}
+      <DuplicateReview />
+
       {/* Logs */}
       {loading ? (
         <Card>
@@ -1,70 +1,70 @@
 "use client";
 
 import { CalendarView } from "@/components/calendar/calendar-view";
-import type { SyncLog } from "@/lib/types";
-import {
-  AutoRefreshToggle,
-  Card,
-  CardContent,
-  Input,
-  RefreshButton,
-  Select,
-  SelectContent,
-  SelectItem,
-  SelectTrigger,
-  Skeleton,
-} from "@/shared/ui";
+import type { CalendarEntry, CalendarSources } from "@/lib/sync/calendar";
+import { AutoRefreshToggle, Input, RefreshButton } from "@/shared/ui";
 import { useCallback, useEffect, useState } from "react";
 
-type TimeWindow = "24h" | "7d" | "30d" | "90d";
+interface CalendarRange {
+  start: Date;
+  end: Date;
+}
 
 export default function CalendarPage() {
-  const [logs, setLogs] = useState<SyncLog[]>([]);
+  const [events, setEvents] = useState<CalendarEntry[]>([]);
+  const [sources, setSources] = useState<CalendarSources>({ newEvents: [], calendars: {} });
+  const [range, setRange] = useState<CalendarRange | null>(null);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
   const [autoRefresh, setAutoRefresh] = useState(true);
-  const [timeWindow, setTimeWindow] = useState<TimeWindow>("90d");
   const [searchQuery, setSearchQuery] = useState("");
 
-  const fetchLogs = useCallback(
+  const fetchEvents = useCallback(
     async (isRefresh = false) => {
+      if (!range) return;
       if (isRefresh) {
         setRefreshing(true);
       } else {
         setLoading(true);
       }
       try {
-        const response = await fetch(`/api/events?window=${timeWindow}`);
-        if (response.ok) {
-          const data = await response.json();
-          setLogs(data || []);
+        const params = new URLSearchParams({
+          start: range.start.toISOString(),
+          end: range.end.toISOString(),
+        });
+        const response = await fetch(`/api/calendar?${params}`);
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to load events");
         }
-      } catch (error) {
-        console.error("Error fetching events:", error);
+        setEvents(data.events);
+        setSources(data.sources);
+        setError(null);
+      } catch (err) {
+        console.error("Error fetching calendar events:", err);
+        setError(err instanceof Error ? err.message : "Failed to load events");
       } finally {
         setLoading(false);
         setRefreshing(false);
       }
     },
-    [timeWindow],
+    [range],
   );
 
+  const handleRangeChange = useCallback((start: Date, end: Date) => {
+    setRange({ start, end });
+  }, []);
+
   useEffect(() => {
-    fetchLogs();
-  }, [fetchLogs]);
+    fetchEvents();
+  }, [fetchEvents]);
 
   useEffect(() => {
     if (!autoRefresh) return;
-    const interval = setInterval(() => fetchLogs(true), 30000);
+    const interval = setInterval(() => fetchEvents(true), 30000);
     return () => clearInterval(interval);
-  }, [autoRefresh, fetchLogs]);
-
-  const timeWindowLabels: Record<TimeWindow, string> = {
-    "24h": "Last 24 Hours",
-    "7d": "Last 7 Days",
-    "30d": "Last 30 Days",
-    "90d": "Last 90 Days",
-  };
+  }, [autoRefresh, fetchEvents]);
 
   return (
     <div className="p-6 lg:p-8 space-y-6 animate-in fade-in duration-300 motion-reduce:animate-none">
@@ -72,7 +72,9 @@ export default function CalendarPage() {
       <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
         <div>
           <h1 className="text-2xl font-semibold tracking-tight">Calendar</h1>
-          <p className="text-muted-foreground text-sm mt-1">View synced events on a calendar</p>
+          <p className="text-muted-foreground text-sm mt-1">
+            Events in Notion and Google Calendar. Drag to create, move or resize events.
+          </p>
         </div>
         <div className="flex items-center gap-3">
           <Input
@@ -83,34 +85,25 @@ export default function CalendarPage() {
             aria-label="Search events"
           />
           <AutoRefreshToggle checked={autoRefresh} onCheckedChange={setAutoRefresh} />
-          <RefreshButton onClick={() => fetchLogs(true)} loading={refreshing} />
-          <Select value={timeWindow} onValueChange={(value) => setTimeWindow(value as TimeWindow)}>
-            <SelectTrigger className="w-[180px]" aria-label="Select time window">
-              {timeWindowLabels[timeWindow]}
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="24h">{timeWindowLabels["24h"]}</SelectItem>
-              <SelectItem value="7d">{timeWindowLabels["7d"]}</SelectItem>
-              <SelectItem value="30d">{timeWindowLabels["30d"]}</SelectItem>
-              <SelectItem value="90d">{timeWindowLabels["90d"]}</SelectItem>
-            </SelectContent>
-          </Select>
+          <RefreshButton onClick={() => fetchEvents(true)} loading={refreshing} />
         </div>
       </div>
 
-      {/* Calendar */}
-      {loading ? (
-        <Card>
-          <CardContent className="p-6">
-            <div className="space-y-4">
-              <Skeleton className="h-8 w-48" />
-              <Skeleton className="h-[600px] w-full" />
-            </div>
-          </CardContent>
-        </Card>
-      ) : (
-        <CalendarView logs={logs} searchQuery={searchQuery} />
+      {error && (
+        <div className="rounded-lg bg-destructive/10 p-3 text-sm text-destructive" role="alert">
+          {error}
+        </div>
       )}
+
+      {/* Calendar */}
+      <CalendarView
+        events={events}
+        loading={loading}
+        searchQuery={searchQuery}
+        sources={sources}
+        onRangeChange={handleRangeChange}
+        onEventsChanged={() => fetchEvents(true)}
+      />
     </div>
   );
 }
@@ -6,7 +6,12 @@ import { DangerZone } from "@/components/settings/danger-zone";
 import { GoogleSettings } from "@/components/settings/google-settings";
 import { HistoricalSync } from "@/components/settings/historical-sync";
 import { NotionSettings } from "@/components/settings/notion-settings";
+import { PageContentSettings } from "@/components/settings/page-content-settings";
 import { SidebarSettings } from "@/components/settings/sidebar-settings";
+import { SyncDirectionSettings } from "@/components/settings/sync-direction-settings";
+import { SyncFilterSettings } from "@/components/settings/sync-filter-settings";
+import { TimeZoneSettings } from "@/components/settings/time-zone-settings";
+import type { SyncDirection } from "@/lib/validation";
 import { Button, Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/shared/ui";
 import { SkeletonSettingsPage } from "@/shared/ui";
 import { Radio } from "lucide-react";
@@ -21,12 +26,15 @@ interface Settings {
     calendarName: string | null;
     connectedAt: string | null;
     oauthAppPublished?: boolean;
+    timeZone?: string | null;
   } | null;
   notion: {
     databaseId: string | null;
     databaseName: string | null;
     isConnected: boolean;
+    syncPageContent?: boolean;
   } | null;
+  syncDirection: SyncDirection;
   setupCompleted: boolean;
 }
 
@@ -88,6 +96,27 @@ export default function SettingsPage() {
       {/* Calendar Settings */}
       <CalendarSettings />
 
+      {/* Sync Direction */}
+      <SyncDirectionSettings
+        direction={settings?.syncDirection ?? "bidirectional"}
+        onSettingsChange={fetchSettings}
+      />
+
+      {/* Sync Filters */}
+      <SyncFilterSettings />
+
+      {/* Event Time Zone */}
+      <TimeZoneSettings
+        timeZone={settings?.google?.timeZone ?? null}
+        onSettingsChange={fetchSettings}
+      />
+
+      {/* Page Content */}
+      <PageContentSettings
+        enabled={settings?.notion?.syncPageContent ?? false}
+        onSettingsChange={fetchSettings}
+      />
+
       {/* Service Settings */}
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
         <GoogleSettings settings={settings?.google ?? null} onSettingsChange={fetchSettings} />
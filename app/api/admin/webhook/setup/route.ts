@@ -1,18 +1,11 @@
-import {
-  fetchGcalEventsSince,
-  setupGcalWebhook,
-  stopGcalWebhook,
-} from "@/lib/google-calendar/client";
-import { getGoogleConfig } from "@/lib/settings";
+import { getActiveSyncPairId, getGoogleConfig, withSyncPairParam } from "@/lib/settings";
 import { authHeaderSchema, parseJsonBody, webhookSetupRequestSchema } from "@/lib/validation";
 import {
-  deleteWebhookChannel,
   getTimeUntilExpiration,
-  getWebhookChannel,
+  getWebhookChannels,
   isChannelExpired,
-  saveWebhookChannel,
-  updateSyncState,
 } from "@/lib/webhook/channel-manager";
+import { unwatchCalendar, watchCalendar } from "@/lib/webhook/gcal-channels";
 import { type NextRequest, NextResponse } from "next/server";
 
 /**
@@ -42,7 +35,7 @@ function verifyAuth(request: NextRequest): boolean {
 }
 
 /**
- * POST - Create/setup new webhook channel
+ * POST - Create/setup a webhook channel for every synced calendar
  */
 export async function POST(request: NextRequest) {
   // Verify authorization
@@ -51,17 +44,14 @@ export async function POST(request: NextRequest) {
   }
 
   try {
-    console.log("🔧 Setting up Google Calendar webhook channel...");
-
-    // Check if there's an existing channel
-    const existingChannel = await getWebhookChannel();
-    if (existingChannel) {
-      console.log("⚠️  Existing channel found, stopping it first...");
-      try {
-        await stopGcalWebhook(existingChannel.channelId, existingChannel.resourceId);
-        await deleteWebhookChannel();
-      } catch (error) {
-        console.warn("Failed to stop existing channel (might already be stopped):", error);
+    console.log("🔧 Setting up Google Calendar webhook channels...");
+
+    // Stop existing channels first
+    const existingChannels = await getWebhookChannels();
+    if (existingChannels.length > 0) {
+      console.log(`⚠️  ${existingChannels.length} existing channel(s) found, stopping first...`);
+      for (const channel of existingChannels) {
+        await unwatchCalendar(channel);
       }
     }
 
@@ -77,10 +67,12 @@ export async function POST(request: NextRequest) {
     const { webhookUrl: requestUrl } = bodyResult.data;
 
     // Get webhook URL from request, environment, or construct from host
-    const webhookUrl =
+    const webhookUrl = withSyncPairParam(
       requestUrl ||
-      process.env.WEBHOOK_URL ||
-      `${request.headers.get("x-forwarded-proto") || "https"}://${request.headers.get("host")}/api/webhooks/google-calendar`;
+        process.env.WEBHOOK_URL ||
+        `${request.headers.get("x-forwarded-proto") || "https"}://${request.headers.get("host")}/api/webhooks/google-calendar`,
+      await getActiveSyncPairId(),
+    );
 
     console.log(`📍 Webhook URL: ${webhookUrl}`);
 
@@ -92,45 +84,28 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Create new webhook channel
-    console.log("🔗 Creating webhook channel...");
-    const channelInfo = await setupGcalWebhook(webhookUrl);
-
-    // Get calendar ID from config
-    const googleConfig = await getGoogleConfig();
-
-    // Save channel metadata to Redis
-    await saveWebhookChannel({
-      channelId: channelInfo.channelId,
-      resourceId: channelInfo.resourceId,
-      expiration: channelInfo.expiration,
-      calendarId: googleConfig.calendarId,
-      createdAt: new Date(),
-      lastRenewedAt: new Date(),
-    });
-
-    console.log(`✓ Webhook channel created: ${channelInfo.channelId}`);
+    // Create a channel per calendar; each also establishes its baseline sync token
+    const { calendars } = await getGoogleConfig();
+    const channels = [];
+    for (const calendar of calendars) {
+      console.log(`🔗 Creating webhook channel for ${calendar.name}...`);
+      const channel = await watchCalendar(calendar.calendarId, webhookUrl);
+      console.log(`✓ Webhook channel created: ${channel.channelId}`);
 
-    // Perform initial sync to establish sync token
-    console.log("🔄 Performing initial sync to establish baseline...");
-    const result = await fetchGcalEventsSince(undefined);
-    if (result.nextSyncToken) {
-      await updateSyncState(result.nextSyncToken);
-      console.log("✓ Initial sync token established");
+      channels.push({
+        channelId: channel.channelId,
+        resourceId: channel.resourceId,
+        calendarId: channel.calendarId,
+        expiresAt: new Date(channel.expiration).toISOString(),
+        expiresInHours: Math.round(getTimeUntilExpiration(channel) / (1000 * 60 * 60)),
+        webhookUrl,
+      });
     }
 
-    const expiresAt = new Date(channelInfo.expiration);
-    const expiresIn = channelInfo.expiration - Date.now();
-
     return NextResponse.json({
       status: "success",
-      channel: {
-        channelId: channelInfo.channelId,
-        resourceId: channelInfo.resourceId,
-        expiresAt: expiresAt.toISOString(),
-        expiresInHours: Math.round(expiresIn / (1000 * 60 * 60)),
-        webhookUrl,
-      },
+      channel: channels[0],
+      channels,
     });
   } catch (error) {
     console.error("❌ Error setting up webhook:", error);
@@ -153,30 +128,32 @@ export async function GET(request: NextRequest) {
   }
 
   try {
-    const channel = await getWebhookChannel();
+    const channels = await getWebhookChannels();
 
-    if (!channel) {
+    if (channels.length === 0) {
       return NextResponse.json({
         status: "no_channel",
         message: "No webhook channel configured. Call POST to setup.",
       });
     }
 
-    const expired = isChannelExpired(channel);
-    const expiresIn = getTimeUntilExpiration(channel);
-    const expiresInHours = Math.round(expiresIn / (1000 * 60 * 60));
+    const channelStatuses = channels.map((channel) => ({
+      status: isChannelExpired(channel) ? "expired" : "active",
+      channelId: channel.channelId,
+      resourceId: channel.resourceId,
+      calendarId: channel.calendarId,
+      expiresAt: new Date(channel.expiration).toISOString(),
+      expiresInHours: Math.round(getTimeUntilExpiration(channel) / (1000 * 60 * 60)),
+      createdAt: channel.createdAt,
+      lastRenewedAt: channel.lastRenewedAt,
+    }));
 
     return NextResponse.json({
-      status: expired ? "expired" : "active",
-      channel: {
-        channelId: channel.channelId,
-        resourceId: channel.resourceId,
-        calendarId: channel.calendarId,
-        expiresAt: new Date(channel.expiration).toISOString(),
-        expiresInHours,
-        createdAt: channel.createdAt,
-        lastRenewedAt: channel.lastRenewedAt,
-      },
+      status: channelStatuses.some((channel) => channel.status === "expired")
+        ? "expired"
+        : "active",
+      channel: channelStatuses[0],
+      channels: channelStatuses,
     });
   } catch (error) {
     console.error("Error fetching webhook status:", error);
@@ -190,7 +167,7 @@ export async function GET(request: NextRequest) {
 }
 
 /**
- * DELETE - Manually stop webhook channel
+ * DELETE - Manually stop all webhook channels
  */
 export async function DELETE(request: NextRequest) {
   // Verify authorization
@@ -199,28 +176,25 @@ export async function DELETE(request: NextRequest) {
   }
 
   try {
-    const channel = await getWebhookChannel();
+    const channels = await getWebhookChannels();
 
-    if (!channel) {
+    if (channels.length === 0) {
       return NextResponse.json({
         status: "no_channel",
         message: "No webhook channel to stop",
       });
     }
 
-    console.log(`🛑 Stopping webhook channel: ${channel.channelId}`);
-
-    // Stop the channel with Google
-    await stopGcalWebhook(channel.channelId, channel.resourceId);
-
-    // Delete from Redis
-    await deleteWebhookChannel();
+    for (const channel of channels) {
+      console.log(`🛑 Stopping webhook channel: ${channel.channelId}`);
+      await unwatchCalendar(channel);
+    }
 
-    console.log("✓ Webhook channel stopped");
+    console.log("✓ Webhook channels stopped");
 
     return NextResponse.json({
       status: "success",
-      message: "Webhook channel stopped",
+      message: `Stopped ${channels.length} webhook channel(s)`,
     });
   } catch (error) {
     console.error("Error stopping webhook:", error);
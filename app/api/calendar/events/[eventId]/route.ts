@@ -0,0 +1,57 @@
+import { readOnlySideError, updateCalendarEvent } from "@/lib/sync/calendar";
+import { calendarEventSchema } from "@/lib/validation";
+import { type NextRequest, NextResponse } from "next/server";
+
+interface RouteParams {
+  params: Promise<{ eventId: string }>;
+}
+
+const updateSchema = calendarEventSchema.partial().required({ source: true });
+
+/**
+ * PATCH /api/calendar/events/[eventId]
+ * Update a Notion page or Google event (by source); the sync engine copies the change over
+ *
+ * Body: { source, calendarId?, title?, start?, end?, allDay?, location?, description? }
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { eventId } = await params;
+    const body = await request.json();
+    const result = updateSchema.safeParse(body);
+
+    if (!result.success) {
+      const errors = result.error.errors.map((e) => `${e.path.join(".")}: ${e.message}`).join(", ");
+      return NextResponse.json({ error: "Validation failed", details: errors }, { status: 400 });
+    }
+
+    const { source, calendarId, start, end, ...fields } = result.data;
+    // Times move together so the event keeps a valid range on both sides
+    if (!start !== !end) {
+      return NextResponse.json({ error: "Start and end must change together" }, { status: 400 });
+    }
+    if (start && end && end <= start) {
+      return NextResponse.json({ error: "End must be after start" }, { status: 400 });
+    }
+
+    const readOnly = await readOnlySideError(source, calendarId);
+    if (readOnly) {
+      return NextResponse.json({ error: readOnly }, { status: 409 });
+    }
+
+    await updateCalendarEvent(
+      source,
+      eventId,
+      { ...fields, ...(start && end && { startTime: start, endTime: end }) },
+      calendarId,
+    );
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error updating calendar event:", error);
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { createCalendarEvent, readOnlySideError } from "@/lib/sync/calendar";
+import { calendarEventSchema } from "@/lib/validation";
+import { type NextRequest, NextResponse } from "next/server";
+
+/**
+ * POST /api/calendar/events
+ * Create an event in Notion or Google Calendar; the sync engine copies it to the other side
+ *
+ * Body: { source, title, start, end, allDay?, location?, description?, calendarId? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const result = calendarEventSchema.safeParse(body);
+
+    if (!result.success) {
+      const errors = result.error.errors.map((e) => `${e.path.join(".")}: ${e.message}`).join(", ");
+      return NextResponse.json({ error: "Validation failed", details: errors }, { status: 400 });
+    }
+
+    const { source, calendarId, start, end, ...fields } = result.data;
+    if (end <= start) {
+      return NextResponse.json({ error: "End must be after start" }, { status: 400 });
+    }
+
+    const readOnly = await readOnlySideError(source, calendarId);
+    if (readOnly) {
+      return NextResponse.json({ error: readOnly }, { status: 409 });
+    }
+
+    const id = await createCalendarEvent(
+      source,
+      { ...fields, startTime: start, endTime: end },
+      calendarId,
+    );
+    return NextResponse.json({ success: true, id });
+  } catch (error) {
+    console.error("Error creating calendar event:", error);
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,47 @@
+import {
+  MAX_CALENDAR_RANGE_DAYS,
+  getCalendarEntries,
+  getCalendarSources,
+} from "@/lib/sync/calendar";
+import { type NextRequest, NextResponse } from "next/server";
+
+/**
+ * GET /api/calendar
+ * Returns the current Notion and Google Calendar events in a range, each with its sync state,
+ * and the sides new events and the events of each calendar can be saved to
+ *
+ * Query parameters:
+ * - start: Start of the range (ISO 8601)
+ * - end: End of the range (ISO 8601), at most 62 days after the start
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const start = new Date(searchParams.get("start") ?? "");
+    const end = new Date(searchParams.get("end") ?? "");
+
+    if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime())) {
+      return NextResponse.json({ error: "start and end must be ISO 8601 dates" }, { status: 400 });
+    }
+    if (end <= start) {
+      return NextResponse.json({ error: "end must be after start" }, { status: 400 });
+    }
+    if (end.getTime() - start.getTime() > MAX_CALENDAR_RANGE_DAYS * 24 * 60 * 60 * 1000) {
+      return NextResponse.json(
+        { error: `Range cannot exceed ${MAX_CALENDAR_RANGE_DAYS} days` },
+        { status: 400 },
+      );
+    }
+
+    const events = await getCalendarEntries(start, end);
+    const sources = await getCalendarSources();
+    return NextResponse.json({ events, sources });
+  } catch (error) {
+    console.error("Error fetching calendar events:", error);
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,74 @@
+import { getSyncDirection } from "@/lib/settings";
+import { dismissConflict, resolveConflict } from "@/lib/sync/conflicts";
+import { type NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+const resolveSchema = z.object({
+  keep: z.enum(["notion", "gcal"]),
+});
+
+/**
+ * POST /api/conflicts/[id]
+ * Resolve a conflict by keeping the Notion or Google Calendar value
+ *
+ * Body: { keep: "notion" | "gcal" }
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const result = resolveSchema.safeParse(body);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: "Invalid resolution. Must be 'notion' or 'gcal'" },
+        { status: 400 },
+      );
+    }
+
+    // Keeping the Notion value writes to Google Calendar, which a read-only mirror never does
+    if (result.data.keep === "notion" && (await getSyncDirection()) === "gcal_to_notion") {
+      return NextResponse.json(
+        { error: "This sync pair only syncs Google → Notion, so Google Calendar can't be updated" },
+        { status: 409 },
+      );
+    }
+
+    const resolved = await resolveConflict(decodeURIComponent(id), result.data.keep);
+    if (!resolved) {
+      return NextResponse.json({ error: "Conflict not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error resolving conflict:", error);
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * DELETE /api/conflicts/[id]
+ * Dismiss a conflict without changing either side
+ */
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    await dismissConflict(decodeURIComponent(id));
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error dismissing conflict:", error);
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,20 @@
+import { getConflicts } from "@/lib/sync/conflicts";
+import { NextResponse } from "next/server";
+
+/**
+ * GET /api/conflicts
+ * Returns field conflicts awaiting manual review
+ */
+export async function GET() {
+  try {
+    const conflicts = await getConflicts();
+    return NextResponse.json({ conflicts });
+  } catch (error) {
+    console.error("Error fetching conflicts:", error);
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 },
+    );
+  }
+}
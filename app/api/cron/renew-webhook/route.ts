@@ -1,21 +1,81 @@
-import {
-  fetchGcalEventsSince,
-  setupGcalWebhook,
-  stopGcalWebhook,
-} from "@/lib/google-calendar/client";
-import { getGoogleConfig } from "@/lib/settings";
-import {
-  getWebhookChannel,
-  needsRenewal,
-  saveWebhookChannel,
-  updateSyncState,
-} from "@/lib/webhook/channel-manager";
+import { getGoogleConfig, runForEachSyncPair, withSyncPairParam } from "@/lib/settings";
+import { getWebhookChannels, needsRenewal } from "@/lib/webhook/channel-manager";
+import { unwatchCalendar, watchCalendar } from "@/lib/webhook/gcal-channels";
 import { type NextRequest, NextResponse } from "next/server";
 
+/**
+ * Renew, create or stop the active sync pair's channels.
+ * Returns null when the pair has no channels, i.e. push notifications were never set up.
+ */
+async function renewPairChannels(webhookUrl: string) {
+  // Get current webhook channels
+  const channels = await getWebhookChannels();
+
+  if (channels.length === 0) {
+    return null;
+  }
+
+  const { calendars } = await getGoogleConfig();
+  const results = [];
+
+  for (const calendar of calendars) {
+    const channel = channels.find((c) => c.calendarId === calendar.calendarId);
+
+    // Check if channel needs renewal
+    if (channel && !needsRenewal(channel)) {
+      const expiresInHours = Math.round((channel.expiration - Date.now()) / (1000 * 60 * 60));
+      console.log(
+        `✓ ${calendar.name}: channel doesn't need renewal yet (expires in ${expiresInHours} hours)`,
+      );
+      results.push({
+        calendarId: calendar.calendarId,
+        status: "not_needed" as const,
+        expiresAt: new Date(channel.expiration).toISOString(),
+        expiresInHours,
+      });
+      continue;
+    }
+
+    if (channel) {
+      console.log(`⚠️  ${calendar.name}: channel expires soon, renewing...`);
+      await unwatchCalendar(channel);
+    } else {
+      console.log(`🔗 ${calendar.name}: no channel yet, creating one...`);
+    }
+
+    // Create new channel and re-establish its sync token
+    const newChannel = await watchCalendar(calendar.calendarId, webhookUrl, channel?.createdAt);
+    const expiresAt = new Date(newChannel.expiration);
+    console.log(`✅ ${calendar.name}: channel ready (expires ${expiresAt.toISOString()})`);
+
+    results.push({
+      calendarId: calendar.calendarId,
+      status: channel ? ("renewed" as const) : ("created" as const),
+      channelId: newChannel.channelId,
+      resourceId: newChannel.resourceId,
+      expiresAt: expiresAt.toISOString(),
+      expiresInHours: Math.round((newChannel.expiration - Date.now()) / (1000 * 60 * 60)),
+    });
+  }
+
+  // Stop channels of calendars that were removed from the sync
+  for (const channel of channels) {
+    if (!calendars.some((cal) => cal.calendarId === channel.calendarId)) {
+      console.log(`🛑 Stopping channel of unsynced calendar ${channel.calendarId}`);
+      await unwatchCalendar(channel);
+      results.push({ calendarId: channel.calendarId, status: "stopped" as const });
+    }
+  }
+
+  return results;
+}
+
 /**
  * Cron job to automatically renew webhook channels before expiration
  * Runs every 6 hours to check if renewal is needed
- * Renews if channel expires in less than 6 hours
+ * Renews each calendar's channel if it expires in less than 6 hours, creates channels for
+ * newly synced calendars and stops channels of calendars that are no longer synced,
+ * for every sync pair
  */
 export async function GET(request: NextRequest) {
   try {
@@ -29,10 +89,16 @@ export async function GET(request: NextRequest) {
 
     console.log("🔄 Webhook renewal cron job started...");
 
-    // Get current webhook channel
-    const channel = await getWebhookChannel();
+    // Get webhook URL
+    const baseWebhookUrl =
+      process.env.WEBHOOK_URL ||
+      `${request.headers.get("x-forwarded-proto") || "https"}://${request.headers.get("host")}/api/webhooks/google-calendar`;
 
-    if (!channel) {
+    const pairs = await runForEachSyncPair((pair) =>
+      renewPairChannels(withSyncPairParam(baseWebhookUrl, pair.id)),
+    );
+
+    if (pairs.every(({ result }) => result === null)) {
       console.log("⚠️  No webhook channel found, skipping renewal");
       return NextResponse.json({
         status: "no_channel",
@@ -40,77 +106,19 @@ export async function GET(request: NextRequest) {
       });
     }
 
-    // Check if channel needs renewal
-    if (!needsRenewal(channel)) {
-      const expiresIn = channel.expiration - Date.now();
-      const expiresInHours = Math.round(expiresIn / (1000 * 60 * 60));
-
-      console.log(`✓ Channel doesn't need renewal yet (expires in ${expiresInHours} hours)`);
-
-      return NextResponse.json({
-        status: "not_needed",
-        message: `Channel expires in ${expiresInHours} hours`,
-        expiresAt: new Date(channel.expiration).toISOString(),
-      });
-    }
-
-    console.log("⚠️  Channel expires soon, renewing...");
-
-    // Stop old channel
-    try {
-      await stopGcalWebhook(channel.channelId, channel.resourceId);
-      console.log(`✓ Stopped old channel: ${channel.channelId}`);
-    } catch (error) {
-      console.warn("Failed to stop old channel (might already be stopped):", error);
-    }
-
-    // Get webhook URL
-    const webhookUrl =
-      process.env.WEBHOOK_URL ||
-      `${request.headers.get("x-forwarded-proto") || "https"}://${request.headers.get("host")}/api/webhooks/google-calendar`;
-
-    // Create new channel
-    console.log("🔗 Creating new webhook channel...");
-    const newChannelInfo = await setupGcalWebhook(webhookUrl);
-
-    // Get calendar ID from config
-    const googleConfig = await getGoogleConfig();
-
-    // Save new channel metadata
-    await saveWebhookChannel({
-      channelId: newChannelInfo.channelId,
-      resourceId: newChannelInfo.resourceId,
-      expiration: newChannelInfo.expiration,
-      calendarId: googleConfig.calendarId,
-      createdAt: channel.createdAt, // Keep original creation time
-      lastRenewedAt: new Date(),
-    });
-
-    // Re-establish sync token with new channel
-    console.log("🔄 Re-establishing sync token...");
-    const result = await fetchGcalEventsSince(undefined);
-    if (result.nextSyncToken) {
-      await updateSyncState(result.nextSyncToken);
-      console.log("✓ Sync token re-established");
-    }
-
-    const expiresAt = new Date(newChannelInfo.expiration);
-    const expiresIn = newChannelInfo.expiration - Date.now();
-    const expiresInHours = Math.round(expiresIn / (1000 * 60 * 60));
-
-    console.log(
-      `✅ Webhook channel renewed successfully (new expiration: ${expiresAt.toISOString()})`,
+    const results = pairs.flatMap(({ pair, result }) =>
+      (result || []).map((channel) => ({ pairId: pair.id, ...channel })),
     );
 
+    const changed = results.filter((result) => result.status !== "not_needed").length;
+
     return NextResponse.json({
-      status: "renewed",
-      message: "Channel renewed successfully",
-      channel: {
-        channelId: newChannelInfo.channelId,
-        resourceId: newChannelInfo.resourceId,
-        expiresAt: expiresAt.toISOString(),
-        expiresInHours,
-      },
+      status: changed > 0 ? "renewed" : "not_needed",
+      message:
+        changed > 0
+          ? `Updated ${changed} webhook channel(s)`
+          : "No webhook channel needs renewal yet",
+      channels: results,
     });
   } catch (error) {
     console.error("❌ Error renewing webhook channel:", error);
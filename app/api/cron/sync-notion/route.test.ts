@@ -0,0 +1,121 @@
+import { DEFAULT_EXTENDED_FIELD_MAPPING } from "@/lib/settings/types";
+import type { Event } from "@/lib/types";
+import { NextRequest } from "next/server";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const { mockQuery, mockListBlocks } = vi.hoisted(() => ({
+  mockQuery: vi.fn(),
+  mockListBlocks: vi.fn(),
+}));
+
+vi.mock("@notionhq/client", () => ({
+  Client: vi.fn(() => ({
+    databases: { query: mockQuery },
+    blocks: { children: { list: mockListBlocks } },
+  })),
+}));
+
+vi.mock("@/lib/google-calendar/client", () => ({
+  fetchGcalEvents: vi.fn(),
+  getGcalEvent: vi.fn(),
+}));
+
+vi.mock("@/lib/settings", () => ({
+  getActiveSyncPairId: vi.fn(async () => "default"),
+  getCustomMappings: vi.fn(async () => []),
+  getFieldMapping: vi.fn(async () => DEFAULT_EXTENDED_FIELD_MAPPING),
+  getGoogleConfig: vi.fn(async () => ({
+    calendarId: "primary",
+    calendars: [{ calendarId: "primary", name: "Primary", direction: "bidirectional" }],
+  })),
+  getNotionConfig: vi.fn(async () => ({
+    apiToken: "secret",
+    databaseId: "db-1",
+    syncPageContent: true,
+  })),
+  getSyncFilters: vi.fn(async () => []),
+  runForEachSyncPair: vi.fn(async (fn: (pair: unknown) => Promise<unknown>) => {
+    const pair = { id: "default", name: "Default", syncDirection: "bidirectional" };
+    return [{ pair, result: await fn(pair) }];
+  }),
+}));
+
+vi.mock("@/lib/sync/engine", () => ({
+  deleteFromGcal: vi.fn(),
+  syncNotionToGcal: vi.fn(),
+}));
+
+vi.mock("@/lib/sync/mapping", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/sync/mapping")>()),
+  getMappingByGcalId: vi.fn(async () => null),
+}));
+
+vi.mock("@/lib/sync/watermark", () => ({
+  WATERMARK_OVERLAP_MS: 60 * 1000,
+  getLastReconciliation: vi.fn(async () => null),
+  getNotionWatermark: vi.fn(async () => null),
+  setLastReconciliation: vi.fn(),
+  setNotionWatermark: vi.fn(),
+}));
+
+import { fetchGcalEvents } from "@/lib/google-calendar/client";
+import { deleteFromGcal, syncNotionToGcal } from "@/lib/sync/engine";
+import { setLastReconciliation, setNotionWatermark } from "@/lib/sync/watermark";
+import { GET } from "./route";
+
+const page = {
+  object: "page",
+  id: "page-1",
+  last_edited_time: "2026-03-01T00:00:00.000Z",
+  properties: {
+    Title: { type: "title", title: [{ plain_text: "Planning" }] },
+    Date: {
+      type: "date",
+      date: { start: "2026-03-02T09:00:00.000Z", end: "2026-03-02T10:00:00.000Z" },
+    },
+  },
+};
+
+const gcalEvent: Event = {
+  id: "gcal-1",
+  title: "Planning",
+  startTime: new Date("2026-03-02T09:00:00.000Z"),
+  endTime: new Date("2026-03-02T10:00:00.000Z"),
+  calendarId: "primary",
+  notionPageId: "page-1",
+};
+
+describe("GET /api/cron/sync-notion", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    mockQuery.mockResolvedValue({ results: [page], has_more: false, next_cursor: null });
+    vi.mocked(fetchGcalEvents).mockResolvedValue([gcalEvent]);
+  });
+
+  it("deletes nothing when a page body cannot be read during a full run", async () => {
+    const rateLimited = Object.assign(new Error("Rate limited"), { code: "rate_limited" });
+    mockListBlocks.mockRejectedValue(rateLimited);
+
+    const response = await GET(new NextRequest("http://localhost/api/cron/sync-notion"));
+
+    expect(await response.json()).toMatchObject({
+      deletionsFromGcal: 0,
+      pairs: [{ pairId: "default", error: "Rate limited" }],
+    });
+    expect(syncNotionToGcal).not.toHaveBeenCalled();
+    expect(deleteFromGcal).not.toHaveBeenCalled();
+    expect(setNotionWatermark).not.toHaveBeenCalled();
+    expect(setLastReconciliation).not.toHaveBeenCalled();
+  });
+
+  it("deletes the Google event of a page that is gone", async () => {
+    mockQuery.mockResolvedValue({ results: [], has_more: false, next_cursor: null });
+
+    const response = await GET(new NextRequest("http://localhost/api/cron/sync-notion"));
+
+    expect(await response.json()).toMatchObject({ deletionsFromGcal: 1 });
+    expect(deleteFromGcal).toHaveBeenCalledWith("gcal-1", "Planning", "primary");
+  });
+});
@@ -1,13 +1,140 @@
-import { fetchGcalEvents } from "@/lib/google-calendar/client";
 import { fetchNotionEvents } from "@/lib/notion/client";
+import { runForEachSyncPair } from "@/lib/settings";
+import { deleteFromGcal, syncNotionToGcal } from "@/lib/sync/engine";
+import { findDeletedPageEvents, planSync } from "@/lib/sync/plan";
 import {
-  deleteFromGcal,
-  deleteFromNotion,
-  syncGcalToNotion,
-  syncNotionToGcal,
-} from "@/lib/sync/engine";
+  getLastReconciliation,
+  getNotionWatermark,
+  setLastReconciliation,
+  setNotionWatermark,
+  WATERMARK_OVERLAP_MS,
+} from "@/lib/sync/watermark";
+import type { Event } from "@/lib/types";
 import { type NextRequest, NextResponse } from "next/server";
 
+// How often the full reconciliation pass runs (deletions are invisible to incremental polls)
+const RECONCILE_INTERVAL_MS = 60 * 60 * 1000; // 1 hour
+
+/**
+ * Detect Notion → GCal deletions by comparing every Notion page against recent GCal events.
+ * If a GCal event is linked to a Notion page (via notion_page_id or the mapping store)
+ * but that Notion page no longer exists, delete it from GCal.
+ * Calendars that only sync from Google are left untouched.
+ */
+async function reconcileDeletions(notionEvents: Event[]): Promise<number> {
+  let deletionsFromGcal = 0;
+
+  for (const gcalEvent of await findDeletedPageEvents(notionEvents)) {
+    console.log(
+      `🗑️  Detected deletion: Notion page ${gcalEvent.notionPageId} no longer exists, deleting GCal event "${gcalEvent.title}"`,
+    );
+    try {
+      await deleteFromGcal(
+        gcalEvent.gcalEventId || gcalEvent.id,
+        gcalEvent.title,
+        gcalEvent.calendarId,
+      );
+      deletionsFromGcal++;
+    } catch (error) {
+      console.error(`Failed to delete GCal event ${gcalEvent.title}:`, error);
+    }
+  }
+
+  return deletionsFromGcal;
+}
+
+/**
+ * Decide whether this run is a full reconciliation and fetch the Notion pages it covers
+ * (just the recently edited ones on incremental runs)
+ */
+async function fetchPolledEvents(forceFull: boolean, runStartedAt: Date) {
+  const watermark = await getNotionWatermark();
+  const lastReconciliation = await getLastReconciliation();
+  const isFullRun =
+    forceFull ||
+    !watermark ||
+    !lastReconciliation ||
+    runStartedAt.getTime() - lastReconciliation.getTime() >= RECONCILE_INTERVAL_MS;
+
+  const editedSince =
+    isFullRun || !watermark ? undefined : new Date(watermark.getTime() - WATERMARK_OVERLAP_MS);
+  const notionEvents = await fetchNotionEvents({ editedSince });
+  console.log(
+    editedSince
+      ? `Fetched ${notionEvents.length} Notion events edited since ${editedSince.toISOString()}`
+      : `Fetched ${notionEvents.length} Notion events (full reconciliation)`,
+  );
+
+  return { isFullRun, editedSince, notionEvents };
+}
+
+/**
+ * Plan what polling the active sync pair would write, without writing or moving the watermark
+ */
+async function planSyncPair(forceFull: boolean) {
+  const { isFullRun, editedSince, notionEvents } = await fetchPolledEvents(forceFull, new Date());
+  const deletions = isFullRun ? await findDeletedPageEvents(notionEvents) : [];
+  return {
+    mode: isFullRun ? ("full" as const) : ("incremental" as const),
+    editedSince: editedSince?.toISOString() ?? null,
+    plan: await planSync("cron", { notionEvents, deletions }),
+  };
+}
+
+/**
+ * Poll the active sync pair's database and sync edited pages to Google Calendar,
+ * running the deletion reconciliation when it is due.
+ */
+async function pollSyncPair(forceFull: boolean) {
+  const runStartedAt = new Date();
+  // Fetch events from Notion only
+  const { isFullRun, editedSince, notionEvents } = await fetchPolledEvents(
+    forceFull,
+    runStartedAt,
+  );
+
+  // Sync Notion events to Google Calendar
+  let syncFailures = 0;
+  for (const notionEvent of notionEvents) {
+    try {
+      await syncNotionToGcal(notionEvent);
+    } catch (error) {
+      // Log error but continue with other events
+      syncFailures++;
+      console.error(`Failed to sync Notion event ${notionEvent.title}:`, error);
+    }
+  }
+
+  // Only advance the watermark when every edited page went through, so failures are retried
+  if (syncFailures === 0) {
+    await setNotionWatermark(runStartedAt);
+  }
+
+  // Note: GCal → Notion sync removed - now handled by webhook in real-time
+
+  // DELETION DETECTION: Notion → GCal only, on full runs
+  // (GCal → Notion deletion is now handled by webhook)
+  let deletionsFromGcal = 0;
+  if (isFullRun) {
+    deletionsFromGcal = await reconcileDeletions(notionEvents);
+    await setLastReconciliation(runStartedAt);
+  }
+
+  // Note: GCal → Notion deletion detection removed - now handled by webhook
+
+  console.log(`   Mode: ${isFullRun ? "full reconciliation" : "incremental"}`);
+  console.log(`   Notion events synced (fallback): ${notionEvents.length}`);
+  console.log(`   Deletions from GCal: ${deletionsFromGcal}`);
+
+  return {
+    mode: isFullRun ? ("full" as const) : ("incremental" as const),
+    editedSince: editedSince?.toISOString() ?? null,
+    notionEventsSynced: notionEvents.length,
+    syncFailures,
+    deletionsFromGcal,
+  };
+}
+
 /**
  * Cron job endpoint to poll Notion for changes and sync to Google Calendar
  * This runs periodically (every 5 minutes) via Vercel Cron
@@ -17,6 +144,11 @@ import { type NextRequest, NextResponse } from "next/server";
  * - Fallback sync: This cron job (every 5 min)
  * - GCal → Notion: Google Calendar webhooks (real-time)
  *
+ * Each run only fetches pages edited since the last successful run (the watermark).
+ * Once an hour, or when called with `?full=true`, it fetches the whole database instead
+ * and reconciles deletions against Google Calendar. Every sync pair is polled in turn.
+ * With `?dryRun=true`, each pair's plan is returned instead and nothing is written.
+ *
  * This cron ensures no events are missed if webhooks fail
  */
 export async function GET(request: NextRequest) {
@@ -35,58 +167,52 @@ export async function GET(request: NextRequest) {
     console.log("   - GCal → Notion: Google Calendar webhooks (real-time)");
     console.log("ℹ️  This cron job acts as fallback to catch any missed events");
 
-    // Fetch events from Notion only
-    const notionEvents = await fetchNotionEvents();
-    console.log(`Fetched ${notionEvents.length} Notion events`);
+    const forceFull = request.nextUrl.searchParams.get("full") === "true";
 
-    // Sync Notion events to Google Calendar
-    for (const notionEvent of notionEvents) {
-      try {
-        await syncNotionToGcal(notionEvent);
-      } catch (error) {
-        // Log error but continue with other events
-        console.error(`Failed to sync Notion event ${notionEvent.title}:`, error);
-      }
+    if (request.nextUrl.searchParams.get("dryRun") === "true") {
+      const plans = await runForEachSyncPair(async (pair) =>
+        pair.syncDirection === "gcal_to_notion"
+          ? { skipped: "gcal_to_notion" as const }
+          : planSyncPair(forceFull),
+      );
+      return NextResponse.json({
+        status: "preview",
+        pairs: plans.map(({ pair, result }) => ({ pairId: pair.id, name: pair.name, ...result })),
+        timestamp: new Date().toISOString(),
+      });
     }
 
-    // Note: GCal → Notion sync removed - now handled by webhook in real-time
-
-    // DELETION DETECTION: Notion → GCal only
-    // (GCal → Notion deletion is now handled by webhook)
-
-    // Fetch GCal events to detect Notion-originated deletions
-    const gcalEvents = await fetchGcalEvents(new Date(Date.now() - 30 * 24 * 60 * 60 * 1000));
-    const notionPageIds = new Set(notionEvents.map((e) => e.notionPageId || e.id).filter(Boolean));
-
-    let deletionsFromGcal = 0;
-
-    // Detect Notion → GCal deletions
-    // If a GCal event has a notion_page_id but that Notion page no longer exists, delete from GCal
-    for (const gcalEvent of gcalEvents) {
-      if (gcalEvent.notionPageId && !notionPageIds.has(gcalEvent.notionPageId)) {
-        console.log(
-          `🗑️  Detected deletion: Notion page ${gcalEvent.notionPageId} no longer exists, deleting GCal event "${gcalEvent.title}"`,
-        );
-        try {
-          await deleteFromGcal(gcalEvent.gcalEventId || gcalEvent.id, gcalEvent.title);
-          deletionsFromGcal++;
-        } catch (error) {
-          console.error(`Failed to delete GCal event ${gcalEvent.title}:`, error);
-        }
+    const pairs = await runForEachSyncPair(async (pair) => {
+      console.log(`📁 Sync pair: ${pair.name}`);
+      if (pair.syncDirection === "gcal_to_notion") {
+        console.log("⏭️  Sync pair only syncs Google → Notion, skipping Notion polling");
+        return { skipped: "gcal_to_notion" as const };
       }
-    }
+      try {
+        return await pollSyncPair(forceFull);
+      } catch (error) {
+        console.error(`❌ Polling failed for sync pair "${pair.name}":`, error);
+        return { error: error instanceof Error ? error.message : "Unknown error" };
+      }
+    });
 
-    // Note: GCal → Notion deletion detection removed - now handled by webhook
+    const results = pairs.map(({ pair, result }) => ({
+      pairId: pair.id,
+      name: pair.name,
+      ...result,
+    }));
+    const total = (key: "notionEventsSynced" | "syncFailures" | "deletionsFromGcal") =>
+      results.reduce((sum, result) => sum + ("mode" in result ? result[key] : 0), 0);
 
     console.log("✅ Notion fallback polling cron job completed");
-    console.log(`   Notion events synced (fallback): ${notionEvents.length}`);
-    console.log(`   Deletions from GCal: ${deletionsFromGcal}`);
     console.log("ℹ️  Most events should be handled by Notion webhooks (primary method)");
 
     return NextResponse.json({
       status: "success",
-      notionEventsSynced: notionEvents.length,
-      deletionsFromGcal,
+      notionEventsSynced: total("notionEventsSynced"),
+      syncFailures: total("syncFailures"),
+      deletionsFromGcal: total("deletionsFromGcal"),
+      pairs: results,
       timestamp: new Date().toISOString(),
     });
   } catch (error) {
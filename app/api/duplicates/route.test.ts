@@ -0,0 +1,101 @@
+import { NextRequest } from "next/server";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("@/lib/google-calendar/client", () => ({
+  deleteGcalEvent: vi.fn(),
+  fetchSyncedGcalEvents: vi.fn(),
+}));
+
+vi.mock("@/lib/notion/client", () => ({
+  deleteNotionEvent: vi.fn(),
+  fetchNotionEvents: vi.fn(),
+}));
+
+vi.mock("@/lib/settings", () => ({
+  getGoogleConfig: vi.fn(async () => ({
+    calendars: [
+      { calendarId: "primary", name: "Primary", direction: "bidirectional" },
+      { calendarId: "holidays", name: "Holidays", direction: "gcal_to_notion" },
+    ],
+  })),
+  getSyncDirection: vi.fn(async () => "bidirectional"),
+}));
+
+vi.mock("@/lib/sync/compare", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/sync/compare")>()),
+  relinkEvent: vi.fn(),
+  unlinkEvent: vi.fn(),
+}));
+
+vi.mock("@/lib/sync/logger", () => ({
+  logSync: vi.fn(),
+}));
+
+vi.mock("@/lib/sync/mapping", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/sync/mapping")>()),
+  getMappingByNotionId: vi.fn(async () => null),
+}));
+
+import { deleteGcalEvent } from "@/lib/google-calendar/client";
+import { deleteNotionEvent } from "@/lib/notion/client";
+import { getSyncDirection } from "@/lib/settings";
+import { relinkEvent, unlinkEvent } from "@/lib/sync/compare";
+import { POST } from "./route";
+
+const holiday = { side: "gcal", id: "gcal-7", calendarId: "holidays", title: "Easter" };
+const page = { side: "notion", id: "page-7", title: "Easter" };
+
+function post(body: unknown) {
+  return POST(
+    new NextRequest("http://localhost/api/duplicates", {
+      method: "POST",
+      body: JSON.stringify(body),
+    }),
+  );
+}
+
+describe("POST /api/duplicates", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("deletes a copy in a calendar that syncs both ways", async () => {
+    const response = await post({ action: "delete", copy: { ...holiday, calendarId: "primary" } });
+
+    expect(response.status).toBe(200);
+    expect(deleteGcalEvent).toHaveBeenCalledWith("gcal-7", "primary");
+  });
+
+  it("refuses to delete a copy in a read-only calendar", async () => {
+    const response = await post({ action: "delete", copy: holiday });
+
+    expect(response.status).toBe(409);
+    expect(await response.json()).toEqual({
+      error: '"Easter" cannot be deleted: This calendar only syncs Google → Notion',
+    });
+    expect(unlinkEvent).not.toHaveBeenCalled();
+    expect(deleteGcalEvent).not.toHaveBeenCalled();
+  });
+
+  it("refuses a merge before deleting anything when an extra is read-only", async () => {
+    const response = await post({
+      action: "merge",
+      notionPageId: "page-1",
+      gcalEventId: "gcal-1",
+      extras: [page, holiday],
+    });
+
+    expect(response.status).toBe(409);
+    expect(relinkEvent).not.toHaveBeenCalled();
+    expect(deleteNotionEvent).not.toHaveBeenCalled();
+  });
+
+  it("refuses to delete a Notion copy when the pair only syncs Notion → Google", async () => {
+    vi.mocked(getSyncDirection).mockResolvedValueOnce("notion_to_gcal");
+
+    const response = await post({ action: "delete", copy: page });
+
+    expect(response.status).toBe(409);
+    expect(deleteNotionEvent).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,79 @@
+import { relinkEvent } from "@/lib/sync/compare";
+import {
+  deleteDirectionError,
+  deleteDuplicate,
+  findDuplicates,
+  mergeDuplicates,
+} from "@/lib/sync/duplicates";
+import { duplicateActionSchema } from "@/lib/validation";
+import { type NextRequest, NextResponse } from "next/server";
+
+/**
+ * GET /api/duplicates
+ * Scans both sides for suspected duplicates and orphaned events
+ */
+export async function GET() {
+  try {
+    const groups = await findDuplicates();
+    return NextResponse.json({ groups });
+  } catch (error) {
+    console.error("Error scanning for duplicates:", error);
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * POST /api/duplicates
+ * Merge a group, link a page to an existing event, or delete an extra copy. Copies on a side
+ * the sync pair never writes to are not deleted.
+ *
+ * Body: { action: "merge", notionPageId?, gcalEventId?, extras }
+ *     | { action: "relink", notionPageId, gcalEventId } | { action: "delete", copy }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const result = duplicateActionSchema.safeParse(body);
+
+    if (!result.success) {
+      const errors = result.error.errors.map((e) => `${e.path.join(".")}: ${e.message}`).join(", ");
+      return NextResponse.json({ error: "Validation failed", details: errors }, { status: 400 });
+    }
+
+    const action = result.data;
+    if (action.action !== "relink") {
+      const directionError = await deleteDirectionError(
+        action.action === "merge" ? action.extras : [action.copy],
+      );
+      if (directionError) {
+        return NextResponse.json({ error: directionError }, { status: 409 });
+      }
+    }
+
+    if (action.action === "merge") {
+      const { notionPageId, gcalEventId, extras } = action;
+      const kept = new Set([notionPageId, gcalEventId]);
+      if (extras.some((copy) => kept.has(copy.id))) {
+        return NextResponse.json({ error: "A kept copy cannot be deleted" }, { status: 400 });
+      }
+      await mergeDuplicates({ notionPageId, gcalEventId }, extras);
+    } else if (action.action === "relink") {
+      await relinkEvent(action.notionPageId, action.gcalEventId);
+    } else {
+      await deleteDuplicate(action.copy);
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error fixing duplicates:", error);
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,140 @@
+import type { Event } from "@/lib/types";
+import { NextRequest } from "next/server";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("@/lib/google-calendar/client", () => ({
+  getCalendarTimeZone: vi.fn(async () => "UTC"),
+  getGcalEvent: vi.fn(),
+  updateGcalEvent: vi.fn(),
+}));
+
+vi.mock("@/lib/notion/client", () => ({
+  getNotionEvent: vi.fn(),
+  updateNotionEvent: vi.fn(),
+}));
+
+vi.mock("@/lib/settings", () => ({
+  getGoogleConfig: vi.fn(),
+  getSyncDirection: vi.fn(async () => "bidirectional"),
+}));
+
+vi.mock("@/lib/sync/logger", () => ({
+  logSync: vi.fn(),
+}));
+
+vi.mock("@/lib/sync/mapping", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/sync/mapping")>()),
+  deleteMappingByNotionId: vi.fn(),
+  getMappingByGcalId: vi.fn(),
+  getMappingByNotionId: vi.fn(),
+  saveMapping: vi.fn(),
+}));
+
+import { getGcalEvent, updateGcalEvent } from "@/lib/google-calendar/client";
+import { getNotionEvent, updateNotionEvent } from "@/lib/notion/client";
+import { getGoogleConfig } from "@/lib/settings";
+import { getMappingByGcalId, getMappingByNotionId, saveMapping } from "@/lib/sync/mapping";
+import type { SyncDirection } from "@/lib/validation";
+import { POST } from "./route";
+
+const PAGE_ID = "0f3c2b9a-1d4e-4f60-8a7b-2c9d1e0f3a4b";
+const OTHER_PAGE_ID = "9a8b7c6d-5e4f-4a3b-9c2d-1e0f9a8b7c6d";
+
+const event: Event = {
+  id: "gcal1",
+  title: "Planning",
+  startTime: new Date("2026-03-03T09:00:00.000Z"),
+  endTime: new Date("2026-03-03T10:00:00.000Z"),
+  calendarId: "work",
+};
+
+const mapping = {
+  notionPageId: PAGE_ID,
+  gcalEventId: "gcal1",
+  calendarId: "work",
+  createdAt: "2026-03-01T00:00:00.000Z",
+  updatedAt: "2026-03-01T00:00:00.000Z",
+  lastSyncedAt: "2026-03-01T00:00:00.000Z",
+};
+
+function workCalendar(direction: SyncDirection) {
+  vi.mocked(getGoogleConfig).mockResolvedValue({
+    calendarId: "work",
+    calendars: [{ calendarId: "work", name: "Work", direction }],
+  } as Awaited<ReturnType<typeof getGoogleConfig>>);
+}
+
+function post(body: unknown) {
+  const request = new NextRequest("http://localhost/api/events/gcal1/sides", {
+    method: "POST",
+    body: JSON.stringify(body),
+  });
+  return POST(request, { params: Promise.resolve({ eventId: "gcal1" }) });
+}
+
+describe("POST /api/events/[eventId]/sides", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    workCalendar("bidirectional");
+    vi.mocked(getMappingByNotionId).mockImplementation(async (id) =>
+      id === PAGE_ID ? mapping : null,
+    );
+    vi.mocked(getMappingByGcalId).mockImplementation(async (id) =>
+      id === "gcal1" ? mapping : null,
+    );
+    vi.mocked(getNotionEvent).mockResolvedValue({ ...event, id: PAGE_ID });
+    vi.mocked(getGcalEvent).mockResolvedValue(event);
+  });
+
+  it("pushes to Google for a calendar that syncs both ways", async () => {
+    const response = await post({ action: "push" });
+
+    expect(response.status).toBe(200);
+    expect(updateGcalEvent).toHaveBeenCalledWith(
+      "gcal1",
+      expect.objectContaining({ notionPageId: PAGE_ID }),
+      "work",
+    );
+  });
+
+  it("refuses to push to a calendar that only syncs Google → Notion", async () => {
+    workCalendar("gcal_to_notion");
+
+    const response = await post({ action: "push" });
+
+    expect(response.status).toBe(409);
+    expect(await response.json()).toEqual({ error: "This calendar only syncs Google → Notion" });
+    expect(updateGcalEvent).not.toHaveBeenCalled();
+  });
+
+  it("refuses to pull from a calendar that only syncs Notion → Google", async () => {
+    workCalendar("notion_to_gcal");
+
+    const response = await post({ action: "pull" });
+
+    expect(response.status).toBe(409);
+    expect(updateNotionEvent).not.toHaveBeenCalled();
+  });
+
+  it("unlinks without writing to a read-only calendar", async () => {
+    workCalendar("gcal_to_notion");
+
+    const response = await post({ action: "unlink" });
+
+    expect(response.status).toBe(200);
+    expect(updateNotionEvent).toHaveBeenCalledWith(PAGE_ID, { gcalEventId: "" });
+    expect(updateGcalEvent).not.toHaveBeenCalled();
+  });
+
+  it("relinks without writing to a read-only calendar", async () => {
+    workCalendar("gcal_to_notion");
+
+    const response = await post({ action: "relink", targetId: OTHER_PAGE_ID });
+
+    expect(response.status).toBe(200);
+    expect(updateGcalEvent).not.toHaveBeenCalled();
+    expect(saveMapping).toHaveBeenCalledWith(
+      expect.objectContaining({ notionPageId: OTHER_PAGE_ID, gcalEventId: "gcal1" }),
+    );
+  });
+});
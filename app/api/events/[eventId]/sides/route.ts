@@ -0,0 +1,87 @@
+import {
+  compareEvent,
+  copyDirectionError,
+  copyEventSide,
+  relinkEvent,
+  unlinkEvent,
+} from "@/lib/sync/compare";
+import { eventActionSchema } from "@/lib/validation";
+import { type NextRequest, NextResponse } from "next/server";
+
+interface RouteParams {
+  params: Promise<{ eventId: string }>;
+}
+
+/**
+ * GET /api/events/[eventId]/sides
+ * Returns the live Notion page and Google event of an event with the fields that differ
+ */
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { eventId } = await params;
+    const comparison = await compareEvent(eventId);
+
+    if (!comparison) {
+      return NextResponse.json({ error: "Event not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(comparison);
+  } catch (error) {
+    console.error("Error comparing event:", error);
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * POST /api/events/[eventId]/sides
+ * Push Notion → Google, pull Google → Notion, unlink, or relink to another event.
+ * Unlinking and relinking leave Google events in read-only calendars as they are.
+ *
+ * Body: { action: "push" | "pull" | "unlink" } or { action: "relink", targetId }
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { eventId } = await params;
+    const body = await request.json();
+    const result = eventActionSchema.safeParse(body);
+
+    if (!result.success) {
+      const errors = result.error.errors.map((e) => `${e.path.join(".")}: ${e.message}`).join(", ");
+      return NextResponse.json({ error: "Validation failed", details: errors }, { status: 400 });
+    }
+
+    const action = result.data;
+    if (action.action === "relink") {
+      await relinkEvent(eventId, action.targetId);
+      return NextResponse.json({ success: true });
+    }
+
+    if (action.action === "unlink") {
+      if (!(await unlinkEvent(eventId))) {
+        return NextResponse.json({ error: "Event is not linked" }, { status: 404 });
+      }
+      return NextResponse.json({ success: true });
+    }
+
+    const from = action.action === "push" ? "notion" : "gcal";
+    const directionError = await copyDirectionError(eventId, from);
+    if (directionError) {
+      return NextResponse.json({ error: directionError }, { status: 409 });
+    }
+    if (!(await copyEventSide(eventId, from))) {
+      return NextResponse.json({ error: "Event is not linked" }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error updating event link:", error);
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 },
+    );
+  }
+}
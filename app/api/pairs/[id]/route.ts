@@ -0,0 +1,94 @@
+import {
+  DEFAULT_SYNC_PAIR_ID,
+  deleteSyncPair,
+  getActiveSyncPairId,
+  renameSyncPair,
+  runWithSyncPair,
+  SYNC_PAIR_COOKIE,
+} from "@/lib/settings";
+import { clearMappings } from "@/lib/sync/mapping";
+import { deleteNotionWebhook, getWebhookChannels } from "@/lib/webhook/channel-manager";
+import { unwatchCalendar } from "@/lib/webhook/gcal-channels";
+import { type NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+const renamePairSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(60),
+});
+
+/**
+ * PATCH /api/pairs/[id]
+ * Rename a sync pair
+ *
+ * Body: { name: string }
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const result = renamePairSchema.safeParse(body);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: "Invalid request", details: result.error.errors },
+        { status: 400 },
+      );
+    }
+
+    const renamed = await renameSyncPair(decodeURIComponent(id), result.data.name);
+    if (!renamed) {
+      return NextResponse.json({ error: "Sync pair not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error renaming sync pair:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * DELETE /api/pairs/[id]
+ * Delete a sync pair, stopping its webhook channels and dropping its ID mappings.
+ * Events already synced stay in Notion and Google Calendar.
+ */
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const pairId = decodeURIComponent((await params).id);
+    if (pairId === DEFAULT_SYNC_PAIR_ID) {
+      return NextResponse.json({ error: "The default sync pair can't be deleted" }, { status: 400 });
+    }
+
+    await runWithSyncPair(pairId, async () => {
+      for (const channel of await getWebhookChannels()) {
+        await unwatchCalendar(channel);
+      }
+      await deleteNotionWebhook();
+      await clearMappings();
+    });
+
+    const deleted = await deleteSyncPair(pairId);
+    if (!deleted) {
+      return NextResponse.json({ error: "Sync pair not found" }, { status: 404 });
+    }
+
+    const response = NextResponse.json({ success: true });
+    if ((await getActiveSyncPairId()) === pairId) {
+      response.cookies.delete(SYNC_PAIR_COOKIE);
+    }
+    return response;
+  } catch (error) {
+    console.error("Error deleting sync pair:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,44 @@
+import { getSyncPairs, SYNC_PAIR_COOKIE } from "@/lib/settings";
+import { type NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+const selectPairSchema = z.object({
+  pairId: z.string().min(1),
+});
+
+/**
+ * PUT /api/pairs/active
+ * Select the sync pair the UI shows and configures
+ *
+ * Body: { pairId: string }
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const result = selectPairSchema.safeParse(body);
+
+    if (!result.success) {
+      return NextResponse.json({ error: "Invalid request" }, { status: 400 });
+    }
+
+    const pairs = await getSyncPairs();
+    if (!pairs.some((pair) => pair.id === result.data.pairId)) {
+      return NextResponse.json({ error: "Sync pair not found" }, { status: 404 });
+    }
+
+    const response = NextResponse.json({ success: true, activePairId: result.data.pairId });
+    response.cookies.set(SYNC_PAIR_COOKIE, result.data.pairId, {
+      path: "/",
+      sameSite: "lax",
+      httpOnly: true,
+      maxAge: 60 * 60 * 24 * 365,
+    });
+    return response;
+  } catch (error) {
+    console.error("Error selecting sync pair:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,65 @@
+import { createSyncPair, getActiveSyncPairId, getSyncPairs } from "@/lib/settings";
+import { type NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+const createPairSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(60),
+});
+
+/**
+ * GET /api/pairs
+ * List sync pairs and the one selected in the sidebar
+ */
+export async function GET() {
+  try {
+    const [pairs, activePairId] = await Promise.all([getSyncPairs(), getActiveSyncPairId()]);
+
+    return NextResponse.json({
+      pairs: pairs.map((pair) => ({
+        id: pair.id,
+        name: pair.name,
+        databaseName: pair.notion.databaseName || null,
+        calendarName: pair.google.calendarName || null,
+        configured: Boolean(pair.notion.databaseId && pair.google.calendarId),
+      })),
+      activePairId: pairs.some((pair) => pair.id === activePairId)
+        ? activePairId
+        : pairs[0]?.id,
+    });
+  } catch (error) {
+    console.error("Error listing sync pairs:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * POST /api/pairs
+ * Create a sync pair; its database and calendar are chosen in the setup wizard
+ *
+ * Body: { name: string }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const result = createPairSchema.safeParse(body);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: "Invalid request", details: result.error.errors },
+        { status: 400 },
+      );
+    }
+
+    const pair = await createSyncPair(result.data.name);
+    return NextResponse.json({ pair: { id: pair.id, name: pair.name } }, { status: 201 });
+  } catch (error) {
+    console.error("Error creating sync pair:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 },
+    );
+  }
+}
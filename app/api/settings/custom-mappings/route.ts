@@ -0,0 +1,100 @@
+/**
+ * Settings API - Custom Field Mappings
+ * GET: Get the custom mapping rules of the active sync pair
+ * PUT: Replace them, after validating them against the Notion database schema
+ */
+
+import {
+  DEFAULT_EXTENDED_FIELD_MAPPING,
+  ensureExtendedFieldMapping,
+  getSettings,
+  updateSettings,
+  validateCustomMappings,
+} from "@/lib/settings";
+import type { CustomFieldMapping } from "@/lib/settings/types";
+import { Client } from "@notionhq/client";
+import { type NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+const customMappingSchema = z.object({
+  id: z.string().min(1),
+  enabled: z.boolean(),
+  gcalPath: z.string().trim().min(1, "Google Calendar path is required"),
+  notionPropertyName: z.string().trim().min(1, "Notion property is required"),
+  propertyType: z.enum(["rich_text", "number", "checkbox", "url", "select", "email", "date"]),
+});
+
+const customMappingsSchema = z.object({
+  customMappings: z.array(customMappingSchema),
+});
+
+/**
+ * GET - Get custom field mappings
+ */
+export async function GET() {
+  try {
+    const settings = await getSettings();
+    return NextResponse.json({ customMappings: settings?.customMappings || [] });
+  } catch (error) {
+    console.error("Error getting custom field mappings:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to get custom field mappings" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * PUT - Replace custom field mappings
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const result = customMappingsSchema.safeParse(body);
+
+    if (!result.success) {
+      const errors = result.error.errors.map((e) => `${e.path.join(".")}: ${e.message}`).join(", ");
+      return NextResponse.json({ error: "Validation failed", details: errors }, { status: 400 });
+    }
+
+    const customMappings: CustomFieldMapping[] = result.data.customMappings;
+    const settings = await getSettings();
+
+    if (customMappings.some((rule) => rule.enabled)) {
+      if (!settings?.notion?.apiToken || !settings?.notion?.databaseId) {
+        return NextResponse.json(
+          { error: "Notion not configured. Please complete the Notion setup first." },
+          { status: 400 },
+        );
+      }
+
+      // Rules are checked against the database as it is now
+      const notion = new Client({ auth: settings.notion.apiToken });
+      const database = await notion.databases.retrieve({
+        database_id: settings.notion.databaseId,
+      });
+      const notionProperties = Object.entries(database.properties).map(([name, prop]) => ({
+        name,
+        type: prop.type,
+      }));
+      const fieldMapping = settings.fieldMapping
+        ? ensureExtendedFieldMapping(settings.fieldMapping)
+        : DEFAULT_EXTENDED_FIELD_MAPPING;
+
+      const error = validateCustomMappings(customMappings, notionProperties, fieldMapping);
+      if (error) {
+        return NextResponse.json({ error }, { status: 400 });
+      }
+    }
+
+    await updateSettings({ customMappings });
+
+    return NextResponse.json({ success: true, customMappings });
+  } catch (error) {
+    console.error("Error updating custom field mappings:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to update custom field mappings" },
+      { status: 500 },
+    );
+  }
+}
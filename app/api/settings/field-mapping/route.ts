@@ -4,6 +4,7 @@
  * PUT: Update field mapping
  */
 
+import { validateTransforms } from "@/lib/events/transforms";
 import {
   DEFAULT_EXTENDED_FIELD_MAPPING,
   ensureExtendedFieldMapping,
@@ -15,13 +16,38 @@ import { Client } from "@notionhq/client";
 import { type NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 
+// Schema for a value transform step
+const transformSchema = z
+  .discriminatedUnion("type", [
+    z.object({ type: z.literal("map"), values: z.record(z.string()) }),
+    z.object({ type: z.literal("template"), template: z.string() }),
+    z.object({ type: z.literal("replace"), pattern: z.string().min(1), replacement: z.string() }),
+  ])
+  .and(z.object({ side: z.enum(["notion", "gcal"]), calendar: z.string().optional() }));
+
 // Schema for a single field config
 const fieldConfigSchema = z.object({
   enabled: z.boolean(),
   notionPropertyName: z.string(),
   displayLabel: z.string(),
-  propertyType: z.enum(["title", "rich_text", "number", "date", "checkbox", "url", "select"]),
+  propertyType: z.enum([
+    "title",
+    "rich_text",
+    "number",
+    "date",
+    "checkbox",
+    "url",
+    "select",
+    "multi_select",
+    "email",
+    "people",
+    "status",
+    "relation",
+    "formula",
+  ]),
   required: z.boolean(),
+  conflictPolicy: z.enum(["notion_wins", "gcal_wins", "newest_wins", "manual"]).optional(),
+  transforms: z.array(transformSchema).optional(),
 });
 
 // Schema for ExtendedFieldMapping
@@ -36,8 +62,11 @@ const extendedFieldMappingSchema = z.object({
   organizer: fieldConfigSchema,
   conferenceLink: fieldConfigSchema,
   recurrence: fieldConfigSchema,
+  rrule: fieldConfigSchema,
   color: fieldConfigSchema,
   visibility: fieldConfigSchema,
+  calendar: fieldConfigSchema,
+  status: fieldConfigSchema,
 });
 
 /**
@@ -137,6 +166,14 @@ export async function PUT(request: NextRequest) {
       );
     }
 
+    // Validate value transforms
+    for (const [field, config] of Object.entries(fieldMapping)) {
+      const transformError = validateTransforms(field, (config as FieldConfig).transforms ?? []);
+      if (transformError) {
+        return NextResponse.json({ error: transformError }, { status: 400 });
+      }
+    }
+
     // Validate no duplicate Notion property mappings
     const propertyUsage = new Map<string, string[]>();
     for (const [, config] of Object.entries(fieldMapping)) {
@@ -149,6 +186,13 @@ export async function PUT(request: NextRequest) {
       propertyUsage.set(propName, [...existing, fieldConfig.displayLabel]);
     }
 
+    // Custom mappings keep their properties too
+    const settings = await getSettings();
+    for (const rule of settings?.customMappings || []) {
+      if (!rule.enabled || !propertyUsage.has(rule.notionPropertyName)) continue;
+      propertyUsage.get(rule.notionPropertyName)?.push(rule.gcalPath);
+    }
+
     const duplicates = [...propertyUsage.entries()].filter(([, fields]) => fields.length > 1);
     if (duplicates.length > 0) {
       const [propName, fields] = duplicates[0];
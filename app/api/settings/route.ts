@@ -1,12 +1,15 @@
 /**
  * Settings API
  * GET: Get current settings (with sensitive fields masked)
- * PUT: Update settings (field mapping only)
+ * PUT: Update settings (field mapping, sync direction, time zone, page content sync and OAuth
+ * app flag)
  */
 
 import { getGoogleClientConfig } from "@/lib/env";
 import { getSettings, updateSettings } from "@/lib/settings";
 import type { FieldMapping } from "@/lib/settings/types";
+import { isValidTimeZone } from "@/lib/time-zone";
+import { syncDirectionSchema } from "@/lib/validation";
 import { NextResponse } from "next/server";
 
 /**
@@ -25,9 +28,11 @@ export async function GET() {
           calendarId: null,
           calendarName: null,
           connectedAt: null,
+          timeZone: null,
         },
         notion: null,
         fieldMapping: null,
+        syncDirection: "bidirectional",
         setupCompleted: false,
       });
     }
@@ -41,15 +46,18 @@ export async function GET() {
         calendarName: settings.google?.calendarName || null,
         connectedAt: settings.google?.connectedAt || null,
         oauthAppPublished: settings.google?.oauthAppPublished || false,
+        timeZone: settings.google?.timeZone || null,
       },
       notion: settings.notion
         ? {
             databaseId: settings.notion.databaseId || null,
             databaseName: settings.notion.databaseName || null,
             isConnected: !!settings.notion.apiToken,
+            syncPageContent: settings.notion.syncPageContent || false,
           }
         : null,
       fieldMapping: settings.fieldMapping || null,
+      syncDirection: settings.syncDirection || "bidirectional",
       setupCompleted: settings.setupCompleted,
     });
   } catch (error) {
@@ -62,7 +70,8 @@ export async function GET() {
 }
 
 /**
- * PUT - Update settings (field mapping and oauthAppPublished allowed via this endpoint)
+ * PUT - Update settings (field mapping, syncDirection, timeZone, syncPageContent and
+ * oauthAppPublished)
  */
 export async function PUT(request: Request) {
   try {
@@ -81,6 +90,15 @@ export async function PUT(request: Request) {
       };
     }
 
+    // Allow updating the active sync pair's direction
+    if (body.syncDirection !== undefined) {
+      const direction = syncDirectionSchema.safeParse(body.syncDirection);
+      if (!direction.success) {
+        return NextResponse.json({ error: "Invalid sync direction" }, { status: 400 });
+      }
+      updates.syncDirection = direction.data;
+    }
+
     // Allow updating oauthAppPublished flag
     if (typeof body.oauthAppPublished === "boolean") {
       // updateSettings does a deep merge, so we only need to provide the field to update
@@ -89,6 +107,24 @@ export async function PUT(request: Request) {
       >[0]["google"];
     }
 
+    // Allow overriding the time zone events are written in (null restores the calendar's own)
+    if (body.timeZone !== undefined) {
+      if (body.timeZone !== null && !isValidTimeZone(body.timeZone)) {
+        return NextResponse.json({ error: "Invalid time zone" }, { status: 400 });
+      }
+      updates.google = {
+        ...updates.google,
+        timeZone: body.timeZone || undefined,
+      } as Parameters<typeof updateSettings>[0]["google"];
+    }
+
+    // Allow copying the Notion page body to and from the Google event description
+    if (typeof body.syncPageContent === "boolean") {
+      updates.notion = { syncPageContent: body.syncPageContent } as Parameters<
+        typeof updateSettings
+      >[0]["notion"];
+    }
+
     if (Object.keys(updates).length > 0) {
       await updateSettings(updates);
     }
@@ -99,6 +135,9 @@ export async function PUT(request: Request) {
       success: true,
       fieldMapping: settings?.fieldMapping || null,
       oauthAppPublished: settings?.google?.oauthAppPublished || false,
+      syncDirection: settings?.syncDirection || "bidirectional",
+      timeZone: settings?.google?.timeZone || null,
+      syncPageContent: settings?.notion?.syncPageContent || false,
     });
   } catch (error) {
     console.error("Error updating settings:", error);
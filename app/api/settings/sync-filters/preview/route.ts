@@ -0,0 +1,61 @@
+/**
+ * Settings API - Sync Filter Preview
+ * POST: Dry run of unsaved sync filters, counting the events they would sync.
+ * Covers the same events as a manual sync, without syncing anything.
+ */
+
+import { fetchSyncedGcalEvents } from "@/lib/google-calendar/client";
+import { fetchNotionEvents } from "@/lib/notion/client";
+import { getSyncDirection } from "@/lib/settings";
+import type { Event } from "@/lib/types";
+import { syncFiltersSchema } from "@/lib/validation";
+import { type NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+const previewSchema = z.object({ syncFilters: syncFiltersSchema });
+
+function countIncluded(events: Event[]) {
+  return {
+    total: events.length,
+    included: events.filter((event) => !event.excluded).length,
+  };
+}
+
+/**
+ * POST - Count the events each side would sync with the given filters
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const result = previewSchema.safeParse(body);
+
+    if (!result.success) {
+      const errors = result.error.errors.map((e) => `${e.path.join(".")}: ${e.message}`).join(", ");
+      return NextResponse.json({ error: "Validation failed", details: errors }, { status: 400 });
+    }
+
+    const { syncFilters } = result.data;
+    const direction = await getSyncDirection();
+    const [notionEvents, gcalEvents] = await Promise.all([
+      direction === "gcal_to_notion" ? null : fetchNotionEvents({ syncFilters }),
+      direction === "notion_to_gcal"
+        ? null
+        : fetchSyncedGcalEvents(
+            new Date(Date.now() - 30 * 24 * 60 * 60 * 1000),
+            undefined,
+            syncFilters,
+          ),
+    ]);
+
+    return NextResponse.json({
+      notion: notionEvents && countIncluded(notionEvents),
+      gcal: gcalEvents && countIncluded(gcalEvents),
+    });
+  } catch (error) {
+    console.error("Error previewing sync filters:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to preview sync filters" },
+      { status: 500 },
+    );
+  }
+}
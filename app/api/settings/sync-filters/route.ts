@@ -0,0 +1,80 @@
+/**
+ * Settings API - Sync Filters
+ * GET: Get the sync filters of the active sync pair
+ * PUT: Replace them, after checking Notion filters against the database schema
+ */
+
+import { validateSyncFilters } from "@/lib/events/filters";
+import { getSettings, updateSettings } from "@/lib/settings";
+import type { SyncFilter } from "@/lib/settings/types";
+import { syncFiltersSchema } from "@/lib/validation";
+import { Client } from "@notionhq/client";
+import { type NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+const updateSchema = z.object({ syncFilters: syncFiltersSchema });
+
+/**
+ * GET - Get sync filters
+ */
+export async function GET() {
+  try {
+    const settings = await getSettings();
+    return NextResponse.json({ syncFilters: settings?.syncFilters || [] });
+  } catch (error) {
+    console.error("Error getting sync filters:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to get sync filters" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * PUT - Replace sync filters
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const result = updateSchema.safeParse(body);
+
+    if (!result.success) {
+      const errors = result.error.errors.map((e) => `${e.path.join(".")}: ${e.message}`).join(", ");
+      return NextResponse.json({ error: "Validation failed", details: errors }, { status: 400 });
+    }
+
+    const syncFilters: SyncFilter[] = result.data.syncFilters;
+    const settings = await getSettings();
+
+    // Notion filters are checked against the database as it is now
+    let notionProperties: string[] = [];
+    if (syncFilters.some((filter) => filter.enabled && filter.source === "notion")) {
+      if (!settings?.notion?.apiToken || !settings?.notion?.databaseId) {
+        return NextResponse.json(
+          { error: "Notion not configured. Please complete the Notion setup first." },
+          { status: 400 },
+        );
+      }
+      const notion = new Client({ auth: settings.notion.apiToken });
+      const database = await notion.databases.retrieve({
+        database_id: settings.notion.databaseId,
+      });
+      notionProperties = Object.keys(database.properties);
+    }
+
+    const error = validateSyncFilters(syncFilters, notionProperties);
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    await updateSettings({ syncFilters });
+
+    return NextResponse.json({ success: true, syncFilters });
+  } catch (error) {
+    console.error("Error updating sync filters:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to update sync filters" },
+      { status: 500 },
+    );
+  }
+}
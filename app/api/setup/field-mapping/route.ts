@@ -5,6 +5,7 @@
  */
 
 import { env } from "@/lib/env";
+import { validateTransforms } from "@/lib/events/transforms";
 import {
   DEFAULT_EXTENDED_FIELD_MAPPING,
   ensureExtendedFieldMapping,
@@ -16,13 +17,38 @@ import { Client } from "@notionhq/client";
 import { type NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 
+// Schema for a value transform step
+const transformSchema = z
+  .discriminatedUnion("type", [
+    z.object({ type: z.literal("map"), values: z.record(z.string()) }),
+    z.object({ type: z.literal("template"), template: z.string() }),
+    z.object({ type: z.literal("replace"), pattern: z.string().min(1), replacement: z.string() }),
+  ])
+  .and(z.object({ side: z.enum(["notion", "gcal"]), calendar: z.string().optional() }));
+
 // Schema for a single field config
 const fieldConfigSchema = z.object({
   enabled: z.boolean(),
   notionPropertyName: z.string(),
   displayLabel: z.string(),
-  propertyType: z.enum(["title", "rich_text", "number", "date", "checkbox", "url", "select"]),
+  propertyType: z.enum([
+    "title",
+    "rich_text",
+    "number",
+    "date",
+    "checkbox",
+    "url",
+    "select",
+    "multi_select",
+    "email",
+    "people",
+    "status",
+    "relation",
+    "formula",
+  ]),
   required: z.boolean(),
+  conflictPolicy: z.enum(["notion_wins", "gcal_wins", "newest_wins", "manual"]).optional(),
+  transforms: z.array(transformSchema).optional(),
 });
 
 // Schema for ExtendedFieldMapping
@@ -37,8 +63,11 @@ const extendedFieldMappingSchema = z.object({
   organizer: fieldConfigSchema,
   conferenceLink: fieldConfigSchema,
   recurrence: fieldConfigSchema,
+  rrule: fieldConfigSchema,
   color: fieldConfigSchema,
   visibility: fieldConfigSchema,
+  calendar: fieldConfigSchema,
+  status: fieldConfigSchema,
 });
 
 /**
@@ -154,6 +183,14 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Validate value transforms
+    for (const [field, config] of Object.entries(fieldMapping)) {
+      const transformError = validateTransforms(field, (config as FieldConfig).transforms ?? []);
+      if (transformError) {
+        return NextResponse.json({ error: transformError }, { status: 400 });
+      }
+    }
+
     // Validate no duplicate Notion property mappings
     const propertyUsage = new Map<string, string[]>();
     for (const [fieldKey, config] of Object.entries(fieldMapping)) {
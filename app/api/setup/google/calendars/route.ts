@@ -2,11 +2,13 @@
  * Setup API - List Google Calendars
  * GET: List available calendars for selection
  * POST: Select a calendar to sync
+ * PUT: Set the additional calendars mirrored into the Notion database
  */
 
 import { getGoogleClientConfig } from "@/lib/env";
 import { resetGcalClient } from "@/lib/google-calendar/client";
 import { getSettings, updateSettings } from "@/lib/settings";
+import { syncDirectionSchema } from "@/lib/validation";
 import { calendar } from "@googleapis/calendar";
 import { OAuth2Client } from "google-auth-library";
 import { type NextRequest, NextResponse } from "next/server";
@@ -64,6 +66,7 @@ export async function GET() {
       return NextResponse.json({
         calendars,
         selectedCalendarId: settings.google.calendarId,
+        syncedCalendars: settings.google.calendars || [],
       });
     } catch (calendarError) {
       // Handle specific Google API errors
@@ -188,3 +191,62 @@ export async function POST(request: NextRequest) {
     );
   }
 }
+
+const syncedCalendarsSchema = z.object({
+  calendars: z.array(
+    z.object({
+      calendarId: z.string().min(1, "Calendar ID is required"),
+      name: z.string().min(1, "Calendar name is required"),
+      direction: syncDirectionSchema,
+    }),
+  ),
+});
+
+/**
+ * PUT - Set the synced calendars
+ * Each calendar is mirrored into the Notion database, identified by its name in the
+ * Calendar select property.
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const result = syncedCalendarsSchema.safeParse(body);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: "Invalid request", details: result.error.errors },
+        { status: 400 },
+      );
+    }
+
+    const names = result.data.calendars.map((cal) => cal.name);
+    if (new Set(names).size !== names.length) {
+      return NextResponse.json(
+        { error: "Calendar names must be unique", details: "Names identify calendars in Notion." },
+        { status: 400 },
+      );
+    }
+
+    const settings = await getSettings();
+    if (!settings?.google) {
+      return NextResponse.json({ error: "Google not connected" }, { status: 400 });
+    }
+
+    await updateSettings({
+      google: {
+        ...settings.google,
+        calendars: result.data.calendars,
+      },
+    });
+
+    resetGcalClient();
+
+    return NextResponse.json({ status: "success", calendars: result.data.calendars });
+  } catch (error) {
+    console.error("Error saving synced calendars:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to save synced calendars" },
+      { status: 500 },
+    );
+  }
+}
@@ -11,7 +11,18 @@ import { z } from "zod";
 
 const propertySchema = z.object({
   name: z.string().min(1, "Property name is required"),
-  type: z.enum(["title", "rich_text", "number", "date", "checkbox", "url", "select"]),
+  type: z.enum([
+    "title",
+    "rich_text",
+    "number",
+    "date",
+    "checkbox",
+    "url",
+    "select",
+    "multi_select",
+    "email",
+    "people",
+  ]),
 });
 
 type PropertyType = z.infer<typeof propertySchema>["type"];
@@ -62,6 +73,12 @@ export async function POST(request: NextRequest) {
           return { [name]: { url: {} } };
         case "select":
           return { [name]: { select: { options: [] } } };
+        case "multi_select":
+          return { [name]: { multi_select: { options: [] } } };
+        case "email":
+          return { [name]: { email: {} } };
+        case "people":
+          return { [name]: { people: {} } };
       }
     };
 
@@ -1,18 +1,17 @@
 import {
-  fetchGcalEventsSince,
-  setupGcalWebhook,
-  stopGcalWebhook,
-} from "@/lib/google-calendar/client";
-import { getGoogleConfig, getNotionConfig } from "@/lib/settings";
+  getActiveSyncPairId,
+  getGoogleConfig,
+  getNotionConfig,
+  withSyncPairParam,
+} from "@/lib/settings";
 import {
-  deleteWebhookChannel,
   getNotionWebhook,
   getWebhookChannel,
+  getWebhookChannels,
   isChannelExpired,
   saveNotionWebhook,
-  saveWebhookChannel,
-  updateSyncState,
 } from "@/lib/webhook/channel-manager";
+import { unwatchCalendar, watchCalendar } from "@/lib/webhook/gcal-channels";
 import { getSyncStatus } from "@/lib/webhook/status";
 import { type NextRequest, NextResponse } from "next/server";
 
@@ -90,7 +89,17 @@ function hasValidExternalWebhookUrl(): boolean {
   }
 }
 
-function buildWebhookUrl(request: NextRequest, provider: "google" | "notion"): string {
+/**
+ * Build the webhook URL for the active sync pair.
+ */
+async function buildWebhookUrl(
+  request: NextRequest,
+  provider: "google" | "notion",
+): Promise<string> {
+  return withSyncPairParam(buildBaseWebhookUrl(request, provider), await getActiveSyncPairId());
+}
+
+function buildBaseWebhookUrl(request: NextRequest, provider: "google" | "notion"): string {
   const webhookPath = `/api/webhooks/${provider === "google" ? "google-calendar" : "notion"}`;
 
   // First, check explicit WEBHOOK_URL
@@ -168,6 +177,7 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({
       ...status,
       externalWebhookUrl,
+      notionWebhookUrl: await buildWebhookUrl(request, "notion"),
     });
   } catch (error) {
     console.error("Error fetching sync status:", error);
@@ -209,59 +219,56 @@ async function setupGoogleWebhook(request: NextRequest): Promise<{
   expiresInHours?: number;
 }> {
   try {
-    const googleConfig = await getGoogleConfig();
-    const webhookUrl = buildWebhookUrl(request, "google");
-    const existingChannel = await getWebhookChannel();
-    const calendarMismatch =
-      existingChannel && existingChannel.calendarId !== googleConfig.calendarId;
-    const expired = existingChannel ? isChannelExpired(existingChannel) : false;
-
-    if (existingChannel && !expired && !calendarMismatch) {
-      const expiresAt = new Date(existingChannel.expiration).toISOString();
-      const expiresInHours = Math.round(
-        (existingChannel.expiration - Date.now()) / (1000 * 60 * 60),
-      );
-      return {
-        success: true,
-        message: "Google Calendar webhook already active",
-        expiresAt,
-        expiresInHours,
-      };
-    }
+    const { calendars } = await getGoogleConfig();
+    const webhookUrl = await buildWebhookUrl(request, "google");
+
+    // One channel per synced calendar; active channels are kept as they are
+    let created = 0;
+    let refreshed = 0;
+    let earliestExpiration = Number.POSITIVE_INFINITY;
 
-    if (existingChannel) {
-      try {
-        await stopGcalWebhook(existingChannel.channelId, existingChannel.resourceId);
-      } catch (error) {
-        console.warn("Failed to stop existing Google Calendar webhook:", error);
+    for (const calendar of calendars) {
+      const existingChannel = await getWebhookChannel(calendar.calendarId);
+
+      if (existingChannel && !isChannelExpired(existingChannel)) {
+        earliestExpiration = Math.min(earliestExpiration, existingChannel.expiration);
+        continue;
       }
-      await deleteWebhookChannel();
-    }
 
-    const channelInfo = await setupGcalWebhook(webhookUrl);
+      if (existingChannel) {
+        await unwatchCalendar(existingChannel);
+        refreshed++;
+      } else {
+        created++;
+      }
 
-    await saveWebhookChannel({
-      channelId: channelInfo.channelId,
-      resourceId: channelInfo.resourceId,
-      expiration: channelInfo.expiration,
-      calendarId: googleConfig.calendarId,
-      createdAt: new Date(),
-      lastRenewedAt: new Date(),
-    });
+      const channel = await watchCalendar(calendar.calendarId, webhookUrl);
+      earliestExpiration = Math.min(earliestExpiration, channel.expiration);
+    }
 
-    const result = await fetchGcalEventsSince(undefined);
-    if (result.nextSyncToken) {
-      await updateSyncState(result.nextSyncToken);
+    // Stop channels left behind by calendars that are no longer synced
+    for (const channel of await getWebhookChannels()) {
+      if (!calendars.some((cal) => cal.calendarId === channel.calendarId)) {
+        await unwatchCalendar(channel);
+      }
     }
 
-    const expiresAt = new Date(channelInfo.expiration).toISOString();
-    const expiresInHours = Math.round((channelInfo.expiration - Date.now()) / (1000 * 60 * 60));
+    const expiresAt = new Date(earliestExpiration).toISOString();
+    const expiresInHours = Math.round((earliestExpiration - Date.now()) / (1000 * 60 * 60));
+
+    let message = "Google Calendar webhook already active";
+    if (created > 0) {
+      message = "Google Calendar webhook created";
+    } else if (refreshed > 0) {
+      message = "Google Calendar webhook refreshed";
+    }
+    if (calendars.length > 1) {
+      message += ` for ${calendars.length} calendars`;
+    }
 
     return {
       success: true,
-      message: existingChannel
-        ? "Google Calendar webhook refreshed"
-        : "Google Calendar webhook created",
+      message,
       expiresAt,
       expiresInHours,
     };
@@ -282,7 +289,7 @@ async function setupNotionWebhook(request: NextRequest): Promise<{
 }> {
   try {
     const notionConfig = await getNotionConfig();
-    const webhookUrl = buildWebhookUrl(request, "notion");
+    const webhookUrl = await buildWebhookUrl(request, "notion");
     const existingSubscription = await getNotionWebhook();
 
     // If already marked as verified, return success
@@ -6,6 +6,7 @@
  * Uses Next.js `after()` to guarantee background task completion
  * with Vercel Fluid Compute (default 300s timeout, up to 800s on Pro).
  */
+import { getActiveSyncPairId, runWithSyncPair } from "@/lib/settings";
 import {
   cancelBackfill,
   getBackfillProgress,
@@ -25,9 +26,11 @@ const BACKFILL_FIELDS = [
   "organizer",
   "conferenceLink",
   "recurrence",
+  "rrule",
   "color",
   "visibility",
   "reminders",
+  "status",
 ] as const;
 
 // Request body schema for POST
@@ -83,9 +86,10 @@ export async function POST(request: NextRequest) {
 
     // Schedule background work using Next.js after()
     // Guaranteed to complete within maxDuration (Fluid Compute)
+    const pairId = await getActiveSyncPairId();
     after(async () => {
       try {
-        await startBackfill(fields);
+        await runWithSyncPair(pairId, () => startBackfill(fields));
       } catch (error) {
         console.error("Backfill failed:", error);
       }
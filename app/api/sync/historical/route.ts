@@ -5,9 +5,11 @@
  * Uses Next.js `after()` to guarantee background task completion
  * with Vercel Fluid Compute (default 300s timeout, up to 800s on Pro).
  */
+import { getActiveSyncPairId, getSyncDirection, runWithSyncPair } from "@/lib/settings";
 import {
   MAX_HISTORICAL_DAYS,
   cancelHistoricalSync,
+  getHistoricalSyncPlan,
   getHistoricalSyncPreview,
   getHistoricalSyncProgress,
   resetHistoricalSync,
@@ -29,6 +31,7 @@ const historicalSyncSchema = z.object({
     .min(1, "Days must be at least 1")
     .max(MAX_HISTORICAL_DAYS, `Days cannot exceed ${MAX_HISTORICAL_DAYS}`),
   preview: z.boolean().optional().default(false),
+  dryRun: z.boolean().optional().default(false),
 });
 
 /**
@@ -50,8 +53,9 @@ export async function GET() {
 
 /**
  * POST /api/sync/historical
- * Starts a new historical sync operation or returns a preview
- * Body: { days: number, preview?: boolean }
+ * Starts a new historical sync operation, or returns a preview (event counts)
+ * or a dry run (the full plan of creates and updates)
+ * Body: { days: number, preview?: boolean, dryRun?: boolean }
  */
 export async function POST(request: NextRequest) {
   try {
@@ -66,7 +70,15 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { days, preview } = parsed.data;
+    const { days, preview, dryRun } = parsed.data;
+
+    // Historical sync copies Google Calendar events into Notion
+    if ((await getSyncDirection()) === "notion_to_gcal") {
+      return NextResponse.json(
+        { error: "This sync pair only syncs Notion → Google Calendar" },
+        { status: 409 },
+      );
+    }
 
     // If preview mode, return event counts without syncing
     if (preview) {
@@ -78,6 +90,12 @@ export async function POST(request: NextRequest) {
       });
     }
 
+    // If dry run, return every change the sync would make without syncing
+    if (dryRun) {
+      const plan = await getHistoricalSyncPlan(days);
+      return NextResponse.json({ status: "preview", days, plan });
+    }
+
     // Check if historical sync is already running
     const currentProgress = await getHistoricalSyncProgress();
     if (currentProgress.status === "running") {
@@ -89,9 +107,10 @@ export async function POST(request: NextRequest) {
 
     // Schedule background work using Next.js after()
     // Guaranteed to complete within maxDuration (Fluid Compute)
+    const pairId = await getActiveSyncPairId();
     after(async () => {
       try {
-        await startHistoricalSync(days);
+        await runWithSyncPair(pairId, () => startHistoricalSync(days));
       } catch (error) {
         console.error("Historical sync failed:", error);
       }
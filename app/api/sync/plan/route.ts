@@ -0,0 +1,41 @@
+import { getActiveSyncPairId } from "@/lib/settings";
+import { applySyncPlan } from "@/lib/sync/plan";
+import { applySyncPlanSchema } from "@/lib/validation";
+import { type NextRequest, NextResponse } from "next/server";
+
+/**
+ * POST /api/sync/plan
+ * Applies a reviewed plan from a dry run, re-reading each planned event before syncing it
+ *
+ * Body: { pairId, changes: [{ operation, direction, title, notionPageId?, gcalEventId?,
+ *   calendarId? }] }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const result = applySyncPlanSchema.safeParse(body);
+
+    if (!result.success) {
+      const errors = result.error.errors.map((e) => `${e.path.join(".")}: ${e.message}`).join(", ");
+      return NextResponse.json({ error: "Validation failed", details: errors }, { status: 400 });
+    }
+
+    const { pairId, changes } = result.data;
+    if (pairId !== (await getActiveSyncPairId())) {
+      return NextResponse.json(
+        { error: "The plan was made for another sync pair. Run the dry run again." },
+        { status: 409 },
+      );
+    }
+
+    const applied = await applySyncPlan(changes);
+    return NextResponse.json({ success: applied.errors.length === 0, ...applied });
+  } catch (error) {
+    console.error("Error applying sync plan:", error);
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import { deleteDeadLetterJob, drainSyncQueue, replayDeadLetterJob } from "@/lib/sync/queue";
+import { after, type NextRequest, NextResponse } from "next/server";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * POST /api/sync/queue/[id]
+ * Replay a dead-lettered job by moving it back onto the queue
+ */
+export async function POST(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const replayed = await replayDeadLetterJob(decodeURIComponent(id));
+    if (!replayed) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 });
+    }
+
+    after(() => drainSyncQueue());
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error replaying sync job:", error);
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * DELETE /api/sync/queue/[id]
+ * Discard a dead-lettered job
+ */
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    await deleteDeadLetterJob(decodeURIComponent(id));
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error discarding sync job:", error);
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,20 @@
+import { getDeadLetterJobs, getQueueLength } from "@/lib/sync/queue";
+import { NextResponse } from "next/server";
+
+/**
+ * GET /api/sync/queue
+ * Returns the number of queued sync jobs and the dead-letter list
+ */
+export async function GET() {
+  try {
+    const [pending, deadLetter] = await Promise.all([getQueueLength(), getDeadLetterJobs()]);
+    return NextResponse.json({ pending, deadLetter });
+  } catch (error) {
+    console.error("Error fetching sync queue:", error);
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 },
+    );
+  }
+}
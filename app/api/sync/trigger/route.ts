@@ -1,30 +1,42 @@
-import { fetchGcalEvents } from "@/lib/google-calendar/client";
+import { fetchSyncedGcalEvents } from "@/lib/google-calendar/client";
 import { fetchNotionEvents } from "@/lib/notion/client";
+import { getSyncDirection } from "@/lib/settings";
 import { syncGcalToNotion, syncNotionToGcal } from "@/lib/sync/engine";
-import { NextResponse } from "next/server";
+import { planSync } from "@/lib/sync/plan";
+import { type NextRequest, NextResponse } from "next/server";
 
 /**
  * Manual sync trigger endpoint
- * Performs bidirectional sync between Notion and Google Calendar
+ * Syncs between Notion and Google Calendar in the active sync pair's direction.
+ * With `?dryRun=true`, returns the plan of what the sync would write instead.
  */
-export async function POST() {
+export async function POST(request: NextRequest) {
   try {
-    console.log("🔄 Manual sync triggered...");
+    const dryRun = request.nextUrl.searchParams.get("dryRun") === "true";
+    console.log(dryRun ? "📋 Manual sync dry run triggered..." : "🔄 Manual sync triggered...");
 
     const results = {
       notionToGcal: { synced: 0, errors: 0 },
       gcalToNotion: { synced: 0, errors: 0 },
     };
 
-    // Fetch events from both sources
+    // Fetch events from the sources this pair syncs from
+    const direction = await getSyncDirection();
     const [notionEvents, gcalEvents] = await Promise.all([
-      fetchNotionEvents(),
-      fetchGcalEvents(new Date(Date.now() - 30 * 24 * 60 * 60 * 1000)),
+      direction === "gcal_to_notion" ? [] : fetchNotionEvents(),
+      direction === "notion_to_gcal"
+        ? []
+        : fetchSyncedGcalEvents(new Date(Date.now() - 30 * 24 * 60 * 60 * 1000)),
     ]);
 
     console.log(`Fetched ${notionEvents.length} Notion events`);
     console.log(`Fetched ${gcalEvents.length} Google Calendar events`);
 
+    if (dryRun) {
+      const plan = await planSync("trigger", { notionEvents, gcalEvents });
+      return NextResponse.json({ status: "preview", direction, plan });
+    }
+
     // Sync Notion → Google Calendar
     for (const event of notionEvents) {
       try {
@@ -57,6 +69,7 @@ export async function POST() {
 
     return NextResponse.json({
       status: "success",
+      direction,
       results,
       timestamp: new Date().toISOString(),
     });
@@ -1,15 +1,15 @@
 import { fetchGcalEvents, fetchGcalEventsSince } from "@/lib/google-calendar/client";
 import { getRedis } from "@/lib/redis";
-import { deleteFromNotion, syncGcalToNotion } from "@/lib/sync/engine";
-import { logWebhookEvent } from "@/lib/sync/logger";
+import { getSyncDirection, getSyncPairParam, runWithSyncPair } from "@/lib/settings";
+import { drainSyncQueue, enqueueSyncJob } from "@/lib/sync/queue";
 import { extractHeaders, gcalWebhookHeadersSchema, validateSafe } from "@/lib/validation";
 import {
   clearSyncState,
+  findWebhookChannel,
   getSyncState,
-  getWebhookChannel,
   updateSyncState,
 } from "@/lib/webhook/channel-manager";
-import { type NextRequest, NextResponse } from "next/server";
+import { after, type NextRequest, NextResponse } from "next/server";
 
 // Deduplication key prefix
 const PROCESSED_MESSAGES_KEY = "webhook:processed:";
@@ -28,6 +28,11 @@ export async function GET(request: NextRequest) {
  * Receives notifications when calendar events change
  */
 export async function POST(request: NextRequest) {
+  // Webhooks of additional sync pairs are registered with ?pair=<id>
+  return runWithSyncPair(getSyncPairParam(request.nextUrl), () => handleNotification(request));
+}
+
+async function handleNotification(request: NextRequest) {
   const startTime = Date.now();
 
   try {
@@ -62,12 +67,13 @@ export async function POST(request: NextRequest) {
       messageNumber,
     });
 
-    // Validate channel ID matches stored channel (security)
-    const storedChannel = await getWebhookChannel();
-    if (!storedChannel || channelId !== storedChannel.channelId) {
+    // Validate channel ID matches a stored channel (security); it also identifies the calendar
+    const storedChannel = channelId ? await findWebhookChannel(channelId) : null;
+    if (!storedChannel) {
       console.warn(`⚠️  Invalid webhook channel ID: ${channelId}`);
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
+    const { calendarId } = storedChannel;
 
     // Deduplication: Check if we've already processed this message
     const redis = getRedis();
@@ -97,109 +103,92 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ status: "channel_stopped" }, { status: 410 });
     }
 
+    // Pairs that only sync from Notion never copy Google changes into Notion
+    if ((await getSyncDirection()) === "notion_to_gcal") {
+      console.log("⏭️  Sync pair only syncs Notion → Google, ignoring calendar change");
+      return NextResponse.json({ status: "ignored_direction" });
+    }
+
     // For 'exists' state: events have changed, fetch and process them
-    console.log("📥 Processing Google Calendar changes...");
+    console.log(`📥 Processing Google Calendar changes for ${calendarId}...`);
 
     // Get current sync state
-    const syncState = await getSyncState();
+    const syncState = await getSyncState(calendarId);
     const { syncToken } = syncState;
 
     // Fetch changed events using sync token (incremental sync)
-    let result = await fetchGcalEventsSince(syncToken);
+    let result = await fetchGcalEventsSince(syncToken, calendarId);
 
     // If sync token is invalid, perform full sync
     if (result.invalidToken) {
       console.log("⚠️  Sync token invalid, performing full sync...");
-      await clearSyncState();
+      await clearSyncState(calendarId);
 
       // Fetch all events from the last 30 days
-      const fullEvents = await fetchGcalEvents(new Date(Date.now() - 30 * 24 * 60 * 60 * 1000));
+      const fullEvents = await fetchGcalEvents(
+        new Date(Date.now() - 30 * 24 * 60 * 60 * 1000),
+        undefined,
+        calendarId,
+      );
 
       // For initial sync, we need to establish a sync token
       // Fetch once more to get the sync token
-      result = await fetchGcalEventsSince(undefined);
+      result = await fetchGcalEventsSince(undefined, calendarId);
 
-      // Process all events
+      // Queue all events
       for (const event of fullEvents) {
-        try {
-          await syncGcalToNotion(event);
-        } catch (error) {
-          console.error(`Failed to sync event ${event.title}:`, error);
-          // Continue processing other events
-        }
+        await enqueueSyncJob({
+          type: "gcal_upsert",
+          gcalEventId: event.gcalEventId || event.id,
+          calendarId,
+          webhookEventType: resourceState || "exists",
+        });
       }
     } else {
-      // Process incrementally fetched events
-      console.log(`📊 Processing ${result.events.length} changed events`);
+      // Queue incrementally fetched events; the worker retries failures with backoff
+      console.log(`📊 Queuing ${result.events.length} changed events`);
 
       for (const event of result.events) {
-        try {
-          // Handle deletions and creates/updates
-          if (event.status === "cancelled") {
-            // Event was deleted in Google Calendar
-            if (event.notionPageId) {
-              const eventStartTime = Date.now();
-              console.log(`🗑️  GCal event deleted, removing from Notion: ${event.title}`);
-              await deleteFromNotion(event.notionPageId, event.title);
-
-              await logWebhookEvent({
-                type: "notification",
-                source: "gcal",
-                webhookEventType: resourceState || "exists",
-                action: "delete",
-                eventTitle: event.title,
-                eventId: event.gcalEventId || event.id,
-                status: "success",
-                processingTime: Date.now() - eventStartTime,
-              });
-            } else {
-              console.log(`⚠️  Cancelled event has no Notion page ID: ${event.title}`);
-            }
-          } else {
-            // Event was created or updated in Google Calendar
-            const eventStartTime = Date.now();
-            await syncGcalToNotion(event);
-
-            await logWebhookEvent({
-              type: "notification",
-              source: "gcal",
-              webhookEventType: resourceState || "exists",
-              action: event.notionPageId ? "update" : "create",
-              eventTitle: event.title,
-              eventId: event.gcalEventId || event.id,
-              status: "success",
-              processingTime: Date.now() - eventStartTime,
-            });
-          }
-        } catch (error) {
-          console.error(`Failed to sync event ${event.title}:`, error);
-
-          await logWebhookEvent({
-            type: "notification",
-            source: "gcal",
-            webhookEventType: resourceState || "exists",
+        const gcalEventId = event.gcalEventId || event.id;
+        if (event.status === "cancelled") {
+          // Event was deleted in Google Calendar
+          await enqueueSyncJob({
+            type: "gcal_delete",
+            gcalEventId,
+            calendarId,
+            notionPageId: event.notionPageId,
+            recurringEventId: event.recurringEventId,
+            originalStartTime: event.originalStartTime?.toISOString(),
             eventTitle: event.title,
-            eventId: event.gcalEventId || event.id,
-            status: "failure",
-            error: error instanceof Error ? error.message : "Unknown error",
+            webhookEventType: resourceState || "exists",
+          });
+        } else {
+          // Event was created or updated in Google Calendar
+          await enqueueSyncJob({
+            type: "gcal_upsert",
+            gcalEventId,
+            calendarId,
+            webhookEventType: resourceState || "exists",
           });
-          // Continue processing other events
         }
       }
     }
 
     // Update sync state with new sync token
     if (result.nextSyncToken) {
-      await updateSyncState(result.nextSyncToken);
+      await updateSyncState(calendarId, result.nextSyncToken);
       console.log("✓ Sync token updated");
     }
 
+    // Start working through the queue once the response has been sent
+    after(() => drainSyncQueue());
+
     const processingTime = Date.now() - startTime;
     console.log(`✅ Webhook processing completed in ${processingTime}ms`);
 
     return NextResponse.json({
       status: "success",
-      eventsProcessed: result.events.length,
+      eventsQueued: result.events.length,
       processingTime,
     });
   } catch (error) {
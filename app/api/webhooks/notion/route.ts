@@ -1,17 +1,19 @@
 import crypto from "node:crypto";
-import { findGcalEventByNotionId } from "@/lib/google-calendar/client";
-import { deleteGcalEvent } from "@/lib/google-calendar/client";
-import { getNotionEvent } from "@/lib/notion/client";
-import { getNotionConfig } from "@/lib/settings";
-import { syncNotionToGcal } from "@/lib/sync/engine";
+import {
+  getNotionConfig,
+  getSyncDirection,
+  getSyncPairParam,
+  runWithSyncPair,
+} from "@/lib/settings";
 import { logWebhookEvent } from "@/lib/sync/logger";
+import { drainSyncQueue, enqueueSyncJob } from "@/lib/sync/queue";
 import { notionWebhookPayloadSchema, validateSafe } from "@/lib/validation";
 import {
   getNotionWebhook,
   markNotionWebhookVerified,
   saveNotionWebhook,
 } from "@/lib/webhook/channel-manager";
-import { type NextRequest, NextResponse } from "next/server";
+import { after, type NextRequest, NextResponse } from "next/server";
 
 /**
  * Validate HMAC signature from Notion webhook
@@ -34,8 +36,11 @@ function validateSignature(body: string, signature: string, verificationToken: s
  * - Events: page.content_updated and other events
  */
 export async function POST(request: NextRequest) {
-  const startTime = Date.now();
+  // Webhooks of additional sync pairs are registered with ?pair=<id>
+  return runWithSyncPair(getSyncPairParam(request.nextUrl), () => handleNotification(request));
+}
 
+async function handleNotification(request: NextRequest) {
   try {
     // Read and validate body
     const bodyText = await request.text();
@@ -140,9 +145,16 @@ export async function POST(request: NextRequest) {
     // Notion sends events with type directly as "page.created", "page.content_updated", etc.
     console.log(`📥 Notion webhook event: ${validatedBody.type}`);
 
+    // Pairs that only sync from Google never write Notion changes back
+    if ((await getSyncDirection()) === "gcal_to_notion") {
+      console.log("⏭️  Sync pair only syncs Google → Notion, ignoring Notion change");
+      return NextResponse.json({ message: "Ignored: sync direction is Google → Notion" });
+    }
+
     // Handle page.created, page.content_updated, and page.properties_updated events (same logic)
     // Note: page.properties_updated handles property changes like title, date, etc.
     // page.content_updated handles block content changes
+    // The sync itself runs from the job queue so failures are retried instead of lost
     if (
       validatedBody.type === "page.created" ||
       validatedBody.type === "page.content_updated" ||
@@ -151,109 +163,33 @@ export async function POST(request: NextRequest) {
       const pageId = validatedBody.entity.id;
       const action = validatedBody.type === "page.created" ? "creation" : "update";
 
-      console.log(`🔄 Processing Notion page ${action}: ${pageId}`);
+      console.log(`🔄 Queuing Notion page ${action}: ${pageId}`);
 
-      try {
-        // Fetch the page from Notion
-        const notionEvent = await getNotionEvent(pageId);
-
-        if (notionEvent) {
-          // Sync to Google Calendar (creates or updates)
-          await syncNotionToGcal(notionEvent);
-
-          const processingTime = Date.now() - startTime;
-          console.log(`✅ Synced Notion → GCal (${action}) in ${processingTime}ms`);
-
-          await logWebhookEvent({
-            type: "notification",
-            source: "notion",
-            webhookEventType: validatedBody.type,
-            action: validatedBody.type === "page.created" ? "create" : "update",
-            eventTitle: notionEvent.title,
-            eventId: pageId,
-            status: "success",
-            processingTime,
-          });
-        } else {
-          console.warn(`⚠️  Page ${pageId} not found or not an event page`);
-        }
-      } catch (error) {
-        console.error(`Failed to process Notion webhook for page ${pageId}:`, error);
-        await logWebhookEvent({
-          type: "notification",
-          source: "notion",
-          webhookEventType: validatedBody.type,
-          action: validatedBody.type === "page.created" ? "create" : "update",
-          eventId: pageId,
-          status: "failure",
-          error: error instanceof Error ? error.message : "Unknown error",
-        });
-      }
+      const job = await enqueueSyncJob({
+        type: "notion_upsert",
+        notionPageId: pageId,
+        webhookEventType: validatedBody.type,
+      });
+      after(() => drainSyncQueue());
 
-      return NextResponse.json({ message: "Event processed" });
+      return NextResponse.json({ message: "Event queued", jobId: job.id });
     }
 
     // Handle page.deleted events
-    // Find the corresponding GCal event and delete it in real-time
+    // The queued job finds the corresponding GCal event and deletes it
     if (validatedBody.type === "page.deleted") {
       const pageId = validatedBody.entity.id;
 
-      console.log(`🗑️  Notion page deleted: ${pageId}`);
-      console.log("🔍 Finding corresponding Google Calendar event...");
+      console.log(`🗑️  Notion page deleted, queuing GCal deletion: ${pageId}`);
 
-      try {
-        // Find the GCal event that has this Notion page ID
-        const gcalEvent = await findGcalEventByNotionId(pageId);
-
-        if (gcalEvent) {
-          console.log(
-            `   Found GCal event: "${gcalEvent.title}" (${gcalEvent.gcalEventId || gcalEvent.id})`,
-          );
-
-          // Delete from Google Calendar
-          await deleteGcalEvent(gcalEvent.gcalEventId || gcalEvent.id);
-
-          const processingTime = Date.now() - startTime;
-          console.log(`✅ Deleted from GCal in ${processingTime}ms`);
-
-          await logWebhookEvent({
-            type: "notification",
-            source: "notion",
-            webhookEventType: validatedBody.type,
-            action: "delete",
-            eventTitle: gcalEvent.title,
-            eventId: pageId,
-            status: "success",
-            processingTime,
-          });
-        } else {
-          console.warn(`⚠️  No GCal event found with Notion page ID: ${pageId}`);
-          console.log("ℹ️  Event may have already been deleted or never synced");
-
-          await logWebhookEvent({
-            type: "notification",
-            source: "notion",
-            webhookEventType: validatedBody.type,
-            action: "delete",
-            eventId: pageId,
-            status: "success",
-            processingTime: Date.now() - startTime,
-          });
-        }
-      } catch (error) {
-        console.error(`Failed to process Notion deletion for page ${pageId}:`, error);
-        await logWebhookEvent({
-          type: "notification",
-          source: "notion",
-          webhookEventType: validatedBody.type,
-          action: "delete",
-          eventId: pageId,
-          status: "failure",
-          error: error instanceof Error ? error.message : "Unknown error",
-        });
-      }
+      const job = await enqueueSyncJob({
+        type: "notion_delete",
+        notionPageId: pageId,
+        webhookEventType: validatedBody.type,
+      });
+      after(() => drainSyncQueue());
 
-      return NextResponse.json({ message: "Event processed" });
+      return NextResponse.json({ message: "Event queued", jobId: job.id });
     }
 
     // Unknown webhook type (should never happen due to validation)
@@ -1,4 +1,4 @@
-import { getNotionConfig } from "@/lib/settings";
+import { getGoogleConfig, getNotionConfig } from "@/lib/settings";
 import {
   type WebhookLog,
   type WebhookMetrics,
@@ -24,6 +24,7 @@ export interface GoogleWebhookDebugStatus {
   channelId?: string;
   resourceId?: string;
   calendarId?: string;
+  calendarName?: string;
   expiresAt?: string;
   expiresInHours?: number;
   createdAt?: string;
@@ -48,9 +49,10 @@ export interface SyncStateDebug {
 }
 
 export interface WebhooksStatusResponse {
-  google: GoogleWebhookDebugStatus;
+  google: GoogleWebhookDebugStatus; // Default calendar
+  googleCalendars: GoogleWebhookDebugStatus[]; // One per synced calendar
   notion: NotionWebhookDebugStatus;
-  syncState: SyncStateDebug;
+  syncState: SyncStateDebug; // Default calendar
   metrics: WebhookMetrics;
   logs: WebhookLog[];
   rawState: {
@@ -145,18 +147,25 @@ async function getNotionDebugStatus(
 
 export async function GET() {
   try {
+    const calendars = await getGoogleConfig()
+      .then((config) => config.calendars)
+      .catch(() => []);
+    const defaultCalendarId = calendars[0]?.calendarId ?? "primary";
+
     // Fetch all data in parallel
-    const [channel, subscription, syncState, metrics, logs] = await Promise.all([
-      getWebhookChannel(),
+    const [channels, subscription, syncState, metrics, logs] = await Promise.all([
+      Promise.all(calendars.map((calendar) => getWebhookChannel(calendar.calendarId))),
       getNotionWebhook(),
-      getSyncState(),
+      getSyncState(defaultCalendarId),
       getWebhookMetrics(),
       getWebhookLogs(100),
     ]);
+    const channel = channels[0] ?? null;
 
-    const [googleStatus, notionStatus] = await Promise.all([
+    const [googleStatus, notionStatus, calendarStatuses] = await Promise.all([
       getGoogleDebugStatus(channel),
       getNotionDebugStatus(subscription),
+      Promise.all(channels.map((calendarChannel) => getGoogleDebugStatus(calendarChannel))),
     ]);
 
     const syncStateDebug: SyncStateDebug = {
@@ -166,7 +175,12 @@ export async function GET() {
     };
 
     const response: WebhooksStatusResponse = {
-      google: googleStatus,
+      google: { ...googleStatus, calendarName: calendars[0]?.name },
+      googleCalendars: calendarStatuses.map((status, index) => ({
+        ...status,
+        calendarId: calendars[index].calendarId,
+        calendarName: calendars[index].name,
+      })),
       notion: notionStatus,
       syncState: syncStateDebug,
       metrics,
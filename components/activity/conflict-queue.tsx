@@ -0,0 +1,197 @@
+"use client";
+
+import { GoogleCalendarIcon, NotionIcon } from "@/components/icons/brand-icons";
+import type { SyncConflict } from "@/lib/sync/conflicts";
+import { useToast } from "@/lib/toast";
+import { formatDate } from "@/lib/utils";
+import {
+  Badge,
+  Button,
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/shared/ui";
+import { GitMerge, Loader2, X } from "lucide-react";
+import { useCallback, useEffect, useState } from "react";
+
+interface ConflictQueueProps {
+  /** Changes whenever the parent refreshes, so the queue refetches alongside the logs */
+  refreshKey?: number;
+}
+
+const FIELD_LABELS: Record<SyncConflict["field"], string> = {
+  title: "Title",
+  date: "Date",
+  description: "Description",
+  location: "Location",
+  reminders: "Reminders",
+  rrule: "Recurrence",
+  attendees: "Attendees",
+  status: "Status",
+};
+
+function formatValue(field: SyncConflict["field"], value: SyncConflict["notionValue"]): string {
+  if (value === null || value === "") {
+    return "(empty)";
+  }
+  if (field === "date") {
+    const [start, end] = String(value).split("/");
+    return `${formatDate(new Date(start))} → ${formatDate(new Date(end))}`;
+  }
+  if (field === "reminders") {
+    return typeof value === "number" ? `${value} min before` : String(value);
+  }
+  if (field === "rrule") {
+    return String(value).split("\n").join(" · ");
+  }
+  if (field === "attendees") {
+    return String(value).split("\n").join(", ");
+  }
+  return String(value);
+}
+
+export function ConflictQueue({ refreshKey }: ConflictQueueProps) {
+  const { addToast } = useToast();
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+
+  const fetchConflicts = useCallback(async () => {
+    try {
+      const response = await fetch("/api/conflicts");
+      if (response.ok) {
+        const data = await response.json();
+        setConflicts(data.conflicts || []);
+      }
+    } catch (error) {
+      console.error("Error fetching conflicts:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchConflicts();
+  }, [fetchConflicts, refreshKey]);
+
+  const handleResolve = async (conflict: SyncConflict, keep: "notion" | "gcal" | null) => {
+    setPendingId(conflict.id);
+    try {
+      const url = `/api/conflicts/${encodeURIComponent(conflict.id)}`;
+      const response = keep
+        ? await fetch(url, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ keep }),
+          })
+        : await fetch(url, { method: "DELETE" });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to resolve conflict");
+      }
+
+      setConflicts((prev) => prev.filter((c) => c.id !== conflict.id));
+      addToast({
+        title: keep ? "Conflict resolved" : "Conflict dismissed",
+        description: keep
+          ? `Kept the ${keep === "notion" ? "Notion" : "Google Calendar"} value for "${conflict.eventTitle}"`
+          : `"${conflict.eventTitle}" left unchanged on both sides`,
+        variant: "success",
+      });
+    } catch (error) {
+      addToast({
+        title: "Failed to resolve conflict",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  if (conflicts.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          <GitMerge className="h-4 w-4" />
+          Conflicts
+          <Badge variant="warning">{conflicts.length}</Badge>
+        </CardTitle>
+        <CardDescription>
+          These fields were edited in both Notion and Google Calendar since the last sync. Choose
+          which value to keep.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {conflicts.map((conflict) => {
+          const isPending = pendingId === conflict.id;
+          return (
+            <div key={conflict.id} className="rounded-lg border border-border p-4 space-y-3">
+              <div className="flex items-center justify-between gap-4">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium truncate">{conflict.eventTitle}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {FIELD_LABELS[conflict.field]} · detected{" "}
+                    {formatDate(new Date(conflict.detectedAt))}
+                  </p>
+                </div>
+                {isPending && <Loader2 className="h-4 w-4 animate-spin shrink-0" />}
+              </div>
+              <div className="grid gap-2 sm:grid-cols-2">
+                <div className="rounded-md bg-muted/30 p-3 space-y-2">
+                  <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                    <NotionIcon className="h-3.5 w-3.5" />
+                    Notion
+                  </div>
+                  <p className="text-sm break-words">
+                    {formatValue(conflict.field, conflict.notionValue)}
+                  </p>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={isPending}
+                    onClick={() => handleResolve(conflict, "notion")}
+                  >
+                    Keep Notion
+                  </Button>
+                </div>
+                <div className="rounded-md bg-muted/30 p-3 space-y-2">
+                  <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                    <GoogleCalendarIcon className="h-3.5 w-3.5" />
+                    Google Calendar
+                  </div>
+                  <p className="text-sm break-words">
+                    {formatValue(conflict.field, conflict.gcalValue)}
+                  </p>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={isPending}
+                    onClick={() => handleResolve(conflict, "gcal")}
+                  >
+                    Keep Google
+                  </Button>
+                </div>
+              </div>
+              <div className="flex justify-end">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={isPending}
+                  onClick={() => handleResolve(conflict, null)}
+                >
+                  <X className="h-3 w-3 mr-1" />
+                  Dismiss
+                </Button>
+              </div>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,279 @@
+"use client";
+
+import { GoogleCalendarIcon, NotionIcon } from "@/components/icons/brand-icons";
+import type { DuplicateCopy, DuplicateGroup } from "@/lib/sync/duplicates";
+import { useToast } from "@/lib/toast";
+import { formatDate } from "@/lib/utils";
+import {
+  Badge,
+  Button,
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/shared/ui";
+import { Copy, Loader2, Search, Trash2 } from "lucide-react";
+import Link from "next/link";
+import { useState } from "react";
+
+type Side = DuplicateCopy["side"];
+
+// Copies chosen to keep when merging a group, by side
+type KeptCopies = Partial<Record<Side, string>>;
+
+const SIDE_LABELS: Record<Side, string> = {
+  notion: "Notion",
+  gcal: "Google Calendar",
+};
+
+// A linked copy is the likely original; otherwise the first one found
+function defaultKept(group: DuplicateGroup): KeptCopies {
+  const pick = (copies: DuplicateCopy[]) => (copies.find((c) => c.linkedTo) ?? copies[0])?.id;
+  return { notion: pick(group.notion), gcal: pick(group.gcal) };
+}
+
+function toRef({ side, id, calendarId, title }: DuplicateCopy) {
+  return { side, id, calendarId, title };
+}
+
+export function DuplicateReview() {
+  const { addToast } = useToast();
+  const [groups, setGroups] = useState<DuplicateGroup[] | null>(null);
+  const [scanning, setScanning] = useState(false);
+  const [kept, setKept] = useState<Record<string, KeptCopies>>({});
+  // Action awaiting a second click, as `${groupKey}:${action}`
+  const [confirming, setConfirming] = useState<string | null>(null);
+  const [pendingKey, setPendingKey] = useState<string | null>(null);
+
+  const scan = async () => {
+    setScanning(true);
+    try {
+      const response = await fetch("/api/duplicates");
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to scan for duplicates");
+      }
+      setGroups(data.groups);
+      setKept(
+        Object.fromEntries(data.groups.map((g: DuplicateGroup) => [g.key, defaultKept(g)])),
+      );
+    } catch (error) {
+      addToast({
+        title: "Scan failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setScanning(false);
+    }
+  };
+
+  const runAction = async (group: DuplicateGroup, action: string, body: object) => {
+    const confirmKey = `${group.key}:${action}`;
+    if (confirming !== confirmKey) {
+      setConfirming(confirmKey);
+      return;
+    }
+
+    setPendingKey(group.key);
+    try {
+      const response = await fetch("/api/duplicates", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details || data.error || "Action failed");
+      }
+      addToast({ title: `"${group.title}" fixed`, variant: "success" });
+      await scan();
+    } catch (error) {
+      addToast({
+        title: `Could not fix "${group.title}"`,
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setPendingKey(null);
+      setConfirming(null);
+    }
+  };
+
+  const confirmLabel = (group: DuplicateGroup, action: string, label: string) =>
+    confirming === `${group.key}:${action}` ? `Confirm ${label.toLowerCase()}` : label;
+
+  const keepCopy = (group: DuplicateGroup, copy: DuplicateCopy) => {
+    setKept((prev) => ({ ...prev, [group.key]: { ...prev[group.key], [copy.side]: copy.id } }));
+  };
+
+  const renderCopy = (group: DuplicateGroup, copy: DuplicateCopy, mergeable: boolean) => {
+    const isKept = kept[group.key]?.[copy.side] === copy.id;
+    const disabled = pendingKey !== null;
+    const deleteAction = `delete-${copy.id}`;
+    return (
+      <li key={copy.id} className="flex items-center justify-between gap-2 text-sm">
+        <div className="min-w-0">
+          <Link
+            href={`/events/${encodeURIComponent(copy.id)}`}
+            className="block truncate font-mono text-xs hover:underline"
+          >
+            {copy.id}
+          </Link>
+          <span className="text-xs text-muted-foreground">
+            {copy.linkedTo ? `Linked to ${copy.linkedTo}` : "Not linked"}
+            {copy.readOnly && " · read-only"}
+          </span>
+        </div>
+        <div className="flex shrink-0 items-center gap-1">
+          {mergeable && (
+            <Button
+              variant={isKept ? "default" : "outline"}
+              size="sm"
+              disabled={disabled}
+              aria-pressed={isKept}
+              onClick={() => keepCopy(group, copy)}
+            >
+              {isKept ? "Keeping" : "Keep"}
+            </Button>
+          )}
+          {!copy.readOnly && (
+            <Button
+              variant="ghost"
+              size="sm"
+              disabled={disabled}
+              onClick={() =>
+                runAction(group, deleteAction, { action: "delete", copy: toRef(copy) })
+              }
+              aria-label={`Delete ${SIDE_LABELS[copy.side]} copy ${copy.id}`}
+            >
+              <Trash2 className="h-3 w-3 mr-1" />
+              {confirmLabel(group, deleteAction, "Delete")}
+            </Button>
+          )}
+        </div>
+      </li>
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between gap-4">
+          <CardTitle className="text-base flex items-center gap-2">
+            <Copy className="h-4 w-4" />
+            Duplicates
+            {groups && groups.length > 0 && <Badge variant="warning">{groups.length}</Badge>}
+          </CardTitle>
+          <Button variant="outline" size="sm" onClick={scan} disabled={scanning}>
+            {scanning ? (
+              <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+            ) : (
+              <Search className="h-3 w-3 mr-1" />
+            )}
+            {groups ? "Scan again" : "Scan"}
+          </Button>
+        </div>
+        <CardDescription>
+          Events with the same title and start, and events without a counterpart. Deleting a
+          linked copy unlinks it first, so its counterpart is kept.
+        </CardDescription>
+      </CardHeader>
+      {groups && (
+        <CardContent className="space-y-3">
+          {groups.length === 0 && (
+            <p className="text-sm text-muted-foreground">No duplicates or orphaned events found.</p>
+          )}
+          {groups.map((group) => {
+            const isPending = pendingKey === group.key;
+            const mergeable = group.kind === "duplicate";
+            const keep = kept[group.key] ?? {};
+            const extraCopies = [...group.notion, ...group.gcal].filter(
+              (copy) => keep[copy.side] !== copy.id,
+            );
+            const extras = extraCopies.map(toRef);
+            // Merging deletes every extra, which a read-only side does not allow
+            const deletable = extraCopies.every((copy) => !copy.readOnly);
+            const [page] = group.notion;
+            const [event] = group.gcal;
+            // An orphan with a copy on each side that are not linked to each other
+            const linkable = !mergeable && page && event && page.linkedTo !== event.id;
+            return (
+              <div key={group.key} className="rounded-lg border border-border p-4 space-y-3">
+                <div className="flex items-center justify-between gap-4">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium truncate">{group.title || "(untitled)"}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {formatDate(new Date(group.start))}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {isPending && <Loader2 className="h-4 w-4 animate-spin shrink-0" />}
+                    <Badge variant={mergeable ? "warning" : "secondary"}>
+                      {mergeable ? "Duplicate" : "Orphan"}
+                    </Badge>
+                  </div>
+                </div>
+                <div className="grid gap-2 sm:grid-cols-2">
+                  {(["notion", "gcal"] as const).map((side) => (
+                    <div key={side} className="rounded-md bg-muted/30 p-3 space-y-2">
+                      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                        {side === "notion" ? (
+                          <NotionIcon className="h-3.5 w-3.5" />
+                        ) : (
+                          <GoogleCalendarIcon className="h-3.5 w-3.5" />
+                        )}
+                        {SIDE_LABELS[side]}
+                      </div>
+                      {group[side].length === 0 ? (
+                        <p className="text-xs text-muted-foreground">No copy</p>
+                      ) : (
+                        <ul className="space-y-2">
+                          {group[side].map((copy) => renderCopy(group, copy, mergeable))}
+                        </ul>
+                      )}
+                    </div>
+                  ))}
+                </div>
+                <div className="flex justify-end gap-2">
+                  {mergeable && deletable && (
+                    <Button
+                      size="sm"
+                      disabled={pendingKey !== null || extras.length === 0}
+                      onClick={() =>
+                        runAction(group, "merge", {
+                          action: "merge",
+                          notionPageId: keep.notion,
+                          gcalEventId: keep.gcal,
+                          extras,
+                        })
+                      }
+                    >
+                      {confirmLabel(group, "merge", `Merge, deleting ${extras.length}`)}
+                    </Button>
+                  )}
+                  {linkable && (
+                    <Button
+                      size="sm"
+                      disabled={pendingKey !== null}
+                      onClick={() =>
+                        runAction(group, "relink", {
+                          action: "relink",
+                          notionPageId: page.id,
+                          gcalEventId: event.id,
+                        })
+                      }
+                    >
+                      {confirmLabel(group, "relink", "Link page to event")}
+                    </Button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </CardContent>
+      )}
+    </Card>
+  );
+}
@@ -1,6 +1,8 @@
 "use client";
 
 import { GoogleCalendarIcon, NotionIcon } from "@/components/icons/brand-icons";
+import { formatReminders } from "@/lib/events/reminders";
+import { attendeeLabel } from "@/lib/notion/attendees";
 import type { SyncLog } from "@/lib/types";
 import {
   Badge,
@@ -289,6 +291,12 @@ export function SyncLogDetail({ logId }: SyncLogDetailProps) {
               </Badge>
             }
           />
+          {log.manualAction && (
+            <DetailRow
+              label="Manual Action"
+              value={<span className="capitalize">{log.manualAction}</span>}
+            />
+          )}
           <DetailRow
             label="Status"
             value={
@@ -343,12 +351,23 @@ export function SyncLogDetail({ logId }: SyncLogDetailProps) {
             />
           )}
           {log.eventReminders !== undefined && log.eventReminders !== null && (
-            <DetailRow label="Reminders" value={`${log.eventReminders} minutes before`} />
+            <DetailRow
+              label="Reminders"
+              value={
+                typeof log.eventReminders === "number"
+                  ? `${log.eventReminders} minutes before`
+                  : formatReminders({ reminders: log.eventReminders }).join(", ")
+              }
+            />
           )}
           {log.eventAttendees && log.eventAttendees.length > 0 && (
             <DetailRow
               label="Attendees"
-              value={<span className="break-words">{log.eventAttendees.join(", ")}</span>}
+              value={
+                <span className="break-words">
+                  {log.eventAttendees.map(attendeeLabel).join(", ")}
+                </span>
+              }
             />
           )}
           {log.eventOrganizer && (
@@ -0,0 +1,262 @@
+"use client";
+
+import { GoogleCalendarIcon, NotionIcon } from "@/components/icons/brand-icons";
+import { type PropertyChange, formatDiffValue } from "@/lib/events/diff";
+import type { PlannedChange, SyncPlan } from "@/lib/sync/plan";
+import { useToast } from "@/lib/toast";
+import { formatDate } from "@/lib/utils";
+import {
+  Badge,
+  Button,
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/shared/ui";
+import { ClipboardList, Loader2, Play } from "lucide-react";
+import Link from "next/link";
+import { useState } from "react";
+
+interface SyncPlanReviewProps {
+  /** Called after a plan was applied, so the logs refresh */
+  onApplied?: () => void;
+}
+
+type Operation = PlannedChange["operation"];
+
+const OPERATIONS: Operation[] = ["create", "update", "delete"];
+
+const OPERATION_LABELS: Record<Operation, string> = {
+  create: "Create",
+  update: "Update",
+  delete: "Delete",
+};
+
+const OPERATION_VARIANTS = {
+  create: "success",
+  update: "warning",
+  delete: "destructive",
+} as const;
+
+function formatValue(value: unknown): string {
+  return value === undefined || value === "" ? "(empty)" : formatDiffValue(value);
+}
+
+// A new event lists every field; only the ones with a value are worth showing
+function visibleChanges(change: PlannedChange): PropertyChange[] {
+  return change.operation === "create"
+    ? change.changes.filter((c) => c.after !== undefined && c.after !== "")
+    : change.changes;
+}
+
+function changeKey(change: PlannedChange): string {
+  return `${change.direction}:${change.notionPageId ?? ""}:${change.gcalEventId ?? ""}`;
+}
+
+function PlannedChangeItem({ change }: { change: PlannedChange }) {
+  const eventId = change.notionPageId ?? change.gcalEventId;
+  const toGoogle = change.direction === "notion_to_gcal";
+  return (
+    <li className="rounded-md border border-border p-3 space-y-2">
+      <div className="flex items-center gap-2 min-w-0">
+        <Badge variant={OPERATION_VARIANTS[change.operation]}>
+          {OPERATION_LABELS[change.operation]}
+        </Badge>
+        <span
+          className="shrink-0 text-muted-foreground"
+          title={toGoogle ? "In Google Calendar" : "In Notion"}
+        >
+          {toGoogle ? (
+            <GoogleCalendarIcon className="h-3.5 w-3.5" />
+          ) : (
+            <NotionIcon className="h-3.5 w-3.5" />
+          )}
+        </span>
+        {eventId && change.operation !== "create" ? (
+          <Link
+            href={`/events/${encodeURIComponent(eventId)}`}
+            className="text-sm font-medium truncate hover:underline"
+          >
+            {change.title || "(untitled)"}
+          </Link>
+        ) : (
+          <span className="text-sm font-medium truncate">{change.title || "(untitled)"}</span>
+        )}
+      </div>
+      {change.operation === "delete" ? (
+        <p className="text-xs text-muted-foreground">Its Notion page no longer exists.</p>
+      ) : (
+        <dl className="space-y-1 text-xs">
+          {visibleChanges(change).map((c) => (
+            <div key={c.property} className="grid grid-cols-[8rem_1fr] gap-2">
+              <dt className="text-muted-foreground truncate">{c.property}</dt>
+              <dd className="min-w-0 break-words">
+                {c.type !== "added" && (
+                  <span className="text-muted-foreground line-through">
+                    {formatValue(c.before)}
+                  </span>
+                )}
+                {c.type === "changed" && " → "}
+                {c.type !== "removed" && <span>{formatValue(c.after)}</span>}
+              </dd>
+            </div>
+          ))}
+        </dl>
+      )}
+    </li>
+  );
+}
+
+/**
+ * Dry run of a manual sync: every create, update and delete it would make, for review
+ * before applying
+ */
+export function SyncPlanReview({ onApplied }: SyncPlanReviewProps) {
+  const { addToast } = useToast();
+  const [plan, setPlan] = useState<SyncPlan | null>(null);
+  const [planning, setPlanning] = useState(false);
+  const [applying, setApplying] = useState(false);
+  const [confirming, setConfirming] = useState(false);
+
+  const runDryRun = async () => {
+    setPlanning(true);
+    setConfirming(false);
+    try {
+      const response = await fetch("/api/sync/trigger?dryRun=true", { method: "POST" });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Dry run failed");
+      }
+      setPlan(data.plan);
+    } catch (error) {
+      addToast({
+        title: "Dry run failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setPlanning(false);
+    }
+  };
+
+  const applyPlan = async () => {
+    if (!plan) return;
+    if (!confirming) {
+      setConfirming(true);
+      return;
+    }
+
+    setApplying(true);
+    try {
+      const response = await fetch("/api/sync/plan", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ pairId: plan.pairId, changes: plan.changes }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details || data.error || "Failed to apply plan");
+      }
+
+      if (data.errors.length > 0) {
+        addToast({
+          title: `${data.errors.length} of ${plan.changes.length} changes failed`,
+          description: `"${data.errors[0].title}": ${data.errors[0].error}`,
+          variant: "destructive",
+        });
+      } else {
+        addToast({
+          title: "Plan applied",
+          description: `${data.applied} ${data.applied === 1 ? "change" : "changes"} synced`,
+          variant: "success",
+        });
+      }
+      setPlan(null);
+      onApplied?.();
+    } catch (error) {
+      addToast({
+        title: "Failed to apply plan",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setApplying(false);
+      setConfirming(false);
+    }
+  };
+
+  const counts = plan
+    ? OPERATIONS.map((operation) => ({
+        operation,
+        count: plan.changes.filter((change) => change.operation === operation).length,
+      })).filter(({ count }) => count > 0)
+    : [];
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between gap-4">
+          <CardTitle className="text-base flex items-center gap-2">
+            <ClipboardList className="h-4 w-4" />
+            Sync Plan
+          </CardTitle>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={runDryRun} disabled={planning || applying}>
+              {planning && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+              {plan ? "Dry run again" : "Dry run"}
+            </Button>
+            {plan && (
+              <Button
+                size="sm"
+                onClick={applyPlan}
+                disabled={applying || planning || plan.changes.length === 0}
+              >
+                {applying ? (
+                  <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                ) : (
+                  <Play className="h-3 w-3 mr-1" />
+                )}
+                {confirming ? "Confirm apply" : "Apply plan"}
+              </Button>
+            )}
+          </div>
+        </div>
+        <CardDescription>
+          Everything Sync Now would write, without writing it. Applying re-reads each event, so
+          edits made since the dry run are synced too.
+        </CardDescription>
+      </CardHeader>
+      {plan && (
+        <CardContent className="space-y-3">
+          <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+            {counts.map(({ operation, count }) => (
+              <Badge key={operation} variant={OPERATION_VARIANTS[operation]}>
+                {count} {OPERATION_LABELS[operation].toLowerCase()}
+              </Badge>
+            ))}
+            <span>{plan.skipped} unchanged · planned {formatDate(new Date(plan.createdAt))}</span>
+          </div>
+          {plan.errors.length > 0 && (
+            <ul className="space-y-1 text-xs text-destructive" role="alert">
+              {plan.errors.map((error) => (
+                <li key={`${error.title}:${error.error}`}>
+                  Could not plan "{error.title}": {error.error}
+                </li>
+              ))}
+            </ul>
+          )}
+          {plan.changes.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Nothing to sync.</p>
+          ) : (
+            <ul className="space-y-2">
+              {plan.changes.map((change) => (
+                <PlannedChangeItem key={changeKey(change)} change={change} />
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,60 @@
+import type { CalendarSources } from "@/lib/sync/calendar";
+import { describe, expect, it } from "vitest";
+import {
+  type CalendarEvent,
+  type CalendarSource,
+  editSource,
+  eventSources,
+} from "./calendar-event";
+
+const event: CalendarEvent = {
+  id: "gcal-1",
+  title: "Standup",
+  start: new Date("2026-03-02T09:00:00.000Z"),
+  end: new Date("2026-03-02T09:15:00.000Z"),
+  allDay: false,
+  status: "synced",
+  excluded: false,
+  notionPageId: "page-1",
+  gcalEventId: "gcal-1",
+  calendarId: "primary",
+};
+
+// An occurrence linked through the mapping of its series
+const occurrence: CalendarEvent = {
+  ...event,
+  id: "gcal-1_20260303T090000Z",
+  gcalEventId: "gcal-1_20260303T090000Z",
+  recurringEventId: "gcal-1",
+};
+
+function sources(...sides: CalendarSource[]): CalendarSources {
+  return { newEvents: sides, calendars: { primary: sides } };
+}
+
+describe("editSource", () => {
+  it("prefers Google and falls back to Notion", () => {
+    expect(editSource(event, sources("notion", "gcal"))).toBe("gcal");
+    expect(editSource(event, sources("notion"))).toBe("notion");
+    expect(editSource({ ...event, notionPageId: undefined }, sources("notion"))).toBeNull();
+  });
+
+  it("never edits the series page through one of its occurrences", () => {
+    expect(eventSources(occurrence, sources("notion", "gcal"))).toEqual(["gcal"]);
+    expect(editSource(occurrence, sources("notion"))).toBeNull();
+  });
+
+  it("offers the sides the event's calendar syncs from", () => {
+    const perCalendar: CalendarSources = {
+      newEvents: ["notion", "gcal"],
+      calendars: { primary: ["notion", "gcal"], oncall: ["gcal"] },
+    };
+
+    expect(eventSources({ ...event, calendarId: "oncall" }, perCalendar)).toEqual(["gcal"]);
+    expect(eventSources({ ...event, calendarId: "holidays" }, perCalendar)).toEqual([]);
+    expect(eventSources({ ...event, calendarId: undefined }, perCalendar)).toEqual([
+      "notion",
+      "gcal",
+    ]);
+  });
+});
@@ -0,0 +1,108 @@
+import type { CalendarEntry, CalendarEntryStatus, CalendarSources } from "@/lib/sync/calendar";
+import type { tz } from "@date-fns/tz";
+import { format } from "date-fns";
+
+export type CalendarSource = "notion" | "gcal";
+
+export interface CalendarEvent {
+  id: string;
+  title: string;
+  start: Date;
+  end: Date;
+  allDay: boolean;
+  status: CalendarEntryStatus;
+  excluded: boolean;
+  notionPageId?: string;
+  gcalEventId?: string;
+  calendarId?: string;
+  recurringEventId?: string;
+  location?: string;
+  description?: string;
+}
+
+export type TzContext = ReturnType<typeof tz>;
+
+const STATUS_LABELS: Record<CalendarEntryStatus, string> = {
+  synced: "Synced",
+  pending: "Changed since the last sync",
+  notion_only: "Only in Notion",
+  gcal_only: "Only in Google Calendar",
+};
+
+const STATUS_DOTS: Record<CalendarEntryStatus, string> = {
+  synced: "bg-emerald-500",
+  pending: "bg-amber-500",
+  notion_only: "bg-foreground",
+  gcal_only: "bg-blue-500",
+};
+
+export function StatusDot({ status }: { status: CalendarEntryStatus }) {
+  return (
+    <span
+      className={`mr-1.5 inline-block h-2 w-2 shrink-0 rounded-full ${STATUS_DOTS[status]}`}
+      aria-hidden="true"
+    />
+  );
+}
+
+export function eventLabel(event: CalendarEvent): string {
+  const excluded = event.excluded ? " (excluded by sync filters)" : "";
+  return `${event.title}: ${STATUS_LABELS[event.status]}${excluded}`;
+}
+
+export function formatDuration(start: Date, end: Date): string {
+  const minutes = Math.round((end.getTime() - start.getTime()) / 60000);
+  const hours = Math.floor(minutes / 60);
+  const remainingMinutes = minutes % 60;
+
+  if (hours === 0) return `${remainingMinutes}m`;
+  if (remainingMinutes === 0) return `${hours}h`;
+  return `${hours}h ${remainingMinutes}m`;
+}
+
+export function formatEventTime(event: CalendarEvent, tzContext: TzContext): string {
+  if (event.allDay) return "All day";
+  const time = format(event.start, "h:mm a", { in: tzContext });
+  return `${time} (${formatDuration(event.start, event.end)})`;
+}
+
+export function toCalendarEvent(entry: CalendarEntry): CalendarEvent {
+  return {
+    id: entry.id,
+    title: entry.title,
+    start: new Date(entry.start),
+    end: new Date(entry.end),
+    allDay: entry.allDay,
+    status: entry.status,
+    excluded: entry.excluded ?? false,
+    notionPageId: entry.notionPageId,
+    gcalEventId: entry.gcalEventId,
+    calendarId: entry.calendarId,
+    recurringEventId: entry.recurringEventId,
+    location: entry.location,
+    description: entry.description,
+  };
+}
+
+/**
+ * Sides holding an event that can be written to, by the direction of its calendar. An
+ * occurrence of a series only exists in Google; the Notion page it links to is the series.
+ */
+export function eventSources(event: CalendarEvent, sources: CalendarSources): CalendarSource[] {
+  const writable = event.calendarId
+    ? (sources.calendars[event.calendarId] ?? [])
+    : sources.newEvents;
+  return writable.filter((side) =>
+    side === "gcal" ? event.gcalEventId : event.notionPageId && !event.recurringEventId,
+  );
+}
+
+/**
+ * Side to write an event's changes to: Google for events there, else Notion
+ *
+ * @returns null when neither side holding the event can be edited
+ */
+export function editSource(event: CalendarEvent, sources: CalendarSources): CalendarSource | null {
+  const sides = eventSources(event, sources);
+  return sides.includes("gcal") ? "gcal" : (sides[0] ?? null);
+}
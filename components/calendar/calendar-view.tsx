@@ -1,7 +1,8 @@
 "use client";
 
 import { useCalendarPreferences } from "@/components/shell/calendar-preferences-context";
-import type { SyncLog } from "@/lib/types";
+import type { CalendarEntry, CalendarSources } from "@/lib/sync/calendar";
+import { useToast } from "@/lib/toast";
 import { tz } from "@date-fns/tz";
 import {
   Button,
@@ -28,159 +29,42 @@ import {
   isToday,
   setMonth,
   setYear,
+  startOfDay,
   startOfMonth,
   startOfWeek,
   subDays,
   subMonths,
   subWeeks,
 } from "date-fns";
-import { ChevronLeft, ChevronRight } from "lucide-react";
-import { useRouter } from "next/navigation";
-import { useMemo, useState } from "react";
+import { ChevronLeft, ChevronRight, Loader2 } from "lucide-react";
+import { useEffect, useMemo, useState } from "react";
+import {
+  type CalendarEvent,
+  StatusDot,
+  type TzContext,
+  editSource,
+  eventLabel,
+  formatEventTime,
+  toCalendarEvent,
+} from "./calendar-event";
+import { EventDialog } from "./event-dialog";
+import { TimeGrid } from "./time-grid";
 import { TimezoneSelect } from "./timezone-select";
 
 interface CalendarViewProps {
-  logs: SyncLog[];
+  events: CalendarEntry[];
+  loading?: boolean;
   searchQuery?: string;
-}
-
-interface CalendarEvent {
-  id: string;
-  title: string;
-  start: Date;
-  end: Date;
+  /** Sides new events and the events of each calendar can be saved to */
+  sources: CalendarSources;
+  /** Called with the visible range whenever it changes, to fetch its events */
+  onRangeChange: (start: Date, end: Date) => void;
+  /** Called after an event was created or changed, to fetch the range again */
+  onEventsChanged: () => void;
 }
 
 type ViewMode = "day" | "week" | "month";
 
-function formatDuration(start: Date, end: Date): string {
-  const minutes = Math.round((end.getTime() - start.getTime()) / 60000);
-  const hours = Math.floor(minutes / 60);
-  const remainingMinutes = minutes % 60;
-
-  if (hours === 0) return `${remainingMinutes}m`;
-  if (remainingMinutes === 0) return `${hours}h`;
-  return `${hours}h ${remainingMinutes}m`;
-}
-
-function DayView({
-  date,
-  events,
-  onEventClick,
-  tzContext,
-}: {
-  date: Date;
-  events: CalendarEvent[];
-  onEventClick: (id: string) => void;
-  tzContext: ReturnType<typeof tz>;
-}) {
-  const dayEvents = events
-    .filter((e) => isSameDay(e.start, date) || (e.start <= date && e.end >= date))
-    .toSorted((a, b) => a.start.getTime() - b.start.getTime());
-
-  return (
-    <div className="p-4 space-y-2">
-      {dayEvents.length === 0 ? (
-        <p className="text-sm text-muted-foreground text-center py-8">No events scheduled</p>
-      ) : (
-        dayEvents.map((event) => (
-          <button
-            key={event.id}
-            type="button"
-            onClick={() => onEventClick(event.id)}
-            className="w-full flex items-center gap-3 bg-muted p-3 text-left transition-colors hover:bg-accent focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
-          >
-            <span className="text-sm text-muted-foreground whitespace-nowrap">
-              {format(event.start, "h:mm a", { in: tzContext })} (
-              {formatDuration(event.start, event.end)})
-            </span>
-            <span className="text-sm font-medium truncate">{event.title}</span>
-          </button>
-        ))
-      )}
-    </div>
-  );
-}
-
-function WeekView({
-  currentDate,
-  events,
-  onEventClick,
-  weekStartsOn,
-  tzContext,
-}: {
-  currentDate: Date;
-  events: CalendarEvent[];
-  onEventClick: (id: string) => void;
-  weekStartsOn: 0 | 1;
-  tzContext: ReturnType<typeof tz>;
-}) {
-  const weekStart = startOfWeek(currentDate, { weekStartsOn });
-  const weekDays =
-    weekStartsOn === 1
-      ? ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"]
-      : ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
-  const days = eachDayOfInterval({
-    start: weekStart,
-    end: addDays(weekStart, 6),
-  });
-
-  const getEventsForDay = (day: Date) =>
-    events.filter(
-      (event) => isSameDay(event.start, day) || (event.start <= day && event.end >= day),
-    );
-
-  return (
-    <>
-      {/* Week Day Headers */}
-      <div className="grid grid-cols-7 border-b border-border">
-        {days.map((day, index) => (
-          <div key={day.toISOString()} className="bg-muted px-2 py-3 text-center">
-            <div className="text-sm font-medium text-muted-foreground">{weekDays[index]}</div>
-            <div className={`text-lg ${isToday(day) ? "font-bold" : ""}`}>{format(day, "d")}</div>
-          </div>
-        ))}
-      </div>
-
-      {/* Week Grid */}
-      <div className="grid grid-cols-7">
-        {days.map((day, index) => {
-          const dayEvents = getEventsForDay(day);
-          const isDayToday = isToday(day);
-
-          return (
-            <div
-              key={day.toISOString()}
-              className={`min-h-[200px] border-b border-r border-border p-2 ${
-                index === 6 ? "border-r-0" : ""
-              } ${isDayToday ? "bg-accent/20" : ""}`}
-            >
-              <div className="space-y-1">
-                {dayEvents.slice(0, 5).map((event) => (
-                  <button
-                    key={event.id}
-                    type="button"
-                    onClick={() => onEventClick(event.id)}
-                    className="w-full truncate bg-muted px-1.5 py-0.5 text-left text-xs text-foreground transition-colors hover:bg-accent focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
-                  >
-                    {format(event.start, "h:mm a", { in: tzContext })} (
-                    {formatDuration(event.start, event.end)}) {event.title}
-                  </button>
-                ))}
-                {dayEvents.length > 5 && (
-                  <div className="px-1.5 text-xs text-muted-foreground">
-                    +{dayEvents.length - 5} more
-                  </div>
-                )}
-              </div>
-            </div>
-          );
-        })}
-      </div>
-    </>
-  );
-}
-
 function MonthView({
   currentDate,
   events,
@@ -190,9 +74,9 @@ function MonthView({
 }: {
   currentDate: Date;
   events: CalendarEvent[];
-  onEventClick: (id: string) => void;
+  onEventClick: (event: CalendarEvent) => void;
   weekStartsOn: 0 | 1;
-  tzContext: ReturnType<typeof tz>;
+  tzContext: TzContext;
 }) {
   const monthStart = startOfMonth(currentDate);
   const monthEnd = endOfMonth(currentDate);
@@ -259,11 +143,12 @@ function MonthView({
                   <button
                     key={event.id}
                     type="button"
-                    onClick={() => onEventClick(event.id)}
-                    className="w-full truncate bg-muted px-1.5 py-0.5 text-left text-xs text-foreground transition-colors hover:bg-accent focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                    onClick={() => onEventClick(event)}
+                    title={eventLabel(event)}
+                    className={`w-full truncate bg-muted px-1.5 py-0.5 text-left text-xs text-foreground transition-colors hover:bg-accent focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring ${event.excluded ? "opacity-60" : ""}`}
                   >
-                    {format(event.start, "h:mm a", { in: tzContext })} (
-                    {formatDuration(event.start, event.end)}) {event.title}
+                    <StatusDot status={event.status} />
+                    {formatEventTime(event, tzContext)} {event.title}
                   </button>
                 ))}
                 {dayEvents.length > 3 && (
@@ -280,73 +165,66 @@ function MonthView({
   );
 }
 
-function transformLogsToEvents(logs: SyncLog[]): CalendarEvent[] {
-  // Build mapping of linked IDs from logs with both cross-references
-  // This allows deduplication when the same event appears with different IDs
-  // (Notion UUID vs Google Calendar ID) from bidirectional sync
-  const notionToGcal = new Map<string, string>();
-
-  for (const log of logs) {
-    if (log.gcalEventId && log.notionPageId) {
-      notionToGcal.set(log.notionPageId, log.gcalEventId);
-    }
+/**
+ * Range of days a view shows, end exclusive
+ */
+function visibleRange(date: Date, viewMode: ViewMode, weekStartsOn: 0 | 1): [Date, Date] {
+  if (viewMode === "day") {
+    const dayStart = startOfDay(date);
+    return [dayStart, addDays(dayStart, 1)];
   }
-
-  // Get canonical key for an event (prefer gcalEventId for consistency)
-  const getCanonicalKey = (log: SyncLog): string => {
-    if (log.gcalEventId) return log.gcalEventId;
-    if (notionToGcal.has(log.eventId)) return notionToGcal.get(log.eventId)!;
-    return log.eventId;
-  };
-
-  const eventMap = new Map<string, SyncLog>();
-
-  for (const log of logs) {
-    if (!log.eventStartTime || !log.eventEndTime) continue;
-    if (log.eventStatus === "cancelled") continue;
-
-    const key = getCanonicalKey(log);
-    const existing = eventMap.get(key);
-
-    if (!existing) {
-      eventMap.set(key, log);
-    } else {
-      const existingTime =
-        typeof existing.timestamp === "string"
-          ? new Date(existing.timestamp).getTime()
-          : existing.timestamp.getTime();
-      const logTime =
-        typeof log.timestamp === "string"
-          ? new Date(log.timestamp).getTime()
-          : log.timestamp.getTime();
-      if (logTime > existingTime) {
-        eventMap.set(key, log);
-      }
-    }
+  if (viewMode === "week") {
+    const weekStart = startOfWeek(date, { weekStartsOn });
+    return [weekStart, addDays(weekStart, 7)];
   }
-
-  return Array.from(eventMap.values()).map((log) => ({
-    id: log.gcalEventId || log.notionPageId || log.eventId,
-    title: log.eventTitle,
-    start: new Date(log.eventStartTime!),
-    end: new Date(log.eventEndTime!),
-  }));
+  // The month grid always shows five weeks
+  const calendarStart = startOfWeek(startOfMonth(date), { weekStartsOn });
+  return [calendarStart, addDays(calendarStart, 35)];
 }
 
-export function CalendarView({ logs, searchQuery }: CalendarViewProps) {
-  const router = useRouter();
+export function CalendarView({
+  events: entries,
+  loading,
+  searchQuery,
+  sources,
+  onRangeChange,
+  onEventsChanged,
+}: CalendarViewProps) {
+  const { addToast } = useToast();
   const [currentDate, setCurrentDate] = useState(new Date());
   const [viewMode, setViewMode] = useState<ViewMode>("month");
   const { weekStartsOn, timezone, setTimezone } = useCalendarPreferences();
   const tzContext = tz(timezone);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [dialogEvent, setDialogEvent] = useState<CalendarEvent | null>(null);
+  const [newTimes, setNewTimes] = useState<[Date, Date] | null>(null);
+  // Times of events moved or resized, shown until the next fetch brings the synced values
+  const [movedTimes, setMovedTimes] = useState<Map<string, [Date, Date]>>(new Map());
+
+  useEffect(() => {
+    setMovedTimes(new Map());
+  }, [entries]);
 
   const events = useMemo(() => {
-    const allEvents = transformLogsToEvents(logs);
+    const allEvents = entries.map((entry) => {
+      const event = toCalendarEvent(entry);
+      const moved = movedTimes.get(event.id);
+      return moved ? { ...event, start: moved[0], end: moved[1] } : event;
+    });
     if (!searchQuery) return allEvents;
 
     const query = searchQuery.toLowerCase();
     return allEvents.filter((event) => event.title.toLowerCase().includes(query));
-  }, [logs, searchQuery]);
+  }, [entries, movedTimes, searchQuery]);
+
+  const [rangeStart, rangeEnd] = visibleRange(currentDate, viewMode, weekStartsOn);
+  const rangeKey = `${rangeStart.toISOString()}/${rangeEnd.toISOString()}`;
+
+  // Keyed by text so moving within the visible range does not fetch it again
+  useEffect(() => {
+    const [start, end] = rangeKey.split("/");
+    onRangeChange(new Date(start), new Date(end));
+  }, [rangeKey, onRangeChange]);
 
   const handlePrev = () => {
     if (viewMode === "day") setCurrentDate(subDays(currentDate, 1));
@@ -391,10 +269,56 @@ export function CalendarView({ logs, searchQuery }: CalendarViewProps) {
   const currentYear = getYear(new Date());
   const years = Array.from({ length: 11 }, (_, i) => currentYear - 5 + i);
 
-  const handleEventClick = (eventId: string) => {
-    router.push(`/events/${encodeURIComponent(eventId)}`);
+  const handleEventClick = (event: CalendarEvent) => {
+    setDialogEvent(event);
+    setNewTimes(null);
+    setDialogOpen(true);
+  };
+
+  const handleCreate = (start: Date, end: Date) => {
+    setDialogEvent(null);
+    setNewTimes([start, end]);
+    setDialogOpen(true);
   };
 
+  const handleEventChange = async (event: CalendarEvent, start: Date, end: Date) => {
+    const source = editSource(event, sources);
+    const id = source === "gcal" ? event.gcalEventId : event.notionPageId;
+    if (!source || !id) return;
+
+    setMovedTimes((prev) => new Map(prev).set(event.id, [start, end]));
+    try {
+      const response = await fetch(`/api/calendar/events/${encodeURIComponent(id)}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          source,
+          ...(event.calendarId && { calendarId: event.calendarId }),
+          start,
+          end,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details || data.error || "Failed to update event");
+      }
+      onEventsChanged();
+    } catch (err) {
+      setMovedTimes((prev) => {
+        const next = new Map(prev);
+        next.delete(event.id);
+        return next;
+      });
+      addToast({
+        title: "Could not move event",
+        description: err instanceof Error ? err.message : "Failed to update event",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const canEdit = (event: CalendarEvent) => editSource(event, sources) !== null;
+
   const getHeaderTitle = () => {
     if (viewMode === "day") return format(currentDate, "EEEE, MMMM d, yyyy");
     if (viewMode === "week") {
@@ -466,6 +390,12 @@ export function CalendarView({ logs, searchQuery }: CalendarViewProps) {
           )}
 
           <div className="flex items-center gap-3">
+            {loading && (
+              <Loader2
+                className="h-4 w-4 animate-spin text-muted-foreground"
+                aria-label="Loading events"
+              />
+            )}
             <TimezoneSelect value={timezone} onChange={setTimezone} />
 
             {/* View Mode Toggle */}
@@ -499,21 +429,21 @@ export function CalendarView({ logs, searchQuery }: CalendarViewProps) {
         </div>
 
         {/* View Content */}
-        {viewMode === "day" && (
-          <DayView
-            date={currentDate}
+        {viewMode !== "month" && (
+          <TimeGrid
+            days={
+              viewMode === "day"
+                ? [currentDate]
+                : Array.from({ length: 7 }, (_, i) => addDays(rangeStart, i))
+            }
             events={events}
-            onEventClick={handleEventClick}
+            timezone={timezone}
             tzContext={tzContext}
-          />
-        )}
-        {viewMode === "week" && (
-          <WeekView
-            currentDate={currentDate}
-            events={events}
+            canCreate={sources.newEvents.length > 0}
+            canEdit={canEdit}
             onEventClick={handleEventClick}
-            weekStartsOn={weekStartsOn}
-            tzContext={tzContext}
+            onCreate={handleCreate}
+            onEventChange={handleEventChange}
           />
         )}
         {viewMode === "month" && (
@@ -526,6 +456,16 @@ export function CalendarView({ logs, searchQuery }: CalendarViewProps) {
           />
         )}
       </CardContent>
+      <EventDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        event={dialogEvent}
+        newTimes={newTimes}
+        sources={sources}
+        timezone={timezone}
+        tzContext={tzContext}
+        onSaved={onEventsChanged}
+      />
     </Card>
   );
 }
@@ -0,0 +1,322 @@
+"use client";
+
+import type { CalendarSources } from "@/lib/sync/calendar";
+import { TZDate } from "@date-fns/tz";
+import {
+  Button,
+  Checkbox,
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  Input,
+  Label,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  Textarea,
+} from "@/shared/ui";
+import { addDays, format, subDays } from "date-fns";
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import {
+  type CalendarEvent,
+  type CalendarSource,
+  type TzContext,
+  editSource,
+  eventSources,
+} from "./calendar-event";
+
+const SOURCE_LABELS: Record<CalendarSource, string> = {
+  notion: "Notion",
+  gcal: "Google Calendar",
+};
+
+// Form values as typed; times are in the calendar's time zone, all-day dates inclusive
+interface EventForm {
+  title: string;
+  allDay: boolean;
+  start: string;
+  end: string;
+  location: string;
+  description: string;
+}
+
+const DATE_TIME_FORMAT = "yyyy-MM-dd'T'HH:mm";
+
+function toForm(
+  event: Pick<CalendarEvent, "title" | "start" | "end" | "allDay" | "location" | "description">,
+  tzContext: TzContext,
+): EventForm {
+  return {
+    title: event.title,
+    allDay: event.allDay,
+    // All-day times are UTC midnight with an exclusive end
+    start: event.allDay
+      ? event.start.toISOString().slice(0, 10)
+      : format(event.start, DATE_TIME_FORMAT, { in: tzContext }),
+    end: event.allDay
+      ? subDays(event.end, 1).toISOString().slice(0, 10)
+      : format(event.end, DATE_TIME_FORMAT, { in: tzContext }),
+    location: event.location ?? "",
+    description: event.description ?? "",
+  };
+}
+
+/**
+ * Read the form's times, or null when they are incomplete
+ */
+function formTimes(form: EventForm, timezone: string): [Date, Date] | null {
+  if (form.allDay) {
+    const start = new Date(`${form.start}T00:00:00.000Z`);
+    const end = addDays(new Date(`${form.end}T00:00:00.000Z`), 1);
+    return Number.isNaN(start.getTime()) || Number.isNaN(end.getTime()) ? null : [start, end];
+  }
+  const parse = (value: string) => {
+    const [date, time] = value.split("T");
+    if (!date || !time) return null;
+    const [year, month, day] = date.split("-").map(Number);
+    const [hours, minutes] = time.split(":").map(Number);
+    const parsed = new TZDate(year, month - 1, day, hours, minutes, timezone);
+    return Number.isNaN(parsed.getTime()) ? null : new Date(parsed.getTime());
+  };
+  const start = parse(form.start);
+  const end = parse(form.end);
+  return start && end ? [start, end] : null;
+}
+
+export interface EventDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Event to edit; null to create one at newTimes */
+  event: CalendarEvent | null;
+  newTimes: [Date, Date] | null;
+  /** Sides new events and the events of each calendar can be written to */
+  sources: CalendarSources;
+  timezone: string;
+  tzContext: TzContext;
+  onSaved: () => void;
+}
+
+export function EventDialog({
+  open,
+  onOpenChange,
+  event,
+  newTimes,
+  sources,
+  timezone,
+  tzContext,
+  onSaved,
+}: EventDialogProps) {
+  const [form, setForm] = useState<EventForm | null>(null);
+  const [source, setSource] = useState<CalendarSource | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Sides holding the event that can be written to, or every writable side for a new event
+  const targets = event ? eventSources(event, sources) : sources.newEvents;
+
+  // Reset state when dialog opens
+  useEffect(() => {
+    if (!open) return;
+    if (event) {
+      setForm(toForm(event, tzContext));
+      setSource(editSource(event, sources));
+    } else if (newTimes) {
+      const [start, end] = newTimes;
+      setForm(toForm({ title: "", start, end, allDay: false }, tzContext));
+      setSource(sources.newEvents[0] ?? null);
+    }
+    setError(null);
+  }, [open, event, newTimes, sources, tzContext]);
+
+  const update = (changes: Partial<EventForm>) => {
+    setForm((prev) => (prev ? { ...prev, ...changes } : prev));
+  };
+
+  // Switching keeps the days; a timed event gets 9 to 10 on its first day
+  const handleAllDayChange = (allDay: boolean) => {
+    if (!form) return;
+    const firstDay = form.start.slice(0, 10);
+    const lastDay = form.end.slice(0, 10);
+    update(
+      allDay
+        ? { allDay, start: firstDay, end: lastDay > firstDay ? lastDay : firstDay }
+        : { allDay, start: `${firstDay}T09:00`, end: `${firstDay}T10:00` },
+    );
+  };
+
+  const handleSave = async () => {
+    if (!form || !source) return;
+    const times = formTimes(form, timezone);
+    if (!form.title.trim()) {
+      setError("Title is required");
+      return;
+    }
+    if (!times || times[1] <= times[0]) {
+      setError("End must be after start");
+      return;
+    }
+
+    const [start, end] = times;
+    const original = event ? toForm(event, tzContext) : null;
+    const timesChanged =
+      !original ||
+      original.allDay !== form.allDay ||
+      original.start !== form.start ||
+      original.end !== form.end;
+    // Only changed fields are written, so untouched values keep their formatting on each side
+    const body = {
+      source,
+      ...(event?.calendarId && { calendarId: event.calendarId }),
+      ...((!original || original.title !== form.title) && { title: form.title.trim() }),
+      ...(timesChanged && { start, end, allDay: form.allDay }),
+      ...((!original || original.location !== form.location) && { location: form.location }),
+      ...((!original || original.description !== form.description) && {
+        description: form.description,
+      }),
+    };
+
+    setSaving(true);
+    setError(null);
+    try {
+      const id = source === "gcal" ? event?.gcalEventId : event?.notionPageId;
+      const response = await fetch(
+        event ? `/api/calendar/events/${encodeURIComponent(id ?? "")}` : "/api/calendar/events",
+        {
+          method: event ? "PATCH" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(body),
+        },
+      );
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details || data.error || "Failed to save event");
+      }
+      onSaved();
+      onOpenChange(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save event");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const readOnly = event !== null && source === null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{event ? "Edit event" : "New event"}</DialogTitle>
+          <DialogDescription>
+            {readOnly
+              ? "The calendar of this event does not sync changes from the side holding it."
+              : "Changes are saved to the chosen side and synced to the other."}
+          </DialogDescription>
+        </DialogHeader>
+        {form && (
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label htmlFor="event-title">Title</Label>
+              <Input
+                id="event-title"
+                value={form.title}
+                onChange={(e) => update({ title: e.target.value })}
+                disabled={readOnly}
+              />
+            </div>
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={form.allDay}
+                onCheckedChange={(checked) => handleAllDayChange(checked === true)}
+                disabled={readOnly}
+              />
+              All day
+            </label>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="event-start">Start</Label>
+                <Input
+                  id="event-start"
+                  type={form.allDay ? "date" : "datetime-local"}
+                  value={form.start}
+                  onChange={(e) => update({ start: e.target.value })}
+                  disabled={readOnly}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="event-end">End</Label>
+                <Input
+                  id="event-end"
+                  type={form.allDay ? "date" : "datetime-local"}
+                  value={form.end}
+                  onChange={(e) => update({ end: e.target.value })}
+                  disabled={readOnly}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="event-location">Location</Label>
+              <Input
+                id="event-location"
+                value={form.location}
+                onChange={(e) => update({ location: e.target.value })}
+                disabled={readOnly}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="event-description">Description</Label>
+              <Textarea
+                id="event-description"
+                value={form.description}
+                onChange={(e) => update({ description: e.target.value })}
+                rows={4}
+                disabled={readOnly}
+              />
+            </div>
+            {targets.length > 1 && source && (
+              <div className="space-y-2">
+                <Label>Save to</Label>
+                <Select value={source} onValueChange={(val) => setSource(val as CalendarSource)}>
+                  <SelectTrigger aria-label="Save to">{SOURCE_LABELS[source]}</SelectTrigger>
+                  <SelectContent>
+                    {targets.map((side) => (
+                      <SelectItem key={side} value={side}>
+                        {SOURCE_LABELS[side]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            {error && (
+              <div
+                className="rounded-lg bg-destructive/10 p-3 text-sm text-destructive"
+                role="alert"
+              >
+                {error}
+              </div>
+            )}
+          </div>
+        )}
+        <DialogFooter>
+          {event && (
+            <Button variant="ghost" className="mr-auto" asChild>
+              <Link href={`/events/${encodeURIComponent(event.id)}`}>View details</Link>
+            </Button>
+          )}
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving || readOnly || !source}>
+            {saving ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
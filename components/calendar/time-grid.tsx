@@ -0,0 +1,398 @@
+"use client";
+
+import { TZDate } from "@date-fns/tz";
+import { addDays, addMinutes, format, isToday } from "date-fns";
+import { useEffect, useRef, useState } from "react";
+import {
+  type CalendarEvent,
+  StatusDot,
+  type TzContext,
+  eventLabel,
+  formatDuration,
+} from "./calendar-event";
+
+const HOUR_HEIGHT = 48; // px, matches the h-12 hour rows
+const SNAP_MINUTES = 15;
+const DEFAULT_DURATION = 60; // Minutes of an event created with a single click
+const CLICK_DISTANCE = 4; // px the pointer may move before a press becomes a drag
+const SCROLL_TO_HOUR = 8;
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+type DragMode = "create" | "move" | "resize";
+
+interface DragState {
+  mode: DragMode;
+  event?: CalendarEvent; // Event moved or resized
+  dayIndex: number; // Column the press started in
+  originX: number;
+  originY: number;
+  columnWidth: number;
+  startMinutes: number; // Minutes into the day where a new event starts
+  deltaMinutes: number;
+  deltaDays: number;
+  moved: boolean;
+}
+
+interface PlacedEvent {
+  event: CalendarEvent;
+  top: number;
+  height: number;
+  column: number;
+  left: number; // Percent of the day column
+  width: number;
+}
+
+const snap = (minutes: number) => Math.round(minutes / SNAP_MINUTES) * SNAP_MINUTES;
+const pxToMinutes = (px: number) => (px / HOUR_HEIGHT) * 60;
+
+/**
+ * Lay out a day's timed events, placing overlapping events side by side
+ */
+function placeEvents(events: CalendarEvent[], dayStart: Date): PlacedEvent[] {
+  const dayEnd = addDays(dayStart, 1).getTime();
+  const timed = events
+    .filter((e) => !e.allDay && e.start.getTime() < dayEnd && e.end > dayStart)
+    .toSorted((a, b) => a.start.getTime() - b.start.getTime() || b.end.getTime() - a.end.getTime());
+
+  const placed: PlacedEvent[] = [];
+  let cluster: PlacedEvent[] = [];
+  let columnEnds: number[] = [];
+  let clusterEnd = 0;
+  const closeCluster = () => {
+    for (const item of cluster) {
+      item.width = 100 / columnEnds.length;
+      item.left = item.column * item.width;
+    }
+    cluster = [];
+    columnEnds = [];
+  };
+
+  for (const event of timed) {
+    // Events crossing midnight are cut at the edges of the day
+    const start = Math.max(event.start.getTime(), dayStart.getTime());
+    const end = Math.min(event.end.getTime(), dayEnd);
+    if (cluster.length > 0 && start >= clusterEnd) {
+      closeCluster();
+    }
+    let column = columnEnds.findIndex((columnEnd) => columnEnd <= start);
+    if (column === -1) {
+      column = columnEnds.length;
+    }
+    columnEnds[column] = end;
+    clusterEnd = cluster.length > 0 ? Math.max(clusterEnd, end) : end;
+
+    const item = {
+      event,
+      top: pxFromMs(start - dayStart.getTime()),
+      height: Math.max(pxFromMs(end - start), HOUR_HEIGHT / 3),
+      column,
+      left: 0,
+      width: 100,
+    };
+    cluster.push(item);
+    placed.push(item);
+  }
+  closeCluster();
+  return placed;
+}
+
+function pxFromMs(ms: number): number {
+  return (ms / (60 * 60 * 1000)) * HOUR_HEIGHT;
+}
+
+/**
+ * Whether an all-day event covers a day. All-day times are UTC midnight with an exclusive end.
+ */
+function coversDay(event: CalendarEvent, day: Date): boolean {
+  const key = format(day, "yyyy-MM-dd");
+  const [start, end] = [event.start, event.end].map((time) => time.toISOString().slice(0, 10));
+  return start <= key && key < end;
+}
+
+export interface TimeGridProps {
+  days: Date[];
+  events: CalendarEvent[];
+  timezone: string;
+  tzContext: TzContext;
+  /** Whether empty slots can be dragged to create events */
+  canCreate: boolean;
+  canEdit: (event: CalendarEvent) => boolean;
+  onEventClick: (event: CalendarEvent) => void;
+  onCreate: (start: Date, end: Date) => void;
+  onEventChange: (event: CalendarEvent, start: Date, end: Date) => void;
+}
+
+/**
+ * Day columns with an hourly scale. Drag an empty slot to create an event, drag an event
+ * to move it (across days too) and drag its bottom edge to change its end.
+ */
+export function TimeGrid({
+  days,
+  events,
+  timezone,
+  tzContext,
+  canCreate,
+  canEdit,
+  onEventClick,
+  onCreate,
+  onEventChange,
+}: TimeGridProps) {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+  const [drag, setDragState] = useState<DragState | null>(null);
+
+  const setDrag = (next: DragState | null) => {
+    dragRef.current = next;
+    setDragState(next);
+  };
+
+  // Columns start at midnight in the selected time zone
+  const dayStarts = days.map(
+    (day) => new TZDate(day.getFullYear(), day.getMonth(), day.getDate(), timezone),
+  );
+
+  useEffect(() => {
+    if (scrollRef.current) {
+      scrollRef.current.scrollTop = SCROLL_TO_HOUR * HOUR_HEIGHT;
+    }
+  }, []);
+
+  // Times the current drag would give, or null while it is still a click
+  const dragTimes = (state: DragState): [Date, Date] | null => {
+    if (state.mode === "create") {
+      const dayStart = dayStarts[state.dayIndex];
+      const current = Math.min(Math.max(state.startMinutes + state.deltaMinutes, 0), 24 * 60);
+      const from = Math.min(state.startMinutes, current);
+      const to = state.moved ? Math.max(state.startMinutes, current) : from + DEFAULT_DURATION;
+      return [
+        addMinutes(dayStart, from),
+        addMinutes(dayStart, Math.max(to, from + SNAP_MINUTES)),
+      ];
+    }
+    if (!state.event || !state.moved) return null;
+    const { start, end } = state.event;
+    if (state.mode === "resize") {
+      const newEnd = addMinutes(end, state.deltaMinutes);
+      return [start, newEnd > start ? newEnd : addMinutes(start, SNAP_MINUTES)];
+    }
+    const shift = (time: Date) =>
+      addMinutes(addDays(time, state.deltaDays, { in: tzContext }), state.deltaMinutes);
+    return [shift(start), shift(end)];
+  };
+
+  const dragging = drag !== null;
+
+  useEffect(() => {
+    if (!dragging) return;
+
+    const handleMove = (e: PointerEvent) => {
+      const state = dragRef.current;
+      if (!state) return;
+      const dx = e.clientX - state.originX;
+      const dy = e.clientY - state.originY;
+      const moved = state.moved || Math.hypot(dx, dy) > CLICK_DISTANCE;
+      setDrag({
+        ...state,
+        moved,
+        deltaMinutes: snap(pxToMinutes(dy)),
+        deltaDays:
+          state.mode === "move" && state.columnWidth > 0
+            ? Math.min(
+                Math.max(Math.round(dx / state.columnWidth), -state.dayIndex),
+                days.length - 1 - state.dayIndex,
+              )
+            : 0,
+      });
+    };
+
+    const handleUp = () => {
+      const state = dragRef.current;
+      setDrag(null);
+      if (!state) return;
+      const times = dragTimes(state);
+      if (state.mode === "create" && times) {
+        onCreate(...times);
+      } else if (state.event && !times) {
+        onEventClick(state.event);
+      } else if (state.event && times) {
+        const [start, end] = times;
+        if (
+          start.getTime() !== state.event.start.getTime() ||
+          end.getTime() !== state.event.end.getTime()
+        ) {
+          onEventChange(state.event, start, end);
+        }
+      }
+    };
+
+    window.addEventListener("pointermove", handleMove);
+    window.addEventListener("pointerup", handleUp);
+    return () => {
+      window.removeEventListener("pointermove", handleMove);
+      window.removeEventListener("pointerup", handleUp);
+    };
+    // The handlers read the drag from the ref, so they are bound once per drag
+  }, [dragging]);
+
+  const beginDrag = (
+    e: React.PointerEvent<HTMLElement>,
+    mode: DragMode,
+    dayIndex: number,
+    event?: CalendarEvent,
+  ) => {
+    if (e.button !== 0) return;
+    e.stopPropagation();
+    e.preventDefault();
+    const column = e.currentTarget.closest<HTMLElement>("[data-day-column]");
+    const rect = column?.getBoundingClientRect();
+    setDrag({
+      mode,
+      event,
+      dayIndex,
+      originX: e.clientX,
+      originY: e.clientY,
+      columnWidth: rect?.width ?? 0,
+      startMinutes: rect
+        ? Math.min(Math.max(snap(pxToMinutes(e.clientY - rect.top)), 0), 24 * 60 - SNAP_MINUTES)
+        : 0,
+      deltaMinutes: 0,
+      deltaDays: 0,
+      moved: false,
+    });
+  };
+
+  // The dragged event is shown at the times the drag would give it
+  const preview = drag ? dragTimes(drag) : null;
+  const shownEvents =
+    drag?.event && preview
+      ? events.map((event) =>
+          event === drag.event ? { ...event, start: preview[0], end: preview[1] } : event,
+        )
+      : events;
+
+  const gridStyle = { gridTemplateColumns: `3.5rem repeat(${days.length}, minmax(0, 1fr))` };
+  const allDayEvents = days.map((day) => events.filter((e) => e.allDay && coversDay(e, day)));
+
+  return (
+    <>
+      {/* Day Headers */}
+      <div className="grid border-b border-border" style={gridStyle}>
+        <div className="bg-muted" />
+        {days.map((day) => (
+          <div key={day.toISOString()} className="bg-muted px-2 py-3 text-center">
+            <div className="text-sm font-medium text-muted-foreground">{format(day, "EEE")}</div>
+            <div className={`text-lg ${isToday(day) ? "font-bold" : ""}`}>{format(day, "d")}</div>
+          </div>
+        ))}
+      </div>
+
+      {/* All-day Events */}
+      {allDayEvents.some((dayEvents) => dayEvents.length > 0) && (
+        <div className="grid border-b border-border" style={gridStyle}>
+          <div className="px-1 py-1.5 text-right text-xs text-muted-foreground">All day</div>
+          {days.map((day, index) => (
+            <div key={day.toISOString()} className="space-y-1 border-l border-border p-1">
+              {allDayEvents[index].map((event) => (
+                <button
+                  key={event.id}
+                  type="button"
+                  onClick={() => onEventClick(event)}
+                  title={eventLabel(event)}
+                  className={`flex w-full items-center truncate bg-muted px-1.5 py-0.5 text-left text-xs text-foreground transition-colors hover:bg-accent focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring ${event.excluded ? "opacity-60" : ""}`}
+                >
+                  <StatusDot status={event.status} />
+                  <span className="truncate">{event.title}</span>
+                </button>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Hourly Grid */}
+      <div ref={scrollRef} className="max-h-[600px] overflow-y-auto">
+        <div className="grid" style={gridStyle}>
+          <div>
+            {HOURS.map((hour) => (
+              <div key={hour} className="h-12 pr-2 text-right text-xs text-muted-foreground">
+                {hour > 0 && format(new Date(2000, 0, 1, hour), "h a")}
+              </div>
+            ))}
+          </div>
+          {days.map((day, dayIndex) => {
+            const dayStart = dayStarts[dayIndex];
+            const creating = drag?.mode === "create" && drag.dayIndex === dayIndex && preview;
+
+            return (
+              <div
+                key={day.toISOString()}
+                data-day-column
+                className={`relative touch-none select-none border-l border-border ${
+                  isToday(day) ? "bg-accent/20" : ""
+                } ${canCreate ? "cursor-crosshair" : ""}`}
+                onPointerDown={canCreate ? (e) => beginDrag(e, "create", dayIndex) : undefined}
+              >
+                {HOURS.map((hour) => (
+                  <div key={hour} className="h-12 border-b border-border/50" />
+                ))}
+
+                {placeEvents(shownEvents, dayStart).map(({ event, top, height, left, width }) => {
+                  const editable = canEdit(event);
+                  const time = format(event.start, "h:mm a", { in: tzContext });
+                  const isDragged = drag?.moved && drag.event?.id === event.id;
+                  return (
+                    <div
+                      key={event.id}
+                      className={`absolute px-0.5 ${isDragged ? "z-10 opacity-80" : ""}`}
+                      style={{ top, height, left: `${left}%`, width: `${width}%` }}
+                    >
+                      <button
+                        type="button"
+                        title={eventLabel(event)}
+                        aria-label={`${event.title}, ${time}`}
+                        // Presses on editable events are handled as drags; this covers keyboards
+                        onClick={(e) => (!editable || e.detail === 0) && onEventClick(event)}
+                        onPointerDown={(e) =>
+                          editable ? beginDrag(e, "move", dayIndex, event) : e.stopPropagation()
+                        }
+                        className={`flex h-full w-full flex-col overflow-hidden border-l-2 border-foreground/40 bg-muted px-1.5 py-0.5 text-left text-xs text-foreground transition-colors hover:bg-accent focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring ${editable ? "cursor-grab" : ""} ${event.excluded ? "opacity-60" : ""}`}
+                      >
+                        <span className="flex items-center truncate font-medium">
+                          <StatusDot status={event.status} />
+                          <span className="truncate">{event.title}</span>
+                        </span>
+                        <span className="truncate text-muted-foreground">
+                          {time} ({formatDuration(event.start, event.end)})
+                        </span>
+                      </button>
+                      {editable && (
+                        <div
+                          className="absolute inset-x-0.5 bottom-0 h-1.5 cursor-ns-resize"
+                          onPointerDown={(e) => beginDrag(e, "resize", dayIndex, event)}
+                          aria-hidden="true"
+                        />
+                      )}
+                    </div>
+                  );
+                })}
+
+                {creating && (
+                  <div
+                    className="pointer-events-none absolute inset-x-0.5 bg-primary/20 px-1.5 py-0.5 text-xs"
+                    style={{
+                      top: pxFromMs(creating[0].getTime() - dayStart.getTime()),
+                      height: pxFromMs(creating[1].getTime() - creating[0].getTime()),
+                    }}
+                  >
+                    {format(creating[0], "h:mm a", { in: tzContext })} –{" "}
+                    {format(creating[1], "h:mm a", { in: tzContext })}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </>
+  );
+}
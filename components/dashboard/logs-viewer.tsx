@@ -66,7 +66,7 @@ export function LogsViewer({ logs }: LogsViewerProps) {
 
     return logs.filter((log) => {
       // Hide linkage updates: UPDATE operations within 60 seconds of CREATE for same event+direction
-      if (log.operation === "update" && log.status === "success") {
+      if (log.operation === "update" && log.status === "success" && !log.manualAction) {
         const key = `${log.eventId}-${log.direction}`;
         const createTime = recentCreates.get(key);
         if (createTime) {
@@ -294,7 +294,7 @@ export function LogsViewer({ logs }: LogsViewerProps) {
                           size="fixed"
                           className="text-xs"
                         >
-                          {log.operation}
+                          {log.manualAction ? `${log.operation} (manual)` : log.operation}
                         </Badge>
                       </TableCell>
                       <TableCell className="font-medium max-w-md truncate">
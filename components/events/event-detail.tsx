@@ -1,5 +1,6 @@
 "use client";
 
+import { EventSides } from "@/components/events/event-sides";
 import { EventTimeline } from "@/components/events/event-timeline";
 import { PropertyDiff } from "@/components/events/property-diff";
 import { type PropertyChange, computeDiff } from "@/lib/events/diff";
@@ -206,10 +207,12 @@ export function EventDetail({ eventId }: EventDetailProps) {
           <ArrowLeft className="h-4 w-4" aria-hidden="true" />
           Back to Events
         </Link>
+        <EventSides eventId={eventId} />
         <Card className="p-8 text-center space-y-4">
-          <h2 className="text-lg font-semibold">Event Not Found</h2>
+          <h2 className="text-lg font-semibold">No Sync History</h2>
           <p className="text-muted-foreground text-sm">
-            This event is no longer available. Events are retained for a limited time.
+            No sync operations are recorded for this event. Operations are retained for a limited
+            time.
           </p>
           <Button variant="outline" asChild>
             <Link href="/events">View Recent Events</Link>
@@ -290,6 +293,9 @@ export function EventDetail({ eventId }: EventDetailProps) {
         </CardContent>
       </Card>
 
+      {/* Live Comparison */}
+      <EventSides eventId={eventId} />
+
       {/* Time Travel Section */}
       <div className="grid gap-6 lg:grid-cols-2">
         {/* Timeline */}
@@ -0,0 +1,284 @@
+"use client";
+
+import { formatDiffValue } from "@/lib/events/diff";
+import type { EventComparison, EventSide } from "@/lib/sync/compare";
+import type { EventSnapshot } from "@/lib/sync/mapping";
+import { useToast } from "@/lib/toast";
+import {
+  Badge,
+  Button,
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  Input,
+  Skeleton,
+} from "@/shared/ui";
+import { ArrowLeftRight } from "lucide-react";
+import { useCallback, useEffect, useState } from "react";
+
+type EventAction = "push" | "pull" | "unlink" | "relink";
+
+const FIELD_LABELS: Record<string, string> = {
+  title: "Title",
+  startTime: "Start",
+  endTime: "End",
+  location: "Location",
+  description: "Description",
+  reminders: "Reminders",
+  rrule: "Recurrence",
+  attendees: "Guests",
+  status: "Status",
+};
+
+const ACTION_LABELS: Record<EventAction, string> = {
+  push: "Push Notion → Google",
+  pull: "Pull Google → Notion",
+  unlink: "Unlink",
+  relink: "Relink",
+};
+
+// Flattened like computeDiff, so custom values line up with its property names
+function snapshotValues(snapshot: EventSnapshot | null | undefined): Record<string, unknown> {
+  if (!snapshot) return {};
+  const { custom, ...fields } = snapshot;
+  const customValues = Object.entries(custom ?? {}).map(([id, value]) => [`custom.${id}`, value]);
+  return { ...fields, ...Object.fromEntries(customValues) };
+}
+
+function fieldLabel(property: string): string {
+  return (
+    FIELD_LABELS[property] ??
+    (property.startsWith("custom.") ? `Custom: ${property.slice(7)}` : property)
+  );
+}
+
+function SideValue({ side, value }: { side: EventSide | null; value: unknown }) {
+  if (!side?.snapshot) return <span className="text-muted-foreground">-</span>;
+  const text = value === undefined || value === "" ? "" : formatDiffValue(value);
+  return text ? (
+    <span className="whitespace-pre-wrap break-words">{text}</span>
+  ) : (
+    <span className="text-muted-foreground">(empty)</span>
+  );
+}
+
+function SideHeader({ name, side }: { name: string; side: EventSide | null }) {
+  return (
+    <div className="min-w-0">
+      <div className="text-sm font-medium">{name}</div>
+      {side ? (
+        <div className="font-mono text-xs text-muted-foreground break-all">{side.id}</div>
+      ) : (
+        <div className="text-xs text-muted-foreground">Not linked</div>
+      )}
+      {side?.error && (
+        <div className="text-xs text-destructive" role="alert">
+          Could not load: {side.error}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * The live Notion page and Google event of an event side by side, with drifted fields
+ * highlighted and actions to copy one side over the other or change the link
+ */
+export function EventSides({ eventId }: { eventId: string }) {
+  const { addToast } = useToast();
+  const [comparison, setComparison] = useState<EventComparison | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [confirming, setConfirming] = useState<EventAction | null>(null);
+  const [pending, setPending] = useState<EventAction | null>(null);
+  const [targetId, setTargetId] = useState("");
+
+  const fetchComparison = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/events/${encodeURIComponent(eventId)}/sides`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load the event");
+      }
+      setComparison(data);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load the event");
+    } finally {
+      setLoading(false);
+    }
+  }, [eventId]);
+
+  useEffect(() => {
+    fetchComparison();
+  }, [fetchComparison]);
+
+  const runAction = async (action: EventAction) => {
+    if (confirming !== action) {
+      setConfirming(action);
+      return;
+    }
+
+    setPending(action);
+    try {
+      const response = await fetch(`/api/events/${encodeURIComponent(eventId)}/sides`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(action === "relink" ? { action, targetId } : { action }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details || data.error || "Action failed");
+      }
+      addToast({ title: `${ACTION_LABELS[action]}: done`, variant: "success" });
+      setTargetId("");
+      await fetchComparison();
+    } catch (err) {
+      addToast({
+        title: `${ACTION_LABELS[action]} failed`,
+        description: err instanceof Error ? err.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setPending(null);
+      setConfirming(null);
+    }
+  };
+
+  const actionButton = (action: EventAction, disabled = false) =>
+    confirming === action ? (
+      <div className="flex gap-2">
+        <Button variant="outline" size="sm" onClick={() => setConfirming(null)}>
+          Cancel
+        </Button>
+        <Button
+          variant={action === "unlink" ? "destructive" : "default"}
+          size="sm"
+          onClick={() => runAction(action)}
+          disabled={pending !== null}
+        >
+          {pending === action ? "Working..." : `Confirm ${ACTION_LABELS[action].toLowerCase()}`}
+        </Button>
+      </div>
+    ) : (
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => runAction(action)}
+        disabled={disabled || pending !== null}
+      >
+        {ACTION_LABELS[action]}
+      </Button>
+    );
+
+  if (loading) {
+    return (
+      <Card>
+        <CardHeader>
+          <Skeleton className="h-5 w-40" />
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <Skeleton className="h-8 w-full" />
+          <Skeleton className="h-8 w-full" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (error || !comparison) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-sm">Notion and Google Calendar</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-sm text-muted-foreground">{error}</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const { notion, gcal, changes, linked } = comparison;
+  const notionValues = snapshotValues(notion?.snapshot);
+  const gcalValues = snapshotValues(gcal?.snapshot);
+  const drifted = new Set(changes.map((change) => change.property));
+  const properties = [
+    ...Object.keys(FIELD_LABELS).filter((key) => key in notionValues || key in gcalValues),
+    ...[...new Set([...Object.keys(notionValues), ...Object.keys(gcalValues)])]
+      .filter((key) => !(key in FIELD_LABELS))
+      .sort(),
+  ];
+  const bothLoaded = Boolean(notion?.snapshot && gcal?.snapshot);
+  // Relinking pairs this event with one from the other side
+  const ownSide = notion?.id === eventId ? "notion" : "gcal";
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+        <CardTitle className="text-sm flex items-center gap-2">
+          <ArrowLeftRight className="h-4 w-4" />
+          Notion and Google Calendar
+        </CardTitle>
+        {!linked ? (
+          <Badge variant="secondary">Not linked</Badge>
+        ) : bothLoaded && changes.length === 0 ? (
+          <Badge variant="success">In sync</Badge>
+        ) : bothLoaded ? (
+          <Badge variant="warning">
+            {changes.length} {changes.length === 1 ? "field differs" : "fields differ"}
+          </Badge>
+        ) : null}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-[120px_1fr_1fr] gap-x-4 text-sm">
+          <div />
+          <SideHeader name="Notion" side={notion} />
+          <SideHeader name="Google Calendar" side={gcal} />
+          {properties.map((property) => (
+            <div
+              key={property}
+              className={`col-span-3 grid grid-cols-subgrid gap-x-4 border-b border-border/50 py-2 last:border-0 ${
+                drifted.has(property) ? "bg-amber-500/10" : ""
+              }`}
+              data-drifted={drifted.has(property) || undefined}
+            >
+              <span className="text-muted-foreground">{fieldLabel(property)}</span>
+              <SideValue side={notion} value={notionValues[property]} />
+              <SideValue side={gcal} value={gcalValues[property]} />
+            </div>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 border-t border-border pt-4">
+          {linked && (
+            <>
+              {actionButton("push", !bothLoaded)}
+              {actionButton("pull", !bothLoaded)}
+              {actionButton("unlink")}
+            </>
+          )}
+          <div className="flex items-center gap-2 sm:ml-auto">
+            <Input
+              value={targetId}
+              onChange={(e) => {
+                setTargetId(e.target.value);
+                setConfirming(null);
+              }}
+              placeholder={ownSide === "notion" ? "Google event ID" : "Notion page ID or URL"}
+              aria-label="Event to link to"
+              className="h-8 w-[220px]"
+            />
+            {actionButton("relink", !targetId.trim())}
+          </div>
+        </div>
+        {linked && (
+          <p className="text-xs text-muted-foreground">
+            Pushing or pulling overwrites every synced field on the other side. After unlinking,
+            each event is synced on its own, so the other side gets a new copy of it.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
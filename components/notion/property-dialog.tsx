@@ -22,6 +22,12 @@ const TYPE_DISPLAY_NAMES: Record<string, string> = {
   checkbox: "Checkbox",
   url: "URL",
   select: "Select",
+  multi_select: "Multi-select",
+  email: "Email",
+  people: "People",
+  status: "Status",
+  relation: "Relation",
+  formula: "Formula",
 };
 
 export interface PropertyDialogProps {
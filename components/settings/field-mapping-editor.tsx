@@ -1,9 +1,21 @@
 "use client";
 
 import { PropertyDialog } from "@/components/notion/property-dialog";
+import { useCustomMappings } from "@/hooks/use-custom-mappings";
 import { useNotionProperties } from "@/hooks/use-notion-properties";
-import type { ExtendedFieldMapping, FieldConfig, NotionPropertyType } from "@/lib/settings/types";
-import { DEFAULT_EXTENDED_FIELD_MAPPING } from "@/lib/settings/types";
+import { NOTION_TRANSFORM_FIELDS } from "@/lib/events/transforms";
+import { GCAL_PATH_SUGGESTIONS, isWritableGcalPath } from "@/lib/google-calendar/json-path";
+import { CUSTOM_PROPERTY_TYPES } from "@/lib/settings/custom-mappings";
+import type {
+  ConflictPolicy,
+  CustomFieldMapping,
+  CustomPropertyType,
+  ExtendedFieldMapping,
+  FieldConfig,
+  FieldTransform,
+  NotionPropertyType,
+} from "@/lib/settings/types";
+import { DEFAULT_CONFLICT_POLICY, DEFAULT_EXTENDED_FIELD_MAPPING } from "@/lib/settings/types";
 import { useToast } from "@/lib/toast";
 import {
   Button,
@@ -12,6 +24,7 @@ import {
   CardDescription,
   CardHeader,
   CardTitle,
+  Input,
   Select,
   SelectContent,
   SelectItem,
@@ -20,8 +33,9 @@ import {
   SelectValue,
   Switch,
 } from "@/shared/ui";
-import { ArrowRight, Pencil, Plus } from "lucide-react";
+import { ArrowLeftRight, ArrowRight, Pencil, Plus, Trash2, Wand2 } from "lucide-react";
 import { useEffect, useRef, useState } from "react";
+import { TransformDialog } from "./transform-dialog";
 
 type FieldKey = keyof ExtendedFieldMapping;
 
@@ -46,8 +60,11 @@ const OPTIONAL_FIELDS: FieldKey[] = [
   "organizer",
   "conferenceLink",
   "recurrence",
+  "rrule",
   "color",
   "visibility",
+  "calendar",
+  "status",
 ];
 
 const FIELD_DESCRIPTIONS: Record<FieldKey, string> = {
@@ -56,29 +73,53 @@ const FIELD_DESCRIPTIONS: Record<FieldKey, string> = {
   description: "Event description text",
   location: "Event location or address",
   gcalEventId: "Stores the Google Calendar event ID for syncing",
-  reminders: "Reminder time in minutes before event",
-  attendees: "List of event attendees",
+  reminders: "Reminders such as \"popup 10m, email 1d\", or minutes before the event",
+  attendees: "Event guests; People properties only hold members of your Notion workspace",
   organizer: "Event organizer name",
   conferenceLink: "Video call link (Zoom, Meet, etc.)",
   recurrence: "Recurring event pattern",
+  rrule: "Recurrence rule and exception dates (RRULE, EXDATE)",
   color: "Calendar color category",
   visibility: "Event visibility (public/private)",
+  calendar: "Google calendar the event belongs to",
+  status: "Event status from Google Calendar; Status properties are matched by option or group",
 };
 
 // Map each field to compatible Notion property types
 const PROPERTY_TYPE_COMPATIBILITY: Record<FieldKey, NotionPropertyType[]> = {
   title: ["title"],
   date: ["date"],
-  description: ["rich_text"],
-  location: ["rich_text"],
+  description: ["rich_text", "formula"],
+  location: ["rich_text", "relation", "formula"],
   gcalEventId: ["rich_text"],
-  reminders: ["number"],
-  attendees: ["rich_text"],
-  organizer: ["rich_text"],
-  conferenceLink: ["url", "rich_text"],
+  reminders: ["number", "multi_select", "rich_text", "formula"],
+  attendees: ["people", "email", "multi_select", "rich_text"],
+  organizer: ["rich_text", "formula"],
+  conferenceLink: ["url", "rich_text", "formula"],
   recurrence: ["rich_text"],
+  rrule: ["rich_text"],
   color: ["select", "rich_text"],
   visibility: ["select", "rich_text"],
+  calendar: ["select", "rich_text"],
+  status: ["status", "select", "rich_text"],
+};
+
+// Fields merged field-by-field when edited on both sides between syncs
+const CONFLICT_FIELDS: FieldKey[] = [
+  "title",
+  "date",
+  "description",
+  "location",
+  "reminders",
+  "rrule",
+  "attendees",
+];
+
+const CONFLICT_POLICY_LABELS: Record<ConflictPolicy, string> = {
+  newest_wins: "Newest wins",
+  notion_wins: "Notion wins",
+  gcal_wins: "Google wins",
+  manual: "Review manually",
 };
 
 // Human-readable type names for the UI
@@ -90,8 +131,18 @@ const TYPE_DISPLAY_NAMES: Record<string, string> = {
   checkbox: "Checkbox",
   url: "URL",
   select: "Select",
+  multi_select: "Multi-select",
+  email: "Email",
+  people: "People",
+  status: "Status",
+  relation: "Relation (read-only)",
+  formula: "Formula (read-only)",
 };
 
+const isCustomPropertyType = (type: string): type is CustomPropertyType =>
+  CUSTOM_PROPERTY_TYPES.includes(type as CustomPropertyType);
+
+const NO_TRANSFORMS: FieldTransform[] = [];
 const EMPTY_VALUE = "__none__";
 const CREATE_FIELD_VALUE = "__create__";
 const RENAME_FIELD_VALUE = "__rename__";
@@ -105,6 +156,8 @@ export function FieldMappingEditor({ initialMapping, onSave }: FieldMappingEdito
     refresh,
   } = useNotionProperties("/api/settings/field-mapping");
 
+  const { customMappings: loadedCustomMappings } = useCustomMappings();
+
   const { addToast } = useToast();
   const lastLoadError = useRef<string | null>(null);
 
@@ -115,11 +168,14 @@ export function FieldMappingEditor({ initialMapping, onSave }: FieldMappingEdito
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState(false);
   const [hasChanges, setHasChanges] = useState(false);
+  const [customRules, setCustomRules] = useState<CustomFieldMapping[]>([]);
+  const [customChanged, setCustomChanged] = useState(false);
 
   // Property dialog state
   const [dialogOpen, setDialogOpen] = useState(false);
   const [dialogMode, setDialogMode] = useState<"create" | "rename">("create");
   const [dialogFieldFor, setDialogFieldFor] = useState<FieldKey | null>(null);
+  const [transformFieldFor, setTransformFieldFor] = useState<FieldKey | null>(null);
 
   useEffect(() => {
     if (!loadError) {
@@ -143,6 +199,12 @@ export function FieldMappingEditor({ initialMapping, onSave }: FieldMappingEdito
     }
   }, [loadedMapping]);
 
+  useEffect(() => {
+    if (loadedCustomMappings) {
+      setCustomRules(loadedCustomMappings);
+    }
+  }, [loadedCustomMappings]);
+
   const isCompatiblePropertyType = (field: FieldKey, type: string) => {
     const compatibleTypes = PROPERTY_TYPE_COMPATIBILITY[field];
     return compatibleTypes.includes(type as NotionPropertyType);
@@ -233,6 +295,57 @@ export function FieldMappingEditor({ initialMapping, onSave }: FieldMappingEdito
     setError(null);
   };
 
+  const handleConflictPolicyChange = (field: FieldKey, conflictPolicy: ConflictPolicy) => {
+    setMapping((prev) => ({
+      ...prev,
+      [field]: { ...prev[field], conflictPolicy },
+    }));
+    setHasChanges(true);
+    setSuccess(false);
+    setError(null);
+  };
+
+  const handleTransformsChange = (field: FieldKey, transforms: FieldTransform[]) => {
+    setMapping((prev) => ({
+      ...prev,
+      [field]: { ...prev[field], transforms: transforms.length > 0 ? transforms : undefined },
+    }));
+    setHasChanges(true);
+    setSuccess(false);
+    setError(null);
+  };
+
+  const updateCustomRules = (update: (rules: CustomFieldMapping[]) => CustomFieldMapping[]) => {
+    setCustomRules(update);
+    setCustomChanged(true);
+    setHasChanges(true);
+    setSuccess(false);
+    setError(null);
+  };
+
+  const handleAddCustomRule = () => {
+    updateCustomRules((rules) => [
+      ...rules,
+      {
+        id: crypto.randomUUID(),
+        enabled: true,
+        gcalPath: "",
+        notionPropertyName: "",
+        propertyType: "rich_text",
+      },
+    ]);
+  };
+
+  const handleCustomRuleChange = (id: string, changes: Partial<CustomFieldMapping>) => {
+    updateCustomRules((rules) =>
+      rules.map((rule) => (rule.id === id ? { ...rule, ...changes } : rule)),
+    );
+  };
+
+  const handleRemoveCustomRule = (id: string) => {
+    updateCustomRules((rules) => rules.filter((rule) => rule.id !== id));
+  };
+
   const getMissingEnabledFieldLabels = (currentMapping: ExtendedFieldMapping) => {
     const fields = [...REQUIRED_FIELDS, ...OPTIONAL_FIELDS];
     return fields
@@ -268,6 +381,20 @@ export function FieldMappingEditor({ initialMapping, onSave }: FieldMappingEdito
         throw new Error(data.error || "Failed to save field mapping");
       }
 
+      if (customChanged) {
+        const customResponse = await fetch("/api/settings/custom-mappings", {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ customMappings: customRules }),
+        });
+
+        if (!customResponse.ok) {
+          const data = await customResponse.json();
+          throw new Error(data.error || "Failed to save custom field mappings");
+        }
+        setCustomChanged(false);
+      }
+
       setSuccess(true);
       setHasChanges(false);
       onSave?.();
@@ -291,6 +418,7 @@ export function FieldMappingEditor({ initialMapping, onSave }: FieldMappingEdito
     const hasMissingCurrent = Boolean(config.notionPropertyName && !currentProperty);
     const hasIncompatibleCurrent =
       currentProperty !== undefined && !isCompatiblePropertyType(field, currentProperty.type);
+    const transformCount = config.transforms?.length ?? 0;
 
     return (
       <div key={field} className="flex items-center gap-4 py-3">
@@ -313,6 +441,19 @@ export function FieldMappingEditor({ initialMapping, onSave }: FieldMappingEdito
                 *
               </span>
             )}
+            {NOTION_TRANSFORM_FIELDS.includes(field) && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className={`h-6 px-2 text-xs ${transformCount > 0 ? "" : "text-muted-foreground"}`}
+                onClick={() => setTransformFieldFor(field)}
+                disabled={!isRequired && !config.enabled}
+                aria-label={`Transform ${config.displayLabel} values`}
+              >
+                <Wand2 className="h-3 w-3" />
+                {transformCount > 0 ? `${transformCount} transforms` : "Transform"}
+              </Button>
+            )}
           </div>
           <p className="text-xs text-muted-foreground truncate">{FIELD_DESCRIPTIONS[field]}</p>
         </div>
@@ -441,6 +582,141 @@ export function FieldMappingEditor({ initialMapping, onSave }: FieldMappingEdito
             />
           )}
         </div>
+
+        {/* Conflict policy */}
+        <div className="w-36 shrink-0">
+          {CONFLICT_FIELDS.includes(field) && (
+            <Select
+              value={config.conflictPolicy ?? DEFAULT_CONFLICT_POLICY}
+              onValueChange={(val) => handleConflictPolicyChange(field, val as ConflictPolicy)}
+              disabled={!isRequired && !config.enabled}
+            >
+              <SelectTrigger
+                className={!isRequired && !config.enabled ? "opacity-50" : ""}
+                aria-label={`Conflict policy for ${config.displayLabel}`}
+              >
+                {CONFLICT_POLICY_LABELS[config.conflictPolicy ?? DEFAULT_CONFLICT_POLICY]}
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(CONFLICT_POLICY_LABELS) as ConflictPolicy[]).map((policy) => (
+                  <SelectItem key={policy} value={policy}>
+                    {CONFLICT_POLICY_LABELS[policy]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  const renderCustomRow = (rule: CustomFieldMapping) => {
+    const writable = isWritableGcalPath(rule.gcalPath);
+    const FlowIcon = writable ? ArrowLeftRight : ArrowRight;
+    const usedProperties = new Set([
+      ...[...REQUIRED_FIELDS, ...OPTIONAL_FIELDS]
+        .filter((field) => mapping[field].required || mapping[field].enabled)
+        .map((field) => mapping[field].notionPropertyName),
+      ...customRules.filter((r) => r.id !== rule.id).map((r) => r.notionPropertyName),
+    ]);
+    const compatibleProperties = properties.filter((prop) => isCustomPropertyType(prop.type));
+
+    return (
+      <div key={rule.id} className="flex items-center gap-4 py-3">
+        {/* Toggle */}
+        <div className="w-12 flex justify-center shrink-0">
+          <Switch
+            checked={rule.enabled}
+            onCheckedChange={(enabled) => handleCustomRuleChange(rule.id, { enabled })}
+            aria-label={`Enable ${rule.gcalPath || "custom field"}`}
+          />
+        </div>
+
+        {/* Google Calendar path */}
+        <div className="flex-1 min-w-0">
+          <Input
+            value={rule.gcalPath}
+            onChange={(e) => handleCustomRuleChange(rule.id, { gcalPath: e.target.value })}
+            list="gcal-path-suggestions"
+            placeholder="extendedProperties.shared.project"
+            aria-label="Google Calendar field path"
+            disabled={!rule.enabled}
+          />
+          <p className="text-xs text-muted-foreground truncate mt-1">
+            {writable ? "Syncs both ways" : "Read-only in Google Calendar; only copied to Notion"}
+          </p>
+        </div>
+
+        {/* Flow arrow */}
+        <FlowIcon
+          className={`w-4 h-4 shrink-0 ${rule.enabled ? "text-muted-foreground" : "text-muted-foreground/30"}`}
+          aria-hidden="true"
+        />
+
+        {/* Property selector */}
+        <div className="w-48 shrink-0">
+          {properties.length > 0 ? (
+            <Select
+              value={rule.notionPropertyName || EMPTY_VALUE}
+              onOpenChange={(open) => open && refresh()}
+              onValueChange={(val) => {
+                const selectedProperty = properties.find((prop) => prop.name === val);
+                if (selectedProperty && isCustomPropertyType(selectedProperty.type)) {
+                  handleCustomRuleChange(rule.id, {
+                    notionPropertyName: selectedProperty.name,
+                    propertyType: selectedProperty.type,
+                  });
+                }
+              }}
+              disabled={!rule.enabled}
+            >
+              <SelectTrigger className={rule.enabled ? "" : "opacity-50"}>
+                <SelectValue placeholder="Select property..." />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={EMPTY_VALUE} disabled>
+                  <span className="text-muted-foreground">Select property...</span>
+                </SelectItem>
+                {compatibleProperties.map((prop) => (
+                  <SelectItem
+                    key={prop.id}
+                    value={prop.name}
+                    disabled={usedProperties.has(prop.name)}
+                  >
+                    <div className="flex items-center gap-2">
+                      <span>{prop.name}</span>
+                      <span className="text-xs text-muted-foreground">
+                        ({usedProperties.has(prop.name) ? "In use" : prop.type})
+                      </span>
+                    </div>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          ) : (
+            <Input
+              value={rule.notionPropertyName}
+              onChange={(e) =>
+                handleCustomRuleChange(rule.id, { notionPropertyName: e.target.value })
+              }
+              disabled={!rule.enabled}
+              placeholder="Property name..."
+            />
+          )}
+        </div>
+
+        {/* Remove */}
+        <div className="w-36 shrink-0 flex justify-end">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => handleRemoveCustomRule(rule.id)}
+            aria-label={`Remove ${rule.gcalPath || "custom field"}`}
+          >
+            <Trash2 />
+          </Button>
+        </div>
       </div>
     );
   };
@@ -465,7 +741,8 @@ export function FieldMappingEditor({ initialMapping, onSave }: FieldMappingEdito
       <CardHeader>
         <CardTitle>Field Mapping</CardTitle>
         <CardDescription>
-          Map Notion database properties to Google Calendar event fields
+          Map Notion database properties to Google Calendar event fields, and choose which side
+          wins when a field is edited in both places between syncs
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-6">
@@ -501,6 +778,34 @@ export function FieldMappingEditor({ initialMapping, onSave }: FieldMappingEdito
           </div>
         </div>
 
+        {/* Custom Fields Section */}
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-medium text-muted-foreground uppercase tracking-wide">
+              Custom Fields
+            </h3>
+            <Button variant="outline" size="sm" onClick={handleAddCustomRule}>
+              <Plus />
+              Add field
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Map any Google Calendar event field by its path, such as{" "}
+            <code>transparency</code> or <code>extendedProperties.shared.project</code>. Extended
+            properties and a few settings sync both ways; other fields are copied to Notion only.
+          </p>
+          {customRules.length > 0 && (
+            <div className="rounded-lg border border-input bg-background p-2">
+              {customRules.map(renderCustomRow)}
+            </div>
+          )}
+          <datalist id="gcal-path-suggestions">
+            {GCAL_PATH_SUGGESTIONS.map((path) => (
+              <option key={path} value={path} />
+            ))}
+          </datalist>
+        </div>
+
         {error && (
           <div
             className="rounded-lg bg-destructive/10 p-3 text-sm text-destructive"
@@ -541,6 +846,18 @@ export function FieldMappingEditor({ initialMapping, onSave }: FieldMappingEdito
           onError={(err) => setError(err)}
         />
       )}
+
+      {/* Value Transform Dialog */}
+      {transformFieldFor && (
+        <TransformDialog
+          open={transformFieldFor !== null}
+          onOpenChange={(open) => !open && setTransformFieldFor(null)}
+          field={transformFieldFor}
+          fieldLabel={mapping[transformFieldFor].displayLabel}
+          transforms={mapping[transformFieldFor].transforms ?? NO_TRANSFORMS}
+          onSave={(transforms) => handleTransformsChange(transformFieldFor, transforms)}
+        />
+      )}
     </Card>
   );
 }
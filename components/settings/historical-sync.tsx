@@ -33,6 +33,7 @@ interface HistoricalSyncPreview {
   status: "preview";
   days: number;
   total: number;
+  excluded: number;
   newEvents: number;
   alreadySynced: number;
   recurringInstances: number;
@@ -311,6 +312,9 @@ export function HistoricalSync() {
                   <li>• {preview.newEvents} new events</li>
                   <li>• {preview.alreadySynced} already synced (will update)</li>
                   <li>• {preview.recurringInstances} recurring instances</li>
+                  {preview.excluded > 0 && (
+                    <li>• {preview.excluded} excluded by sync filters (will skip)</li>
+                  )}
                 </ul>
               </div>
             )}
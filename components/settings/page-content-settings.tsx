@@ -0,0 +1,67 @@
+"use client";
+
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+  Label,
+  Switch,
+} from "@/shared/ui";
+import { FileText } from "lucide-react";
+import { useState } from "react";
+
+interface PageContentSettingsProps {
+  enabled: boolean;
+  onSettingsChange?: () => void;
+}
+
+export function PageContentSettings({ enabled, onSettingsChange }: PageContentSettingsProps) {
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [localEnabled, setLocalEnabled] = useState(enabled);
+
+  const handleChange = async (checked: boolean) => {
+    setIsUpdating(true);
+    try {
+      const response = await fetch("/api/settings", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ syncPageContent: checked }),
+      });
+      if (response.ok) {
+        setLocalEnabled(checked);
+        onSettingsChange?.();
+      }
+    } catch (error) {
+      console.error("Failed to update page content sync:", error);
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2">
+          <FileText className="h-4 w-4" />
+          Page Content
+        </CardTitle>
+        <CardDescription>
+          Copy the body of each Notion page into the Google Calendar event description
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label className="text-sm">Sync page content</Label>
+          <Switch checked={localEnabled} onCheckedChange={handleChange} disabled={isUpdating} />
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Text, lists, to-dos and links appear below the description in a marked section. Edits
+          to that section in Google Calendar update the page. Long pages, or pages with other
+          blocks, are shown as an excerpt that is only edited in Notion.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,94 @@
+"use client";
+
+import type { SyncDirection } from "@/lib/validation";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+  Label,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/shared/ui";
+import { ArrowLeftRight } from "lucide-react";
+import { useState } from "react";
+
+const DIRECTION_OPTIONS: Record<SyncDirection, { label: string; description: string }> = {
+  bidirectional: {
+    label: "Two-way",
+    description: "Changes on either side are copied to the other.",
+  },
+  notion_to_gcal: {
+    label: "Notion → Google",
+    description: "Notion is the source of truth. Google Calendar changes are ignored.",
+  },
+  gcal_to_notion: {
+    label: "Google → Notion (read-only mirror)",
+    description: "Google Calendar is never written to. Notion edits are ignored.",
+  },
+};
+
+interface SyncDirectionSettingsProps {
+  direction: SyncDirection;
+  onSettingsChange?: () => void;
+}
+
+export function SyncDirectionSettings({ direction, onSettingsChange }: SyncDirectionSettingsProps) {
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [localDirection, setLocalDirection] = useState<SyncDirection>(direction);
+
+  const handleChange = async (value: string) => {
+    setIsUpdating(true);
+    try {
+      const response = await fetch("/api/settings", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ syncDirection: value }),
+      });
+      if (response.ok) {
+        setLocalDirection(value as SyncDirection);
+        onSettingsChange?.();
+      }
+    } catch (error) {
+      console.error("Failed to update sync direction:", error);
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2">
+          <ArrowLeftRight className="h-4 w-4" />
+          Sync Direction
+        </CardTitle>
+        <CardDescription>Choose which way this sync pair copies events</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        <div className="flex items-center justify-between gap-4">
+          <Label className="text-sm">Direction</Label>
+          <Select value={localDirection} onValueChange={handleChange} disabled={isUpdating}>
+            <SelectTrigger className="w-64">
+              <SelectValue>{DIRECTION_OPTIONS[localDirection].label}</SelectValue>
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(DIRECTION_OPTIONS).map(([value, { label }]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          {DIRECTION_OPTIONS[localDirection].description}
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,310 @@
+"use client";
+
+import { GCAL_SELF_RESPONSE_FIELD, SYNC_FILTER_OPERATORS } from "@/lib/events/filters";
+import type { SyncFilter, SyncFilterOperator } from "@/lib/settings/types";
+import { useToast } from "@/lib/toast";
+import {
+  Button,
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+  Input,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  Switch,
+} from "@/shared/ui";
+import { Filter, Loader2, Plus, Trash2 } from "lucide-react";
+import { useEffect, useState } from "react";
+
+interface SidePreview {
+  total: number;
+  included: number;
+}
+
+interface FilterPreview {
+  notion: SidePreview | null;
+  gcal: SidePreview | null;
+}
+
+const ACTION_LABELS: Record<SyncFilter["action"], string> = {
+  include: "Only sync",
+  exclude: "Skip",
+};
+
+const SOURCE_LABELS: Record<SyncFilter["source"], string> = {
+  notion: "Notion pages",
+  gcal: "Google events",
+};
+
+const OPERATOR_LABELS: Record<SyncFilterOperator, string> = {
+  equals: "equals",
+  not_equals: "does not equal",
+  contains: "contains",
+  matches: "matches regex",
+  is_empty: "is empty",
+  is_not_empty: "is not empty",
+};
+
+const FIELD_PLACEHOLDERS: Record<SyncFilter["source"], string> = {
+  notion: "Sync to calendar",
+  gcal: "transparency",
+};
+
+// Common Google Calendar filters, by path
+const GCAL_FIELD_SUGGESTIONS = [GCAL_SELF_RESPONSE_FIELD, "transparency", "summary", "eventType"];
+
+export function SyncFilterSettings() {
+  const { addToast } = useToast();
+  const [filters, setFilters] = useState<SyncFilter[]>([]);
+  const [hasChanges, setHasChanges] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [previewing, setPreviewing] = useState(false);
+  const [preview, setPreview] = useState<FilterPreview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadFilters = async () => {
+      try {
+        const response = await fetch("/api/settings/sync-filters");
+        if (response.ok) {
+          const data = await response.json();
+          setFilters(data.syncFilters);
+        }
+      } catch (err) {
+        console.error("Failed to load sync filters:", err);
+      }
+    };
+    loadFilters();
+  }, []);
+
+  const updateFilters = (update: (filters: SyncFilter[]) => SyncFilter[]) => {
+    setFilters(update);
+    setHasChanges(true);
+    setPreview(null);
+    setError(null);
+  };
+
+  const handleChange = (id: string, changes: Partial<SyncFilter>) => {
+    updateFilters((prev) => prev.map((f) => (f.id === id ? { ...f, ...changes } : f)));
+  };
+
+  const handleAdd = () => {
+    updateFilters((prev) => [
+      ...prev,
+      {
+        id: crypto.randomUUID(),
+        enabled: true,
+        action: "include",
+        source: "notion",
+        field: "",
+        operator: "equals",
+        value: "",
+      },
+    ]);
+  };
+
+  const handlePreview = async () => {
+    setPreviewing(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/settings/sync-filters/preview", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ syncFilters: filters }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details || data.error || "Failed to preview sync filters");
+      }
+      setPreview(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to preview sync filters");
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/settings/sync-filters", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ syncFilters: filters }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details || data.error || "Failed to save sync filters");
+      }
+      setHasChanges(false);
+      addToast({ title: "Sync filters saved", variant: "success" });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save sync filters");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderFilter = (filter: SyncFilter) => {
+    const needsValue = filter.operator !== "is_empty" && filter.operator !== "is_not_empty";
+
+    return (
+      <div key={filter.id} className="flex flex-wrap items-center gap-2 py-2">
+        <Switch
+          checked={filter.enabled}
+          onCheckedChange={(enabled) => handleChange(filter.id, { enabled })}
+          aria-label={`Enable filter on ${filter.field || "field"}`}
+        />
+        <Select
+          value={filter.action}
+          onValueChange={(val) => handleChange(filter.id, { action: val as SyncFilter["action"] })}
+        >
+          <SelectTrigger className="w-28" aria-label="Action">
+            {ACTION_LABELS[filter.action]}
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(ACTION_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select
+          value={filter.source}
+          onValueChange={(val) => handleChange(filter.id, { source: val as SyncFilter["source"] })}
+        >
+          <SelectTrigger className="w-36" aria-label="Source">
+            {SOURCE_LABELS[filter.source]}
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(SOURCE_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <span className="text-sm text-muted-foreground">where</span>
+        <Input
+          className="w-44"
+          value={filter.field}
+          onChange={(e) => handleChange(filter.id, { field: e.target.value })}
+          list={filter.source === "gcal" ? "sync-filter-gcal-fields" : undefined}
+          placeholder={FIELD_PLACEHOLDERS[filter.source]}
+          aria-label={filter.source === "gcal" ? "Google Calendar path" : "Notion property"}
+        />
+        <Select
+          value={filter.operator}
+          onValueChange={(val) =>
+            handleChange(filter.id, { operator: val as SyncFilterOperator })
+          }
+        >
+          <SelectTrigger className="w-40" aria-label="Operator">
+            {OPERATOR_LABELS[filter.operator]}
+          </SelectTrigger>
+          <SelectContent>
+            {SYNC_FILTER_OPERATORS.map((operator) => (
+              <SelectItem key={operator} value={operator}>
+                {OPERATOR_LABELS[operator]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {needsValue && (
+          <Input
+            className="w-36"
+            value={filter.value}
+            onChange={(e) => handleChange(filter.id, { value: e.target.value })}
+            placeholder={filter.operator === "matches" ? "^Focus" : "true"}
+            aria-label="Value"
+          />
+        )}
+        <Button
+          variant="ghost"
+          size="icon"
+          className="ml-auto"
+          onClick={() => updateFilters((prev) => prev.filter((f) => f.id !== filter.id))}
+          aria-label={`Remove filter on ${filter.field || "field"}`}
+        >
+          <Trash2 />
+        </Button>
+      </div>
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2">
+          <Filter className="h-4 w-4" />
+          Sync Filters
+        </CardTitle>
+        <CardDescription>
+          Choose which events sync. An event must match one of its side&apos;s &quot;Only
+          sync&quot; rules, if there are any, and none of the &quot;Skip&quot; rules. Events
+          already synced are left as they are.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {filters.length > 0 && (
+          <div className="rounded-lg border border-input bg-background px-3 divide-y">
+            {filters.map(renderFilter)}
+          </div>
+        )}
+        <datalist id="sync-filter-gcal-fields">
+          {GCAL_FIELD_SUGGESTIONS.map((field) => (
+            <option key={field} value={field} />
+          ))}
+        </datalist>
+
+        {preview && (
+          <ul className="rounded-lg border bg-muted/50 p-3 text-xs text-muted-foreground space-y-1">
+            {preview.notion && (
+              <li>
+                • {preview.notion.included} of {preview.notion.total} Notion pages would sync
+              </li>
+            )}
+            {preview.gcal && (
+              <li>
+                • {preview.gcal.included} of {preview.gcal.total} Google events from the last 30
+                days on would sync
+              </li>
+            )}
+          </ul>
+        )}
+
+        {error && (
+          <div className="rounded-lg bg-destructive/10 p-3 text-sm text-destructive" role="alert">
+            {error}
+          </div>
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" size="sm" onClick={handleAdd}>
+            <Plus />
+            Add filter
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handlePreview}
+            disabled={previewing}
+            className="ml-auto"
+          >
+            {previewing && <Loader2 className="animate-spin" />}
+            {previewing ? "Counting..." : "Dry run"}
+          </Button>
+          <Button size="sm" onClick={handleSave} disabled={saving || !hasChanges}>
+            {saving ? "Saving..." : "Save Filters"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
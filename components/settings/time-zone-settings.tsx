@@ -0,0 +1,77 @@
+"use client";
+
+import { TimezoneSelect } from "@/components/calendar/timezone-select";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+  Label,
+  Switch,
+} from "@/shared/ui";
+import { Globe } from "lucide-react";
+import { useState } from "react";
+
+interface TimeZoneSettingsProps {
+  timeZone: string | null;
+  onSettingsChange?: () => void;
+}
+
+export function TimeZoneSettings({ timeZone, onSettingsChange }: TimeZoneSettingsProps) {
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [localTimeZone, setLocalTimeZone] = useState<string | null>(timeZone);
+
+  const saveTimeZone = async (value: string | null) => {
+    setIsUpdating(true);
+    try {
+      const response = await fetch("/api/settings", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ timeZone: value }),
+      });
+      if (response.ok) {
+        setLocalTimeZone(value);
+        onSettingsChange?.();
+      }
+    } catch (error) {
+      console.error("Failed to update time zone:", error);
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const handleUseCalendarZone = (checked: boolean) => {
+    saveTimeZone(checked ? null : Intl.DateTimeFormat().resolvedOptions().timeZone);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2">
+          <Globe className="h-4 w-4" />
+          Event Time Zone
+        </CardTitle>
+        <CardDescription>
+          Time zone used when writing event times to Google Calendar and Notion
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between">
+          <Label className="text-sm">Use each calendar&apos;s own time zone</Label>
+          <Switch
+            checked={localTimeZone === null}
+            onCheckedChange={handleUseCalendarZone}
+            disabled={isUpdating}
+          />
+        </div>
+        {localTimeZone !== null && (
+          <div className="flex items-center justify-between">
+            <Label className="text-sm">Time zone</Label>
+            <TimezoneSelect value={localTimeZone} onChange={saveTimeZone} />
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
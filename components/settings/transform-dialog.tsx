@@ -0,0 +1,306 @@
+"use client";
+
+import {
+  GCAL_TRANSFORM_FIELDS,
+  NOTION_TRANSFORM_FIELDS,
+  transformValue,
+  validateTransforms,
+} from "@/lib/events/transforms";
+import type { ExtendedFieldMapping, FieldTransform } from "@/lib/settings/types";
+import {
+  Button,
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  Input,
+  Label,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  Textarea,
+} from "@/shared/ui";
+import { Plus, Trash2 } from "lucide-react";
+import { useEffect, useState } from "react";
+
+type TransformType = FieldTransform["type"];
+type TransformSide = FieldTransform["side"];
+
+// Steps as edited; map values stay as text until saved so partial lines can be typed
+interface DraftStep {
+  id: string;
+  type: TransformType;
+  side: TransformSide;
+  calendar: string;
+  values: string;
+  template: string;
+  pattern: string;
+  replacement: string;
+}
+
+const TYPE_LABELS: Record<TransformType, string> = {
+  map: "Value map",
+  template: "Template",
+  replace: "Regex replace",
+};
+
+const SIDE_LABELS: Record<TransformSide, string> = {
+  notion: "In Notion",
+  gcal: "In Google",
+};
+
+function toDraft(step: FieldTransform): DraftStep {
+  return {
+    id: crypto.randomUUID(),
+    type: step.type,
+    side: step.side,
+    calendar: step.calendar ?? "",
+    values:
+      step.type === "map"
+        ? Object.entries(step.values)
+            .map(([from, to]) => `${from} = ${to}`)
+            .join("\n")
+        : "",
+    template: step.type === "template" ? step.template : "{value}",
+    pattern: step.type === "replace" ? step.pattern : "",
+    replacement: step.type === "replace" ? step.replacement : "",
+  };
+}
+
+// Lines without "=" are skipped
+function parseMapValues(text: string): Record<string, string> {
+  const values: Record<string, string> = {};
+  for (const line of text.split("\n")) {
+    const separator = line.indexOf("=");
+    if (separator < 0) continue;
+    const from = line.slice(0, separator).trim();
+    if (from) values[from] = line.slice(separator + 1).trim();
+  }
+  return values;
+}
+
+function fromDraft(draft: DraftStep): FieldTransform {
+  // Calendar filters only apply to Google Calendar values
+  const target = {
+    side: draft.side,
+    ...(draft.side === "gcal" && draft.calendar.trim() && { calendar: draft.calendar.trim() }),
+  };
+  switch (draft.type) {
+    case "map":
+      return { type: "map", values: parseMapValues(draft.values), ...target };
+    case "template":
+      return { type: "template", template: draft.template, ...target };
+    case "replace":
+      return {
+        type: "replace",
+        pattern: draft.pattern,
+        replacement: draft.replacement,
+        ...target,
+      };
+  }
+}
+
+export interface TransformDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  field: keyof ExtendedFieldMapping;
+  fieldLabel: string;
+  transforms: FieldTransform[];
+  onSave: (transforms: FieldTransform[]) => void;
+}
+
+export function TransformDialog({
+  open,
+  onOpenChange,
+  field,
+  fieldLabel,
+  transforms,
+  onSave,
+}: TransformDialogProps) {
+  const [steps, setSteps] = useState<DraftStep[]>([]);
+  const [sample, setSample] = useState("");
+  const [sampleCalendar, setSampleCalendar] = useState("");
+
+  const sides = (["notion", "gcal"] as TransformSide[]).filter((side) =>
+    (side === "notion" ? NOTION_TRANSFORM_FIELDS : GCAL_TRANSFORM_FIELDS).includes(field),
+  );
+
+  // Reset state when dialog opens
+  useEffect(() => {
+    if (open) {
+      setSteps(transforms.map(toDraft));
+      setSample("");
+      setSampleCalendar("");
+    }
+  }, [open, transforms]);
+
+  const result = steps.map(fromDraft);
+  const error = validateTransforms(field, result);
+
+  const updateStep = (id: string, changes: Partial<DraftStep>) => {
+    setSteps((prev) => prev.map((step) => (step.id === id ? { ...step, ...changes } : step)));
+  };
+
+  const handleAddStep = () => {
+    setSteps((prev) => [
+      ...prev,
+      toDraft({ type: "template", template: "{value}", side: sides[0] ?? "notion" }),
+    ]);
+  };
+
+  const renderStep = (step: DraftStep, index: number) => (
+    <div key={step.id} className="space-y-2 rounded-lg border border-input p-3">
+      <div className="flex items-center gap-2">
+        <span className="text-xs text-muted-foreground w-4">{index + 1}.</span>
+        <Select
+          value={step.type}
+          onValueChange={(val) => updateStep(step.id, { type: val as TransformType })}
+        >
+          <SelectTrigger className="w-36" aria-label={`Type of step ${index + 1}`}>
+            {TYPE_LABELS[step.type]}
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(TYPE_LABELS) as TransformType[]).map((type) => (
+              <SelectItem key={type} value={type}>
+                {TYPE_LABELS[type]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select
+          value={step.side}
+          onValueChange={(val) => updateStep(step.id, { side: val as TransformSide })}
+        >
+          <SelectTrigger className="w-32" aria-label={`Side of step ${index + 1}`}>
+            {SIDE_LABELS[step.side]}
+          </SelectTrigger>
+          <SelectContent>
+            {sides.map((side) => (
+              <SelectItem key={side} value={side}>
+                {SIDE_LABELS[side]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {step.side === "gcal" && (
+          <Input
+            value={step.calendar}
+            onChange={(e) => updateStep(step.id, { calendar: e.target.value })}
+            placeholder="All calendars"
+            aria-label={`Calendar of step ${index + 1}`}
+          />
+        )}
+        <Button
+          variant="ghost"
+          size="icon"
+          className="ml-auto shrink-0"
+          onClick={() => setSteps((prev) => prev.filter((s) => s.id !== step.id))}
+          aria-label={`Remove step ${index + 1}`}
+        >
+          <Trash2 />
+        </Button>
+      </div>
+      {step.type === "map" && (
+        <Textarea
+          value={step.values}
+          onChange={(e) => updateStep(step.id, { values: e.target.value })}
+          placeholder={"Lavender = Purple\nTomato = Red"}
+          aria-label={`Values of step ${index + 1}`}
+          rows={3}
+        />
+      )}
+      {step.type === "template" && (
+        <Input
+          value={step.template}
+          onChange={(e) => updateStep(step.id, { template: e.target.value })}
+          placeholder="📅 {value}"
+          aria-label={`Template of step ${index + 1}`}
+        />
+      )}
+      {step.type === "replace" && (
+        <div className="flex gap-2">
+          <Input
+            value={step.pattern}
+            onChange={(e) => updateStep(step.id, { pattern: e.target.value })}
+            placeholder="Pattern, e.g. \s+"
+            aria-label={`Pattern of step ${index + 1}`}
+          />
+          <Input
+            value={step.replacement}
+            onChange={(e) => updateStep(step.id, { replacement: e.target.value })}
+            placeholder="Replacement"
+            aria-label={`Replacement of step ${index + 1}`}
+          />
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Transform {fieldLabel}</DialogTitle>
+          <DialogDescription>
+            Steps run in order when a value is written to their side and are undone when it is
+            read back. Maps and templates round-trip; regex replacements only apply one way.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-4">
+          {steps.map(renderStep)}
+          <Button variant="outline" size="sm" onClick={handleAddStep}>
+            <Plus />
+            Add step
+          </Button>
+
+          {/* Live preview */}
+          <div className="space-y-2 rounded-lg bg-muted/30 p-3">
+            <Label htmlFor="transform-sample">Preview</Label>
+            <div className="flex gap-2">
+              <Input
+                id="transform-sample"
+                value={sample}
+                onChange={(e) => setSample(e.target.value)}
+                placeholder={`Sample ${fieldLabel.toLowerCase()}...`}
+              />
+              {sides.includes("gcal") && (
+                <Input
+                  value={sampleCalendar}
+                  onChange={(e) => setSampleCalendar(e.target.value)}
+                  placeholder="Calendar name"
+                  aria-label="Preview calendar"
+                />
+              )}
+            </div>
+            {sides.map((side) => (
+              <div key={side} className="text-xs text-muted-foreground">
+                {side === "notion" ? "Notion" : "Google Calendar"}:{" "}
+                <span className="font-medium text-foreground">
+                  {transformValue(sample, result, side, sampleCalendar.trim()) || "—"}
+                </span>
+              </div>
+            ))}
+          </div>
+          {error && <div className="text-sm text-destructive">{error}</div>}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => {
+              onSave(result);
+              onOpenChange(false);
+            }}
+            disabled={error !== null}
+          >
+            Apply
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -56,8 +56,11 @@ const OPTIONAL_FIELDS: FieldKey[] = [
   "organizer",
   "conferenceLink",
   "recurrence",
+  "rrule",
   "color",
   "visibility",
+  "calendar",
+  "status",
 ];
 
 const FIELD_DESCRIPTIONS: Record<FieldKey, string> = {
@@ -66,29 +69,35 @@ const FIELD_DESCRIPTIONS: Record<FieldKey, string> = {
   description: "Event description text",
   location: "Event location or address",
   gcalEventId: "Stores the Google Calendar event ID for syncing",
-  reminders: "Reminder time in minutes before event",
-  attendees: "List of event attendees",
+  reminders: "Reminders such as \"popup 10m, email 1d\", or minutes before the event",
+  attendees: "Event guests; People properties only hold members of your Notion workspace",
   organizer: "Event organizer name",
   conferenceLink: "Video call link (Zoom, Meet, etc.)",
   recurrence: "Recurring event pattern",
+  rrule: "Recurrence rule and exception dates (RRULE, EXDATE)",
   color: "Calendar color category",
   visibility: "Event visibility (public/private)",
+  calendar: "Google calendar the event belongs to",
+  status: "Event status from Google Calendar; Status properties are matched by option or group",
 };
 
 // Map each field to compatible Notion property types
 const PROPERTY_TYPE_COMPATIBILITY: Record<FieldKey, NotionPropertyType[]> = {
   title: ["title"],
   date: ["date"],
-  description: ["rich_text"],
-  location: ["rich_text"],
+  description: ["rich_text", "formula"],
+  location: ["rich_text", "relation", "formula"],
   gcalEventId: ["rich_text"],
-  reminders: ["number"],
-  attendees: ["rich_text"],
-  organizer: ["rich_text"],
-  conferenceLink: ["url", "rich_text"],
+  reminders: ["number", "multi_select", "formula"],
+  attendees: ["people", "email", "multi_select", "rich_text"],
+  organizer: ["rich_text", "formula"],
+  conferenceLink: ["url", "rich_text", "formula"],
   recurrence: ["rich_text"],
+  rrule: ["rich_text"],
   color: ["select", "rich_text"],
   visibility: ["select", "rich_text"],
+  calendar: ["select", "rich_text"],
+  status: ["status", "select", "rich_text"],
 };
 
 // Human-readable type names for the UI
@@ -100,6 +109,12 @@ const TYPE_DISPLAY_NAMES: Record<string, string> = {
   checkbox: "Checkbox",
   url: "URL",
   select: "Select",
+  multi_select: "Multi-select",
+  email: "Email",
+  people: "People",
+  status: "Status",
+  relation: "Relation (read-only)",
+  formula: "Formula (read-only)",
 };
 
 const EMPTY_VALUE = "__none__";
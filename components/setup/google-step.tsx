@@ -1,6 +1,8 @@
 "use client";
 
-import { Button, ConnectionStatusCard } from "@/shared/ui";
+import type { SyncedCalendar } from "@/lib/settings/types";
+import type { SyncDirection } from "@/lib/validation";
+import { Button, Checkbox, ConnectionStatusCard } from "@/shared/ui";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/shared/ui";
 import { signIn } from "next-auth/react";
 import { useCallback, useEffect, useState } from "react";
@@ -24,6 +26,12 @@ interface Calendar {
   primary: boolean;
 }
 
+const DIRECTION_LABELS: Record<SyncDirection, string> = {
+  bidirectional: "Two-way",
+  notion_to_gcal: "Notion → Google",
+  gcal_to_notion: "Google → Notion",
+};
+
 interface ValidationResult {
   valid: boolean;
   error?: string;
@@ -64,6 +72,7 @@ export function GoogleStep({ status, onBack, onNext }: GoogleStepProps) {
   const [notice, setNotice] = useState<string | null>(null);
   const [calendars, setCalendars] = useState<Calendar[]>([]);
   const [selectedCalendar, setSelectedCalendar] = useState<string>("");
+  const [syncedCalendars, setSyncedCalendars] = useState<SyncedCalendar[]>([]);
   const [loadingCalendars, setLoadingCalendars] = useState(false);
   const [validating, setValidating] = useState(false);
   const [validation, setValidation] = useState<ValidationResult | null>(null);
@@ -126,6 +135,7 @@ export function GoogleStep({ status, onBack, onNext }: GoogleStepProps) {
         if (data.selectedCalendarId) {
           setSelectedCalendar(data.selectedCalendarId);
         }
+        setSyncedCalendars(data.syncedCalendars || []);
       }
     } catch (err) {
       console.error("Failed to load calendars:", err);
@@ -161,6 +171,46 @@ export function GoogleStep({ status, onBack, onNext }: GoogleStepProps) {
     }
   };
 
+  const saveSyncedCalendars = async (next: SyncedCalendar[]) => {
+    const previous = syncedCalendars;
+    setSyncedCalendars(next);
+    setError(null);
+    try {
+      const response = await fetch("/api/setup/google/calendars", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ calendars: next }),
+      });
+
+      const data = await response.json().catch(() => null);
+
+      if (!response.ok) {
+        throw new Error(data?.error || "Failed to save calendars");
+      }
+    } catch (err) {
+      setSyncedCalendars(previous);
+      setError(err instanceof Error ? err.message : "Failed to save calendars");
+    }
+  };
+
+  const handleToggleCalendar = (cal: Calendar, checked: boolean) => {
+    saveSyncedCalendars(
+      checked
+        ? [...syncedCalendars, { calendarId: cal.id, name: cal.name, direction: "bidirectional" }]
+        : syncedCalendars.filter((synced) => synced.calendarId !== cal.id),
+    );
+  };
+
+  const handleCalendarDirection = (calendarId: string, direction: SyncDirection) => {
+    saveSyncedCalendars(
+      syncedCalendars.map((synced) =>
+        synced.calendarId === calendarId ? { ...synced, direction } : synced,
+      ),
+    );
+  };
+
+  const additionalCalendars = calendars.filter((cal) => cal.id !== selectedCalendar);
+
   // Load calendars if already connected
   useEffect(() => {
     if (isConnected && calendars.length === 0 && !loadingCalendars) {
@@ -445,6 +495,54 @@ export function GoogleStep({ status, onBack, onNext }: GoogleStepProps) {
             </Select>
           </div>
 
+          {selectedCalendar && additionalCalendars.length > 0 && (
+            <div className="space-y-2">
+              <span className="text-sm font-medium">Additional Calendars</span>
+              <p className="text-sm text-muted-foreground">
+                Mirror more calendars into the same database. Each event's source is stored in the
+                Calendar property, so enable it in the field mapping step.
+              </p>
+              <div className="space-y-2">
+                {additionalCalendars.map((cal) => {
+                  const synced = syncedCalendars.find((s) => s.calendarId === cal.id);
+                  return (
+                    <div
+                      key={cal.id}
+                      className="flex items-center justify-between gap-4 rounded-lg border border-border p-3"
+                    >
+                      <label className="flex min-w-0 items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={!!synced}
+                          onCheckedChange={(checked) => handleToggleCalendar(cal, checked === true)}
+                        />
+                        <span className="truncate">{cal.name}</span>
+                      </label>
+                      {synced && (
+                        <Select
+                          value={synced.direction}
+                          onValueChange={(value) =>
+                            handleCalendarDirection(cal.id, value as SyncDirection)
+                          }
+                        >
+                          <SelectTrigger className="w-44">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {Object.entries(DIRECTION_LABELS).map(([value, label]) => (
+                              <SelectItem key={value} value={value}>
+                                {label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
           {error && (
             <div className="rounded-lg bg-destructive/10 p-3 text-sm text-destructive">{error}</div>
           )}
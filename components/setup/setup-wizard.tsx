@@ -1,5 +1,6 @@
 "use client";
 
+import { PairSwitcher } from "@/components/shell/pair-switcher";
 import { cn } from "@/lib/utils";
 import {
   Button,
@@ -252,6 +253,13 @@ export function SetupWizard({ currentStep }: SetupWizardProps) {
 
       {/* Scrollable content */}
       <div className="flex-1 space-y-6">
+        {/* The sync pair being configured; skipped on the first run */}
+        {status?.setupComplete && (
+          <div className="flex items-center justify-end gap-2 text-sm text-muted-foreground">
+            <span>Configuring</span>
+            <PairSwitcher className="w-56" />
+          </div>
+        )}
         {showStorageWarning && (
           <div className="rounded-lg border border-amber-500/50 bg-amber-500/10 p-4 text-sm text-amber-700 dark:text-amber-400">
             <div className="flex items-start gap-2">
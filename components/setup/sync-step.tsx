@@ -39,6 +39,8 @@ interface SyncStatusResponse {
   };
   /** External webhook URL if configured (WEBHOOK_URL or VERCEL_PROJECT_PRODUCTION_URL) */
   externalWebhookUrl?: string | null;
+  /** Notion webhook URL for the selected sync pair */
+  notionWebhookUrl?: string;
 }
 
 interface SyncSetupResponse {
@@ -150,9 +152,10 @@ export function SyncStep({ onBack, onNext }: SyncStepProps) {
         );
       } else if (verificationRequired) {
         const verificationUrl =
-          typeof window !== "undefined"
+          data.notionWebhookUrl ||
+          (typeof window !== "undefined"
             ? `${window.location.origin}/api/webhooks/notion`
-            : "your deployed webhook URL";
+            : "your deployed webhook URL");
         setNotionStatus({
           status: "warning",
           message: "Notion verification required",
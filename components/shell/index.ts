@@ -2,5 +2,6 @@ export { AppShell } from "./app-shell";
 export { AppHeader } from "./header";
 export { AppSidebar } from "./sidebar";
 export { MobileNav } from "./mobile-nav";
+export { PairSwitcher } from "./pair-switcher";
 export { SidebarNav } from "./sidebar-nav";
 export { SidebarProvider, useSidebar } from "./sidebar-context";
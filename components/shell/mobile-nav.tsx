@@ -4,6 +4,7 @@ import { footerLinks, navigation } from "@/lib/navigation";
 import { cn } from "@/lib/utils";
 import { X } from "lucide-react";
 import Link from "next/link";
+import { PairSwitcher } from "./pair-switcher";
 import { useSidebar } from "./sidebar-context";
 import { SidebarNav } from "./sidebar-nav";
 import { useSidebarVisibility } from "./sidebar-visibility-context";
@@ -56,6 +57,9 @@ export function MobileNav() {
           </button>
         </div>
 
+        {/* Sync pair */}
+        <PairSwitcher className="px-3 pt-4" />
+
         {/* Navigation */}
         <div className="flex-1 overflow-y-auto py-4">
           <SidebarNav items={visibleNavigation} />
@@ -0,0 +1,170 @@
+"use client";
+
+import { useToast } from "@/lib/toast";
+import {
+  Button,
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  Input,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/shared/ui";
+import { useCallback, useEffect, useState } from "react";
+
+interface SyncPairSummary {
+  id: string;
+  name: string;
+  databaseName: string | null;
+  calendarName: string | null;
+  configured: boolean;
+}
+
+interface PairSwitcherProps {
+  className?: string;
+}
+
+const NEW_PAIR_VALUE = "__new__";
+
+/**
+ * Select the sync pair (Notion database ↔ Google Calendar) the app shows and configures.
+ * New pairs are set up in the wizard.
+ */
+export function PairSwitcher({ className }: PairSwitcherProps) {
+  const { addToast } = useToast();
+  const [pairs, setPairs] = useState<SyncPairSummary[]>([]);
+  const [activePairId, setActivePairId] = useState<string>("");
+  const [showCreate, setShowCreate] = useState(false);
+  const [newName, setNewName] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const fetchPairs = useCallback(async () => {
+    try {
+      const response = await fetch("/api/pairs");
+      if (response.ok) {
+        const data = await response.json();
+        setPairs(data.pairs || []);
+        setActivePairId(data.activePairId || "");
+      }
+    } catch (error) {
+      console.error("Error fetching sync pairs:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchPairs();
+  }, [fetchPairs]);
+
+  const selectPair = async (pairId: string) => {
+    const response = await fetch("/api/pairs/active", {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ pairId }),
+    });
+    if (!response.ok) {
+      const data = await response.json().catch(() => null);
+      throw new Error(data?.error || "Failed to switch sync pair");
+    }
+  };
+
+  const handleChange = async (value: string) => {
+    if (value === NEW_PAIR_VALUE) {
+      setShowCreate(true);
+      return;
+    }
+
+    try {
+      await selectPair(value);
+      // Every page loads its data for the selected pair
+      window.location.reload();
+    } catch (error) {
+      addToast({
+        title: "Failed to switch sync pair",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleCreate = async () => {
+    setSaving(true);
+    try {
+      const response = await fetch("/api/pairs", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: newName }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to create sync pair");
+      }
+
+      await selectPair(data.pair.id);
+      // Pick the calendar and database for the new pair
+      window.location.assign("/setup/2");
+    } catch (error) {
+      addToast({
+        title: "Failed to create sync pair",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+      setSaving(false);
+    }
+  };
+
+  if (pairs.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className={className}>
+      <Select value={activePairId} onValueChange={handleChange}>
+        <SelectTrigger aria-label="Sync pair">
+          <SelectValue placeholder="Select sync pair" />
+        </SelectTrigger>
+        <SelectContent>
+          {pairs.map((pair) => (
+            <SelectItem key={pair.id} value={pair.id}>
+              {pair.name}
+              {!pair.configured && " (setup incomplete)"}
+            </SelectItem>
+          ))}
+          <SelectItem value={NEW_PAIR_VALUE}>+ New sync pair…</SelectItem>
+        </SelectContent>
+      </Select>
+
+      <Dialog open={showCreate} onOpenChange={setShowCreate}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New Sync Pair</DialogTitle>
+            <DialogDescription>
+              Sync another Notion database with a Google Calendar. You&apos;ll choose both in the
+              setup wizard.
+            </DialogDescription>
+          </DialogHeader>
+          <Input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="e.g. Personal tasks"
+            aria-label="Sync pair name"
+            autoFocus
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowCreate(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleCreate} disabled={saving || !newName.trim()}>
+              {saving ? "Creating..." : "Create"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -5,6 +5,7 @@ import { footerLinks, navigation } from "@/lib/navigation";
 import { cn } from "@/lib/utils";
 import { ChevronLeft, ChevronRight } from "lucide-react";
 import Link from "next/link";
+import { PairSwitcher } from "./pair-switcher";
 import { useSidebar } from "./sidebar-context";
 import { SidebarNav } from "./sidebar-nav";
 import { useSidebarVisibility } from "./sidebar-visibility-context";
@@ -57,6 +58,9 @@ export function AppSidebar() {
         </button>
       </div>
 
+      {/* Sync pair */}
+      {!collapsed && <PairSwitcher className="px-3 pt-4" />}
+
       {/* Navigation */}
       <div className="flex-1 overflow-y-auto py-4">
         <SidebarNav items={visibleNavigation} />
@@ -12,6 +12,7 @@ interface GoogleWebhookDebugStatus {
   channelId?: string;
   resourceId?: string;
   calendarId?: string;
+  calendarName?: string;
   expiresAt?: string;
   expiresInHours?: number;
   createdAt?: string;
@@ -87,7 +88,12 @@ export function GoogleWebhookCard({ status }: GoogleWebhookCardProps) {
         <div className="flex items-center justify-between">
           <div className="flex items-center gap-2">
             <GoogleCalendarIcon size="md" />
-            <CardTitle className="text-base">Google Calendar</CardTitle>
+            <CardTitle className="text-base">
+              Google Calendar
+              {status.calendarName && (
+                <span className="text-muted-foreground font-normal"> · {status.calendarName}</span>
+              )}
+            </CardTitle>
           </div>
           <StatusBadge status={status} />
         </div>
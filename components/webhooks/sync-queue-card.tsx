@@ -0,0 +1,152 @@
+"use client";
+
+import type { DeadLetterJob, SyncJobPayload } from "@/lib/sync/queue";
+import { useToast } from "@/lib/toast";
+import { formatDate } from "@/lib/utils";
+import { Badge, Button, Card, CardContent, CardHeader, CardTitle } from "@/shared/ui";
+import { CheckCircle2, Loader2, RotateCcw, Trash2 } from "lucide-react";
+import { useCallback, useEffect, useState } from "react";
+
+interface SyncQueueCardProps {
+  /** Changes whenever the parent refreshes, so the card refetches alongside it */
+  refreshKey?: number;
+}
+
+const JOB_LABELS: Record<SyncJobPayload["type"], string> = {
+  notion_upsert: "Notion → GCal sync",
+  notion_delete: "Notion → GCal delete",
+  gcal_upsert: "GCal → Notion sync",
+  gcal_delete: "GCal → Notion delete",
+};
+
+function jobTarget(payload: SyncJobPayload): string {
+  if (payload.type === "gcal_delete") {
+    return payload.eventTitle;
+  }
+  return "notionPageId" in payload ? payload.notionPageId : payload.gcalEventId;
+}
+
+export function SyncQueueCard({ refreshKey }: SyncQueueCardProps) {
+  const { addToast } = useToast();
+  const [pending, setPending] = useState(0);
+  const [deadLetter, setDeadLetter] = useState<DeadLetterJob[]>([]);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const fetchQueue = useCallback(async () => {
+    try {
+      const response = await fetch("/api/sync/queue");
+      if (response.ok) {
+        const data = await response.json();
+        setPending(data.pending || 0);
+        setDeadLetter(data.deadLetter || []);
+      }
+    } catch (error) {
+      console.error("Error fetching sync queue:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchQueue();
+  }, [fetchQueue, refreshKey]);
+
+  const handleAction = async (job: DeadLetterJob, action: "replay" | "discard") => {
+    setBusyId(job.id);
+    try {
+      const response = await fetch(`/api/sync/queue/${encodeURIComponent(job.id)}`, {
+        method: action === "replay" ? "POST" : "DELETE",
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || `Failed to ${action} job`);
+      }
+
+      setDeadLetter((prev) => prev.filter((j) => j.id !== job.id));
+      if (action === "replay") {
+        setPending((prev) => prev + 1);
+      }
+      addToast({
+        title: action === "replay" ? "Job queued for replay" : "Job discarded",
+        description: JOB_LABELS[job.payload.type],
+        variant: "success",
+      });
+    } catch (error) {
+      addToast({
+        title: action === "replay" ? "Failed to replay job" : "Failed to discard job",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          Sync Queue
+          <Badge variant="secondary">{pending} pending</Badge>
+          {deadLetter.length > 0 && (
+            <Badge variant="destructive">{deadLetter.length} failed</Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {deadLetter.length === 0 ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <CheckCircle2 className="h-4 w-4 text-emerald-500" />
+            No failed jobs
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {deadLetter.map((job) => {
+              const isBusy = busyId === job.id;
+              return (
+                <div
+                  key={job.id}
+                  className="flex items-start justify-between gap-4 rounded-lg border border-border p-3"
+                >
+                  <div className="min-w-0 space-y-1">
+                    <p className="text-sm font-medium">{JOB_LABELS[job.payload.type]}</p>
+                    <p className="text-xs text-muted-foreground font-mono truncate">
+                      {jobTarget(job.payload)}
+                    </p>
+                    {job.lastError && (
+                      <p className="text-xs text-destructive break-words">{job.lastError}</p>
+                    )}
+                    <p className="text-xs text-muted-foreground">
+                      {job.attempts} attempt{job.attempts === 1 ? "" : "s"} · failed{" "}
+                      {formatDate(new Date(job.failedAt))}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    {isBusy && <Loader2 className="h-4 w-4 animate-spin" />}
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={isBusy}
+                      onClick={() => handleAction(job, "replay")}
+                    >
+                      <RotateCcw className="h-3 w-3 mr-1" />
+                      Replay
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={isBusy}
+                      onClick={() => handleAction(job, "discard")}
+                    >
+                      <Trash2 className="h-3 w-3 mr-1" />
+                      Discard
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
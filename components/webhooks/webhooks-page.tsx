@@ -6,25 +6,30 @@ import { useCallback, useEffect, useState } from "react";
 import { GoogleWebhookCard } from "./google-webhook-card";
 import { NotionWebhookCard } from "./notion-webhook-card";
 import { RawStateViewer } from "./raw-state-viewer";
+import { SyncQueueCard } from "./sync-queue-card";
 import { SyncStateCard } from "./sync-state-card";
 import { WebhookLogsTable } from "./webhook-logs-table";
 import { WebhookMetricsCard } from "./webhook-metrics-card";
 
+interface GoogleWebhookData {
+  configured: boolean;
+  active: boolean;
+  expired: boolean;
+  needsRenewal: boolean;
+  channelId?: string;
+  resourceId?: string;
+  calendarId?: string;
+  calendarName?: string;
+  expiresAt?: string;
+  expiresInHours?: number;
+  createdAt?: string;
+  lastRenewedAt?: string;
+  reason?: string;
+}
+
 interface WebhooksData {
-  google: {
-    configured: boolean;
-    active: boolean;
-    expired: boolean;
-    needsRenewal: boolean;
-    channelId?: string;
-    resourceId?: string;
-    calendarId?: string;
-    expiresAt?: string;
-    expiresInHours?: number;
-    createdAt?: string;
-    lastRenewedAt?: string;
-    reason?: string;
-  };
+  google: GoogleWebhookData;
+  googleCalendars?: GoogleWebhookData[];
   notion: {
     configured: boolean;
     active: boolean;
@@ -117,6 +122,7 @@ export function WebhooksPage() {
   const [autoRefresh, setAutoRefresh] = useState(true);
   const [logsTypeFilter, setLogsTypeFilter] = useState<string>("All Types");
   const [logsStatusFilter, setLogsStatusFilter] = useState<string>("All Statuses");
+  const [refreshCount, setRefreshCount] = useState(0);
 
   const handleViewNotifications = useCallback(() => {
     setLogsTypeFilter("notification");
@@ -148,6 +154,7 @@ export function WebhooksPage() {
       const result = await response.json();
       setData(result);
       setError(null);
+      setRefreshCount((count) => count + 1);
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to load webhook status");
     } finally {
@@ -217,13 +224,18 @@ export function WebhooksPage() {
 
       {/* Provider Status Cards */}
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-        <GoogleWebhookCard status={data.google} />
+        {(data.googleCalendars?.length ? data.googleCalendars : [data.google]).map((status) => (
+          <GoogleWebhookCard key={status.calendarId ?? "default"} status={status} />
+        ))}
         <NotionWebhookCard status={data.notion} />
       </div>
 
       {/* Sync State */}
       <SyncStateCard syncState={data.syncState} />
 
+      {/* Sync Queue & Dead Letters */}
+      <SyncQueueCard refreshKey={refreshCount} />
+
       {/* Metrics */}
       <WebhookMetricsCard
         metrics={data.metrics}
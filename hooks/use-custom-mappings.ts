@@ -0,0 +1,38 @@
+import type { CustomFieldMapping } from "@/lib/settings/types";
+import useSWR from "swr";
+
+interface CustomMappingsResponse {
+  customMappings: CustomFieldMapping[];
+}
+
+const fetcher = async (url: string) => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    let message = "Failed to load custom field mappings";
+    try {
+      const data = await response.json();
+      if (data?.error) {
+        message = data.error;
+      }
+    } catch {
+      // Ignore JSON parsing errors and fall back to default message.
+    }
+    throw new Error(message);
+  }
+  return response.json();
+};
+
+export function useCustomMappings() {
+  const { data, error, isLoading, mutate } = useSWR<CustomMappingsResponse>(
+    "/api/settings/custom-mappings",
+    fetcher,
+    { revalidateOnFocus: false },
+  );
+
+  return {
+    customMappings: data?.customMappings,
+    isLoading,
+    error,
+    refresh: () => mutate(),
+  };
+}
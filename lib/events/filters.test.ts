@@ -0,0 +1,86 @@
+import type { SyncFilter } from "@/lib/settings/types";
+import { describe, expect, it } from "vitest";
+import { passesSyncFilters, validateSyncFilters } from "./filters";
+
+function filter(changes: Partial<SyncFilter> = {}): SyncFilter {
+  return {
+    id: "filter-1",
+    enabled: true,
+    action: "include",
+    source: "notion",
+    field: "Sync to calendar",
+    operator: "equals",
+    value: "true",
+    ...changes,
+  };
+}
+
+const reader = (values: Record<string, string>) => (field: string) => values[field] ?? "";
+
+describe("passesSyncFilters", () => {
+  const includes = [filter(), filter({ id: "filter-2", field: "Type", value: "Meeting" })];
+
+  it("passes everything without filters for the side", () => {
+    expect(passesSyncFilters([], "notion", reader({}))).toBe(true);
+    expect(passesSyncFilters(includes, "gcal", reader({}))).toBe(true);
+  });
+
+  it("requires one of the include rules to match", () => {
+    expect(passesSyncFilters(includes, "notion", reader({ "Sync to calendar": "true" }))).toBe(
+      true,
+    );
+    expect(passesSyncFilters(includes, "notion", reader({ Type: "meeting" }))).toBe(true);
+    expect(passesSyncFilters(includes, "notion", reader({ Type: "Task" }))).toBe(false);
+  });
+
+  it("drops events matching an exclude rule", () => {
+    const excludes = [
+      filter({
+        source: "gcal",
+        action: "exclude",
+        field: "self.responseStatus",
+        value: "declined",
+      }),
+      filter({
+        id: "filter-2",
+        source: "gcal",
+        action: "exclude",
+        field: "summary",
+        operator: "matches",
+        value: "^focus",
+      }),
+    ];
+
+    expect(passesSyncFilters(excludes, "gcal", reader({ summary: "Standup" }))).toBe(true);
+    expect(passesSyncFilters(excludes, "gcal", reader({ summary: "Focus time" }))).toBe(false);
+    expect(
+      passesSyncFilters(excludes, "gcal", reader({ "self.responseStatus": "declined" })),
+    ).toBe(false);
+  });
+
+  it("ignores disabled filters", () => {
+    expect(passesSyncFilters([filter({ enabled: false })], "notion", reader({}))).toBe(true);
+  });
+});
+
+describe("validateSyncFilters", () => {
+  it("accepts existing properties, event paths and the RSVP field", () => {
+    const filters = [
+      filter(),
+      filter({ source: "gcal", field: "transparency" }),
+      filter({ source: "gcal", field: "self.responseStatus" }),
+    ];
+
+    expect(validateSyncFilters(filters, ["Sync to calendar"])).toBeNull();
+  });
+
+  it("rejects unknown fields and invalid patterns", () => {
+    expect(validateSyncFilters([filter()], [])).toMatch(/does not exist/);
+    expect(validateSyncFilters([filter({ source: "gcal", field: "bogus" })], [])).toMatch(
+      /not a Google Calendar event field/,
+    );
+    expect(
+      validateSyncFilters([filter({ operator: "matches", value: "(" })], ["Sync to calendar"]),
+    ).toMatch(/Invalid regular expression/);
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Sync filters: include and exclude rules deciding which events sync.
+ *
+ * Each side tests its own rules against its stored values read as text: Notion properties
+ * by name, Google Calendar events by JSON path. Events left out are still read, marked
+ * `excluded`, so deletion checks keep seeing them and previews can count them.
+ */
+import { validateGcalPath } from "@/lib/google-calendar/json-path";
+import type { SyncFilter, SyncFilterOperator } from "@/lib/settings/types";
+
+/**
+ * Field of the calendar owner's RSVP ("accepted", "declined", ...), which Google keeps in
+ * the attendee entry marked `self` rather than at a fixed path
+ */
+export const GCAL_SELF_RESPONSE_FIELD = "self.responseStatus";
+
+/**
+ * Operators in the order offered in the editor
+ */
+export const SYNC_FILTER_OPERATORS: SyncFilterOperator[] = [
+  "equals",
+  "not_equals",
+  "contains",
+  "matches",
+  "is_empty",
+  "is_not_empty",
+];
+
+// Text comparisons ignore case, so "true" matches a checked checkbox and "meeting" a select
+function matchesFilter(filter: SyncFilter, text: string): boolean {
+  const actual = text.trim().toLowerCase();
+  const expected = filter.value.trim().toLowerCase();
+  switch (filter.operator) {
+    case "equals":
+      return actual === expected;
+    case "not_equals":
+      return actual !== expected;
+    case "contains":
+      return actual.includes(expected);
+    case "matches":
+      try {
+        return new RegExp(filter.value, "i").test(text);
+      } catch {
+        return false; // Invalid patterns are rejected when saved; skip any that slip through
+      }
+    case "is_empty":
+      return actual === "";
+    case "is_not_empty":
+      return actual !== "";
+  }
+}
+
+/**
+ * Whether an event passes one side's filters
+ *
+ * @param read - Reads a field of the event as text
+ */
+export function passesSyncFilters(
+  filters: SyncFilter[],
+  source: SyncFilter["source"],
+  read: (field: string) => string,
+): boolean {
+  const rules = filters.filter((filter) => filter.enabled && filter.source === source);
+  const matches = (filter: SyncFilter) => matchesFilter(filter, read(filter.field));
+  const includes = rules.filter((filter) => filter.action === "include");
+  if (includes.length > 0 && !includes.some(matches)) {
+    return false;
+  }
+  return !rules.some((filter) => filter.action === "exclude" && matches(filter));
+}
+
+/**
+ * Check enabled filters.
+ *
+ * @param notionProperties - Names of the sync pair's database properties
+ * @returns An error message, or null when every filter is valid
+ */
+export function validateSyncFilters(
+  filters: SyncFilter[],
+  notionProperties: string[],
+): string | null {
+  for (const filter of filters.filter((f) => f.enabled)) {
+    if (filter.source === "notion" && !notionProperties.includes(filter.field)) {
+      return `Notion property "${filter.field}" does not exist`;
+    }
+    if (filter.source === "gcal" && filter.field !== GCAL_SELF_RESPONSE_FIELD) {
+      const pathError = validateGcalPath(filter.field);
+      if (pathError) {
+        return pathError;
+      }
+    }
+    if (filter.operator === "matches") {
+      try {
+        new RegExp(filter.value, "i");
+      } catch {
+        return `Invalid regular expression: ${filter.value}`;
+      }
+    }
+  }
+  return null;
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { formatReminders, parseReminders, reminderSnapshot } from "./reminders";
+
+describe("formatReminders", () => {
+  it("formats each reminder in its largest exact unit, in a stable order", () => {
+    const reminders = [
+      { method: "popup" as const, minutes: 90 },
+      { method: "email" as const, minutes: 24 * 60 },
+      { method: "popup" as const, minutes: 60 },
+    ];
+
+    expect(formatReminders({ reminders })).toEqual(["email 1d", "popup 1h", "popup 90m"]);
+  });
+
+  it("marks default and empty reminder lists", () => {
+    expect(formatReminders({ useDefaultReminders: true })).toEqual(["default"]);
+    expect(formatReminders({ reminders: [] })).toEqual(["none"]);
+    expect(formatReminders({})).toEqual([]);
+  });
+});
+
+describe("parseReminders", () => {
+  it("reads methods and units", () => {
+    expect(parseReminders("popup 10m, email 1d\nEmail 2 hours before")).toEqual({
+      reminders: [
+        { method: "popup", minutes: 10 },
+        { method: "email", minutes: 24 * 60 },
+        { method: "email", minutes: 120 },
+      ],
+    });
+  });
+
+  it("reads bare numbers as popup minutes", () => {
+    expect(parseReminders("30")).toEqual({ reminders: [{ method: "popup", minutes: 30 }] });
+  });
+
+  it("reads the default and empty markers", () => {
+    expect(parseReminders("Default")).toEqual({ useDefaultReminders: true });
+    expect(parseReminders("none")).toEqual({ reminders: [] });
+    expect(parseReminders(" ")).toEqual({});
+  });
+
+  it("round-trips formatted reminders", () => {
+    const event = {
+      reminders: [
+        { method: "email" as const, minutes: 7 * 24 * 60 },
+        { method: "popup" as const, minutes: 5 },
+      ],
+    };
+
+    expect(parseReminders(formatReminders(event).join(", "))).toEqual(event);
+  });
+});
+
+describe("reminderSnapshot", () => {
+  it("keeps a lone popup reminder as minutes", () => {
+    expect(reminderSnapshot({ reminders: [{ method: "popup", minutes: 10 }] })).toBe(10);
+  });
+
+  it("formats other reminder lists", () => {
+    expect(
+      reminderSnapshot({
+        reminders: [
+          { method: "popup", minutes: 10 },
+          { method: "email", minutes: 60 },
+        ],
+      }),
+    ).toBe("email 1h, popup 10m");
+    expect(reminderSnapshot({ useDefaultReminders: true })).toBe("default");
+    expect(reminderSnapshot({})).toBeNull();
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Event reminders as stored in Notion: one entry per reminder, like "popup 10m" or
+ * "email 1d", separated by commas or as multi-select options. "default" stands for the
+ * calendar's default reminders and "none" for no reminders. A bare number reads as a popup
+ * reminder that many minutes before, as earlier versions stored reminders.
+ */
+import type { Event, Reminder } from "@/lib/types";
+
+export const DEFAULT_REMINDERS = "default";
+export const NO_REMINDERS = "none";
+
+// Largest exact unit first
+const UNITS = [
+  { suffix: "d", minutes: 24 * 60 },
+  { suffix: "h", minutes: 60 },
+  { suffix: "m", minutes: 1 },
+];
+
+const REMINDER_PATTERN =
+  /^(popup|email|notification)?\s*(\d+)\s*(m|min|mins|minutes?|h|hrs?|hours?|d|days?|w|weeks?)?(?:\s+before)?$/i;
+
+const UNIT_MINUTES: Record<string, number> = { m: 1, h: 60, d: 24 * 60, w: 7 * 24 * 60 };
+
+export function formatReminder({ method, minutes }: Reminder): string {
+  const unit = UNITS.find((u) => minutes > 0 && minutes % u.minutes === 0) ?? UNITS[2];
+  return `${method} ${minutes / unit.minutes}${unit.suffix}`;
+}
+
+/**
+ * Reminders in a stable order, so the same set always formats the same way
+ */
+function sortReminders(reminders: Reminder[]): Reminder[] {
+  return [...reminders].sort((a, b) => a.method.localeCompare(b.method) || a.minutes - b.minutes);
+}
+
+/**
+ * Format an event's reminders as entries, or [] when it has none set
+ */
+export function formatReminders(event: Pick<Event, "reminders" | "useDefaultReminders">): string[] {
+  if (event.useDefaultReminders) return [DEFAULT_REMINDERS];
+  if (!event.reminders) return [];
+  if (event.reminders.length === 0) return [NO_REMINDERS];
+  return sortReminders(event.reminders).map(formatReminder);
+}
+
+/**
+ * Parse reminder entries; entries that cannot be read are skipped.
+ * Empty text leaves the reminders unset.
+ */
+export function parseReminders(text: string): Pick<Event, "reminders" | "useDefaultReminders"> {
+  const entries = text
+    .split(/[,\n]/)
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  if (entries.length === 0) return {};
+  if (entries.some((entry) => entry.toLowerCase() === DEFAULT_REMINDERS)) {
+    return { useDefaultReminders: true };
+  }
+
+  const reminders: Reminder[] = [];
+  for (const entry of entries) {
+    const match = REMINDER_PATTERN.exec(entry);
+    if (!match) {
+      if (entry.toLowerCase() !== NO_REMINDERS) {
+        console.warn(`Skipping unreadable reminder: "${entry}"`);
+      }
+      continue;
+    }
+    const [, method, amount, unit] = match;
+    reminders.push({
+      method: method?.toLowerCase() === "email" ? "email" : "popup",
+      minutes: Number(amount) * UNIT_MINUTES[(unit ?? "m")[0].toLowerCase()],
+    });
+  }
+  return { reminders };
+}
+
+/**
+ * Reminders as compared in sync snapshots. A lone popup reminder stays a number of minutes,
+ * as earlier versions stored it, so existing snapshots keep their hash.
+ */
+export function reminderSnapshot(
+  event: Pick<Event, "reminders" | "useDefaultReminders">,
+): number | string | null {
+  const [only, ...rest] = event.reminders ?? [];
+  if (!event.useDefaultReminders && only?.method === "popup" && rest.length === 0) {
+    return only.minutes;
+  }
+  const entries = formatReminders(event);
+  return entries.length > 0 ? entries.join(", ") : null;
+}
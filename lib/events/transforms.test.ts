@@ -0,0 +1,118 @@
+import type { ExtendedFieldMapping, FieldTransform } from "@/lib/settings/types";
+import { describe, expect, it } from "vitest";
+import {
+  restoreReplacedValues,
+  transformValue,
+  untransformValue,
+  validateTransforms,
+} from "./transforms";
+
+const colors: FieldTransform = {
+  type: "map",
+  values: { Tomato: "Red", Lavender: "Purple" },
+  side: "notion",
+};
+const workPrefix: FieldTransform = {
+  type: "template",
+  template: "💼 {value}",
+  side: "gcal",
+  calendar: "Work",
+};
+
+describe("transformValue", () => {
+  it("applies the steps of one side in order", () => {
+    const steps: FieldTransform[] = [
+      colors,
+      { type: "template", template: "{value} ({value})", side: "notion" },
+      { type: "replace", pattern: "\\s+", replacement: "_", side: "notion" },
+    ];
+
+    expect(transformValue("Tomato", steps, "notion")).toBe("Red_(Red)");
+    expect(transformValue("Tomato", steps, "gcal")).toBe("Tomato");
+  });
+
+  it("only applies calendar-specific steps to that calendar", () => {
+    expect(transformValue("Standup", [workPrefix], "gcal", "Work")).toBe("💼 Standup");
+    expect(transformValue("Standup", [workPrefix], "gcal", "Personal")).toBe("Standup");
+  });
+});
+
+describe("untransformValue", () => {
+  it("undoes maps and templates so values round-trip", () => {
+    const steps: FieldTransform[] = [
+      colors,
+      { type: "template", template: "[{value}]", side: "notion" },
+    ];
+
+    const stored = transformValue("Lavender", steps, "notion");
+    expect(stored).toBe("[Purple]");
+    expect(untransformValue(stored, steps, "notion")).toBe("Lavender");
+    expect(untransformValue("💼 Standup", [workPrefix], "gcal", "Work")).toBe("Standup");
+  });
+
+  it("leaves values that were not transformed alone", () => {
+    expect(untransformValue("Green", [colors], "notion")).toBe("Green");
+    expect(untransformValue("Standup", [workPrefix], "gcal", "Work")).toBe("Standup");
+  });
+});
+
+describe("restoreReplacedValues", () => {
+  const underscores: FieldTransform = {
+    type: "replace",
+    pattern: "\\s+",
+    replacement: "_",
+    side: "gcal",
+    calendar: "Work",
+  };
+  const fieldMapping = {
+    title: { transforms: [underscores] },
+    location: {},
+  } as unknown as ExtendedFieldMapping;
+  const event = {
+    id: "gcal-1",
+    title: "Team_review",
+    location: "Room 4",
+    startTime: new Date("2026-03-02T09:00:00.000Z"),
+    endTime: new Date("2026-03-02T10:00:00.000Z"),
+  };
+
+  it("puts back a synced value that reads back replaced", () => {
+    const synced = { title: "Team review", location: "Room 2" };
+
+    expect(restoreReplacedValues(event, synced, fieldMapping, "gcal", "Work")).toEqual({
+      ...event,
+      title: "Team review",
+    });
+  });
+
+  it("keeps values edited on the side and sides without replacements", () => {
+    const edited = { ...event, title: "Team_sync" };
+    const synced = { title: "Team review" };
+
+    expect(restoreReplacedValues(edited, synced, fieldMapping, "gcal", "Work")).toEqual(edited);
+    expect(restoreReplacedValues(event, synced, fieldMapping, "gcal", "Home")).toEqual(event);
+  });
+});
+
+describe("validateTransforms", () => {
+  it("accepts valid steps", () => {
+    expect(validateTransforms("title", [colors, workPrefix])).toBeNull();
+  });
+
+  it("rejects fields a side cannot transform", () => {
+    expect(validateTransforms("color", [{ ...colors, side: "gcal" }])).toMatch(/Google Calendar/);
+  });
+
+  it("rejects templates without one placeholder and invalid patterns", () => {
+    const template: FieldTransform = { type: "template", template: "No value", side: "notion" };
+    const replace: FieldTransform = {
+      type: "replace",
+      pattern: "(",
+      replacement: "",
+      side: "notion",
+    };
+
+    expect(validateTransforms("title", [template])).toMatch(/\{value\} once/);
+    expect(validateTransforms("title", [replace])).toMatch(/Invalid regular expression/);
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * Value transform pipelines of mapped fields.
+ *
+ * Events carry neutral values; each side can shape how a field is stored there, e.g.
+ * Google Calendar color names as Notion select options, or titles prefixed with an emoji
+ * per calendar in Google Calendar. Maps and templates are undone when a value is read
+ * back, so a round trip returns the original value. Regex replacements cannot be undone;
+ * the engine puts back the last synced value where they are all that changed it.
+ */
+import type { ExtendedFieldMapping, FieldTransform } from "@/lib/settings/types";
+import type { Event } from "@/lib/types";
+
+/**
+ * Fields whose Notion values can be transformed
+ */
+export const NOTION_TRANSFORM_FIELDS: Array<keyof ExtendedFieldMapping> = [
+  "title",
+  "description",
+  "location",
+  "reminders",
+  "organizer",
+  "conferenceLink",
+  "color",
+  "visibility",
+];
+
+/**
+ * Fields whose Google Calendar values can be transformed: the text fields we write there
+ */
+export const GCAL_TRANSFORM_FIELDS: Array<keyof ExtendedFieldMapping> = [
+  "title",
+  "description",
+  "location",
+];
+
+const VALUE_PLACEHOLDER = "{value}";
+
+// Text fields the sync compares between sides
+const COMPARED_TEXT_FIELDS = ["title", "description", "location"] as const;
+
+type ComparedTextField = (typeof COMPARED_TEXT_FIELDS)[number];
+
+function appliesTo(step: FieldTransform, side: FieldTransform["side"], calendar?: string) {
+  return step.side === side && (!step.calendar || step.calendar === calendar);
+}
+
+function applyStep(step: FieldTransform, value: string): string {
+  switch (step.type) {
+    case "map":
+      return Object.hasOwn(step.values, value) ? step.values[value] : value;
+    case "template":
+      return step.template.split(VALUE_PLACEHOLDER).join(value);
+    case "replace":
+      try {
+        return value.replace(new RegExp(step.pattern, "g"), step.replacement);
+      } catch {
+        return value; // Invalid patterns are rejected when saved; skip any that slip through
+      }
+  }
+}
+
+function undoStep(step: FieldTransform, value: string): string {
+  switch (step.type) {
+    case "map": {
+      const original = Object.entries(step.values).find(([, mapped]) => mapped === value);
+      return original ? original[0] : value;
+    }
+    case "template": {
+      const parts = step.template.split(VALUE_PLACEHOLDER);
+      if (parts.length !== 2) return value;
+      const [prefix, suffix] = parts;
+      const wrapped =
+        value.length >= prefix.length + suffix.length &&
+        value.startsWith(prefix) &&
+        value.endsWith(suffix);
+      return wrapped ? value.slice(prefix.length, value.length - suffix.length) : value;
+    }
+    case "replace":
+      return value;
+  }
+}
+
+/**
+ * Shape a value for storing on one side
+ *
+ * @param calendar - Name of the event's Google Calendar, for calendar-specific steps
+ */
+export function transformValue(
+  value: string,
+  transforms: FieldTransform[] | undefined,
+  side: FieldTransform["side"],
+  calendar?: string,
+): string {
+  return (transforms ?? [])
+    .filter((step) => appliesTo(step, side, calendar))
+    .reduce((result, step) => applyStep(step, result), value);
+}
+
+/**
+ * Undo transformValue on a value read from one side
+ */
+export function untransformValue(
+  value: string,
+  transforms: FieldTransform[] | undefined,
+  side: FieldTransform["side"],
+  calendar?: string,
+): string {
+  return (transforms ?? [])
+    .filter((step) => appliesTo(step, side, calendar))
+    .reduceRight((result, step) => undoStep(step, result), value);
+}
+
+/**
+ * Put back the last synced values of text fields that a side's regex replacements changed.
+ * A value that is exactly what storing the synced value on that side reads back was not
+ * edited there, though it differs from the synced value.
+ *
+ * @param synced - Text values at the last sync
+ * @param calendar - Name of the event's Google Calendar, for calendar-specific steps
+ */
+export function restoreReplacedValues(
+  event: Event,
+  synced: Partial<Record<ComparedTextField, string>>,
+  fieldMapping: ExtendedFieldMapping,
+  side: FieldTransform["side"],
+  calendar?: string,
+): Event {
+  const restored = { ...event };
+  for (const field of COMPARED_TEXT_FIELDS) {
+    const transforms = fieldMapping[field]?.transforms;
+    const value = synced[field];
+    const replaces = transforms?.some(
+      (step) => step.type === "replace" && appliesTo(step, side, calendar),
+    );
+    if (!value || !replaces || value === event[field]) continue;
+
+    const stored = transformValue(value, transforms, side, calendar);
+    if (untransformValue(stored, transforms, side, calendar) === (event[field] ?? "")) {
+      restored[field] = value;
+    }
+  }
+  return restored;
+}
+
+/**
+ * Check a field's transforms.
+ *
+ * @returns An error message, or null when every step is valid
+ */
+export function validateTransforms(field: string, transforms: FieldTransform[]): string | null {
+  const sides: Record<FieldTransform["side"], string[]> = {
+    notion: NOTION_TRANSFORM_FIELDS,
+    gcal: GCAL_TRANSFORM_FIELDS,
+  };
+  for (const step of transforms) {
+    if (!sides[step.side].includes(field)) {
+      return `${field} values cannot be transformed in ${step.side === "gcal" ? "Google Calendar" : "Notion"}`;
+    }
+    // One placeholder, so the template can be undone
+    if (step.type === "template" && step.template.split(VALUE_PLACEHOLDER).length !== 2) {
+      return `Template "${step.template}" for ${field} must contain ${VALUE_PLACEHOLDER} once`;
+    }
+    if (step.type === "replace") {
+      try {
+        new RegExp(step.pattern, "g");
+      } catch {
+        return `Invalid regular expression for ${field}: ${step.pattern}`;
+      }
+    }
+  }
+  return null;
+}
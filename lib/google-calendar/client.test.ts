@@ -1,7 +1,15 @@
 /**
- * Tests for Google Calendar client - specifically parseRRule helper
+ * Tests for Google Calendar client - parseRRule helper and paginated fetching
  */
-import { describe, expect, test, vi } from "vitest";
+import { DEFAULT_EXTENDED_FIELD_MAPPING } from "@/lib/settings/types";
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+
+const { mockList, mockInsert, mockGet, mockPatch } = vi.hoisted(() => ({
+  mockList: vi.fn(),
+  mockInsert: vi.fn(),
+  mockGet: vi.fn(),
+  mockPatch: vi.fn(),
+}));
 
 // Mock settings module
 vi.mock("@/lib/settings", () => ({
@@ -18,17 +26,24 @@ vi.mock("@/lib/settings", () => ({
     "10": { name: "Basil", hex: "#0b8043" },
     "11": { name: "Tomato", hex: "#d50000" },
   },
-  getGoogleConfig: vi.fn(),
+  getGoogleConfig: vi.fn(async () => ({ calendarId: "primary", calendars: [] })),
+  getActiveSyncPairId: vi.fn(async () => "default"),
+  getCustomMappings: vi.fn(async () => []),
+  getSyncFilters: vi.fn(async () => []),
+  getFieldMapping: vi.fn(async () => DEFAULT_EXTENDED_FIELD_MAPPING),
 }));
 
 // Mock Google Calendar API
 vi.mock("@googleapis/calendar", () => ({
-  calendar: vi.fn(),
+  calendar: vi.fn(() => ({
+    events: { list: mockList, insert: mockInsert, get: mockGet, patch: mockPatch },
+    calendars: { get: vi.fn(async () => ({ data: { timeZone: "Europe/Berlin" } })) },
+  })),
 }));
 
 // Mock Google Auth Library
 vi.mock("google-auth-library", () => ({
-  OAuth2Client: vi.fn(),
+  OAuth2Client: vi.fn(() => ({ setCredentials: vi.fn() })),
 }));
 
 // Mock types
@@ -36,7 +51,25 @@ vi.mock("@/lib/types", () => ({
   eventSchema: {},
 }));
 
-import { gcalEventToEvent } from "./client";
+import { getCustomMappings, getFieldMapping, getGoogleConfig } from "@/lib/settings";
+import {
+  createGcalEvent,
+  fetchGcalEvents,
+  fetchGcalEventsSince,
+  gcalEventToEvent,
+  iterateGcalEvents,
+  resetGcalClient,
+  updateGcalEvent,
+} from "./client";
+
+function gcalItem(id: string) {
+  return {
+    id,
+    summary: `Event ${id}`,
+    start: { dateTime: "2026-03-02T09:00:00Z" },
+    end: { dateTime: "2026-03-02T10:00:00Z" },
+  };
+}
 
 describe("gcalEventToEvent - recurrence parsing", () => {
   test("parses daily frequency", () => {
@@ -119,13 +152,17 @@ describe("gcalEventToEvent - extended fields", () => {
       start: { dateTime: "2025-01-26T10:00:00Z" },
       end: { dateTime: "2025-01-26T11:00:00Z" },
       attendees: [
-        { displayName: "John Doe", email: "john@example.com" },
-        { displayName: "Jane Smith", email: "jane@example.com" },
+        { displayName: "John Doe", email: "john@example.com", responseStatus: "accepted" },
+        { email: "jane@example.com", optional: true },
         { email: "me@example.com", self: true }, // Should be filtered out
+        { email: "room@resource.calendar.google.com", resource: true }, // Rooms too
       ],
     });
 
-    expect(result?.attendees).toEqual(["John Doe", "Jane Smith"]);
+    expect(result?.attendees).toEqual([
+      { email: "john@example.com", name: "John Doe", responseStatus: "accepted" },
+      { email: "jane@example.com", optional: true },
+    ]);
   });
 
   test("extracts organizer", () => {
@@ -181,3 +218,451 @@ describe("gcalEventToEvent - extended fields", () => {
     expect(result?.visibility).toBe("private");
   });
 });
+
+describe("gcalEventToEvent - recurring series", () => {
+  test("keeps the series' RRULE and EXDATE lines", () => {
+    const result = gcalEventToEvent({
+      id: "standup",
+      summary: "Standup",
+      start: { dateTime: "2026-03-02T09:00:00Z" },
+      end: { dateTime: "2026-03-02T09:15:00Z" },
+      recurrence: ["EXDATE:20260309T090000Z", "RRULE:FREQ=WEEKLY;BYDAY=MO"],
+    });
+
+    expect(result?.rrule).toEqual(["EXDATE:20260309T090000Z", "RRULE:FREQ=WEEKLY;BYDAY=MO"]);
+    expect(result?.recurrence).toBe("Weekly on Monday");
+  });
+
+  test("maps a modified instance to its own event in the series", () => {
+    const result = gcalEventToEvent({
+      id: "standup_20260316T090000Z",
+      summary: "Standup (moved)",
+      start: { dateTime: "2026-03-16T10:00:00Z" },
+      end: { dateTime: "2026-03-16T10:15:00Z" },
+      recurringEventId: "standup",
+      originalStartTime: { dateTime: "2026-03-16T09:00:00Z" },
+      extendedProperties: { private: { notion_page_id: "series-page" } },
+    });
+
+    expect(result?.recurringEventId).toBe("standup");
+    expect(result?.originalStartTime?.toISOString()).toBe("2026-03-16T09:00:00.000Z");
+    expect(result?.rrule).toBeUndefined();
+    // The page ID was inherited from the series
+    expect(result?.notionPageId).toBeUndefined();
+  });
+
+  test("keeps cancelled instances that only carry their original start", () => {
+    const result = gcalEventToEvent({
+      id: "standup_20260323T090000Z",
+      status: "cancelled",
+      recurringEventId: "standup",
+      originalStartTime: { dateTime: "2026-03-23T09:00:00Z" },
+      extendedProperties: { private: { notion_page_id: "series-page" } },
+    });
+
+    expect(result?.notionPageId).toBeUndefined();
+    expect(result).toMatchObject({
+      id: "standup_20260323T090000Z",
+      gcalEventId: "standup_20260323T090000Z",
+      status: "cancelled",
+      recurringEventId: "standup",
+    });
+  });
+});
+
+describe("all-day events", () => {
+  beforeEach(() => {
+    mockInsert.mockReset();
+    mockInsert.mockResolvedValue({ data: { id: "created" } });
+    resetGcalClient();
+  });
+
+  test("reads start.date as an all-day event with an exclusive end", () => {
+    const result = gcalEventToEvent({
+      id: "trip",
+      summary: "Trip",
+      start: { date: "2026-03-02" },
+      end: { date: "2026-03-05" },
+    });
+
+    expect(result?.allDay).toBe(true);
+    expect(result?.startTime.toISOString()).toBe("2026-03-02T00:00:00.000Z");
+    expect(result?.endTime.toISOString()).toBe("2026-03-05T00:00:00.000Z");
+  });
+
+  test("keeps a meeting at midnight UTC as a timed event", () => {
+    const result = gcalEventToEvent({
+      id: "late",
+      summary: "Late call",
+      start: { dateTime: "2026-03-02T00:00:00Z" },
+      end: { dateTime: "2026-03-03T00:00:00Z" },
+    });
+
+    expect(result?.allDay).toBe(false);
+  });
+
+  test("writes all-day events as dates with the exclusive end date", async () => {
+    await createGcalEvent({
+      id: "trip",
+      title: "Trip",
+      startTime: new Date("2026-03-02T00:00:00Z"),
+      endTime: new Date("2026-03-05T00:00:00Z"),
+      allDay: true,
+    });
+
+    const { requestBody } = mockInsert.mock.calls[0][0];
+    expect(requestBody.start).toEqual({ date: "2026-03-02" });
+    expect(requestBody.recurrence).toBeUndefined();
+    expect(requestBody.end).toEqual({ date: "2026-03-05" });
+  });
+
+  test("writes a series with its recurrence lines", async () => {
+    await createGcalEvent({
+      id: "standup",
+      title: "Standup",
+      startTime: new Date("2026-03-02T09:00:00Z"),
+      endTime: new Date("2026-03-02T09:15:00Z"),
+      rrule: ["RRULE:FREQ=WEEKLY;BYDAY=MO", "EXDATE:20260309T090000Z"],
+    });
+
+    const { requestBody } = mockInsert.mock.calls[0][0];
+    expect(requestBody.recurrence).toEqual([
+      "RRULE:FREQ=WEEKLY;BYDAY=MO",
+      "EXDATE:20260309T090000Z",
+    ]);
+  });
+
+  test("writes midnight-to-midnight events without the flag as timed events", async () => {
+    await createGcalEvent({
+      id: "late",
+      title: "Late call",
+      startTime: new Date("2026-03-02T00:00:00Z"),
+      endTime: new Date("2026-03-03T00:00:00Z"),
+    });
+
+    const { requestBody } = mockInsert.mock.calls[0][0];
+    expect(requestBody.start).toEqual({
+      dateTime: "2026-03-02T00:00:00.000Z",
+      timeZone: "Europe/Berlin",
+    });
+  });
+});
+
+describe("attendees", () => {
+  beforeEach(() => {
+    for (const mock of [mockInsert, mockGet, mockPatch]) {
+      mock.mockReset();
+    }
+    mockInsert.mockResolvedValue({ data: { id: "created" } });
+    mockGet.mockResolvedValue({
+      data: {
+        attendees: [
+          { email: "me@example.com", self: true, responseStatus: "accepted" },
+          { email: "john@example.com", displayName: "John", responseStatus: "accepted" },
+        ],
+      },
+    });
+    resetGcalClient();
+  });
+
+  test("invites the guests of a new event", async () => {
+    await createGcalEvent({
+      id: "sync",
+      title: "Sync",
+      startTime: new Date("2026-03-02T09:00:00Z"),
+      endTime: new Date("2026-03-02T10:00:00Z"),
+      attendees: [{ email: "jane@example.com", name: "Jane" }],
+    });
+
+    const request = mockInsert.mock.calls[0][0];
+    expect(request.sendUpdates).toBe("all");
+    expect(request.requestBody.attendees).toEqual([
+      { email: "jane@example.com", displayName: "Jane", optional: undefined },
+    ]);
+  });
+
+  test("adds guests while keeping existing responses and the owner", async () => {
+    await updateGcalEvent("event-1", {
+      attendees: [{ email: "JOHN@example.com" }, { email: "jane@example.com" }],
+    });
+
+    const request = mockPatch.mock.calls[0][0];
+    expect(request.sendUpdates).toBe("all");
+    expect(request.requestBody.attendees).toEqual([
+      { email: "me@example.com", self: true, responseStatus: "accepted" },
+      {
+        email: "JOHN@example.com",
+        displayName: "John",
+        responseStatus: "accepted",
+        optional: undefined,
+      },
+      { email: "jane@example.com", displayName: undefined, optional: undefined },
+    ]);
+  });
+
+  test("leaves an unchanged guest list and notifications alone", async () => {
+    await updateGcalEvent("event-1", {
+      title: "Sync",
+      attendees: [{ email: "john@example.com", name: "John" }],
+    });
+
+    const request = mockPatch.mock.calls[0][0];
+    expect(request.sendUpdates).toBeUndefined();
+    expect(request.requestBody.attendees).toBeUndefined();
+  });
+});
+
+describe("custom field mappings", () => {
+  const rules = [
+    {
+      id: "project",
+      enabled: true,
+      gcalPath: "extendedProperties.shared.project",
+      notionPropertyName: "Project",
+      propertyType: "rich_text" as const,
+    },
+    {
+      id: "link",
+      enabled: true,
+      gcalPath: "htmlLink",
+      notionPropertyName: "Link",
+      propertyType: "url" as const,
+    },
+  ];
+
+  beforeEach(() => {
+    mockPatch.mockReset();
+    vi.mocked(getCustomMappings).mockResolvedValue(rules);
+    resetGcalClient();
+  });
+
+  afterEach(() => {
+    vi.mocked(getCustomMappings).mockResolvedValue([]);
+  });
+
+  test("reads each rule's path into the event's custom values", () => {
+    const event = gcalEventToEvent(
+      {
+        ...gcalItem("event-1"),
+        htmlLink: "https://calendar.google.com/event-1",
+        extendedProperties: { shared: { project: "Apollo" } },
+      },
+      "primary",
+      { customMappings: rules },
+    );
+
+    expect(event?.custom).toEqual({
+      project: "Apollo",
+      link: "https://calendar.google.com/event-1",
+    });
+  });
+
+  test("writes custom values to writable paths only", async () => {
+    await updateGcalEvent("event-1", {
+      notionPageId: "page-1",
+      custom: { project: "Gemini", link: "https://example.com" },
+    });
+
+    const { requestBody } = mockPatch.mock.calls[0][0];
+    expect(requestBody.extendedProperties).toEqual({
+      private: { notion_page_id: "page-1" },
+      shared: { project: "Gemini" },
+    });
+    expect(requestBody.htmlLink).toBeUndefined();
+  });
+});
+
+describe("reminders", () => {
+  beforeEach(() => {
+    mockInsert.mockReset();
+    mockInsert.mockResolvedValue({ data: { id: "created" } });
+    resetGcalClient();
+  });
+
+  test("reads overrides with their methods and default reminders", () => {
+    const overrides = {
+      ...gcalItem("review"),
+      reminders: {
+        useDefault: false,
+        overrides: [
+          { method: "email", minutes: 1440 },
+          { method: "popup", minutes: 10 },
+        ],
+      },
+    };
+
+    expect(gcalEventToEvent(overrides)?.reminders).toEqual([
+      { method: "email", minutes: 1440 },
+      { method: "popup", minutes: 10 },
+    ]);
+    expect(
+      gcalEventToEvent({ ...gcalItem("standup"), reminders: { useDefault: true } }),
+    ).toMatchObject({ useDefaultReminders: true });
+  });
+
+  test("writes overrides, no reminders and default reminders", async () => {
+    const event = {
+      id: "review",
+      title: "Review",
+      startTime: new Date("2026-03-02T09:00:00Z"),
+      endTime: new Date("2026-03-02T10:00:00Z"),
+    };
+
+    await createGcalEvent({ ...event, reminders: [{ method: "email", minutes: 60 }] });
+    await createGcalEvent({ ...event, reminders: [] });
+    await createGcalEvent({ ...event, useDefaultReminders: true });
+
+    expect(mockInsert.mock.calls.map(([request]) => request.requestBody.reminders)).toEqual([
+      { useDefault: false, overrides: [{ method: "email", minutes: 60 }] },
+      { useDefault: false, overrides: [] },
+      { useDefault: true },
+    ]);
+  });
+});
+
+describe("google calendar pagination", () => {
+  beforeEach(() => {
+    mockList.mockReset();
+    resetGcalClient();
+  });
+
+  test("fetchGcalEvents follows nextPageToken across pages", async () => {
+    mockList
+      .mockResolvedValueOnce({
+        data: { items: [gcalItem("a"), gcalItem("b")], nextPageToken: "p2" },
+      })
+      .mockResolvedValueOnce({ data: { items: [gcalItem("c")], nextPageToken: "p3" } })
+      .mockResolvedValueOnce({ data: { items: [gcalItem("d")] } });
+
+    const events = await fetchGcalEvents(new Date("2026-01-01"), new Date("2026-12-31"));
+
+    expect(events.map((e) => e.id)).toEqual(["a", "b", "c", "d"]);
+    expect(mockList.mock.calls.map(([params]) => params.pageToken)).toEqual([
+      undefined,
+      "p2",
+      "p3",
+    ]);
+    expect(mockList.mock.calls[2][0]).toMatchObject({
+      calendarId: "primary",
+      timeMin: "2026-01-01T00:00:00.000Z",
+      timeMax: "2026-12-31T00:00:00.000Z",
+      singleEvents: false,
+    });
+  });
+
+  test("iterateGcalEvents stops fetching when the caller stops early", async () => {
+    mockList
+      .mockResolvedValueOnce({ data: { items: [gcalItem("a")], nextPageToken: "p2" } })
+      .mockResolvedValueOnce({ data: { items: [gcalItem("b")] } });
+
+    for await (const event of iterateGcalEvents()) {
+      expect(event.id).toBe("a");
+      break;
+    }
+
+    expect(mockList).toHaveBeenCalledTimes(1);
+  });
+
+  test("fetchGcalEventsSince collects every page and keeps the final sync token", async () => {
+    mockList
+      .mockResolvedValueOnce({ data: { items: [gcalItem("a")], nextPageToken: "p2" } })
+      .mockResolvedValueOnce({ data: { items: [gcalItem("b")], nextSyncToken: "sync-2" } });
+
+    const result = await fetchGcalEventsSince("sync-1");
+
+    expect(result.events.map((e) => e.id)).toEqual(["a", "b"]);
+    expect(result.nextSyncToken).toBe("sync-2");
+    expect(mockList.mock.calls.map(([params]) => [params.syncToken, params.pageToken])).toEqual([
+      ["sync-1", undefined],
+      ["sync-1", "p2"],
+    ]);
+  });
+
+  test("fetchGcalEventsSince reports an expired sync token", async () => {
+    mockList.mockRejectedValueOnce(Object.assign(new Error("Gone"), { code: 410 }));
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    const result = await fetchGcalEventsSince("stale");
+
+    expect(result).toEqual({ events: [], invalidToken: true });
+  });
+});
+
+describe("value transforms", () => {
+  beforeEach(() => {
+    mockInsert.mockReset();
+    mockInsert.mockResolvedValue({ data: { id: "created" } });
+    vi.mocked(getFieldMapping).mockResolvedValue({
+      ...DEFAULT_EXTENDED_FIELD_MAPPING,
+      title: {
+        ...DEFAULT_EXTENDED_FIELD_MAPPING.title,
+        transforms: [{ type: "template", template: "💼 {value}", side: "gcal", calendar: "Work" }],
+      },
+    });
+    vi.mocked(getGoogleConfig).mockResolvedValue({
+      calendarId: "primary",
+      calendars: [{ calendarId: "work@example.com", name: "Work", direction: "bidirectional" }],
+    } as unknown as Awaited<ReturnType<typeof getGoogleConfig>>);
+    resetGcalClient();
+  });
+
+  afterEach(() => {
+    vi.mocked(getFieldMapping).mockResolvedValue(DEFAULT_EXTENDED_FIELD_MAPPING);
+    vi.mocked(getGoogleConfig).mockResolvedValue({
+      calendarId: "primary",
+      calendars: [],
+    } as unknown as Awaited<ReturnType<typeof getGoogleConfig>>);
+  });
+
+  test("createGcalEvent applies the transforms of the target calendar", async () => {
+    const event = {
+      id: "standup",
+      title: "Standup",
+      startTime: new Date("2026-03-02T09:00:00.000Z"),
+      endTime: new Date("2026-03-02T09:15:00.000Z"),
+    };
+    await createGcalEvent(event, "work@example.com");
+    await createGcalEvent(event, "primary");
+
+    expect(mockInsert.mock.calls[0][0].requestBody.summary).toBe("💼 Standup");
+    expect(mockInsert.mock.calls[1][0].requestBody.summary).toBe("Standup");
+  });
+
+  test("fetchGcalEvents undoes the transforms", async () => {
+    mockList.mockResolvedValueOnce({
+      data: { items: [{ ...gcalItem("event-1"), summary: "💼 Standup" }] },
+    });
+
+    const [event] = await fetchGcalEvents(undefined, undefined, "work@example.com");
+
+    expect(event.title).toBe("Standup");
+  });
+});
+
+describe("sync filters", () => {
+  test("marks events the filters exclude, reading the owner's RSVP from the attendees", () => {
+    const syncFilters = [
+      {
+        id: "declined",
+        enabled: true,
+        action: "exclude" as const,
+        source: "gcal" as const,
+        field: "self.responseStatus",
+        operator: "equals" as const,
+        value: "declined",
+      },
+    ];
+    const declined = gcalEventToEvent(
+      {
+        ...gcalItem("event-1"),
+        attendees: [{ email: "me@example.com", self: true, responseStatus: "declined" }],
+      },
+      "primary",
+      { syncFilters },
+    );
+    const accepted = gcalEventToEvent(gcalItem("event-2"), "primary", { syncFilters });
+
+    expect(declined?.excluded).toBe(true);
+    expect(accepted?.excluded).toBeUndefined();
+  });
+});
@@ -1,13 +1,29 @@
-import { GCAL_COLORS, getGoogleConfig } from "@/lib/settings";
-import type { Event } from "@/lib/types";
+import { GCAL_SELF_RESPONSE_FIELD, passesSyncFilters } from "@/lib/events/filters";
+import { transformValue, untransformValue } from "@/lib/events/transforms";
+import {
+  type CustomFieldMapping,
+  type ExtendedFieldMapping,
+  type FieldConfig,
+  GCAL_COLORS,
+  getActiveSyncPairId,
+  getCustomMappings,
+  getFieldMapping,
+  getGoogleConfig,
+  getSyncFilters,
+  type SyncFilter,
+} from "@/lib/settings";
+import type { Attendee, Event } from "@/lib/types";
+import { addDaysUtc, formatDateOnly } from "@/lib/time-zone";
 import { calendar, type calendar_v3 } from "@googleapis/calendar";
 import { OAuth2Client } from "google-auth-library";
-import { parseRRule } from "./rrule-parser";
+import { readGcalPath, writeGcalPath } from "./json-path";
+import { describeRecurrence } from "./rrule-parser";
 
 // Cached clients (lazy initialization)
 let cachedOAuth2Client: OAuth2Client | null = null;
 let cachedCalendarClient: calendar_v3.Calendar | null = null;
-let cachedCalendarId: string | null = null;
+const cachedCalendarIds = new Map<string, string>(); // Sync pair ID → default calendar ID
+const cachedTimeZones = new Map<string, string>(); // Calendar ID → the calendar's time zone
 
 /**
  * Get or create the OAuth2 client with credentials from settings or env vars.
@@ -24,9 +40,6 @@ async function getOAuth2Client(): Promise<OAuth2Client> {
     refresh_token: config.refreshToken,
   });
 
-  // Cache the calendar ID too
-  cachedCalendarId = config.calendarId;
-
   return cachedOAuth2Client;
 }
 
@@ -48,16 +61,50 @@ async function getCalendarClient(): Promise<calendar_v3.Calendar> {
 }
 
 /**
- * Get the calendar ID from config.
+ * Get the calendar to operate on: the given one, or the active sync pair's default calendar.
  */
-async function getCalendarId(): Promise<string> {
-  if (cachedCalendarId) {
-    return cachedCalendarId;
+async function getCalendarId(calendarId?: string): Promise<string> {
+  if (calendarId) {
+    return calendarId;
+  }
+
+  const pairId = await getActiveSyncPairId();
+  const cached = cachedCalendarIds.get(pairId);
+  if (cached) {
+    return cached;
   }
 
   const config = await getGoogleConfig();
-  cachedCalendarId = config.calendarId;
-  return cachedCalendarId;
+  cachedCalendarIds.set(pairId, config.calendarId);
+  return config.calendarId;
+}
+
+/**
+ * Get the time zone event times are written in: the override from settings, else the
+ * calendar's own time zone from the Calendar API, else UTC.
+ */
+export async function getCalendarTimeZone(targetCalendarId?: string): Promise<string> {
+  const config = await getGoogleConfig();
+  if (config.timeZone) {
+    return config.timeZone;
+  }
+
+  const calendarId = await getCalendarId(targetCalendarId);
+  const cached = cachedTimeZones.get(calendarId);
+  if (cached) {
+    return cached;
+  }
+
+  try {
+    const calendarClient = await getCalendarClient();
+    const response = await calendarClient.calendars.get({ calendarId });
+    const timeZone = response.data.timeZone || "UTC";
+    cachedTimeZones.set(calendarId, timeZone);
+    return timeZone;
+  } catch (error) {
+    console.warn(`Could not read the time zone of calendar ${calendarId}, using UTC:`, error);
+    return "UTC";
+  }
 }
 
 /**
@@ -66,33 +113,108 @@ async function getCalendarId(): Promise<string> {
 export function resetGcalClient(): void {
   cachedOAuth2Client = null;
   cachedCalendarClient = null;
-  cachedCalendarId = null;
+  cachedCalendarIds.clear();
+  cachedTimeZones.clear();
+}
+
+// Google all-day events use an exclusive end date, so a one-day event ends the next day
+function allDayRange(startTime: Date, endTime: Date): { start: string; end: string } {
+  const end = endTime > startTime ? endTime : addDaysUtc(startTime, 1);
+  return { start: formatDateOnly(startTime), end: formatDateOnly(end) };
+}
+
+/**
+ * Write custom mapping values to an event request body. Values of rules that were
+ * removed since the event was read, or whose paths are read-only, are skipped.
+ */
+async function applyCustomValues(
+  gcalEvent: calendar_v3.Schema$Event,
+  custom: Record<string, string>,
+): Promise<void> {
+  for (const rule of await getCustomMappings()) {
+    const text = custom[rule.id];
+    if (text !== undefined) {
+      writeGcalPath(gcalEvent, rule.gcalPath, text);
+    }
+  }
+}
+
+/**
+ * Settings that shape the values of a calendar's events
+ */
+export interface GcalEventContext {
+  customMappings?: CustomFieldMapping[];
+  fieldMapping?: ExtendedFieldMapping;
+  calendarName?: string; // For calendar-specific transforms
+  syncFilters?: SyncFilter[];
+}
+
+async function getEventContext(calendarId: string): Promise<GcalEventContext> {
+  const [customMappings, fieldMapping, syncFilters, { calendars }] = await Promise.all([
+    getCustomMappings(),
+    getFieldMapping(),
+    getSyncFilters(),
+    getGoogleConfig(),
+  ]);
+  const calendarName = calendars.find((cal) => cal.calendarId === calendarId)?.name;
+  return { customMappings, fieldMapping, calendarName, syncFilters };
 }
 
-// Helper to check if an event is all-day
-function isAllDayEvent(startTime: Date, endTime: Date): boolean {
-  // Check if both times are at midnight (00:00:00)
-  const startAtMidnight =
-    startTime.getUTCHours() === 0 &&
-    startTime.getUTCMinutes() === 0 &&
-    startTime.getUTCSeconds() === 0;
+// Read a field filters test as text; the owner's RSVP is found among the attendees
+function readFilterField(gcalEvent: calendar_v3.Schema$Event, field: string): string {
+  if (field === GCAL_SELF_RESPONSE_FIELD) {
+    return gcalEvent.attendees?.find((attendee) => attendee.self)?.responseStatus || "";
+  }
+  return readGcalPath(gcalEvent, field);
+}
 
-  const endAtMidnight =
-    endTime.getUTCHours() === 0 && endTime.getUTCMinutes() === 0 && endTime.getUTCSeconds() === 0;
+// Apply a field's Google Calendar transforms to a value being written
+function toGcalText(
+  value: string | undefined,
+  config: FieldConfig | undefined,
+  calendarName?: string,
+): string | undefined {
+  return value === undefined
+    ? undefined
+    : transformValue(value, config?.transforms, "gcal", calendarName);
+}
 
-  return startAtMidnight && endAtMidnight;
+// Undo a field's Google Calendar transforms on a value read from an event
+function fromGcalText(
+  value: string | null | undefined,
+  config: FieldConfig | undefined,
+  calendarName?: string,
+): string | undefined {
+  return value ? untransformValue(value, config?.transforms, "gcal", calendarName) : undefined;
 }
 
-// Format date for Google Calendar all-day events (YYYY-MM-DD)
-function formatAllDayDate(date: Date): string {
-  const year = date.getUTCFullYear();
-  const month = String(date.getUTCMonth() + 1).padStart(2, "0");
-  const day = String(date.getUTCDate()).padStart(2, "0");
-  return `${year}-${month}-${day}`;
+// Google Calendar accepts at most 5 reminder overrides per event
+const MAX_REMINDER_OVERRIDES = 5;
+
+/**
+ * Reminders request body for an event, or undefined when its reminders are not set
+ */
+function gcalReminders(event: Partial<Event>): calendar_v3.Schema$Event["reminders"] {
+  if (event.useDefaultReminders) {
+    return { useDefault: true };
+  }
+  if (!event.reminders) {
+    return undefined;
+  }
+  return {
+    useDefault: false,
+    overrides: event.reminders
+      .slice(0, MAX_REMINDER_OVERRIDES)
+      .map(({ method, minutes }) => ({ method, minutes })),
+  };
 }
 
 // Convert Google Calendar event to our Event type
-export function gcalEventToEvent(gcalEvent: calendar_v3.Schema$Event): Event | null {
+export function gcalEventToEvent(
+  gcalEvent: calendar_v3.Schema$Event,
+  calendarId?: string,
+  { customMappings = [], fieldMapping, calendarName, syncFilters = [] }: GcalEventContext = {},
+): Event | null {
   try {
     // Skip special read-only events like birthdays from Google Contacts
     if (gcalEvent.eventType === "birthday") {
@@ -100,6 +222,26 @@ export function gcalEventToEvent(gcalEvent: calendar_v3.Schema$Event): Event | n
       return null;
     }
 
+    // Modified or cancelled instances of a series point back at it
+    const recurringEventId = gcalEvent.recurringEventId || undefined;
+    const originalStart =
+      gcalEvent.originalStartTime?.dateTime || gcalEvent.originalStartTime?.date;
+
+    // Cancelled instances only carry their ID and original start
+    if (gcalEvent.id && recurringEventId && originalStart && gcalEvent.status === "cancelled") {
+      return {
+        id: gcalEvent.id,
+        title: gcalEvent.summary || "",
+        startTime: new Date(originalStart),
+        endTime: new Date(originalStart),
+        status: "cancelled",
+        recurringEventId,
+        originalStartTime: new Date(originalStart),
+        gcalEventId: gcalEvent.id,
+        calendarId,
+      };
+    }
+
     if (!gcalEvent.id || !gcalEvent.summary) {
       console.warn("GCal event missing required fields:", gcalEvent.id);
       return null;
@@ -113,7 +255,14 @@ export function gcalEventToEvent(gcalEvent: calendar_v3.Schema$Event): Event | n
       return null;
     }
 
-    const notionPageId = gcalEvent.extendedProperties?.private?.notion_page_id;
+    // All-day events have a date without a time; the end date is exclusive
+    const allDay = !gcalEvent.start?.dateTime && Boolean(gcalEvent.start?.date);
+
+    // Instances inherit the series' private properties, so the page ID there is the series
+    // page; an instance's own page is only found through the mapping store
+    const notionPageId = recurringEventId
+      ? undefined
+      : gcalEvent.extendedProperties?.private?.notion_page_id;
 
     // Map Google Calendar status to our status
     let status: Event["status"] = "confirmed";
@@ -123,13 +272,22 @@ export function gcalEventToEvent(gcalEvent: calendar_v3.Schema$Event): Event | n
       status = "tentative";
     }
 
-    // Extract reminder minutes (take first reminder if exists)
-    const reminders = gcalEvent.reminders?.overrides?.[0]?.minutes;
-
-    // Extract attendees (exclude self, format as array of names/emails)
+    // Extract reminders: the calendar's defaults, or the event's own (possibly none)
+    const reminders: Pick<Event, "reminders" | "useDefaultReminders"> = !gcalEvent.reminders
+      ? {}
+      : gcalEvent.reminders.useDefault
+        ? { useDefaultReminders: true }
+        : {
+            reminders: (gcalEvent.reminders.overrides ?? []).map((reminder) => ({
+              method: reminder.method === "email" ? "email" : "popup",
+              minutes: reminder.minutes ?? 0,
+            })),
+          };
+
+    // Extract attendees (exclude self and rooms, which are not invited guests)
     const attendees = gcalEvent.attendees
-      ?.filter((a) => !a.self)
-      ?.map((a) => a.displayName || a.email?.split("@")[0] || "Unknown");
+      ?.filter((a) => !a.self && !a.resource && a.email)
+      .map(gcalAttendeeToAttendee);
 
     // Extract organizer
     const organizer = gcalEvent.organizer?.displayName || gcalEvent.organizer?.email;
@@ -139,8 +297,9 @@ export function gcalEventToEvent(gcalEvent: calendar_v3.Schema$Event): Event | n
       (e) => e.entryPointType === "video",
     )?.uri;
 
-    // Extract recurrence (convert RRULE to human-readable)
-    const recurrence = gcalEvent.recurrence?.[0] ? parseRRule(gcalEvent.recurrence[0]) : undefined;
+    // Extract recurrence: the series' RRULE/EXDATE lines and their human-readable form
+    const rrule = gcalEvent.recurrence?.length ? gcalEvent.recurrence : undefined;
+    const recurrence = rrule ? describeRecurrence(rrule) : undefined;
 
     // Extract color (map colorId to color name)
     const color = gcalEvent.colorId ? GCAL_COLORS[gcalEvent.colorId]?.name || "Default" : undefined;
@@ -148,25 +307,42 @@ export function gcalEventToEvent(gcalEvent: calendar_v3.Schema$Event): Event | n
     // Extract visibility
     const visibility = gcalEvent.visibility as "public" | "private" | "default" | undefined;
 
+    // Values of custom mappings, read from their paths
+    const custom = Object.fromEntries(
+      customMappings.map((rule) => [rule.id, readGcalPath(gcalEvent, rule.gcalPath)]),
+    );
+
+    const excluded = !passesSyncFilters(syncFilters, "gcal", (field) =>
+      readFilterField(gcalEvent, field),
+    );
+
     return {
       id: gcalEvent.id,
-      title: gcalEvent.summary,
-      description: gcalEvent.description || undefined,
+      title: fromGcalText(gcalEvent.summary, fieldMapping?.title, calendarName) || "",
+      description: fromGcalText(gcalEvent.description, fieldMapping?.description, calendarName),
       startTime: new Date(startTime),
       endTime: new Date(endTime),
-      location: gcalEvent.location || undefined,
+      allDay,
+      location: fromGcalText(gcalEvent.location, fieldMapping?.location, calendarName),
       status,
-      reminders: reminders || undefined,
+      ...reminders,
       // Extended fields
       attendees: attendees?.length ? attendees : undefined,
       organizer: organizer || undefined,
       conferenceLink: conferenceLink || undefined,
       recurrence: recurrence || undefined,
+      rrule,
+      recurringEventId,
+      originalStartTime: originalStart ? new Date(originalStart) : undefined,
       color: color || undefined,
       visibility: visibility || undefined,
+      ...(customMappings.length > 0 && { custom }),
       // Sync metadata
       gcalEventId: gcalEvent.id,
       notionPageId: notionPageId || undefined,
+      calendarId,
+      updatedAt: gcalEvent.updated ? new Date(gcalEvent.updated) : undefined,
+      ...(excluded && { excluded }),
     };
   } catch (error) {
     console.error("Error converting GCal event to Event:", error);
@@ -174,32 +350,116 @@ export function gcalEventToEvent(gcalEvent: calendar_v3.Schema$Event): Event | n
   }
 }
 
-// Fetch all events from Google Calendar
-export async function fetchGcalEvents(timeMin?: Date, timeMax?: Date): Promise<Event[]> {
-  try {
-    const calendarClient = await getCalendarClient();
-    const calendarId = await getCalendarId();
+function gcalAttendeeToAttendee(attendee: calendar_v3.Schema$EventAttendee): Attendee {
+  return {
+    email: attendee.email || "",
+    name: attendee.displayName || undefined,
+    responseStatus: (attendee.responseStatus as Attendee["responseStatus"]) || undefined,
+    optional: attendee.optional || undefined,
+  };
+}
 
-    // Default to fetching events from now up to 1 year in the future
-    const defaultTimeMin = timeMin || new Date();
-    const defaultTimeMax = timeMax || new Date(Date.now() + 365 * 24 * 60 * 60 * 1000); // 1 year from now
+/**
+ * Apply a new guest list to an event's attendees. Guests already invited keep their
+ * response, and the calendar owner and rooms are never removed.
+ *
+ * @returns changed is true when guests were added or removed
+ */
+function mergeGcalAttendees(
+  current: calendar_v3.Schema$EventAttendee[],
+  attendees: Attendee[],
+): { attendees: calendar_v3.Schema$EventAttendee[]; changed: boolean } {
+  const find = (email: string) =>
+    current.find((existing) => existing.email?.toLowerCase() === email.toLowerCase());
+
+  const kept = current.filter((existing) => existing.self || existing.resource);
+  const guests: calendar_v3.Schema$EventAttendee[] = [];
+  let existingCount = 0;
+  for (const attendee of attendees) {
+    const existing = find(attendee.email);
+    if (existing?.self || existing?.resource) {
+      continue;
+    }
+    if (existing) existingCount++;
+    guests.push({
+      ...existing,
+      email: attendee.email,
+      displayName: attendee.name ?? existing?.displayName,
+      optional: attendee.optional ?? existing?.optional,
+    });
+  }
+
+  const invited = current.length - kept.length;
+  // Guests were added or removed unless every current guest is still invited and nobody else is
+  const changed = existingCount < invited || guests.length > existingCount;
+  return { attendees: [...kept, ...guests], changed };
+}
 
+// Maximum page size allowed by the events.list API
+const GCAL_PAGE_SIZE = 2500;
+
+/**
+ * Stream events from Google Calendar, following `nextPageToken` until the last page.
+ * Defaults to events from now up to 1 year in the future, in the default calendar.
+ *
+ * @param syncFilters - Filters to mark excluded events by instead of the saved ones
+ * @param expandRecurring - Return each occurrence of a series instead of the series itself
+ */
+export async function* iterateGcalEvents(
+  timeMin?: Date,
+  timeMax?: Date,
+  targetCalendarId?: string,
+  syncFilters?: SyncFilter[],
+  expandRecurring = false,
+): AsyncGenerator<Event> {
+  const calendarClient = await getCalendarClient();
+  const calendarId = await getCalendarId(targetCalendarId);
+  const context = await getEventContext(calendarId);
+  if (syncFilters) {
+    context.syncFilters = syncFilters;
+  }
+
+  const defaultTimeMin = timeMin || new Date();
+  const defaultTimeMax = timeMax || new Date(Date.now() + 365 * 24 * 60 * 60 * 1000); // 1 year from now
+
+  let pageToken: string | undefined;
+  do {
     const response = await calendarClient.events.list({
       calendarId,
       timeMin: defaultTimeMin.toISOString(),
       timeMax: defaultTimeMax.toISOString(),
-      singleEvents: true, // Expand recurring events into instances
-      orderBy: "startTime",
+      // Recurring events come back as one series plus their modified instances unless expanded
+      singleEvents: expandRecurring,
+      ...(expandRecurring && { orderBy: "startTime" }),
+      maxResults: GCAL_PAGE_SIZE,
+      pageToken,
     });
 
-    const events: Event[] = [];
     for (const gcalEvent of response.data.items || []) {
-      const event = gcalEventToEvent(gcalEvent);
+      const event = gcalEventToEvent(gcalEvent, calendarId, context);
       if (event) {
-        events.push(event);
+        yield event;
       }
     }
 
+    pageToken = response.data.nextPageToken || undefined;
+  } while (pageToken);
+}
+
+// Fetch all events from Google Calendar
+export async function fetchGcalEvents(
+  timeMin?: Date,
+  timeMax?: Date,
+  calendarId?: string,
+  syncFilters?: SyncFilter[],
+  expandRecurring = false,
+): Promise<Event[]> {
+  try {
+    const events: Event[] = [];
+    const iterator = iterateGcalEvents(timeMin, timeMax, calendarId, syncFilters, expandRecurring);
+    for await (const event of iterator) {
+      events.push(event);
+    }
     return events;
   } catch (error) {
     console.error("Error fetching Google Calendar events:", error);
@@ -207,34 +467,65 @@ export async function fetchGcalEvents(timeMin?: Date, timeMax?: Date): Promise<E
   }
 }
 
+/**
+ * Fetch events from every synced calendar (default calendar first).
+ * Each event carries the `calendarId` it was read from.
+ */
+export async function fetchSyncedGcalEvents(
+  timeMin?: Date,
+  timeMax?: Date,
+  syncFilters?: SyncFilter[],
+): Promise<Event[]> {
+  const { calendars } = await getGoogleConfig();
+  const events: Event[] = [];
+  for (const { calendarId } of calendars) {
+    events.push(...(await fetchGcalEvents(timeMin, timeMax, calendarId, syncFilters)));
+  }
+  return events;
+}
+
 // Fetch events since last sync using sync token (incremental sync for webhooks)
-export async function fetchGcalEventsSince(syncToken?: string): Promise<{
+export async function fetchGcalEventsSince(
+  syncToken?: string,
+  targetCalendarId?: string,
+): Promise<{
   events: Event[];
   nextSyncToken?: string;
   invalidToken?: boolean;
 }> {
   try {
     const calendarClient = await getCalendarClient();
-    const calendarId = await getCalendarId();
-
-    const response = await calendarClient.events.list({
-      calendarId,
-      syncToken: syncToken,
-      singleEvents: true,
-      maxResults: 2500, // Maximum allowed by API
-    });
+    const calendarId = await getCalendarId(targetCalendarId);
+    const context = await getEventContext(calendarId);
 
     const events: Event[] = [];
-    for (const gcalEvent of response.data.items || []) {
-      const event = gcalEventToEvent(gcalEvent);
-      if (event) {
-        events.push(event);
+    let pageToken: string | undefined;
+    let nextSyncToken: string | undefined;
+
+    // The sync token is only returned on the last page
+    do {
+      const response = await calendarClient.events.list({
+        calendarId,
+        syncToken: syncToken,
+        singleEvents: false,
+        maxResults: GCAL_PAGE_SIZE,
+        pageToken,
+      });
+
+      for (const gcalEvent of response.data.items || []) {
+        const event = gcalEventToEvent(gcalEvent, calendarId, context);
+        if (event) {
+          events.push(event);
+        }
       }
-    }
+
+      pageToken = response.data.nextPageToken || undefined;
+      nextSyncToken = response.data.nextSyncToken || undefined;
+    } while (pageToken);
 
     return {
       events,
-      nextSyncToken: response.data.nextSyncToken || undefined,
+      nextSyncToken,
       invalidToken: false,
     };
   } catch (error: unknown) {
@@ -259,25 +550,34 @@ export async function fetchGcalEventsSince(syncToken?: string): Promise<{
 }
 
 // Create a new event in Google Calendar
-export async function createGcalEvent(event: Event): Promise<string> {
+export async function createGcalEvent(event: Event, targetCalendarId?: string): Promise<string> {
   try {
     const calendarClient = await getCalendarClient();
-    const calendarId = await getCalendarId();
+    const calendarId = await getCalendarId(targetCalendarId);
 
-    // Check if this is an all-day event
-    const isAllDay = isAllDayEvent(event.startTime, event.endTime);
+    const timeZone = await getCalendarTimeZone(calendarId);
+    const allDayDates = event.allDay ? allDayRange(event.startTime, event.endTime) : null;
+    const { fieldMapping, calendarName } = await getEventContext(calendarId);
 
     const gcalEvent: calendar_v3.Schema$Event = {
-      summary: event.title,
-      description: event.description,
-      location: event.location,
-      start: isAllDay
-        ? { date: formatAllDayDate(event.startTime) }
-        : { dateTime: event.startTime.toISOString(), timeZone: "UTC" },
-      end: isAllDay
-        ? { date: formatAllDayDate(event.endTime) }
-        : { dateTime: event.endTime.toISOString(), timeZone: "UTC" },
+      summary: toGcalText(event.title, fieldMapping?.title, calendarName),
+      description: toGcalText(event.description, fieldMapping?.description, calendarName),
+      location: toGcalText(event.location, fieldMapping?.location, calendarName),
+      start: allDayDates
+        ? { date: allDayDates.start }
+        : { dateTime: event.startTime.toISOString(), timeZone },
+      end: allDayDates
+        ? { date: allDayDates.end }
+        : { dateTime: event.endTime.toISOString(), timeZone },
       status: event.status || "confirmed",
+      ...(event.rrule?.length && { recurrence: event.rrule }),
+      ...(event.attendees?.length && {
+        attendees: event.attendees.map((attendee) => ({
+          email: attendee.email,
+          displayName: attendee.name,
+          optional: attendee.optional,
+        })),
+      }),
       extendedProperties: {
         private: {
           ...(event.notionPageId && { notion_page_id: event.notionPageId }),
@@ -285,23 +585,21 @@ export async function createGcalEvent(event: Event): Promise<string> {
       },
     };
 
+    if (event.custom) {
+      await applyCustomValues(gcalEvent, event.custom);
+    }
+
     // Add reminders if specified
-    // Only set reminders if there's a valid number value
-    if (event.reminders !== undefined && typeof event.reminders === "number") {
-      gcalEvent.reminders = {
-        useDefault: false,
-        overrides: [
-          {
-            method: "popup",
-            minutes: event.reminders,
-          },
-        ],
-      };
+    const reminders = gcalReminders(event);
+    if (reminders) {
+      gcalEvent.reminders = reminders;
     }
 
     const response = await calendarClient.events.insert({
       calendarId,
       requestBody: gcalEvent,
+      // Guests get an invitation, as when the event is created in Google Calendar
+      ...(gcalEvent.attendees && { sendUpdates: "all" }),
     });
 
     if (!response.data.id) {
@@ -316,55 +614,63 @@ export async function createGcalEvent(event: Event): Promise<string> {
 }
 
 // Update an existing Google Calendar event
-export async function updateGcalEvent(eventId: string, event: Partial<Event>): Promise<void> {
+export async function updateGcalEvent(
+  eventId: string,
+  event: Partial<Event>,
+  targetCalendarId?: string,
+): Promise<void> {
   try {
     const calendarClient = await getCalendarClient();
-    const calendarId = await getCalendarId();
+    const calendarId = await getCalendarId(targetCalendarId);
 
     const gcalEvent: calendar_v3.Schema$Event = {};
+    const { fieldMapping, calendarName } = await getEventContext(calendarId);
 
     if (event.title !== undefined) {
-      gcalEvent.summary = event.title;
+      gcalEvent.summary = toGcalText(event.title, fieldMapping?.title, calendarName);
     }
 
     if (event.description !== undefined) {
-      gcalEvent.description = event.description;
+      const { description } = fieldMapping ?? {};
+      gcalEvent.description = toGcalText(event.description, description, calendarName);
     }
 
     if (event.location !== undefined) {
-      gcalEvent.location = event.location;
+      gcalEvent.location = toGcalText(event.location, fieldMapping?.location, calendarName);
     }
 
+    // Times are sent in the calendar's zone so recurring events keep their local time across DST
+    const timeZone =
+      event.startTime || event.endTime ? await getCalendarTimeZone(calendarId) : undefined;
+
     if (event.startTime && event.endTime) {
-      // Check if this is an all-day event
-      if (isAllDayEvent(event.startTime, event.endTime)) {
-        // All-day events use 'date' field instead of 'dateTime'
-        gcalEvent.start = {
-          date: formatAllDayDate(event.startTime),
-        };
-        gcalEvent.end = {
-          date: formatAllDayDate(event.endTime),
-        };
+      if (event.allDay) {
+        // All-day events use 'date' field instead of 'dateTime'; null clears the other one
+        const { start, end } = allDayRange(event.startTime, event.endTime);
+        gcalEvent.start = { date: start, dateTime: null, timeZone: null };
+        gcalEvent.end = { date: end, dateTime: null, timeZone: null };
       } else {
         // Timed events use 'dateTime' field
         gcalEvent.start = {
           dateTime: event.startTime.toISOString(),
-          timeZone: "UTC",
+          date: null,
+          timeZone,
         };
         gcalEvent.end = {
           dateTime: event.endTime.toISOString(),
-          timeZone: "UTC",
+          date: null,
+          timeZone,
         };
       }
     } else if (event.startTime) {
       gcalEvent.start = {
         dateTime: event.startTime.toISOString(),
-        timeZone: "UTC",
+        timeZone,
       };
     } else if (event.endTime) {
       gcalEvent.end = {
         dateTime: event.endTime.toISOString(),
-        timeZone: "UTC",
+        timeZone,
       };
     }
 
@@ -372,17 +678,25 @@ export async function updateGcalEvent(eventId: string, event: Partial<Event>): P
       gcalEvent.status = event.status;
     }
 
-    // Only set reminders if there's a valid number value
-    if (event.reminders !== undefined && typeof event.reminders === "number") {
-      gcalEvent.reminders = {
-        useDefault: false,
-        overrides: [
-          {
-            method: "popup",
-            minutes: event.reminders,
-          },
-        ],
-      };
+    if (event.rrule !== undefined) {
+      gcalEvent.recurrence = event.rrule;
+    }
+
+    // Patching replaces the whole guest list, so merge it with the current one
+    let sendUpdates: "all" | undefined;
+    if (event.attendees !== undefined) {
+      const current = await calendarClient.events.get({ calendarId, eventId });
+      const merged = mergeGcalAttendees(current.data.attendees ?? [], event.attendees);
+      if (merged.changed) {
+        gcalEvent.attendees = merged.attendees;
+        // Invite added guests and tell removed ones
+        sendUpdates = "all";
+      }
+    }
+
+    const reminders = gcalReminders(event);
+    if (reminders) {
+      gcalEvent.reminders = reminders;
     }
 
     // Try to set extended properties, but skip for special event types (like birthdays)
@@ -395,11 +709,17 @@ export async function updateGcalEvent(eventId: string, event: Partial<Event>): P
       };
     }
 
+    // Patching merges extended properties, so custom values leave the others in place
+    if (event.custom) {
+      await applyCustomValues(gcalEvent, event.custom);
+    }
+
     try {
       await calendarClient.events.patch({
         calendarId,
         eventId,
         requestBody: gcalEvent,
+        ...(sendUpdates && { sendUpdates }),
       });
     } catch (updateError: unknown) {
       // If error is about extended properties on special event types (birthdays, etc.)
@@ -415,6 +735,7 @@ export async function updateGcalEvent(eventId: string, event: Partial<Event>): P
           calendarId,
           eventId,
           requestBody: gcalEvent,
+          ...(sendUpdates && { sendUpdates }),
         });
       } else {
         throw updateError;
@@ -427,10 +748,10 @@ export async function updateGcalEvent(eventId: string, event: Partial<Event>): P
 }
 
 // Delete a Google Calendar event
-export async function deleteGcalEvent(eventId: string): Promise<void> {
+export async function deleteGcalEvent(eventId: string, targetCalendarId?: string): Promise<void> {
   try {
     const calendarClient = await getCalendarClient();
-    const calendarId = await getCalendarId();
+    const calendarId = await getCalendarId(targetCalendarId);
 
     await calendarClient.events.delete({
       calendarId,
@@ -442,22 +763,50 @@ export async function deleteGcalEvent(eventId: string): Promise<void> {
   }
 }
 
+// Move an event to another calendar (e.g. when its Notion "Calendar" select changes)
+export async function moveGcalEvent(
+  eventId: string,
+  fromCalendarId: string,
+  toCalendarId: string,
+): Promise<void> {
+  try {
+    const calendarClient = await getCalendarClient();
+
+    await calendarClient.events.move({
+      calendarId: fromCalendarId,
+      eventId,
+      destination: toCalendarId,
+    });
+  } catch (error) {
+    console.error("Error moving Google Calendar event:", error);
+    throw error;
+  }
+}
+
 /**
  * Find a Google Calendar event by its Notion page ID
- * Searches recent events (past 30 days + future) for matching notionPageId
+ * Searches recent events (past 30 days + future) of each given calendar for matching notionPageId
  */
-export async function findGcalEventByNotionId(notionPageId: string): Promise<Event | null> {
+export async function findGcalEventByNotionId(
+  notionPageId: string,
+  calendarIds?: string[],
+): Promise<Event | null> {
   try {
     // Search events from 30 days ago to 1 year in the future
     const timeMin = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
     const timeMax = new Date(Date.now() + 365 * 24 * 60 * 60 * 1000);
 
-    const events = await fetchGcalEvents(timeMin, timeMax);
+    for (const calendarId of calendarIds?.length ? calendarIds : [undefined]) {
+      const events = await fetchGcalEvents(timeMin, timeMax, calendarId);
 
-    // Find the event with matching Notion page ID
-    const matchingEvent = events.find((event) => event.notionPageId === notionPageId);
+      // Find the event with matching Notion page ID
+      const matchingEvent = events.find((event) => event.notionPageId === notionPageId);
+      if (matchingEvent) {
+        return matchingEvent;
+      }
+    }
 
-    return matchingEvent || null;
+    return null;
   } catch (error) {
     console.error("Error finding GCal event by Notion ID:", error);
     throw error;
@@ -465,17 +814,20 @@ export async function findGcalEventByNotionId(notionPageId: string): Promise<Eve
 }
 
 // Get a single event by ID
-export async function getGcalEvent(eventId: string): Promise<Event | null> {
+export async function getGcalEvent(
+  eventId: string,
+  targetCalendarId?: string,
+): Promise<Event | null> {
   try {
     const calendarClient = await getCalendarClient();
-    const calendarId = await getCalendarId();
+    const calendarId = await getCalendarId(targetCalendarId);
 
     const response = await calendarClient.events.get({
       calendarId,
       eventId,
     });
 
-    return gcalEventToEvent(response.data);
+    return gcalEventToEvent(response.data, calendarId, await getEventContext(calendarId));
   } catch (error) {
     console.error("Error fetching Google Calendar event:", error);
     throw error;
@@ -483,14 +835,17 @@ export async function getGcalEvent(eventId: string): Promise<Event | null> {
 }
 
 // Set up push notifications (webhook) for calendar changes
-export async function setupGcalWebhook(webhookUrl: string): Promise<{
+export async function setupGcalWebhook(
+  webhookUrl: string,
+  targetCalendarId?: string,
+): Promise<{
   channelId: string;
   resourceId: string;
   expiration: number;
 }> {
   try {
     const calendarClient = await getCalendarClient();
-    const calendarId = await getCalendarId();
+    const calendarId = await getCalendarId(targetCalendarId);
 
     const response = await calendarClient.events.watch({
       calendarId,
@@ -0,0 +1,51 @@
+import { describe, expect, test } from "vitest";
+import { isWritableGcalPath, readGcalPath, validateGcalPath, writeGcalPath } from "./json-path";
+
+const event = {
+  htmlLink: "https://calendar.google.com/event?eid=abc",
+  transparency: "transparent",
+  guestsCanModify: true,
+  creator: { email: "ana@example.com" },
+  attendees: [{ email: "john@example.com" }],
+  recurrence: ["RRULE:FREQ=DAILY", "EXDATE:20260303"],
+  extendedProperties: { shared: { project: "Apollo" } },
+};
+
+describe("json paths", () => {
+  test("reads top-level, nested and array values as text", () => {
+    expect(readGcalPath(event, "htmlLink")).toBe(event.htmlLink);
+    expect(readGcalPath(event, "guestsCanModify")).toBe("true");
+    expect(readGcalPath(event, "creator.email")).toBe("ana@example.com");
+    expect(readGcalPath(event, "attendees.0.email")).toBe("john@example.com");
+    expect(readGcalPath(event, "recurrence")).toBe("RRULE:FREQ=DAILY, EXDATE:20260303");
+    expect(readGcalPath(event, "creator")).toBe('{"email":"ana@example.com"}');
+    expect(readGcalPath(event, "extendedProperties.private.missing")).toBe("");
+  });
+
+  test("validates paths against the event resource", () => {
+    expect(validateGcalPath("extendedProperties.shared.project")).toBeNull();
+    expect(validateGcalPath("colour")).toMatch(/not a Google Calendar event field/);
+    expect(validateGcalPath("creator..email")).toMatch(/not a valid path/);
+    expect(validateGcalPath("extendedProperties.private.notion_page_id")).toMatch(/reserved/);
+  });
+
+  test("only writes extended properties and settings Google accepts", () => {
+    expect(isWritableGcalPath("htmlLink")).toBe(false);
+    expect(isWritableGcalPath("constructor")).toBe(false);
+
+    const body: Parameters<typeof writeGcalPath>[0] = {
+      extendedProperties: { private: { notion_page_id: "page-1" } },
+    };
+    expect(writeGcalPath(body, "extendedProperties.private.project", "Apollo")).toBe(true);
+    expect(writeGcalPath(body, "transparency", "Transparent")).toBe(true);
+    expect(writeGcalPath(body, "guestsCanModify", "false")).toBe(true);
+    expect(writeGcalPath(body, "transparency", "busy")).toBe(false);
+    expect(writeGcalPath(body, "htmlLink", "https://example.com")).toBe(false);
+
+    expect(body).toEqual({
+      extendedProperties: { private: { notion_page_id: "page-1", project: "Apollo" } },
+      transparency: "transparent",
+      guestsCanModify: false,
+    });
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * Dot-separated JSON paths into Google Calendar events, used by custom field mappings.
+ * "transparency" reads a top-level field, "creator.email" a nested one and
+ * "attendees.0.email" an array item. Values are exchanged with Notion as text.
+ */
+import type { calendar_v3 } from "@googleapis/calendar";
+
+// Top-level fields of a Google Calendar event resource
+const GCAL_EVENT_FIELDS = [
+  "anyoneCanAddSelf",
+  "attachments",
+  "attendees",
+  "attendeesOmitted",
+  "colorId",
+  "conferenceData",
+  "created",
+  "creator",
+  "description",
+  "end",
+  "endTimeUnspecified",
+  "etag",
+  "eventType",
+  "extendedProperties",
+  "focusTimeProperties",
+  "guestsCanInviteOthers",
+  "guestsCanModify",
+  "guestsCanSeeOtherGuests",
+  "hangoutLink",
+  "htmlLink",
+  "iCalUID",
+  "id",
+  "kind",
+  "location",
+  "locked",
+  "organizer",
+  "originalStartTime",
+  "outOfOfficeProperties",
+  "privateCopy",
+  "recurrence",
+  "recurringEventId",
+  "reminders",
+  "sequence",
+  "source",
+  "start",
+  "status",
+  "summary",
+  "transparency",
+  "updated",
+  "visibility",
+  "workingLocationProperties",
+];
+
+// Fields we may write back, with the values Google accepts
+const WRITABLE_FIELDS = new Map([
+  ["transparency", ["opaque", "transparent"]],
+  ["guestsCanModify", ["true", "false"]],
+  ["guestsCanInviteOthers", ["true", "false"]],
+  ["guestsCanSeeOtherGuests", ["true", "false"]],
+]);
+
+// Extended properties we use to link events, which custom mappings must not touch
+const RESERVED_EXTENDED_PROPERTIES = ["notion_page_id"];
+
+/**
+ * Paths offered in the field mapping editor
+ */
+export const GCAL_PATH_SUGGESTIONS = [
+  "htmlLink",
+  "eventType",
+  "transparency",
+  "hangoutLink",
+  "creator.email",
+  "iCalUID",
+  "extendedProperties.private.",
+  "extendedProperties.shared.",
+];
+
+function splitPath(path: string): string[] {
+  return path.trim().split(".");
+}
+
+function isExtendedProperty(segments: string[]): boolean {
+  return (
+    segments.length === 3 &&
+    segments[0] === "extendedProperties" &&
+    (segments[1] === "private" || segments[1] === "shared")
+  );
+}
+
+/**
+ * Check a path against the event resource.
+ *
+ * @returns An error message, or null when the path is valid
+ */
+export function validateGcalPath(path: string): string | null {
+  const segments = splitPath(path);
+  if (segments.some((segment) => !segment || /\s/.test(segment))) {
+    return `"${path}" is not a valid path; use dot-separated field names`;
+  }
+  if (!GCAL_EVENT_FIELDS.includes(segments[0])) {
+    return `"${segments[0]}" is not a Google Calendar event field`;
+  }
+  if (isExtendedProperty(segments) && RESERVED_EXTENDED_PROPERTIES.includes(segments[2])) {
+    return `"${segments[2]}" is reserved for linking events`;
+  }
+  return null;
+}
+
+/**
+ * Whether values of a path can be written to Google Calendar.
+ * Only a few settings and extended properties can; the rest are computed by Google.
+ */
+export function isWritableGcalPath(path: string): boolean {
+  const segments = splitPath(path);
+  return (
+    (segments.length === 1 && WRITABLE_FIELDS.has(segments[0])) ||
+    (isExtendedProperty(segments) && !RESERVED_EXTENDED_PROPERTIES.includes(segments[2]))
+  );
+}
+
+/**
+ * Convert a JSON value to the text exchanged with Notion
+ */
+function toText(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "string") return value;
+  if (typeof value === "number" || typeof value === "boolean") return String(value);
+  if (Array.isArray(value) && value.every((item) => typeof item !== "object")) {
+    return value.join(", ");
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Read the value at a path as text; missing values read as ""
+ */
+export function readGcalPath(event: calendar_v3.Schema$Event, path: string): string {
+  let value: unknown = event;
+  for (const segment of splitPath(path)) {
+    if (value === null || typeof value !== "object") return "";
+    value = (value as Record<string, unknown>)[segment];
+  }
+  return toText(value);
+}
+
+/**
+ * Write text to a writable path of an event request body.
+ *
+ * @returns false when the path is read-only or Google would reject the value
+ */
+export function writeGcalPath(
+  event: calendar_v3.Schema$Event,
+  path: string,
+  text: string,
+): boolean {
+  if (!isWritableGcalPath(path)) return false;
+
+  const segments = splitPath(path);
+  if (segments.length === 3) {
+    const [, scope, key] = segments as [string, "private" | "shared", string];
+    event.extendedProperties = {
+      ...event.extendedProperties,
+      [scope]: { ...event.extendedProperties?.[scope], [key]: text },
+    };
+    return true;
+  }
+
+  const [field] = segments;
+  const value = text.trim().toLowerCase();
+  if (!WRITABLE_FIELDS.get(field)?.includes(value)) return false;
+  const target = event as unknown as Record<string, unknown>;
+  target[field] = value === "true" || value === "false" ? value === "true" : value;
+  return true;
+}
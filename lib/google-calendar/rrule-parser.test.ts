@@ -1,5 +1,11 @@
 import { describe, expect, test } from "vitest";
-import { parseRRule } from "./rrule-parser";
+import {
+  applyRecurrenceText,
+  describeRecurrence,
+  parseRRule,
+  toExdate,
+  toRRule,
+} from "./rrule-parser";
 
 describe("parseRRule", () => {
   describe("daily recurrence", () => {
@@ -124,3 +130,70 @@ describe("parseRRule", () => {
     });
   });
 });
+
+describe("toRRule", () => {
+  test("round-trips the text parseRRule produces", () => {
+    const rules = [
+      "RRULE:FREQ=DAILY",
+      "RRULE:FREQ=DAILY;INTERVAL=3",
+      "RRULE:FREQ=WEEKLY",
+      "RRULE:FREQ=WEEKLY;BYDAY=MO",
+      "RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=TU,TH",
+      "RRULE:FREQ=WEEKLY;BYDAY=MO,WE,FR",
+      "RRULE:FREQ=MONTHLY;BYMONTHDAY=15",
+      "RRULE:FREQ=MONTHLY;INTERVAL=3;BYMONTHDAY=1",
+      "RRULE:FREQ=MONTHLY;BYDAY=2MO",
+      "RRULE:FREQ=MONTHLY;BYDAY=-1FR",
+      "RRULE:FREQ=YEARLY;BYMONTH=3;BYMONTHDAY=15",
+      "RRULE:FREQ=YEARLY;INTERVAL=2;BYMONTH=12",
+    ];
+
+    for (const rule of rules) {
+      expect(toRRule(parseRRule(rule))).toBe(rule);
+    }
+  });
+
+  test("accepts shorthands and loose spacing", () => {
+    expect(toRRule("Every Monday")).toBe("RRULE:FREQ=WEEKLY;BYDAY=MO");
+    expect(toRRule("every tuesday and thursday")).toBe("RRULE:FREQ=WEEKLY;BYDAY=TU,TH");
+    expect(toRRule("Every day")).toBe("RRULE:FREQ=DAILY");
+    expect(toRRule("  Every 2   weeks ")).toBe("RRULE:FREQ=WEEKLY;INTERVAL=2");
+  });
+
+  test("returns null for text it does not understand", () => {
+    expect(toRRule("")).toBeNull();
+    expect(toRRule("Unknown recurrence")).toBeNull();
+    expect(toRRule("Weekly on Funday")).toBeNull();
+    expect(toRRule("Daily on Monday")).toBeNull();
+    expect(toRRule("Monthly on the ninth Monday")).toBeNull();
+  });
+});
+
+describe("recurrence lines", () => {
+  const lines = ["EXDATE:20260309T090000Z", "RRULE:FREQ=WEEKLY;BYDAY=MO;COUNT=10"];
+
+  test("describeRecurrence reads the RRULE among EXDATE lines", () => {
+    expect(describeRecurrence(lines)).toBe("Weekly on Monday");
+    expect(describeRecurrence(["EXDATE:20260309T090000Z"])).toBeUndefined();
+  });
+
+  test("applyRecurrenceText keeps the lines while the text still describes them", () => {
+    expect(applyRecurrenceText(lines, "Weekly on Monday")).toBe(lines);
+    expect(applyRecurrenceText(lines, "")).toBe(lines);
+    expect(applyRecurrenceText(lines, "Sometimes")).toBe(lines);
+  });
+
+  test("applyRecurrenceText replaces only the RRULE and keeps EXDATE lines", () => {
+    expect(applyRecurrenceText(lines, "Every 2 weeks on Friday")).toEqual([
+      "EXDATE:20260309T090000Z",
+      "RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=FR",
+    ]);
+    expect(applyRecurrenceText([], "Daily")).toEqual(["RRULE:FREQ=DAILY"]);
+  });
+
+  test("toExdate leaves out an occurrence by its original start", () => {
+    const start = new Date("2026-03-09T09:00:00.000Z");
+    expect(toExdate(start)).toBe("EXDATE:20260309T090000Z");
+    expect(toExdate(new Date("2026-03-09"), true)).toBe("EXDATE;VALUE=DATE:20260309");
+  });
+});
@@ -1,6 +1,7 @@
 /**
- * Parse RRULE (RFC 5545) format to human-readable text.
- * Used to display Google Calendar recurrence patterns in a friendly format.
+ * Parse RRULE (RFC 5545) format to human-readable text, and back.
+ * Used to display Google Calendar recurrence patterns in a friendly format and to turn
+ * edits of that text in Notion into a rule Google Calendar understands.
  */
 
 const DAY_NAMES: Record<string, string> = {
@@ -178,3 +179,182 @@ export function parseRRule(rrule: string): string {
     return "Unknown recurrence";
   }
 }
+
+// Reverse lookups for turning human-readable text back into RRULE parts
+const DAY_CODES: Record<string, string> = Object.fromEntries(
+  Object.entries(DAY_NAMES).map(([code, name]) => [name.toLowerCase(), code]),
+);
+
+const MONTH_NUMBERS: Record<string, string> = Object.fromEntries(
+  Object.entries(MONTH_NAMES).map(([number, name]) => [name.toLowerCase(), number]),
+);
+
+const ORDINAL_POSITIONS: Record<string, string> = Object.fromEntries(
+  Object.entries(ORDINAL_NAMES).map(([position, name]) => [name, position]),
+);
+
+const FREQUENCIES: Record<string, string> = {
+  daily: "DAILY",
+  day: "DAILY",
+  weekly: "WEEKLY",
+  week: "WEEKLY",
+  monthly: "MONTHLY",
+  month: "MONTHLY",
+  yearly: "YEARLY",
+  year: "YEARLY",
+};
+
+// "Weekly on ...", "Every 2 weeks in ...", "Every day"
+const RECURRENCE_TEXT_PATTERN =
+  /^(?:(daily|weekly|monthly|yearly)|every (?:(\d+) )?(day|week|month|year)s?)(?: (on|in) (.+))?$/;
+
+/**
+ * Parse a readable day list back into BYDAY codes.
+ * "Monday, Wednesday, and Friday" → "MO,WE,FR", "the second Monday" → "2MO"
+ */
+function parseDays(text: string): string | null {
+  const codes: string[] = [];
+  for (const item of text.split(/,\s*(?:and\s+)?|\s+and\s+/)) {
+    const match = /^(?:the (\S+) )?(\S+)$/.exec(item.trim());
+    const dayCode = match ? DAY_CODES[match[2]] : undefined;
+    if (!match || !dayCode) {
+      return null;
+    }
+    const position = match[1] ? ORDINAL_POSITIONS[match[1]] : "";
+    if (position === undefined) {
+      return null;
+    }
+    codes.push(`${position}${dayCode}`);
+  }
+  return codes.join(",");
+}
+
+/**
+ * Parse the part after "on"/"in" into RRULE parts for a frequency
+ */
+function parseRuleDetail(freq: string, preposition: string, detail: string): string[] | null {
+  if (freq === "WEEKLY" && preposition === "on") {
+    const days = parseDays(detail);
+    return days ? [`BYDAY=${days}`] : null;
+  }
+
+  if (freq === "MONTHLY" && preposition === "on") {
+    const monthDay = /^day (-?\d{1,2})$/.exec(detail);
+    if (monthDay) {
+      return [`BYMONTHDAY=${monthDay[1]}`];
+    }
+    const days = parseDays(detail);
+    return days ? [`BYDAY=${days}`] : null;
+  }
+
+  if (freq === "YEARLY") {
+    const [monthName, day] = detail.split(" ");
+    const month = MONTH_NUMBERS[monthName];
+    if (!month) {
+      return null;
+    }
+    if (preposition === "in") {
+      return day ? null : [`BYMONTH=${month}`];
+    }
+    return day && /^\d{1,2}$/.test(day) ? [`BYMONTH=${month}`, `BYMONTHDAY=${day}`] : null;
+  }
+
+  return null;
+}
+
+/**
+ * Convert human-readable recurrence text back to an RRULE string.
+ * Accepts everything parseRRule produces, plus "Every Monday" style shorthands.
+ *
+ * @param text - Recurrence text (e.g., "Every 2 weeks on Tuesday and Thursday")
+ * @returns The RRULE line, or null when the text is not understood
+ *
+ * @example
+ * toRRule("Daily") // "RRULE:FREQ=DAILY"
+ * toRRule("Every 2 weeks on Tuesday and Thursday") // "RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=TU,TH"
+ * toRRule("Monthly on the second Monday") // "RRULE:FREQ=MONTHLY;BYDAY=2MO"
+ * toRRule("Every Monday") // "RRULE:FREQ=WEEKLY;BYDAY=MO"
+ */
+export function toRRule(text: string): string | null {
+  if (!text || typeof text !== "string") {
+    return null;
+  }
+
+  const normalized = text.trim().toLowerCase().replace(/\s+/g, " ");
+  const match = RECURRENCE_TEXT_PATTERN.exec(normalized);
+
+  if (!match) {
+    // "Every Monday and Friday" is shorthand for a weekly rule
+    const shorthand = /^every (.+)$/.exec(normalized);
+    const days = shorthand ? parseDays(shorthand[1]) : null;
+    return days ? `RRULE:FREQ=WEEKLY;BYDAY=${days}` : null;
+  }
+
+  const [, adverb, intervalText, unit, preposition, detail] = match;
+  const freq = FREQUENCIES[adverb || unit];
+  const interval = intervalText ? Number.parseInt(intervalText, 10) : 1;
+  if (interval < 1) {
+    return null;
+  }
+
+  const parts = [`FREQ=${freq}`];
+  if (interval > 1) {
+    parts.push(`INTERVAL=${interval}`);
+  }
+  if (detail) {
+    const detailParts = parseRuleDetail(freq, preposition, detail);
+    if (!detailParts) {
+      return null;
+    }
+    parts.push(...detailParts);
+  }
+
+  return `RRULE:${parts.join(";")}`;
+}
+
+/**
+ * Check whether a recurrence line is the RRULE (rather than EXDATE/RDATE)
+ */
+function isRRuleLine(line: string): boolean {
+  return /^(RRULE:)?FREQ=/i.test(line.trim());
+}
+
+/**
+ * Describe a series' recurrence lines (RRULE plus any EXDATE/RDATE) as readable text.
+ */
+export function describeRecurrence(lines: string[]): string | undefined {
+  const rule = lines.find(isRRuleLine);
+  return rule ? parseRRule(rule) : undefined;
+}
+
+/**
+ * Apply an edit of the readable recurrence text to a series' recurrence lines.
+ * The RRULE is replaced only when the text no longer describes it, so EXDATE and RDATE
+ * lines, and rule parts the text cannot express (COUNT, UNTIL), survive untouched.
+ *
+ * @returns The updated lines; unchanged when the text is empty or not understood
+ */
+export function applyRecurrenceText(lines: string[], text?: string): string[] {
+  if (!text?.trim() || describeRecurrence(lines) === text.trim()) {
+    return lines;
+  }
+
+  const rule = toRRule(text);
+  if (!rule) {
+    return lines;
+  }
+
+  const ruleIndex = lines.findIndex(isRRuleLine);
+  return ruleIndex === -1
+    ? [rule, ...lines]
+    : lines.map((line, index) => (index === ruleIndex ? rule : line));
+}
+
+/**
+ * Build the EXDATE line that leaves one occurrence out of a series, by its original start:
+ * the date for all-day series, the start time in UTC otherwise.
+ */
+export function toExdate(originalStart: Date, allDay = false): string {
+  const stamp = originalStart.toISOString().replace(/[-:]|\.\d{3}/g, "");
+  return allDay ? `EXDATE;VALUE=DATE:${stamp.slice(0, 8)}` : `EXDATE:${stamp}`;
+}
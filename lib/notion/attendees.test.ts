@@ -0,0 +1,27 @@
+import { describe, expect, test } from "vitest";
+import { attendeeEmails, formatAttendees, parseAttendees } from "./attendees";
+
+const attendees = [{ email: "ana@example.com", name: "Lima, Ana" }, { email: "bo@example.com" }];
+
+describe("attendee text", () => {
+  test("formats names with their address, quoting separators", () => {
+    expect(formatAttendees(attendees)).toBe('"Lima, Ana" <ana@example.com>, bo@example.com');
+  });
+
+  test("parses what it formats", () => {
+    expect(parseAttendees(formatAttendees(attendees))).toEqual(attendees);
+  });
+
+  test("parses typed lists and skips names without an address", () => {
+    const text = "Ana Lima <ana@example.com>; Bo\nbo@example.com, ANA@example.com";
+    expect(parseAttendees(text)).toEqual([
+      { email: "ana@example.com", name: "Ana Lima" },
+      { email: "bo@example.com" },
+    ]);
+  });
+
+  test("compares guest lists by address only", () => {
+    const guests = [{ email: "Bo@example.com" }, { email: "ana@example.com", name: "Ana" }];
+    expect(attendeeEmails(guests)).toBe("ana@example.com\nbo@example.com");
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Text forms of event attendees for Notion properties.
+ *
+ * Text properties hold "Name <email>" entries separated by commas, Email properties a
+ * comma-separated list of addresses and Multi-select properties one option per address.
+ * Entries without an email address cannot be invited and are ignored when read.
+ */
+import type { Attendee } from "@/lib/types";
+
+// "Name <email>", with the name optionally quoted, or a bare address
+const ATTENDEE_PATTERN =
+  /(?:"([^"]*)"|([^"<>,;\n]*?))\s*<([^<>\s]+@[^<>\s]+)>|([^\s<>,;"]+@[^\s<>,;"]+)/g;
+
+/**
+ * Format an attendee as "Name <email>", or just the address when there is no name
+ */
+export function formatAttendee(attendee: Attendee): string {
+  if (!attendee.name) {
+    return attendee.email;
+  }
+  // Names with separators are quoted so the list parses back
+  const name = /[,;<>"]/.test(attendee.name)
+    ? `"${attendee.name.replace(/"/g, "")}"`
+    : attendee.name;
+  return `${name} <${attendee.email}>`;
+}
+
+export function formatAttendees(attendees: Attendee[]): string {
+  return attendees.map(formatAttendee).join(", ");
+}
+
+/**
+ * Parse attendees from text written by formatAttendees or typed by hand
+ */
+export function parseAttendees(text: string): Attendee[] {
+  const attendees: Attendee[] = [];
+  for (const match of text.matchAll(ATTENDEE_PATTERN)) {
+    const email = match[3] ?? match[4];
+    const name = (match[1] ?? match[2])?.trim();
+    if (!attendees.some((attendee) => sameEmail(attendee.email, email))) {
+      attendees.push(name ? { email, name } : { email });
+    }
+  }
+  return attendees;
+}
+
+export function sameEmail(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+/**
+ * Sorted, lower-cased addresses, one per line: the part of a guest list both sides store
+ */
+export function attendeeEmails(attendees: Attendee[]): string {
+  return attendees
+    .map((attendee) => attendee.email.toLowerCase())
+    .sort()
+    .join("\n");
+}
+
+/**
+ * Label for an attendee in logs; older sync logs hold plain names
+ */
+export function attendeeLabel(attendee: Attendee | string): string {
+  return typeof attendee === "string" ? attendee : attendee.name || attendee.email;
+}
@@ -1,5 +1,641 @@
-import { describe, expect, test } from "vitest";
-import { buildNotionPropertyValue, getPropertyValue } from "./client";
+import { DEFAULT_EXTENDED_FIELD_MAPPING, type NotionPropertyType } from "@/lib/settings/types";
+import type { PageObjectResponse } from "@notionhq/client/build/src/api-endpoints";
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+
+const {
+  mockQuery,
+  mockCreate,
+  mockUpdate,
+  mockListBlocks,
+  mockDeleteBlock,
+  mockAppendBlocks,
+  mockListUsers,
+  mockRetrieveDatabase,
+  mockRetrievePage,
+} = vi.hoisted(() => ({
+  mockQuery: vi.fn(),
+  mockCreate: vi.fn(),
+  mockUpdate: vi.fn(),
+  mockListBlocks: vi.fn(),
+  mockDeleteBlock: vi.fn(),
+  mockAppendBlocks: vi.fn(),
+  mockListUsers: vi.fn(),
+  mockRetrieveDatabase: vi.fn(),
+  mockRetrievePage: vi.fn(),
+}));
+
+vi.mock("@notionhq/client", () => ({
+  Client: vi.fn(() => ({
+    databases: { query: mockQuery, retrieve: mockRetrieveDatabase },
+    pages: { create: mockCreate, update: mockUpdate, retrieve: mockRetrievePage },
+    blocks: {
+      delete: mockDeleteBlock,
+      children: { list: mockListBlocks, append: mockAppendBlocks },
+    },
+    users: { list: mockListUsers },
+  })),
+}));
+
+vi.mock("@/lib/settings", () => ({
+  getNotionConfig: vi.fn(async () => ({ apiToken: "secret", databaseId: "db-1" })),
+  getFieldMapping: vi.fn(async () => DEFAULT_EXTENDED_FIELD_MAPPING),
+  getActiveSyncPairId: vi.fn(async () => "default"),
+  getCustomMappings: vi.fn(async () => []),
+  getSyncFilters: vi.fn(async () => []),
+}));
+
+import { getCustomMappings, getFieldMapping, getNotionConfig } from "@/lib/settings";
+import {
+  buildNotionPropertyValue,
+  createNotionEvent,
+  fetchNotionEvents,
+  getPropertyValue,
+  iterateNotionEvents,
+  notionPageExists,
+  notionPageToEvent,
+  resetNotionClient,
+  updateNotionEvent,
+} from "./client";
+import { PAGE_CONTENT_END, PAGE_CONTENT_START } from "./page-content";
+
+function richText(plainText: string, annotations: { bold?: boolean } = {}, href?: string) {
+  return {
+    plain_text: plainText,
+    href: href ?? null,
+    annotations: { bold: false, italic: false, underline: false, ...annotations },
+  };
+}
+
+function notionPage(id: string) {
+  return {
+    object: "page",
+    id,
+    last_edited_time: "2026-03-01T00:00:00.000Z",
+    properties: {
+      Title: { type: "title", title: [{ plain_text: `Event ${id}` }] },
+      Date: {
+        type: "date",
+        date: { start: "2026-03-02T09:00:00.000Z", end: "2026-03-02T10:00:00.000Z" },
+      },
+    },
+  };
+}
+
+describe("all-day events", () => {
+  beforeEach(() => {
+    mockCreate.mockReset();
+    mockCreate.mockResolvedValue({ id: "page-new" });
+    resetNotionClient();
+  });
+
+  test("createNotionEvent writes plain dates with an inclusive end", async () => {
+    await createNotionEvent(
+      {
+        id: "trip",
+        title: "Trip",
+        startTime: new Date("2026-03-02T00:00:00.000Z"),
+        endTime: new Date("2026-03-05T00:00:00.000Z"),
+        allDay: true,
+      },
+      "Europe/Berlin",
+    );
+
+    const { properties } = mockCreate.mock.calls[0][0];
+    expect(properties.Date).toEqual({ date: { start: "2026-03-02", end: "2026-03-04" } });
+  });
+
+  test("createNotionEvent writes a single all-day date without an end", async () => {
+    await createNotionEvent({
+      id: "holiday",
+      title: "Holiday",
+      startTime: new Date("2026-03-02T00:00:00.000Z"),
+      endTime: new Date("2026-03-03T00:00:00.000Z"),
+      allDay: true,
+    });
+
+    const { properties } = mockCreate.mock.calls[0][0];
+    expect(properties.Date).toEqual({ date: { start: "2026-03-02" } });
+  });
+});
+
+describe("attendees", () => {
+  const withAttendees = (propertyType: NotionPropertyType) => ({
+    ...DEFAULT_EXTENDED_FIELD_MAPPING,
+    attendees: { ...DEFAULT_EXTENDED_FIELD_MAPPING.attendees, enabled: true, propertyType },
+  });
+
+  beforeEach(() => {
+    mockCreate.mockReset();
+    mockCreate.mockResolvedValue({ id: "page-new" });
+    mockListUsers.mockReset();
+    mockListUsers.mockResolvedValue({
+      results: [
+        { object: "user", id: "user-ana", type: "person", person: { email: "Ana@example.com" } },
+        { object: "user", id: "bot-1", type: "bot", bot: {} },
+      ],
+      has_more: false,
+    });
+    resetNotionClient();
+  });
+
+  const event = {
+    id: "sync",
+    title: "Sync",
+    startTime: new Date("2026-03-02T09:00:00.000Z"),
+    endTime: new Date("2026-03-02T10:00:00.000Z"),
+    attendees: [{ email: "ana@example.com", name: "Ana" }, { email: "bo@example.com" }],
+  };
+
+  test("notionPageToEvent reads People, Email and Multi-select properties", async () => {
+    const page = notionPage("page-1");
+    const readWith = async (propertyType: NotionPropertyType, property: unknown) => {
+      vi.mocked(getFieldMapping).mockResolvedValueOnce(withAttendees(propertyType));
+      Object.assign(page.properties, { Attendees: property });
+      return (await notionPageToEvent(page as unknown as PageObjectResponse))?.attendees;
+    };
+
+    expect(
+      await readWith("people", {
+        type: "people",
+        people: [
+          { object: "user", id: "u1", type: "person", name: "Ana", person: { email: "a@x.test" } },
+          { object: "user", id: "u2" },
+        ],
+      }),
+    ).toEqual([{ email: "a@x.test", name: "Ana" }]);
+    expect(await readWith("email", { type: "email", email: "a@x.test, b@x.test" })).toEqual([
+      { email: "a@x.test" },
+      { email: "b@x.test" },
+    ]);
+    const options = { type: "multi_select", multi_select: [{ name: "a@x.test" }] };
+    expect(await readWith("multi_select", options)).toEqual([{ email: "a@x.test" }]);
+    expect(
+      await readWith("rich_text", { type: "rich_text", rich_text: [richText("Ana <a@x.test>")] }),
+    ).toEqual([{ email: "a@x.test", name: "Ana" }]);
+  });
+
+  test("createNotionEvent writes workspace members to a People property", async () => {
+    vi.mocked(getFieldMapping).mockResolvedValueOnce(withAttendees("people"));
+
+    await createNotionEvent(event);
+
+    const { properties } = mockCreate.mock.calls[0][0];
+    expect(properties.Attendees).toEqual({ people: [{ id: "user-ana" }] });
+  });
+
+  test("createNotionEvent writes one option per address to a Multi-select property", async () => {
+    vi.mocked(getFieldMapping).mockResolvedValueOnce(withAttendees("multi_select"));
+
+    await createNotionEvent(event);
+
+    const { properties } = mockCreate.mock.calls[0][0];
+    expect(properties.Attendees).toEqual({
+      multi_select: [{ name: "ana@example.com" }, { name: "bo@example.com" }],
+    });
+    expect(mockListUsers).not.toHaveBeenCalled();
+  });
+
+  test("createNotionEvent writes names and addresses to a text property", async () => {
+    vi.mocked(getFieldMapping).mockResolvedValueOnce(withAttendees("rich_text"));
+
+    await createNotionEvent(event);
+
+    const { properties } = mockCreate.mock.calls[0][0];
+    expect(properties.Attendees).toEqual({
+      rich_text: [{ text: { content: "Ana <ana@example.com>, bo@example.com" } }],
+    });
+  });
+});
+
+describe("reminders", () => {
+  const withReminders = (propertyType: NotionPropertyType) => ({
+    ...DEFAULT_EXTENDED_FIELD_MAPPING,
+    reminders: { ...DEFAULT_EXTENDED_FIELD_MAPPING.reminders, enabled: true, propertyType },
+  });
+
+  const event = {
+    id: "review",
+    title: "Review",
+    startTime: new Date("2026-03-02T09:00:00.000Z"),
+    endTime: new Date("2026-03-02T10:00:00.000Z"),
+    reminders: [
+      { method: "popup" as const, minutes: 10 },
+      { method: "email" as const, minutes: 24 * 60 },
+    ],
+  };
+
+  beforeEach(() => {
+    mockCreate.mockReset();
+    mockCreate.mockResolvedValue({ id: "page-new" });
+    resetNotionClient();
+  });
+
+  test("writes one option per reminder, or the first popup's minutes to a number", async () => {
+    vi.mocked(getFieldMapping).mockResolvedValueOnce(withReminders("multi_select"));
+    await createNotionEvent(event);
+    vi.mocked(getFieldMapping).mockResolvedValueOnce(withReminders("number"));
+    await createNotionEvent(event);
+
+    expect(mockCreate.mock.calls[0][0].properties.Reminders).toEqual({
+      multi_select: [{ name: "email 1d" }, { name: "popup 10m" }],
+    });
+    expect(mockCreate.mock.calls[1][0].properties.Reminders).toEqual({ number: 10 });
+  });
+
+  test("notionPageToEvent reads multi-select options and default reminders", async () => {
+    const page = notionPage("page-1");
+    vi.mocked(getFieldMapping).mockResolvedValueOnce(withReminders("multi_select"));
+    Object.assign(page.properties, {
+      Reminders: {
+        type: "multi_select",
+        multi_select: [{ name: "popup 10m" }, { name: "email 1d" }],
+      },
+    });
+    expect((await notionPageToEvent(page as unknown as PageObjectResponse))?.reminders).toEqual(
+      event.reminders,
+    );
+
+    vi.mocked(getFieldMapping).mockResolvedValueOnce(withReminders("rich_text"));
+    Object.assign(page.properties, {
+      Reminders: { type: "rich_text", rich_text: [richText("default")] },
+    });
+    expect(await notionPageToEvent(page as unknown as PageObjectResponse)).toMatchObject({
+      useDefaultReminders: true,
+    });
+  });
+});
+
+describe("status and read-only property types", () => {
+  const statusProperty = {
+    type: "status",
+    status: {
+      options: [
+        { id: "o1", name: "Not started" },
+        { id: "o2", name: "Scheduled" },
+        { id: "o3", name: "Done" },
+      ],
+      groups: [
+        { name: "To-do", option_ids: ["o1"] },
+        { name: "In progress", option_ids: ["o2"] },
+        { name: "Complete", option_ids: ["o3"] },
+      ],
+    },
+  };
+
+  beforeEach(() => {
+    for (const mock of [mockCreate, mockRetrieveDatabase, mockRetrievePage]) {
+      mock.mockReset();
+    }
+    mockCreate.mockResolvedValue({ id: "page-new" });
+    mockRetrieveDatabase.mockResolvedValue({ properties: { Status: statusProperty } });
+    vi.mocked(getFieldMapping).mockResolvedValue({
+      ...DEFAULT_EXTENDED_FIELD_MAPPING,
+      status: { ...DEFAULT_EXTENDED_FIELD_MAPPING.status, enabled: true, propertyType: "status" },
+      location: { ...DEFAULT_EXTENDED_FIELD_MAPPING.location, propertyType: "relation" },
+    });
+    resetNotionClient();
+  });
+
+  afterEach(() => {
+    vi.mocked(getFieldMapping).mockResolvedValue(DEFAULT_EXTENDED_FIELD_MAPPING);
+  });
+
+  test("createNotionEvent writes a status to the option in its group", async () => {
+    await createNotionEvent({
+      id: "sync",
+      title: "Sync",
+      startTime: new Date("2026-03-02T09:00:00.000Z"),
+      endTime: new Date("2026-03-02T10:00:00.000Z"),
+      status: "confirmed",
+    });
+
+    const { properties } = mockCreate.mock.calls[0][0];
+    expect(properties.Status).toEqual({ status: { name: "Scheduled" } });
+  });
+
+  test("notionPageToEvent reads Status groups without reading done as cancelled", async () => {
+    const readStatus = async (name: string) => {
+      const page = notionPage("page-1");
+      Object.assign(page.properties, { Status: { type: "status", status: { name } } });
+      return (await notionPageToEvent(page as unknown as PageObjectResponse))?.status;
+    };
+
+    expect(await readStatus("Not started")).toBe("tentative");
+    expect(await readStatus("Done")).toBe("confirmed");
+    expect(await readStatus("Canceled")).toBe("cancelled");
+    expect(mockRetrieveDatabase).toHaveBeenCalledTimes(1);
+  });
+
+  test("notionPageToEvent reads a relation as the related pages' titles", async () => {
+    mockRetrievePage.mockResolvedValue({
+      object: "page",
+      id: "room-1",
+      properties: { Name: { type: "title", title: [richText("Room 1")] } },
+    });
+    const page = notionPage("page-1");
+    Object.assign(page.properties, {
+      Location: { type: "relation", relation: [{ id: "room-1" }] },
+    });
+
+    const event = await notionPageToEvent(page as unknown as PageObjectResponse);
+
+    expect(event?.location).toBe("Room 1");
+  });
+
+  test("notionPageToEvent keeps the ID of a related page it cannot access", async () => {
+    const notFound = Object.assign(new Error("Could not find page"), { code: "object_not_found" });
+    mockRetrievePage.mockRejectedValue(notFound);
+    const page = notionPage("page-1");
+    Object.assign(page.properties, {
+      Location: { type: "relation", relation: [{ id: "room-1" }] },
+    });
+
+    const event = await notionPageToEvent(page as unknown as PageObjectResponse);
+
+    expect(event?.location).toBe("room-1");
+  });
+
+  test("notionPageToEvent throws when a related page read fails for another reason", async () => {
+    const rateLimited = Object.assign(new Error("Slow down"), { code: "rate_limited" });
+    mockRetrievePage.mockRejectedValue(rateLimited);
+    const page = notionPage("page-1");
+    Object.assign(page.properties, {
+      Location: { type: "relation", relation: [{ id: "room-1" }] },
+    });
+
+    await expect(notionPageToEvent(page as unknown as PageObjectResponse)).rejects.toThrow(
+      "Slow down",
+    );
+  });
+
+  test("notionPageExists reads pages in the trash and deleted pages as gone", async () => {
+    const notFound = Object.assign(new Error("Could not find page"), { code: "object_not_found" });
+    mockRetrievePage
+      .mockResolvedValueOnce(notionPage("page-1"))
+      .mockResolvedValueOnce({ ...notionPage("page-1"), archived: true })
+      .mockRejectedValueOnce(notFound);
+
+    expect(await notionPageExists("page-1")).toBe(true);
+    expect(await notionPageExists("page-1")).toBe(false);
+    expect(await notionPageExists("page-1")).toBe(false);
+  });
+
+  test("getPropertyValue reads multi-select, people, email and formula properties", () => {
+    const properties = {
+      Tags: { type: "multi_select", multi_select: [{ name: "work" }, { name: "team" }] },
+      Owners: { type: "people", people: [{ object: "user", id: "u1", name: "Ana" }] },
+      Contact: { type: "email", email: "ana@example.com" },
+      Minutes: { type: "formula", formula: { type: "number", number: 15 } },
+    } as unknown as Parameters<typeof getPropertyValue>[0];
+
+    expect(getPropertyValue(properties, "Tags")).toBe("work, team");
+    expect(getPropertyValue(properties, "Owners")).toBe("Ana");
+    expect(getPropertyValue(properties, "Contact")).toBe("ana@example.com");
+    expect(getPropertyValue(properties, "Minutes")).toBe(15);
+  });
+
+  test("buildNotionPropertyValue skips values read-only types cannot take", () => {
+    expect(buildNotionPropertyValue("formula", "x")).toBeNull();
+    expect(buildNotionPropertyValue("relation", "Room 1")).toBeNull();
+    expect(buildNotionPropertyValue("relation", ["room-1"])).toEqual({
+      relation: [{ id: "room-1" }],
+    });
+    expect(buildNotionPropertyValue("multi_select", "work, team")).toEqual({
+      multi_select: [{ name: "work" }, { name: "team" }],
+    });
+  });
+});
+
+describe("custom field mappings", () => {
+  beforeEach(() => {
+    mockUpdate.mockReset();
+    vi.mocked(getCustomMappings).mockResolvedValue([
+      {
+        id: "busy",
+        enabled: true,
+        gcalPath: "transparency",
+        notionPropertyName: "Busy",
+        propertyType: "select",
+      },
+      {
+        id: "points",
+        enabled: true,
+        gcalPath: "extendedProperties.shared.points",
+        notionPropertyName: "Points",
+        propertyType: "number",
+      },
+    ]);
+    resetNotionClient();
+  });
+
+  afterEach(() => {
+    vi.mocked(getCustomMappings).mockResolvedValue([]);
+  });
+
+  test("notionPageToEvent reads custom properties as text", async () => {
+    const page = notionPage("page-1");
+    Object.assign(page.properties, {
+      Busy: { type: "select", select: { name: "transparent" } },
+      Points: { type: "number", number: 3 },
+    });
+
+    const event = await notionPageToEvent(page as unknown as PageObjectResponse);
+
+    expect(event?.custom).toEqual({ busy: "transparent", points: "3" });
+  });
+
+  test("updateNotionEvent converts custom values to the property type", async () => {
+    await updateNotionEvent("page-1", { custom: { busy: "opaque", points: "" } });
+
+    const { properties } = mockUpdate.mock.calls[0][0];
+    expect(properties.Busy).toEqual({ select: { name: "opaque" } });
+    expect(properties.Points).toEqual({ number: null });
+  });
+});
+
+describe("value transforms", () => {
+  beforeEach(() => {
+    mockCreate.mockReset();
+    mockCreate.mockResolvedValue({ id: "page-new" });
+    vi.mocked(getFieldMapping).mockResolvedValue({
+      ...DEFAULT_EXTENDED_FIELD_MAPPING,
+      color: {
+        ...DEFAULT_EXTENDED_FIELD_MAPPING.color,
+        enabled: true,
+        transforms: [{ type: "map", values: { Tomato: "Red" }, side: "notion" }],
+      },
+      reminders: {
+        ...DEFAULT_EXTENDED_FIELD_MAPPING.reminders,
+        enabled: true,
+        propertyType: "rich_text",
+        transforms: [{ type: "template", template: "⏰ {value}", side: "notion" }],
+      },
+    });
+    resetNotionClient();
+  });
+
+  afterEach(() => {
+    vi.mocked(getFieldMapping).mockResolvedValue(DEFAULT_EXTENDED_FIELD_MAPPING);
+  });
+
+  test("createNotionEvent writes transformed values", async () => {
+    await createNotionEvent({
+      id: "review",
+      title: "Review",
+      startTime: new Date("2026-03-02T09:00:00.000Z"),
+      endTime: new Date("2026-03-02T10:00:00.000Z"),
+      color: "Tomato",
+      reminders: [{ method: "popup", minutes: 15 }],
+    });
+
+    const { properties } = mockCreate.mock.calls[0][0];
+    expect(properties.Color).toEqual({ select: { name: "Red" } });
+    expect(properties.Reminders.rich_text[0].text.content).toBe("⏰ popup 15m");
+  });
+
+  test("notionPageToEvent undoes the transforms", async () => {
+    const page = notionPage("page-1");
+    Object.assign(page.properties, {
+      Color: { type: "select", select: { name: "Red" } },
+      Reminders: { type: "rich_text", rich_text: [richText("⏰ email 30m")] },
+    });
+
+    const event = await notionPageToEvent(page as unknown as PageObjectResponse);
+
+    expect(event?.color).toBe("Tomato");
+    expect(event?.reminders).toEqual([{ method: "email", minutes: 30 }]);
+  });
+});
+
+describe("sync filters", () => {
+  test("notionPageToEvent marks pages that match no include filter", async () => {
+    const syncFilters = [
+      {
+        id: "checked",
+        enabled: true,
+        action: "include" as const,
+        source: "notion" as const,
+        field: "Sync to calendar",
+        operator: "equals" as const,
+        value: "true",
+      },
+    ];
+    const checked = notionPage("page-1");
+    Object.assign(checked.properties, {
+      "Sync to calendar": { type: "checkbox", checkbox: true },
+    });
+
+    const included = await notionPageToEvent(checked as unknown as PageObjectResponse, syncFilters);
+    const excluded = await notionPageToEvent(
+      notionPage("page-2") as unknown as PageObjectResponse,
+      syncFilters,
+    );
+
+    expect(included?.excluded).toBeUndefined();
+    expect(excluded?.excluded).toBe(true);
+  });
+});
+
+describe("page content sync", () => {
+  const paragraph = (id: string, content: string) => ({
+    object: "block",
+    id,
+    type: "paragraph",
+    has_children: false,
+    paragraph: {
+      rich_text: [
+        {
+          plain_text: content,
+          href: null,
+          annotations: { bold: false, italic: false, underline: false },
+        },
+      ],
+    },
+  });
+
+  beforeEach(() => {
+    for (const mock of [mockUpdate, mockListBlocks, mockDeleteBlock, mockAppendBlocks]) {
+      mock.mockReset();
+    }
+    vi.mocked(getNotionConfig).mockResolvedValue({
+      apiToken: "secret",
+      databaseId: "db-1",
+      syncPageContent: true,
+    });
+    resetNotionClient();
+  });
+
+  afterEach(() => {
+    vi.mocked(getNotionConfig).mockResolvedValue({ apiToken: "secret", databaseId: "db-1" });
+  });
+
+  test("notionPageToEvent appends the page body to the description", async () => {
+    mockListBlocks.mockResolvedValue({ results: [paragraph("b1", "Agenda")], has_more: false });
+    const page = notionPage("page-1");
+    Object.assign(page.properties, {
+      Description: { type: "rich_text", rich_text: [richText("Weekly sync")] },
+    });
+
+    const event = await notionPageToEvent(page as unknown as PageObjectResponse);
+
+    expect(event?.description).toBe(
+      `Weekly sync\n\n${PAGE_CONTENT_START}\nAgenda\n${PAGE_CONTENT_END}`,
+    );
+  });
+
+  test("fetchNotionEvents reads a page body again only once the page was edited", async () => {
+    mockListBlocks.mockResolvedValue({ results: [paragraph("b1", "Agenda")], has_more: false });
+    const page = notionPage("page-1");
+    const edited = { ...page, last_edited_time: "2026-03-05T00:00:00.000Z" };
+    for (const result of [page, page, edited]) {
+      mockQuery.mockResolvedValueOnce({ results: [result], has_more: false, next_cursor: null });
+    }
+
+    const [first] = await fetchNotionEvents();
+    const [second] = await fetchNotionEvents();
+    await fetchNotionEvents();
+
+    expect(second.description).toBe(first.description);
+    expect(mockListBlocks).toHaveBeenCalledTimes(2);
+  });
+
+  test("notionPageToEvent reads the body again within the minute of the last edit", async () => {
+    mockListBlocks.mockResolvedValue({ results: [paragraph("b1", "Agenda")], has_more: false });
+    vi.useFakeTimers({ now: new Date("2026-03-01T00:00:30.000Z") });
+    const page = notionPage("page-1") as unknown as PageObjectResponse;
+
+    await notionPageToEvent(page);
+    await notionPageToEvent(page);
+    vi.useRealTimers();
+
+    expect(mockListBlocks).toHaveBeenCalledTimes(2);
+  });
+
+  test("updateNotionEvent writes the description section back as blocks", async () => {
+    mockListBlocks.mockResolvedValue({ results: [paragraph("b1", "Agenda")], has_more: false });
+
+    await updateNotionEvent("page-1", {
+      description: `Weekly sync\n\n${PAGE_CONTENT_START}\nAgenda<br>Budget\n${PAGE_CONTENT_END}`,
+    });
+
+    expect(mockUpdate.mock.calls[0][0].properties.Description).toEqual({
+      rich_text: [{ text: { content: "Weekly sync" } }],
+    });
+    expect(mockDeleteBlock).toHaveBeenCalledWith({ block_id: "b1" });
+    expect(mockAppendBlocks.mock.calls[0][0].children).toHaveLength(2);
+  });
+
+  test("updateNotionEvent leaves an unchanged page body alone", async () => {
+    mockListBlocks.mockResolvedValue({ results: [paragraph("b1", "Agenda")], has_more: false });
+
+    await updateNotionEvent("page-1", {
+      description: `${PAGE_CONTENT_START}\nAgenda\n${PAGE_CONTENT_END}`,
+    });
+
+    expect(mockDeleteBlock).not.toHaveBeenCalled();
+    expect(mockAppendBlocks).not.toHaveBeenCalled();
+  });
+});
 
 describe("notion property helpers", () => {
   test("buildNotionPropertyValue supports url and select", () => {
@@ -24,6 +660,138 @@ describe("notion property helpers", () => {
     });
   });
 
+  test("buildNotionPropertyValue writes dates as wall-clock times in a time zone", () => {
+    const start = new Date("2026-03-02T09:00:00.000Z");
+    const end = new Date("2026-03-02T10:30:00.000Z");
+
+    expect(buildNotionPropertyValue("date", { start, end, timeZone: "Europe/Berlin" })).toEqual({
+      date: {
+        start: "2026-03-02T10:00:00.000",
+        end: "2026-03-02T11:30:00.000",
+        time_zone: "Europe/Berlin",
+      },
+    });
+  });
+
+  test("notionPageToEvent honours the date's time zone", async () => {
+    const page = notionPage("page-1");
+    page.properties.Date.date = {
+      start: "2026-07-02T10:00:00.000",
+      end: "2026-07-02T11:00:00.000",
+      time_zone: "America/New_York",
+    } as typeof page.properties.Date.date;
+
+    const event = await notionPageToEvent(page as unknown as PageObjectResponse);
+
+    expect(event?.startTime.toISOString()).toBe("2026-07-02T14:00:00.000Z");
+    expect(event?.endTime.toISOString()).toBe("2026-07-02T15:00:00.000Z");
+  });
+
+  test("notionPageToEvent reads plain dates as all-day with an exclusive end", async () => {
+    const page = notionPage("page-1");
+    page.properties.Date.date = { start: "2026-03-02", end: "2026-03-04" };
+
+    const event = await notionPageToEvent(page as unknown as PageObjectResponse);
+
+    expect(event?.allDay).toBe(true);
+    expect(event?.startTime.toISOString()).toBe("2026-03-02T00:00:00.000Z");
+    expect(event?.endTime.toISOString()).toBe("2026-03-05T00:00:00.000Z");
+  });
+
+  test("notionPageToEvent keeps midnight UTC times as timed events", async () => {
+    const page = notionPage("page-1");
+    page.properties.Date.date = {
+      start: "2026-03-02T00:00:00.000Z",
+      end: "2026-03-03T00:00:00.000Z",
+    };
+
+    const event = await notionPageToEvent(page as unknown as PageObjectResponse);
+
+    expect(event?.allDay).toBe(false);
+  });
+
+  test("notionPageToEvent turns an edit of the recurrence text into a new rule", async () => {
+    vi.mocked(getFieldMapping).mockResolvedValueOnce({
+      ...DEFAULT_EXTENDED_FIELD_MAPPING,
+      recurrence: { ...DEFAULT_EXTENDED_FIELD_MAPPING.recurrence, enabled: true },
+      rrule: { ...DEFAULT_EXTENDED_FIELD_MAPPING.rrule, enabled: true },
+    });
+    const page = notionPage("page-1");
+    Object.assign(page.properties, {
+      Recurrence: { type: "rich_text", rich_text: [{ plain_text: "Every 2 weeks on Friday" }] },
+      RRULE: {
+        type: "rich_text",
+        rich_text: [{ plain_text: "RRULE:FREQ=WEEKLY;BYDAY=MO\nEXDATE:20260309T090000Z" }],
+      },
+    });
+
+    const event = await notionPageToEvent(page as unknown as PageObjectResponse);
+
+    expect(event?.rrule).toEqual([
+      "RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=FR",
+      "EXDATE:20260309T090000Z",
+    ]);
+  });
+
+  test("buildNotionPropertyValue splits long text into 2000-character runs", () => {
+    const value = buildNotionPropertyValue("rich_text", "a".repeat(4500)) as {
+      rich_text: { text: { content: string } }[];
+    };
+
+    expect(value.rich_text.map((item) => item.text.content.length)).toEqual([2000, 2000, 500]);
+  });
+
+  test("getPropertyValue joins every rich text run", () => {
+    const properties = {
+      Notes: { type: "rich_text", rich_text: [richText("First "), richText("second")] },
+    } as unknown as Parameters<typeof getPropertyValue>[0];
+
+    expect(getPropertyValue(properties, "Notes")).toBe("First second");
+  });
+
+  test("notionPageToEvent reads a formatted description as HTML", async () => {
+    const page = notionPage("page-1");
+    Object.assign(page.properties, {
+      Description: {
+        type: "rich_text",
+        rich_text: [
+          richText("Agenda", { bold: true }),
+          richText(" in "),
+          richText("the doc", {}, "https://example.com/doc"),
+        ],
+      },
+    });
+
+    const event = await notionPageToEvent(page as unknown as PageObjectResponse);
+
+    expect(event?.description).toBe(
+      '<b>Agenda</b> in <a href="https://example.com/doc">the doc</a>',
+    );
+  });
+
+  test("createNotionEvent writes description links as rich text runs", async () => {
+    mockCreate.mockReset();
+    mockCreate.mockResolvedValue({ id: "page-new" });
+    resetNotionClient();
+
+    await createNotionEvent({
+      id: "sync",
+      title: "Sync",
+      description: 'Notes: <a href="https://example.com/doc">the doc</a><br>Bring laptops',
+      startTime: new Date("2026-03-02T09:00:00.000Z"),
+      endTime: new Date("2026-03-02T10:00:00.000Z"),
+    });
+
+    const { properties } = mockCreate.mock.calls[0][0];
+    expect(properties.Description.rich_text).toEqual([
+      expect.objectContaining({ text: { content: "Notes: ", link: null } }),
+      expect.objectContaining({
+        text: { content: "the doc", link: { url: "https://example.com/doc" } },
+      }),
+      expect.objectContaining({ text: { content: "\nBring laptops", link: null } }),
+    ]);
+  });
+
   test("getPropertyValue reads url properties", () => {
     const properties = {
       Website: { type: "url", url: "https://example.com" },
@@ -34,3 +802,74 @@ describe("notion property helpers", () => {
     expect(getPropertyValue(properties, "Visibility")).toBe("Private");
   });
 });
+
+describe("notion pagination", () => {
+  beforeEach(() => {
+    mockQuery.mockReset();
+    resetNotionClient();
+  });
+
+  test("fetchNotionEvents follows next_cursor until has_more is false", async () => {
+    mockQuery
+      .mockResolvedValueOnce({
+        results: [notionPage("a"), notionPage("b")],
+        has_more: true,
+        next_cursor: "cursor-2",
+      })
+      .mockResolvedValueOnce({
+        results: [notionPage("c")],
+        has_more: true,
+        next_cursor: "cursor-3",
+      })
+      .mockResolvedValueOnce({ results: [notionPage("d")], has_more: false, next_cursor: null });
+
+    const events = await fetchNotionEvents();
+
+    expect(events.map((e) => e.id)).toEqual(["a", "b", "c", "d"]);
+    expect(mockQuery).toHaveBeenCalledTimes(3);
+    expect(mockQuery.mock.calls.map(([args]) => args.start_cursor)).toEqual([
+      undefined,
+      "cursor-2",
+      "cursor-3",
+    ]);
+    expect(mockQuery.mock.calls[0][0]).toMatchObject({ database_id: "db-1", page_size: 100 });
+  });
+
+  test("fetchNotionEvents filters by last_edited_time when editedSince is set", async () => {
+    mockQuery.mockResolvedValueOnce({ results: [notionPage("a")], has_more: false });
+
+    await fetchNotionEvents({ editedSince: new Date("2026-03-01T08:00:00.000Z") });
+
+    expect(mockQuery.mock.calls[0][0].filter).toEqual({
+      and: [
+        { property: "Date", date: { is_not_empty: true } },
+        {
+          timestamp: "last_edited_time",
+          last_edited_time: { on_or_after: "2026-03-01T08:00:00.000Z" },
+        },
+      ],
+    });
+  });
+
+  test("iterateNotionEvents stops fetching when the caller stops early", async () => {
+    mockQuery
+      .mockResolvedValueOnce({ results: [notionPage("a")], has_more: true, next_cursor: "c2" })
+      .mockResolvedValueOnce({ results: [notionPage("b")], has_more: false, next_cursor: null });
+
+    for await (const event of iterateNotionEvents()) {
+      expect(event.id).toBe("a");
+      break;
+    }
+
+    expect(mockQuery).toHaveBeenCalledTimes(1);
+  });
+
+  test("fetchNotionEvents propagates errors from later pages", async () => {
+    mockQuery
+      .mockResolvedValueOnce({ results: [notionPage("a")], has_more: true, next_cursor: "c2" })
+      .mockRejectedValueOnce(new Error("rate_limited"));
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    await expect(fetchNotionEvents()).rejects.toThrow("rate_limited");
+  });
+});
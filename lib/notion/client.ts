@@ -1,17 +1,83 @@
-import { getFieldMapping, getNotionConfig } from "@/lib/settings";
-import type { FieldConfig, NotionPropertyType } from "@/lib/settings/types";
-import type { Event } from "@/lib/types";
+import { passesSyncFilters } from "@/lib/events/filters";
+import { formatReminders, parseReminders } from "@/lib/events/reminders";
+import { transformValue, untransformValue } from "@/lib/events/transforms";
+import { applyRecurrenceText, describeRecurrence } from "@/lib/google-calendar/rrule-parser";
+import {
+  getActiveSyncPairId,
+  getCustomMappings,
+  getFieldMapping,
+  getNotionConfig,
+  getSyncFilters,
+} from "@/lib/settings";
+import type {
+  CustomFieldMapping,
+  CustomPropertyType,
+  ExtendedFieldMapping,
+  FieldConfig,
+  NotionPropertyType,
+  SyncFilter,
+} from "@/lib/settings/types";
+import {
+  addDaysUtc,
+  formatDateOnly,
+  formatInTimeZone,
+  isDateOnly,
+  parseInTimeZone,
+} from "@/lib/time-zone";
+import type { Attendee, Event } from "@/lib/types";
 import { Client } from "@notionhq/client";
 import type {
+  BlockObjectResponse,
   CreatePageParameters,
   PageObjectResponse,
   QueryDatabaseResponse,
   UpdatePageParameters,
 } from "@notionhq/client/build/src/api-endpoints";
+import { formatAttendees, parseAttendees, sameEmail } from "./attendees";
+import {
+  type RenderedContent,
+  chunkBlocks,
+  composeDescription,
+  parseContentHtml,
+  renderContentHtml,
+  renderPageContent,
+  splitDescription,
+  toNotionBlocks,
+} from "./page-content";
+import {
+  type TextRun,
+  fromRichText,
+  hasFormatting,
+  htmlToRuns,
+  isHtml,
+  plainText,
+  runsToHtml,
+  textToRichText,
+  toRichText,
+} from "./rich-text";
 
 // Cached client and config (lazy initialization)
 let cachedNotionClient: Client | null = null;
-let cachedDatabaseId: string | null = null;
+const cachedDatabaseIds = new Map<string, string>(); // Sync pair ID → database ID
+let cachedWorkspaceUsers: Map<string, string> | null = null; // Lower-cased email → user ID
+const cachedStatusOptions = new Map<string, StatusOption[]>(); // Database:property → options
+const cachedPageTitles = new Map<string, string>(); // Related page ID → title
+const cachedPageContent = new Map<string, CachedPageContent>(); // Page ID → rendered body
+
+// Notion stamps last_edited_time to the minute, so a body read within that minute may still
+// miss a later edit made in it
+const EDITED_TIME_PRECISION_MS = 60 * 1000;
+
+interface CachedPageContent {
+  editedAt: string; // The page's last_edited_time when its blocks were read
+  readAt: number;
+  content: RenderedContent;
+}
+
+interface StatusOption {
+  name: string;
+  group: string;
+}
 
 /**
  * Get or create the Notion client with credentials from settings or env vars.
@@ -23,22 +89,23 @@ async function getClient(): Promise<Client> {
 
   const config = await getNotionConfig();
   cachedNotionClient = new Client({ auth: config.apiToken });
-  cachedDatabaseId = config.databaseId;
 
   return cachedNotionClient;
 }
 
 /**
- * Get the database ID from config.
+ * Get the active sync pair's database ID from config.
  */
 async function getDatabaseId(): Promise<string> {
-  if (cachedDatabaseId) {
-    return cachedDatabaseId;
+  const pairId = await getActiveSyncPairId();
+  const cached = cachedDatabaseIds.get(pairId);
+  if (cached) {
+    return cached;
   }
 
   const config = await getNotionConfig();
-  cachedDatabaseId = config.databaseId;
-  return cachedDatabaseId;
+  cachedDatabaseIds.set(pairId, config.databaseId);
+  return config.databaseId;
 }
 
 /**
@@ -46,7 +113,11 @@ async function getDatabaseId(): Promise<string> {
  */
 export function resetNotionClient(): void {
   cachedNotionClient = null;
-  cachedDatabaseId = null;
+  cachedDatabaseIds.clear();
+  cachedWorkspaceUsers = null;
+  cachedStatusOptions.clear();
+  cachedPageTitles.clear();
+  cachedPageContent.clear();
 }
 
 // Type guard for page object responses
@@ -60,6 +131,167 @@ function isPageObjectResponse(page: unknown): page is PageObjectResponse {
   );
 }
 
+// Type guard for full block responses
+function isBlockObjectResponse(block: unknown): block is BlockObjectResponse {
+  return (
+    typeof block === "object" &&
+    block !== null &&
+    "type" in block &&
+    (block as { object?: string }).object === "block"
+  );
+}
+
+/**
+ * Fetch the top-level blocks of a page, following pagination
+ */
+async function fetchPageBlocks(pageId: string): Promise<BlockObjectResponse[]> {
+  const client = await getClient();
+  const blocks: BlockObjectResponse[] = [];
+  let cursor: string | undefined;
+  do {
+    const response = await client.blocks.children.list({
+      block_id: pageId,
+      start_cursor: cursor,
+      page_size: 100,
+    });
+    blocks.push(...response.results.filter(isBlockObjectResponse));
+    cursor = response.has_more ? (response.next_cursor ?? undefined) : undefined;
+  } while (cursor);
+  return blocks;
+}
+
+/**
+ * Render a page's body, reading its blocks again only when the page was edited since
+ */
+async function readPageContent(page: PageObjectResponse): Promise<RenderedContent> {
+  const cached = cachedPageContent.get(page.id);
+  if (
+    cached?.editedAt === page.last_edited_time &&
+    cached.readAt >= Date.parse(page.last_edited_time) + EDITED_TIME_PRECISION_MS
+  ) {
+    return cached.content;
+  }
+
+  const readAt = Date.now();
+  const content = renderPageContent(await fetchPageBlocks(page.id));
+  cachedPageContent.set(page.id, { editedAt: page.last_edited_time, readAt, content });
+  return content;
+}
+
+/**
+ * Replace a page's body with the content section of a Google event description.
+ * Pages the section cannot fully represent are left alone.
+ */
+async function replacePageContent(pageId: string, html: string): Promise<void> {
+  const client = await getClient();
+  const current = await fetchPageBlocks(pageId);
+  const currentContent = renderPageContent(current, Number.POSITIVE_INFINITY);
+  if (!currentContent.complete) {
+    console.log(`   → Page ${pageId} has content the description cannot hold, body not updated`);
+    return;
+  }
+
+  const blocks = parseContentHtml(html);
+  if (renderContentHtml(blocks, Number.POSITIVE_INFINITY).html === currentContent.html) {
+    return;
+  }
+
+  for (const block of current) {
+    await client.blocks.delete({ block_id: block.id });
+  }
+  for (const batch of chunkBlocks(toNotionBlocks(blocks))) {
+    await client.blocks.children.append({ block_id: pageId, children: batch });
+  }
+}
+
+/**
+ * Look up the workspace users People properties can hold, by email address
+ */
+async function getWorkspaceUsers(): Promise<Map<string, string>> {
+  if (cachedWorkspaceUsers) {
+    return cachedWorkspaceUsers;
+  }
+
+  const client = await getClient();
+  const users = new Map<string, string>();
+  let cursor: string | undefined;
+  do {
+    const response = await client.users.list({ start_cursor: cursor, page_size: 100 });
+    for (const user of response.results) {
+      if (user.type === "person" && user.person.email) {
+        users.set(user.person.email.toLowerCase(), user.id);
+      }
+    }
+    cursor = response.has_more ? (response.next_cursor ?? undefined) : undefined;
+  } while (cursor);
+
+  cachedWorkspaceUsers = users;
+  return users;
+}
+
+/**
+ * Email addresses of the workspace users People properties can hold, lower-cased
+ */
+export async function getNotionUserEmails(): Promise<Set<string>> {
+  return new Set((await getWorkspaceUsers()).keys());
+}
+
+/**
+ * Read the attendees property in whichever form the field mapping points at
+ */
+function getAttendeesValue(
+  properties: PageObjectResponse["properties"],
+  key: string,
+): Attendee[] | undefined {
+  const prop = properties[key];
+  switch (prop?.type) {
+    case "people":
+      return prop.people.flatMap((user) =>
+        "type" in user && user.type === "person" && user.person.email
+          ? [{ email: user.person.email, name: user.name || undefined }]
+          : [],
+      );
+    case "email":
+      return parseAttendees(prop.email ?? "");
+    case "multi_select":
+      return parseAttendees(prop.multi_select.map((option) => option.name).join(", "));
+    case "title":
+    case "rich_text":
+      return parseAttendees(getPropertyValue(properties, key) as string);
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Convert attendees into the value for the attendees property's type.
+ * People properties only hold workspace members, so other guests are left out; the engine
+ * keeps them on the Google side.
+ */
+async function attendeesValue(config: FieldConfig, attendees: Attendee[]): Promise<unknown> {
+  switch (config.propertyType) {
+    case "people": {
+      const users = await getWorkspaceUsers();
+      const ids = attendees.flatMap((attendee) => users.get(attendee.email.toLowerCase()) ?? []);
+      if (ids.length < attendees.length) {
+        console.warn(
+          `   → ${attendees.length - ids.length} attendee(s) are not Notion users, not added to "${config.notionPropertyName}"`,
+        );
+      }
+      return ids;
+    }
+    case "email":
+      return attendees.map((attendee) => attendee.email).join(", ");
+    case "multi_select":
+      // Option names cannot contain commas, so each option is an address
+      return attendees
+        .map((attendee) => attendee.email)
+        .filter((email, index, emails) => emails.findIndex((e) => sameEmail(e, email)) === index);
+    default:
+      return formatAttendees(attendees);
+  }
+}
+
 // Helper to extract property values from Notion pages
 export function getPropertyValue(
   properties: PageObjectResponse["properties"],
@@ -70,13 +302,39 @@ export function getPropertyValue(
 
   switch (prop.type) {
     case "title":
-      return prop.title[0]?.plain_text || "";
+      return prop.title.map((item) => item.plain_text).join("");
     case "rich_text":
-      return prop.rich_text[0]?.plain_text || "";
+      return prop.rich_text.map((item) => item.plain_text).join("");
     case "date":
       return prop.date;
     case "select":
       return prop.select?.name || null;
+    case "status":
+      return prop.status?.name || null;
+    case "multi_select":
+      return prop.multi_select.map((option) => option.name).join(", ");
+    case "people":
+      return prop.people
+        .map((user) => ("name" in user && user.name) || "")
+        .filter(Boolean)
+        .join(", ");
+    case "email":
+      return prop.email || "";
+    // Related pages read as their titles once loadRelationTitles has fetched them
+    case "relation":
+      return prop.relation.map((page) => cachedPageTitles.get(page.id) ?? page.id).join(", ");
+    case "formula":
+      switch (prop.formula.type) {
+        case "string":
+          return prop.formula.string || "";
+        case "number":
+          return prop.formula.number;
+        case "boolean":
+          return prop.formula.boolean;
+        case "date":
+          return prop.formula.date;
+      }
+      return null;
     case "number":
       return prop.number;
     case "url":
@@ -88,21 +346,146 @@ export function getPropertyValue(
   }
 }
 
+// Related pages the integration has no access to fail the same way on every read
+function isInaccessiblePage(error: unknown): boolean {
+  const code = error && typeof error === "object" && "code" in error ? error.code : undefined;
+  return code === "object_not_found" || code === "restricted_resource";
+}
+
+/**
+ * Fetch the titles of pages linked from mapped relation properties. Pages the integration
+ * cannot read keep their ID as title; other failed reads are thrown.
+ */
+async function loadRelationTitles(
+  properties: PageObjectResponse["properties"],
+  fieldMapping: ExtendedFieldMapping,
+): Promise<void> {
+  const client = await getClient();
+  for (const config of Object.values(fieldMapping)) {
+    const prop = properties[config.notionPropertyName];
+    if (!config.enabled || prop?.type !== "relation") continue;
+
+    for (const { id } of prop.relation) {
+      if (cachedPageTitles.has(id)) continue;
+      const page = await client.pages.retrieve({ page_id: id }).catch((error: unknown) => {
+        if (isInaccessiblePage(error)) return null;
+        throw error;
+      });
+      const title = isPageObjectResponse(page)
+        ? Object.values(page.properties).find((property) => property.type === "title")
+        : undefined;
+      cachedPageTitles.set(
+        id,
+        title?.type === "title" ? title.title.map((item) => item.plain_text).join("") : id,
+      );
+    }
+  }
+}
+
+// Status groups an event status is written to when no option carries its name
+const STATUS_GROUPS: Record<NonNullable<Event["status"]>, string> = {
+  tentative: "to-do",
+  confirmed: "in progress",
+  cancelled: "complete",
+};
+
+/**
+ * Get the options of a Status property together with the group each belongs to
+ */
+async function getStatusOptions(propertyName: string): Promise<StatusOption[]> {
+  const databaseId = await getDatabaseId();
+  const cacheKey = `${databaseId}:${propertyName}`;
+  const cached = cachedStatusOptions.get(cacheKey);
+  if (cached) {
+    return cached;
+  }
+
+  const client = await getClient();
+  const database = await client.databases.retrieve({ database_id: databaseId });
+  const prop = database.properties[propertyName];
+  const options =
+    prop?.type === "status"
+      ? prop.status.groups.flatMap((group) =>
+          prop.status.options
+            .filter((option) => group.option_ids.includes(option.id))
+            .map((option) => ({ name: option.name, group: group.name })),
+        )
+      : [];
+  cachedStatusOptions.set(cacheKey, options);
+  return options;
+}
+
+/**
+ * Read an event status from the status property. Options named after a status map to it;
+ * otherwise the To-do group means tentative and every other option confirmed, so marking
+ * an event done in Notion never reads as a cancellation.
+ */
+async function getStatusValue(
+  properties: PageObjectResponse["properties"],
+  config: FieldConfig,
+): Promise<Event["status"]> {
+  const value = getPropertyValue(properties, config.notionPropertyName);
+  if (typeof value !== "string" || !value) {
+    return undefined;
+  }
+
+  const name = value.toLowerCase().replace("canceled", "cancelled");
+  if (name === "confirmed" || name === "tentative" || name === "cancelled") {
+    return name;
+  }
+  if (properties[config.notionPropertyName]?.type !== "status") {
+    return undefined;
+  }
+
+  const options = await getStatusOptions(config.notionPropertyName);
+  const group = options.find((option) => option.name === value)?.group.toLowerCase();
+  return group === STATUS_GROUPS.tentative ? "tentative" : "confirmed";
+}
+
+/**
+ * Convert an event status into the status property's value. Status properties take the
+ * option named after the status, or else the first option in the matching group.
+ */
+async function statusValue(
+  config: FieldConfig,
+  status: NonNullable<Event["status"]>,
+): Promise<string | undefined> {
+  const name = status.charAt(0).toUpperCase() + status.slice(1);
+  if (config.propertyType !== "status") {
+    return name;
+  }
+
+  const options = await getStatusOptions(config.notionPropertyName);
+  const option =
+    options.find((candidate) => candidate.name.toLowerCase() === status) ??
+    options.find((candidate) => candidate.group.toLowerCase() === STATUS_GROUPS[status]);
+  return option?.name;
+}
+
 type NotionPropertyValue =
   | NonNullable<CreatePageParameters["properties"]>[string]
   | NonNullable<UpdatePageParameters["properties"]>[string];
 
+// Text values are plain strings or formatted runs, split into runs Notion accepts
+function richTextValue(value: unknown) {
+  if (typeof value === "string") return textToRichText(value);
+  if (Array.isArray(value)) return toRichText(value as TextRun[]);
+  return null;
+}
+
 export function buildNotionPropertyValue(
   type: NotionPropertyType,
   value: unknown,
 ): NotionPropertyValue | null {
   switch (type) {
-    case "title":
-      if (typeof value !== "string") return null;
-      return { title: [{ text: { content: value } }] };
-    case "rich_text":
-      if (typeof value !== "string") return null;
-      return { rich_text: [{ text: { content: value } }] };
+    case "title": {
+      const title = richTextValue(value);
+      return title && { title };
+    }
+    case "rich_text": {
+      const richText = richTextValue(value);
+      return richText && { rich_text: richText };
+    }
     case "number":
       if (typeof value !== "number") return null;
       return { number: value };
@@ -115,18 +498,180 @@ export function buildNotionPropertyValue(
     case "select":
       if (typeof value !== "string") return null;
       return { select: { name: value } };
+    case "multi_select": {
+      // Option names cannot contain commas, so text values are split on them
+      const names = typeof value === "string" ? value.split(",") : value;
+      if (!Array.isArray(names)) return null;
+      const options = names.map((name: string) => name.trim()).filter(Boolean);
+      return { multi_select: options.map((name) => ({ name })) };
+    }
+    case "status":
+      if (typeof value !== "string") return null;
+      return { status: { name: value } };
+    case "relation":
+      // Titles cannot be written back; only page IDs can
+      if (!Array.isArray(value)) return null;
+      return { relation: value.map((id: string) => ({ id })) };
+    case "formula":
+      return null;
+    case "email":
+      if (typeof value !== "string") return null;
+      return { email: value || null };
+    case "people":
+      if (!Array.isArray(value)) return null;
+      return { people: value.map((id: string) => ({ id })) };
     case "date": {
       if (!value || typeof value !== "object") return null;
-      const dateValue = value as { start?: string | Date; end?: string | Date };
+      const dateValue = value as { start?: string | Date; end?: string | Date; timeZone?: string };
       if (!dateValue.start) return null;
-      const start =
-        dateValue.start instanceof Date ? dateValue.start.toISOString() : dateValue.start;
-      const end = dateValue.end instanceof Date ? dateValue.end.toISOString() : dateValue.end;
-      return { date: end ? { start, end } : { start } };
+      // With a time zone, times are written as wall-clock times in that zone
+      const { timeZone } = dateValue;
+      const toNotionDate = (date: string | Date) => {
+        if (!(date instanceof Date)) return date;
+        return timeZone ? formatInTimeZone(date, timeZone) : date.toISOString();
+      };
+      const start = toNotionDate(dateValue.start);
+      const end = dateValue.end ? toNotionDate(dateValue.end) : undefined;
+      const zone = timeZone && dateValue.start instanceof Date ? { time_zone: timeZone } : {};
+      // The SDK types time_zone as a union of IANA names
+      return { date: end ? { start, end, ...zone } : { start, ...zone } } as NotionPropertyValue;
+    }
+  }
+}
+
+/**
+ * Build the date property value for an event. All-day events are written as plain dates,
+ * and Notion's end date is inclusive where the event's end is exclusive.
+ */
+function eventDateValue(event: Partial<Event>, timeZone?: string) {
+  if (!event.allDay || !event.startTime) {
+    return { start: event.startTime, end: event.endTime, timeZone };
+  }
+
+  const start = formatDateOnly(event.startTime);
+  const lastDay = event.endTime ? formatDateOnly(addDaysUtc(event.endTime, -1)) : start;
+  return { start, end: lastDay > start ? lastDay : undefined };
+}
+
+/**
+ * Read a text property as the event description. Formatted text and links become HTML,
+ * which Google Calendar descriptions support; unformatted text stays plain.
+ */
+function getDescriptionValue(
+  properties: PageObjectResponse["properties"],
+  key: string,
+): string | undefined {
+  const prop = properties[key];
+  if (prop?.type !== "rich_text" && prop?.type !== "title") {
+    return (getPropertyValue(properties, key) as string | null) ?? undefined;
+  }
+  const runs = fromRichText(prop.type === "title" ? prop.title : prop.rich_text);
+  return hasFormatting(runs) ? runsToHtml(runs) : plainText(runs);
+}
+
+/**
+ * Convert an event description for a text property, keeping HTML formatting and links
+ */
+function descriptionValue(description: string): string | TextRun[] {
+  return isHtml(description) ? htmlToRuns(description) : description;
+}
+
+/**
+ * Read a property as text, the form custom values are exchanged and filters tested in
+ */
+function getCustomValue(properties: PageObjectResponse["properties"], key: string): string {
+  const value = getPropertyValue(properties, key);
+  if (value === null || value === undefined) return "";
+  if (typeof value === "object") return (value as { start?: string }).start ?? "";
+  return String(value);
+}
+
+/**
+ * Convert a custom mapping's text to its property type; empty text clears the property
+ */
+function customPropertyValue(type: CustomPropertyType, text: string): NotionPropertyValue {
+  const value = text.trim();
+  switch (type) {
+    case "number":
+      return { number: value && Number.isFinite(Number(value)) ? Number(value) : null };
+    case "checkbox":
+      return { checkbox: value.toLowerCase() === "true" };
+    case "date":
+      return { date: value ? { start: value } : null };
+    case "url":
+      return { url: value || null };
+    case "email":
+      return { email: value || null };
+    case "select":
+      // Option names cannot contain commas
+      return { select: value ? { name: value.replace(/,/g, "") } : null };
+    case "rich_text":
+      return { rich_text: textToRichText(text) };
+  }
+}
+
+function setCustomValues(
+  properties: Record<string, NotionPropertyValue>,
+  customMappings: CustomFieldMapping[],
+  custom: Record<string, string>,
+) {
+  for (const rule of customMappings) {
+    const text = custom[rule.id];
+    if (text !== undefined) {
+      properties[rule.notionPropertyName] = customPropertyValue(rule.propertyType, text);
     }
   }
 }
 
+/**
+ * Read a text field, undoing the field's Notion transforms
+ */
+function getTextValue(
+  properties: PageObjectResponse["properties"],
+  config: FieldConfig,
+): string | undefined {
+  const value = getPropertyValue(properties, config.notionPropertyName) as string | undefined;
+  return typeof value === "string" ? untransformValue(value, config.transforms, "notion") : value;
+}
+
+/**
+ * Apply a field's Notion transforms to a text value being written
+ */
+function toNotionText(config: FieldConfig, value: string): string {
+  return transformValue(value, config.transforms, "notion");
+}
+
+/**
+ * Read reminders. Number properties hold the minutes of a single popup reminder;
+ * multi-select options and text hold one entry per reminder, transformed one by one.
+ */
+function getRemindersValue(
+  properties: PageObjectResponse["properties"],
+  config: FieldConfig,
+): Pick<Event, "reminders" | "useDefaultReminders"> {
+  const value = getPropertyValue(properties, config.notionPropertyName);
+  if (value === null || value === undefined || value === "") return {};
+  const entries = config.propertyType === "multi_select" ? String(value).split(",") : [value];
+  return parseReminders(
+    entries
+      .map((entry) => untransformValue(String(entry).trim(), config.transforms, "notion"))
+      .join(", "),
+  );
+}
+
+function remindersValue(
+  config: FieldConfig,
+  event: Pick<Event, "reminders" | "useDefaultReminders">,
+): unknown {
+  if (config.propertyType === "number") {
+    const popup = event.reminders?.find((reminder) => reminder.method === "popup");
+    const text = popup ? toNotionText(config, String(popup.minutes)) : "";
+    return text && Number.isFinite(Number(text)) ? Number(text) : null;
+  }
+  const entries = formatReminders(event).map((entry) => toNotionText(config, entry));
+  return config.propertyType === "multi_select" ? entries : entries.join(", ");
+}
+
 function setPropertyValue(
   properties: Record<string, NotionPropertyValue>,
   config: FieldConfig,
@@ -138,138 +683,229 @@ function setPropertyValue(
   }
 }
 
-// Convert Notion page to Event
-export async function notionPageToEvent(page: PageObjectResponse): Promise<Event | null> {
-  try {
-    const properties = page.properties;
-    const fieldMapping = await getFieldMapping();
+/**
+ * Convert Notion page to Event. Pages without a start date are not events and read as null;
+ * failed API reads (page body, status options) are thrown, so no page goes missing for them.
+ *
+ * @param syncFilters - Filters to test the page against instead of the saved ones
+ */
+export async function notionPageToEvent(
+  page: PageObjectResponse,
+  syncFilters?: SyncFilter[],
+): Promise<Event | null> {
+  const properties = page.properties;
+  const fieldMapping = await getFieldMapping();
+  await loadRelationTitles(properties, fieldMapping);
+
+  // Required fields - always read
+  const title = getTextValue(properties, fieldMapping.title);
+  const dateRange = getPropertyValue(properties, fieldMapping.date.notionPropertyName) as {
+    start?: string;
+    end?: string;
+    time_zone?: string | null;
+  } | null;
+
+  if (!dateRange?.start) {
+    console.warn(`Page ${page.id} missing start date`);
+    return null;
+  }
 
-    // Required fields - always read
-    const title = getPropertyValue(properties, fieldMapping.title.notionPropertyName) as string;
-    const dateRange = getPropertyValue(properties, fieldMapping.date.notionPropertyName) as {
-      start?: string;
-      end?: string;
-    } | null;
+  // Dates with a time zone hold wall-clock times in that zone
+  const startTime = parseInTimeZone(dateRange.start, dateRange.time_zone);
+  // Dates without a time are all-day; their inclusive end becomes an exclusive one
+  const allDay = isDateOnly(dateRange.start);
+  const endTime = allDay
+    ? addDaysUtc(dateRange.end ? new Date(dateRange.end) : startTime, 1)
+    : dateRange.end
+      ? parseInTimeZone(dateRange.end, dateRange.time_zone)
+      : new Date(startTime.getTime() + 3600000); // +1 hour default
 
-    if (!dateRange?.start) {
-      console.warn(`Page ${page.id} missing start date`);
-      return null;
-    }
+  // Optional fields - only read if enabled
+  const descriptionText = fieldMapping.description.enabled
+    ? getDescriptionValue(properties, fieldMapping.description.notionPropertyName)
+    : undefined;
+  const descriptionProperty =
+    descriptionText === undefined
+      ? undefined
+      : untransformValue(descriptionText, fieldMapping.description.transforms, "notion");
+  // With page content sync, the page body follows the property in the description
+  const { syncPageContent } = await getNotionConfig();
+  const description = syncPageContent
+    ? composeDescription(descriptionProperty, await readPageContent(page))
+    : descriptionProperty;
+  const location = fieldMapping.location.enabled
+    ? getTextValue(properties, fieldMapping.location)
+    : undefined;
+  const gcalEventId = fieldMapping.gcalEventId.enabled
+    ? (getPropertyValue(properties, fieldMapping.gcalEventId.notionPropertyName) as
+        | string
+        | undefined)
+    : undefined;
+  const reminders = fieldMapping.reminders.enabled
+    ? getRemindersValue(properties, fieldMapping.reminders)
+    : {};
+
+  // New extended fields - only read if enabled
+  const attendees = fieldMapping.attendees.enabled
+    ? getAttendeesValue(properties, fieldMapping.attendees.notionPropertyName)
+    : undefined;
+
+  const organizer = fieldMapping.organizer.enabled
+    ? getTextValue(properties, fieldMapping.organizer)
+    : undefined;
+  const conferenceLink = fieldMapping.conferenceLink.enabled
+    ? getTextValue(properties, fieldMapping.conferenceLink)
+    : undefined;
+  const recurrence = fieldMapping.recurrence.enabled
+    ? (getPropertyValue(properties, fieldMapping.recurrence.notionPropertyName) as
+        | string
+        | undefined)
+    : undefined;
+  // The RRULE property holds the series' rule and exceptions, one per line; an edit of the
+  // readable Recurrence text replaces the rule
+  const rruleText = fieldMapping.rrule.enabled
+    ? (getPropertyValue(properties, fieldMapping.rrule.notionPropertyName) as string | null)
+    : undefined;
+  const rrule =
+    typeof rruleText === "string"
+      ? applyRecurrenceText(
+          rruleText
+            .split("\n")
+            .map((line) => line.trim())
+            .filter(Boolean),
+          recurrence,
+        )
+      : [];
+  const color = fieldMapping.color.enabled
+    ? getTextValue(properties, fieldMapping.color)
+    : undefined;
+  const visibilityStr = fieldMapping.visibility.enabled
+    ? getTextValue(properties, fieldMapping.visibility)
+    : undefined;
+  const visibility = visibilityStr as Event["visibility"];
+  const calendar = fieldMapping.calendar.enabled
+    ? (getPropertyValue(properties, fieldMapping.calendar.notionPropertyName) as
+        | string
+        | undefined)
+    : undefined;
+
+  const status = fieldMapping.status.enabled
+    ? await getStatusValue(properties, fieldMapping.status)
+    : undefined;
+
+  const customMappings = await getCustomMappings();
+  const custom = Object.fromEntries(
+    customMappings.map((rule) => [rule.id, getCustomValue(properties, rule.notionPropertyName)]),
+  );
 
-    const startTime = new Date(dateRange.start);
-    const endTime = dateRange.end
-      ? new Date(dateRange.end)
-      : new Date(startTime.getTime() + 3600000); // +1 hour default
+  const excluded = !passesSyncFilters(syncFilters ?? (await getSyncFilters()), "notion", (name) =>
+    getCustomValue(properties, name),
+  );
 
-    // Optional fields - only read if enabled
-    const description = fieldMapping.description.enabled
-      ? (getPropertyValue(properties, fieldMapping.description.notionPropertyName) as
-          | string
-          | undefined)
-      : undefined;
-    const location = fieldMapping.location.enabled
-      ? (getPropertyValue(properties, fieldMapping.location.notionPropertyName) as
-          | string
-          | undefined)
-      : undefined;
-    const gcalEventId = fieldMapping.gcalEventId.enabled
-      ? (getPropertyValue(properties, fieldMapping.gcalEventId.notionPropertyName) as
-          | string
-          | undefined)
-      : undefined;
-    const reminders = fieldMapping.reminders.enabled
-      ? (getPropertyValue(properties, fieldMapping.reminders.notionPropertyName) as
-          | number
-          | undefined)
-      : undefined;
-
-    // New extended fields - only read if enabled
-    const attendeesStr = fieldMapping.attendees.enabled
-      ? (getPropertyValue(properties, fieldMapping.attendees.notionPropertyName) as
-          | string
-          | undefined)
-      : undefined;
-    const attendees = attendeesStr ? attendeesStr.split(", ").filter(Boolean) : undefined;
-
-    const organizer = fieldMapping.organizer.enabled
-      ? (getPropertyValue(properties, fieldMapping.organizer.notionPropertyName) as
-          | string
-          | undefined)
-      : undefined;
-    const conferenceLink = fieldMapping.conferenceLink.enabled
-      ? (getPropertyValue(properties, fieldMapping.conferenceLink.notionPropertyName) as
-          | string
-          | undefined)
-      : undefined;
-    const recurrence = fieldMapping.recurrence.enabled
-      ? (getPropertyValue(properties, fieldMapping.recurrence.notionPropertyName) as
-          | string
-          | undefined)
-      : undefined;
-    const color = fieldMapping.color.enabled
-      ? (getPropertyValue(properties, fieldMapping.color.notionPropertyName) as string | undefined)
-      : undefined;
-    const visibilityStr = fieldMapping.visibility.enabled
-      ? (getPropertyValue(properties, fieldMapping.visibility.notionPropertyName) as
-          | string
-          | undefined)
-      : undefined;
-    const visibility = visibilityStr as Event["visibility"];
-
-    const statusValue = getPropertyValue(properties, "Status") as string | undefined;
-    const status = statusValue?.toLowerCase() as Event["status"];
-
-    return {
-      id: page.id,
-      title: title || "Untitled",
-      description,
-      startTime,
-      endTime,
-      location,
-      status,
-      reminders,
-      attendees,
-      organizer,
-      conferenceLink,
-      recurrence,
-      color,
-      visibility,
-      notionPageId: page.id,
-      gcalEventId,
-    };
-  } catch (error) {
-    console.error("Error converting Notion page to event:", error);
-    return null;
-  }
+  return {
+    id: page.id,
+    title: title || "Untitled",
+    description,
+    startTime,
+    endTime,
+    allDay,
+    location,
+    status,
+    ...reminders,
+    attendees,
+    organizer,
+    conferenceLink,
+    recurrence,
+    rrule: rrule.length ? rrule : undefined,
+    color,
+    visibility,
+    calendar,
+    ...(customMappings.length > 0 && { custom }),
+    notionPageId: page.id,
+    gcalEventId,
+    updatedAt: page.last_edited_time ? new Date(page.last_edited_time) : undefined,
+    ...(excluded && { excluded }),
+  };
 }
 
-// Fetch all events from Notion database
-export async function fetchNotionEvents(): Promise<Event[]> {
-  try {
-    const client = await getClient();
-    const databaseId = await getDatabaseId();
-    const fieldMapping = await getFieldMapping();
+// Notion returns at most 100 results per query
+const NOTION_PAGE_SIZE = 100;
+
+export interface FetchNotionEventsOptions {
+  /** Only return pages whose last_edited_time is on or after this time */
+  editedSince?: Date;
+  /** Filters to mark excluded pages by instead of the saved ones */
+  syncFilters?: SyncFilter[];
+  /** Only return pages whose date starts on or after this time */
+  startsAfter?: Date;
+  /** Only return pages whose date starts before this time */
+  startsBefore?: Date;
+}
 
+/**
+ * Stream events from the Notion database, following `next_cursor` until `has_more` is false.
+ * Pages are converted as they arrive, so callers can stop early without fetching the rest.
+ */
+export async function* iterateNotionEvents(
+  options: FetchNotionEventsOptions = {},
+): AsyncGenerator<Event> {
+  const client = await getClient();
+  const databaseId = await getDatabaseId();
+  const fieldMapping = await getFieldMapping();
+
+  const property = fieldMapping.date.notionPropertyName;
+  const hasDate = {
+    property,
+    date: {
+      is_not_empty: true as const,
+    },
+  };
+  const conditions = [
+    ...(options.editedSince
+      ? [
+          {
+            timestamp: "last_edited_time" as const,
+            last_edited_time: { on_or_after: options.editedSince.toISOString() },
+          },
+        ]
+      : []),
+    ...(options.startsAfter
+      ? [{ property, date: { on_or_after: options.startsAfter.toISOString() } }]
+      : []),
+    ...(options.startsBefore
+      ? [{ property, date: { before: options.startsBefore.toISOString() } }]
+      : []),
+  ];
+
+  let cursor: string | undefined;
+  do {
     const response: QueryDatabaseResponse = await client.databases.query({
       database_id: databaseId,
-      filter: {
-        property: fieldMapping.date.notionPropertyName,
-        date: {
-          is_not_empty: true,
-        },
-      },
+      filter: conditions.length > 0 ? { and: [hasDate, ...conditions] } : hasDate,
+      page_size: NOTION_PAGE_SIZE,
+      start_cursor: cursor,
     });
 
-    const events: Event[] = [];
     for (const result of response.results) {
       if (isPageObjectResponse(result)) {
-        const event = await notionPageToEvent(result);
+        const event = await notionPageToEvent(result, options.syncFilters);
         if (event) {
-          events.push(event);
+          yield event;
         }
       }
     }
 
+    cursor = response.has_more ? (response.next_cursor ?? undefined) : undefined;
+  } while (cursor);
+}
+
+// Fetch all events from Notion database (optionally only those edited since a given time)
+export async function fetchNotionEvents(options: FetchNotionEventsOptions = {}): Promise<Event[]> {
+  try {
+    const events: Event[] = [];
+    for await (const event of iterateNotionEvents(options)) {
+      events.push(event);
+    }
     return events;
   } catch (error) {
     console.error("Error fetching Notion events:", error);
@@ -277,8 +913,23 @@ export async function fetchNotionEvents(): Promise<Event[]> {
   }
 }
 
-// Create a new event in Notion
-export async function createNotionEvent(event: Event): Promise<string> {
+/**
+ * Separate the page body section from a description when page content sync is on
+ */
+async function splitPageContent(description: string | undefined) {
+  const { syncPageContent } = await getNotionConfig();
+  if (!syncPageContent || description === undefined) {
+    return { description, content: null, partial: false };
+  }
+  return splitDescription(description);
+}
+
+/**
+ * Create a new event in Notion
+ *
+ * @param timeZone - Time zone to write the event's times in (UTC when omitted)
+ */
+export async function createNotionEvent(event: Event, timeZone?: string): Promise<string> {
   try {
     const client = await getClient();
     const databaseId = await getDatabaseId();
@@ -288,67 +939,92 @@ export async function createNotionEvent(event: Event): Promise<string> {
     const properties: CreatePageParameters["properties"] = {};
 
     // Required fields - always include
-    setPropertyValue(properties, fieldMapping.title, event.title);
-    setPropertyValue(properties, fieldMapping.date, {
-      start: event.startTime,
-      end: event.endTime,
-    });
+    const title = toNotionText(fieldMapping.title, event.title);
+    setPropertyValue(properties, fieldMapping.title, title);
+    setPropertyValue(properties, fieldMapping.date, eventDateValue(event, timeZone));
 
     // Optional fields - only include if enabled and value exists
-    if (fieldMapping.description.enabled && event.description) {
-      setPropertyValue(properties, fieldMapping.description, event.description);
+    const { description, content, partial } = await splitPageContent(event.description);
+    if (fieldMapping.description.enabled && description) {
+      const text = toNotionText(fieldMapping.description, description);
+      setPropertyValue(properties, fieldMapping.description, descriptionValue(text));
     }
 
     if (fieldMapping.location.enabled && event.location) {
-      setPropertyValue(properties, fieldMapping.location, event.location);
+      const location = toNotionText(fieldMapping.location, event.location);
+      setPropertyValue(properties, fieldMapping.location, location);
     }
 
     if (fieldMapping.gcalEventId.enabled && event.gcalEventId) {
       setPropertyValue(properties, fieldMapping.gcalEventId, event.gcalEventId);
     }
 
-    if (fieldMapping.reminders.enabled && event.reminders !== undefined) {
-      setPropertyValue(properties, fieldMapping.reminders, event.reminders);
+    if (
+      fieldMapping.reminders.enabled &&
+      (event.reminders !== undefined || event.useDefaultReminders)
+    ) {
+      const reminders = remindersValue(fieldMapping.reminders, event);
+      setPropertyValue(properties, fieldMapping.reminders, reminders);
     }
 
-    // Status field (not part of field mapping)
-    if (event.status) {
-      properties.Status = {
-        select: {
-          name: event.status.charAt(0).toUpperCase() + event.status.slice(1),
-        },
-      };
+    if (fieldMapping.status.enabled && event.status) {
+      const value = await statusValue(fieldMapping.status, event.status);
+      setPropertyValue(properties, fieldMapping.status, value);
     }
 
     // New extended fields - only include if enabled and value exists
     if (fieldMapping.attendees.enabled && event.attendees?.length) {
-      setPropertyValue(properties, fieldMapping.attendees, event.attendees.join(", "));
+      const value = await attendeesValue(fieldMapping.attendees, event.attendees);
+      setPropertyValue(properties, fieldMapping.attendees, value);
     }
 
     if (fieldMapping.organizer.enabled && event.organizer) {
-      setPropertyValue(properties, fieldMapping.organizer, event.organizer);
+      const organizer = toNotionText(fieldMapping.organizer, event.organizer);
+      setPropertyValue(properties, fieldMapping.organizer, organizer);
     }
 
     if (fieldMapping.conferenceLink.enabled && event.conferenceLink) {
-      setPropertyValue(properties, fieldMapping.conferenceLink, event.conferenceLink);
+      const link = toNotionText(fieldMapping.conferenceLink, event.conferenceLink);
+      setPropertyValue(properties, fieldMapping.conferenceLink, link);
     }
 
     if (fieldMapping.recurrence.enabled && event.recurrence) {
       setPropertyValue(properties, fieldMapping.recurrence, event.recurrence);
     }
 
+    if (fieldMapping.rrule.enabled && event.rrule?.length) {
+      setPropertyValue(properties, fieldMapping.rrule, event.rrule.join("\n"));
+    }
+
     if (fieldMapping.color.enabled && event.color) {
-      setPropertyValue(properties, fieldMapping.color, event.color);
+      const color = toNotionText(fieldMapping.color, event.color);
+      setPropertyValue(properties, fieldMapping.color, color);
     }
 
     if (fieldMapping.visibility.enabled && event.visibility) {
-      setPropertyValue(properties, fieldMapping.visibility, event.visibility);
+      const visibility = toNotionText(fieldMapping.visibility, event.visibility);
+      setPropertyValue(properties, fieldMapping.visibility, visibility);
+    }
+
+    if (fieldMapping.calendar.enabled && event.calendar) {
+      setPropertyValue(properties, fieldMapping.calendar, event.calendar);
+    }
+
+    if (event.custom) {
+      setCustomValues(properties, await getCustomMappings(), event.custom);
     }
 
+    // The first batch of page body blocks is created with the page, the rest appended
+    const [children = [], ...moreChildren] =
+      content && !partial ? chunkBlocks(toNotionBlocks(parseContentHtml(content))) : [];
     const response = await client.pages.create({
       parent: { database_id: databaseId },
       properties,
+      ...(children.length > 0 && { children }),
     });
+    for (const batch of moreChildren) {
+      await client.blocks.children.append({ block_id: response.id, children: batch });
+    }
 
     return response.id;
   } catch (error) {
@@ -357,8 +1033,16 @@ export async function createNotionEvent(event: Event): Promise<string> {
   }
 }
 
-// Update an existing Notion event
-export async function updateNotionEvent(pageId: string, event: Partial<Event>): Promise<void> {
+/**
+ * Update an existing Notion event
+ *
+ * @param timeZone - Time zone to write the event's times in (UTC when omitted)
+ */
+export async function updateNotionEvent(
+  pageId: string,
+  event: Partial<Event>,
+  timeZone?: string,
+): Promise<void> {
   try {
     const client = await getClient();
     const fieldMapping = await getFieldMapping();
@@ -367,39 +1051,37 @@ export async function updateNotionEvent(pageId: string, event: Partial<Event>):
 
     // Required fields - always update if provided
     if (event.title !== undefined) {
-      setPropertyValue(properties, fieldMapping.title, event.title);
+      const title = toNotionText(fieldMapping.title, event.title);
+      setPropertyValue(properties, fieldMapping.title, title);
     }
 
-    if (event.startTime && event.endTime) {
-      setPropertyValue(properties, fieldMapping.date, {
-        start: event.startTime,
-        end: event.endTime,
-      });
-    } else if (event.startTime) {
-      setPropertyValue(properties, fieldMapping.date, {
-        start: event.startTime,
-      });
+    if (event.startTime) {
+      setPropertyValue(properties, fieldMapping.date, eventDateValue(event, timeZone));
     }
 
     // Optional fields - only update if enabled
-    if (fieldMapping.description.enabled && event.description !== undefined) {
-      setPropertyValue(properties, fieldMapping.description, event.description);
+    const { description, content, partial } = await splitPageContent(event.description);
+    if (fieldMapping.description.enabled && description !== undefined) {
+      const text = toNotionText(fieldMapping.description, description);
+      setPropertyValue(properties, fieldMapping.description, descriptionValue(text));
     }
 
     if (fieldMapping.location.enabled && event.location !== undefined) {
-      setPropertyValue(properties, fieldMapping.location, event.location);
+      const location = toNotionText(fieldMapping.location, event.location);
+      setPropertyValue(properties, fieldMapping.location, location);
     }
 
-    if (event.status) {
-      properties.Status = {
-        select: {
-          name: event.status.charAt(0).toUpperCase() + event.status.slice(1),
-        },
-      };
+    if (event.status && fieldMapping.status.enabled) {
+      const value = await statusValue(fieldMapping.status, event.status);
+      setPropertyValue(properties, fieldMapping.status, value);
     }
 
-    if (fieldMapping.reminders.enabled && event.reminders !== undefined) {
-      setPropertyValue(properties, fieldMapping.reminders, event.reminders);
+    if (
+      fieldMapping.reminders.enabled &&
+      (event.reminders !== undefined || event.useDefaultReminders)
+    ) {
+      const reminders = remindersValue(fieldMapping.reminders, event);
+      setPropertyValue(properties, fieldMapping.reminders, reminders);
     }
 
     if (fieldMapping.gcalEventId.enabled && event.gcalEventId !== undefined) {
@@ -408,33 +1090,58 @@ export async function updateNotionEvent(pageId: string, event: Partial<Event>):
 
     // Extended fields - only update if enabled in field mapping
     if (event.attendees !== undefined && fieldMapping.attendees.enabled) {
-      setPropertyValue(properties, fieldMapping.attendees, event.attendees.join(", "));
+      const value = await attendeesValue(fieldMapping.attendees, event.attendees);
+      setPropertyValue(properties, fieldMapping.attendees, value);
     }
 
     if (event.organizer !== undefined && fieldMapping.organizer.enabled) {
-      setPropertyValue(properties, fieldMapping.organizer, event.organizer);
+      const organizer = toNotionText(fieldMapping.organizer, event.organizer);
+      setPropertyValue(properties, fieldMapping.organizer, organizer);
     }
 
     if (event.conferenceLink !== undefined && fieldMapping.conferenceLink.enabled) {
-      setPropertyValue(properties, fieldMapping.conferenceLink, event.conferenceLink);
+      const link = toNotionText(fieldMapping.conferenceLink, event.conferenceLink);
+      setPropertyValue(properties, fieldMapping.conferenceLink, link);
     }
 
-    if (event.recurrence !== undefined && fieldMapping.recurrence.enabled) {
-      setPropertyValue(properties, fieldMapping.recurrence, event.recurrence);
+    // A new rule without its readable text (e.g. from a merge) still updates the text
+    const recurrence =
+      event.recurrence ?? (event.rrule && (describeRecurrence(event.rrule) || ""));
+    if (recurrence !== undefined && fieldMapping.recurrence.enabled) {
+      setPropertyValue(properties, fieldMapping.recurrence, recurrence);
+    }
+
+    if (event.rrule !== undefined && fieldMapping.rrule.enabled) {
+      setPropertyValue(properties, fieldMapping.rrule, event.rrule.join("\n"));
     }
 
     if (event.color !== undefined && fieldMapping.color.enabled) {
-      setPropertyValue(properties, fieldMapping.color, event.color);
+      const color = toNotionText(fieldMapping.color, event.color);
+      setPropertyValue(properties, fieldMapping.color, color);
     }
 
     if (event.visibility !== undefined && fieldMapping.visibility.enabled) {
-      setPropertyValue(properties, fieldMapping.visibility, event.visibility);
+      const visibility = toNotionText(fieldMapping.visibility, event.visibility);
+      setPropertyValue(properties, fieldMapping.visibility, visibility);
+    }
+
+    if (event.calendar !== undefined && fieldMapping.calendar.enabled) {
+      setPropertyValue(properties, fieldMapping.calendar, event.calendar);
+    }
+
+    if (event.custom) {
+      setCustomValues(properties, await getCustomMappings(), event.custom);
     }
 
     await client.pages.update({
       page_id: pageId,
       properties,
     });
+
+    // Excerpts are never copied back, since they do not hold the whole page
+    if (content !== null && !partial) {
+      await replacePageContent(pageId, content);
+    }
   } catch (error) {
     console.error("Error updating Notion event:", error);
     throw error;
@@ -487,6 +1194,21 @@ export async function getNotionEvent(pageId: string): Promise<Event | null> {
   }
 }
 
+// Check whether a page still exists, neither deleted nor in the trash
+export async function notionPageExists(pageId: string): Promise<boolean> {
+  const client = await getClient();
+  try {
+    const page = await client.pages.retrieve({ page_id: pageId });
+    return !isPageObjectResponse(page) || !(page.archived || page.in_trash);
+  } catch (error: unknown) {
+    const code = error && typeof error === "object" && "code" in error ? error.code : undefined;
+    if (code === "object_not_found") {
+      return false;
+    }
+    throw error;
+  }
+}
+
 // ============================================================
 // Webhook Management (Notion API v1)
 // ============================================================
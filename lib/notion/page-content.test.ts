@@ -0,0 +1,155 @@
+import type { BlockObjectResponse } from "@notionhq/client/build/src/api-endpoints";
+import { describe, expect, test } from "vitest";
+import {
+  type ContentBlock,
+  PAGE_CONTENT_END,
+  PAGE_CONTENT_START,
+  PAGE_CONTENT_START_PARTIAL,
+  composeDescription,
+  parseContentHtml,
+  renderContentHtml,
+  renderPageContent,
+  splitDescription,
+  toNotionBlocks,
+} from "./page-content";
+
+function text(plainText: string, annotations: { bold?: boolean } = {}, href: string | null = null) {
+  return {
+    type: "text",
+    plain_text: plainText,
+    href,
+    annotations: { bold: false, italic: false, underline: false, ...annotations },
+  };
+}
+
+function block(type: string, richText: unknown[], extra: Record<string, unknown> = {}) {
+  return {
+    object: "block",
+    id: `${type}-${richText.length}`,
+    type,
+    has_children: false,
+    [type]: { rich_text: richText, ...extra },
+  } as unknown as BlockObjectResponse;
+}
+
+const pageBlocks = [
+  block("heading_2", [text("Agenda")]),
+  block("paragraph", [text("See "), text("the doc", {}, "https://example.com/doc?a=1&b=2")]),
+  block("bulleted_list_item", [text("Budget", { bold: true })]),
+  block("bulleted_list_item", [text("Hiring")]),
+  block("to_do", [text("Book room")], { checked: true }),
+];
+
+describe("page content", () => {
+  test("renders text blocks, lists, to-dos and links as HTML", () => {
+    expect(renderPageContent(pageBlocks)).toEqual({
+      html:
+        "<b>Agenda</b><br>See " +
+        '<a href="https://example.com/doc?a=1&amp;b=2">the doc</a>' +
+        "<ul><li><b>Budget</b></li><li>Hiring</li></ul>☑ Book room",
+      complete: true,
+    });
+  });
+
+  test("parses what it renders back to the same HTML", () => {
+    const { html } = renderPageContent(pageBlocks);
+    expect(renderContentHtml(parseContentHtml(html)).html).toBe(html);
+  });
+
+  test("parses the HTML Google Calendar's editor produces", () => {
+    const blocks = parseContentHtml(
+      'Notes<br><strong>Bold</strong> &amp; <a href="https://x.test">link</a><br>' +
+        "<ol>\n<li>One</li>\n<li>Two</li>\n</ol>☐ Call back",
+    );
+
+    expect(blocks).toEqual<ContentBlock[]>([
+      { type: "paragraph", runs: [{ text: "Notes" }] },
+      {
+        type: "paragraph",
+        runs: [
+          { text: "Bold", bold: true },
+          { text: " & " },
+          { text: "link", link: "https://x.test" },
+        ],
+      },
+      { type: "numbered_list_item", runs: [{ text: "One" }] },
+      { type: "numbered_list_item", runs: [{ text: "Two" }] },
+      { type: "to_do", runs: [{ text: "Call back" }], checked: false },
+    ]);
+  });
+
+  test("treats plain-text lines as paragraphs", () => {
+    expect(parseContentHtml("First\nSecond\n\n")).toEqual([
+      { type: "paragraph", runs: [{ text: "First" }] },
+      { type: "paragraph", runs: [{ text: "Second" }] },
+    ]);
+  });
+
+  test("marks pages as partial when they are too long or hold other blocks", () => {
+    const long = Array.from({ length: 5 }, (_, i) => block("paragraph", [text(`Line ${i}`)]));
+    expect(renderPageContent(long, 20)).toEqual({ html: "Line 0<br>Line 1", complete: false });
+
+    const withImage = [...pageBlocks, { ...block("image", []) }];
+    expect(renderPageContent(withImage).complete).toBe(false);
+  });
+
+  test("builds Notion blocks with links and to-do state", () => {
+    const [paragraph, todo] = toNotionBlocks([
+      { type: "paragraph", runs: [{ text: "Docs", link: "https://x.test", bold: true }] },
+      { type: "to_do", runs: [{ text: "Call" }], checked: true },
+    ]);
+
+    expect(paragraph).toEqual({
+      object: "block",
+      type: "paragraph",
+      paragraph: {
+        rich_text: [
+          {
+            type: "text",
+            text: { content: "Docs", link: { url: "https://x.test" } },
+            annotations: { bold: true, italic: false, underline: false },
+          },
+        ],
+      },
+    });
+    expect(todo).toMatchObject({ type: "to_do", to_do: { checked: true } });
+  });
+});
+
+describe("description sections", () => {
+  test("appends the page body between markers", () => {
+    expect(composeDescription("Weekly sync", { html: "Notes", complete: true })).toBe(
+      `Weekly sync\n\n${PAGE_CONTENT_START}\nNotes\n${PAGE_CONTENT_END}`,
+    );
+    expect(composeDescription("Weekly sync", { html: "", complete: true })).toBe("Weekly sync");
+  });
+
+  test("splits the description back into property text and page body", () => {
+    const description = composeDescription("Weekly sync", { html: "Notes", complete: true });
+
+    expect(splitDescription(description || "")).toEqual({
+      description: "Weekly sync",
+      content: "Notes",
+      partial: false,
+    });
+  });
+
+  test("tolerates the line breaks the calendar editor adds around markers", () => {
+    const edited =
+      `Weekly sync<br><br>${PAGE_CONTENT_START_PARTIAL}<br>Notes<br>${PAGE_CONTENT_END}`;
+
+    expect(splitDescription(edited)).toEqual({
+      description: "Weekly sync",
+      content: "Notes",
+      partial: true,
+    });
+  });
+
+  test("leaves descriptions without a section untouched", () => {
+    expect(splitDescription("Just text")).toEqual({
+      description: "Just text",
+      content: null,
+      partial: false,
+    });
+  });
+});
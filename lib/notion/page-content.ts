@@ -0,0 +1,359 @@
+/**
+ * Conversion between a Notion page's body and a section of the Google Calendar description.
+ *
+ * With page content sync on, an event's description is the Description property followed by
+ * the page's blocks rendered as HTML between marker lines. Only the text between the markers
+ * is turned back into blocks; everything else stays in the Description property. Pages that
+ * are too long or use blocks without a text form are written as a partial section, which is
+ * never copied back so Google Calendar edits cannot delete what it does not show.
+ */
+import type {
+  BlockObjectRequest,
+  BlockObjectResponse,
+  RichTextItemResponse,
+} from "@notionhq/client/build/src/api-endpoints";
+import {
+  HTML_TAG_REGEX,
+  InlineFormat,
+  type TextRun,
+  decodeEntities,
+  pushRun,
+  runsToHtml,
+  toRichText,
+} from "./rich-text";
+
+export const PAGE_CONTENT_START = "--- Notion page ---";
+export const PAGE_CONTENT_START_PARTIAL = "--- Notion page (excerpt, edit in Notion) ---";
+export const PAGE_CONTENT_END = "--- End of Notion page ---";
+
+// Google Calendar descriptions hold up to 8192 characters; leave room for the property text
+export const MAX_PAGE_CONTENT_LENGTH = 4000;
+
+// Notion accepts at most 100 blocks per append request
+const BLOCK_BATCH_SIZE = 100;
+
+const CONTENT_BLOCK_TYPES = [
+  "paragraph",
+  "heading_1",
+  "heading_2",
+  "heading_3",
+  "bulleted_list_item",
+  "numbered_list_item",
+  "to_do",
+] as const;
+
+export type ContentBlockType = (typeof CONTENT_BLOCK_TYPES)[number];
+
+export interface ContentBlock {
+  type: ContentBlockType;
+  runs: TextRun[];
+  checked?: boolean; // to_do only
+}
+
+export interface RenderedContent {
+  html: string;
+  /** False when blocks were left out for length or lack of a text form */
+  complete: boolean;
+}
+
+const TODO_UNCHECKED = "☐ ";
+const TODO_CHECKED = "☑ ";
+
+function isContentBlockType(type: string): type is ContentBlockType {
+  return (CONTENT_BLOCK_TYPES as readonly string[]).includes(type);
+}
+
+// ============================================================
+// Notion blocks
+// ============================================================
+
+/**
+ * Read the text blocks of a page. Soft line breaks start a new block, matching what
+ * comes back from the HTML form.
+ */
+export function fromNotionBlocks(blocks: BlockObjectResponse[]): {
+  blocks: ContentBlock[];
+  complete: boolean;
+} {
+  const result: ContentBlock[] = [];
+  let complete = true;
+
+  for (const block of blocks) {
+    if (!isContentBlockType(block.type) || block.has_children) {
+      complete = false;
+      continue;
+    }
+
+    const data = (block as Record<string, unknown>)[block.type] as {
+      rich_text: RichTextItemResponse[];
+      checked?: boolean;
+    };
+    let runs: TextRun[] = [];
+    const lines: TextRun[][] = [runs];
+    for (const item of data.rich_text) {
+      const format = {
+        bold: item.annotations.bold || undefined,
+        italic: item.annotations.italic || undefined,
+        underline: item.annotations.underline || undefined,
+        link: item.href || undefined,
+      };
+      item.plain_text.split("\n").forEach((text, index) => {
+        if (index > 0) {
+          runs = [];
+          lines.push(runs);
+        }
+        pushRun(runs, { text, ...format });
+      });
+    }
+
+    for (const lineRuns of lines) {
+      result.push({
+        type: block.type,
+        runs: lineRuns,
+        ...(block.type === "to_do" && { checked: !!data.checked }),
+      });
+    }
+  }
+
+  return { blocks: result, complete };
+}
+
+/**
+ * Build the blocks to append to a page
+ */
+export function toNotionBlocks(blocks: ContentBlock[]): BlockObjectRequest[] {
+  return blocks.map((block) => {
+    const richText = toRichText(block.runs);
+    const content =
+      block.type === "to_do"
+        ? { rich_text: richText, checked: !!block.checked }
+        : { rich_text: richText };
+    // The SDK types each block type separately; the shape is the same for all of these
+    return { object: "block", type: block.type, [block.type]: content } as BlockObjectRequest;
+  });
+}
+
+/**
+ * Split an array of blocks into the batches Notion accepts per append request
+ */
+export function chunkBlocks<T>(blocks: T[]): T[][] {
+  const batches: T[][] = [];
+  for (let i = 0; i < blocks.length; i += BLOCK_BATCH_SIZE) {
+    batches.push(blocks.slice(i, i + BLOCK_BATCH_SIZE));
+  }
+  return batches;
+}
+
+// ============================================================
+// HTML
+// ============================================================
+
+function renderBlocks(blocks: ContentBlock[]): string {
+  let html = "";
+  let openList: "ul" | "ol" | null = null;
+  let previousIsLine = false;
+
+  for (const block of blocks) {
+    const listTag =
+      block.type === "bulleted_list_item"
+        ? "ul"
+        : block.type === "numbered_list_item"
+          ? "ol"
+          : null;
+
+    // Empty blocks have no stable HTML form, so they are left out
+    if (block.runs.length === 0) {
+      continue;
+    }
+
+    if (openList && openList !== listTag) {
+      html += `</${openList}>`;
+      openList = null;
+    }
+
+    if (listTag) {
+      if (!openList) {
+        html += `<${listTag}>`;
+        openList = listTag;
+      }
+      html += `<li>${runsToHtml(block.runs)}</li>`;
+      previousIsLine = false;
+      continue;
+    }
+
+    let line = runsToHtml(block.runs);
+    if (block.type === "to_do") {
+      line = `${block.checked ? TODO_CHECKED : TODO_UNCHECKED}${line}`;
+    } else if (block.type.startsWith("heading_")) {
+      line = `<b>${line}</b>`;
+    }
+    html += previousIsLine ? `<br>${line}` : line;
+    previousIsLine = true;
+  }
+
+  if (openList) {
+    html += `</${openList}>`;
+  }
+  return html;
+}
+
+/**
+ * Render blocks as HTML for the description, stopping before the length limit
+ */
+export function renderContentHtml(
+  blocks: ContentBlock[],
+  limit = MAX_PAGE_CONTENT_LENGTH,
+): RenderedContent {
+  const html = renderBlocks(blocks);
+  if (html.length <= limit) {
+    return { html, complete: true };
+  }
+
+  let count = blocks.length - 1;
+  while (count > 0 && renderBlocks(blocks.slice(0, count)).length > limit) {
+    count--;
+  }
+  return { html: renderBlocks(blocks.slice(0, count)), complete: false };
+}
+
+/**
+ * Render a page's blocks for the description
+ */
+export function renderPageContent(
+  blocks: BlockObjectResponse[],
+  limit = MAX_PAGE_CONTENT_LENGTH,
+): RenderedContent {
+  const content = fromNotionBlocks(blocks);
+  const rendered = renderContentHtml(content.blocks, limit);
+  return { html: rendered.html, complete: rendered.complete && content.complete };
+}
+
+/**
+ * Parse description HTML (or plain text) back into blocks.
+ * Understands the tags Google Calendar's editor produces: line breaks, paragraphs, lists,
+ * bold, italic, underline and links. Other tags are dropped and their text kept.
+ */
+export function parseContentHtml(html: string): ContentBlock[] {
+  const blocks: ContentBlock[] = [];
+  const format = new InlineFormat();
+  let listType: "bulleted_list_item" | "numbered_list_item" | null = null;
+  let lineType: ContentBlockType = "paragraph";
+  let runs: TextRun[] = [];
+
+  const endLine = () => {
+    // Whitespace between tags is layout, not content
+    if (runs.every((run) => !run.text.trim())) {
+      runs = [];
+    }
+    const first = runs[0];
+    if (first && lineType === "paragraph") {
+      for (const [prefix, checked] of [
+        [TODO_UNCHECKED, false],
+        [TODO_CHECKED, true],
+      ] as const) {
+        if (first.text.startsWith(prefix)) {
+          first.text = first.text.slice(prefix.length);
+          if (!first.text) runs.shift();
+          blocks.push({ type: "to_do", runs, checked });
+          runs = [];
+          return;
+        }
+      }
+    }
+    if (runs.length > 0) {
+      blocks.push({ type: lineType, runs });
+    }
+    runs = [];
+    lineType = listType ? lineType : "paragraph";
+  };
+
+  const addText = (text: string) => {
+    decodeEntities(text)
+      .split("\n")
+      .forEach((line, index) => {
+        if (index > 0) endLine();
+        pushRun(runs, format.run(line));
+      });
+  };
+
+  let lastIndex = 0;
+  for (const match of html.matchAll(HTML_TAG_REGEX)) {
+    addText(html.slice(lastIndex, match.index));
+    lastIndex = match.index + match[0].length;
+
+    const closing = match[1] === "/";
+    const tag = match[2].toLowerCase();
+    if (format.apply(tag, closing, match[3])) {
+      continue;
+    }
+    switch (tag) {
+      case "br":
+      case "p":
+      case "div":
+        endLine();
+        break;
+      case "ul":
+      case "ol":
+        endLine();
+        listType = closing ? null : tag === "ul" ? "bulleted_list_item" : "numbered_list_item";
+        lineType = "paragraph";
+        break;
+      case "li":
+        endLine();
+        lineType = closing ? "paragraph" : (listType ?? "bulleted_list_item");
+        break;
+    }
+  }
+  addText(html.slice(lastIndex));
+  endLine();
+  return blocks;
+}
+
+// ============================================================
+// Description
+// ============================================================
+
+/**
+ * Append the rendered page body to the description property text
+ */
+export function composeDescription(
+  description: string | undefined,
+  content: RenderedContent,
+): string | undefined {
+  if (!content.html) {
+    return description;
+  }
+  const start = content.complete ? PAGE_CONTENT_START : PAGE_CONTENT_START_PARTIAL;
+  const section = `${start}\n${content.html}\n${PAGE_CONTENT_END}`;
+  return description ? `${description}\n\n${section}` : section;
+}
+
+// Whitespace and line breaks the calendar editor leaves around the markers
+function trimBreaks(text: string): string {
+  return text.replace(/^(?:\s|<br\s*\/?>)+|(?:\s|<br\s*\/?>)+$/gi, "");
+}
+
+/**
+ * Split a description into the property text and the page body section.
+ *
+ * @returns content is null when the description has no page section
+ */
+export function splitDescription(text: string): {
+  description: string;
+  content: string | null;
+  partial: boolean;
+} {
+  const partial = text.includes(PAGE_CONTENT_START_PARTIAL);
+  const startMarker = partial ? PAGE_CONTENT_START_PARTIAL : PAGE_CONTENT_START;
+  const start = text.indexOf(startMarker);
+  const end = start === -1 ? -1 : text.indexOf(PAGE_CONTENT_END, start);
+  if (end === -1) {
+    return { description: text, content: null, partial: false };
+  }
+
+  return {
+    description: trimBreaks(text.slice(0, start) + text.slice(end + PAGE_CONTENT_END.length)),
+    content: trimBreaks(text.slice(start + startMarker.length, end)),
+    partial,
+  };
+}
@@ -0,0 +1,79 @@
+import type { RichTextItemResponse } from "@notionhq/client/build/src/api-endpoints";
+import { describe, expect, test } from "vitest";
+import {
+  type TextRun,
+  fromRichText,
+  htmlToRuns,
+  isHtml,
+  runsToHtml,
+  textToRichText,
+  toRichText,
+} from "./rich-text";
+
+function item(plainText: string, annotations: { italic?: boolean } = {}) {
+  return {
+    type: "text",
+    plain_text: plainText,
+    href: null,
+    annotations: { bold: false, italic: false, underline: false, ...annotations },
+  } as unknown as RichTextItemResponse;
+}
+
+describe("rich text", () => {
+  test("reads every item and joins runs with the same format", () => {
+    expect(fromRichText([item("Call "), item("Ana"), item(" now", { italic: true })])).toEqual([
+      { text: "Call Ana" },
+      { text: " now", italic: true },
+    ]);
+  });
+
+  test("splits long text into 2000-character runs", () => {
+    const runs = textToRichText("x".repeat(2001));
+    expect(runs.map((run) => run.text.content.length)).toEqual([2000, 1]);
+    expect(textToRichText("")).toEqual([{ text: { content: "" } }]);
+  });
+
+  test("keeps the link and format on every chunk of a long run", () => {
+    const runs = toRichText([{ text: "y".repeat(2500), link: "https://x.test" }]);
+
+    expect(runs).toHaveLength(2);
+    for (const run of runs) {
+      expect(run.text.link).toEqual({ url: "https://x.test" });
+    }
+  });
+
+  test("does not split surrogate pairs", () => {
+    const runs = textToRichText(`${"x".repeat(1999)}😀`);
+    expect(runs.map((run) => run.text.content)).toEqual(["x".repeat(1999), "😀"]);
+  });
+});
+
+describe("rich text HTML", () => {
+  const runs: TextRun[] = [
+    { text: "Agenda", bold: true },
+    { text: "\nSee " },
+    { text: "the doc", link: "https://example.com/?a=1&b=2" },
+  ];
+
+  test("renders links, formatting and line breaks", () => {
+    expect(runsToHtml(runs)).toBe(
+      '<b>Agenda</b><br>See <a href="https://example.com/?a=1&amp;b=2">the doc</a>',
+    );
+  });
+
+  test("parses what it renders back to the same runs", () => {
+    expect(htmlToRuns(runsToHtml(runs))).toEqual(runs);
+  });
+
+  test("treats paragraphs from the calendar editor as lines", () => {
+    expect(htmlToRuns("<p>One &amp; two</p><p><em>Three</em></p>")).toEqual([
+      { text: "One & two\n" },
+      { text: "Three", italic: true },
+    ]);
+  });
+
+  test("recognises HTML descriptions", () => {
+    expect(isHtml('Notes <a href="https://x.test">here</a>')).toBe(true);
+    expect(isHtml("1 < 2 and 3 > 2")).toBe(false);
+  });
+});
@@ -0,0 +1,255 @@
+/**
+ * Notion rich text helpers.
+ *
+ * Text is modelled as runs with bold/italic/underline and a link, which map both to Notion's
+ * rich text annotations and to the few HTML tags Google Calendar descriptions support.
+ * Notion limits each text run to 2000 characters, so longer text is split across runs.
+ */
+import type { RichTextItemResponse } from "@notionhq/client/build/src/api-endpoints";
+
+// Maximum content length of a single Notion rich text run
+export const MAX_RICH_TEXT_LENGTH = 2000;
+
+export interface TextRun {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  link?: string;
+}
+
+/** Text item as accepted by the Notion API (the SDK does not export its request type) */
+export interface RichTextRequest {
+  type?: "text";
+  text: { content: string; link?: { url: string } | null };
+  annotations?: { bold?: boolean; italic?: boolean; underline?: boolean };
+}
+
+// Tags that mark a description as HTML rather than plain text
+const HTML_TAG_PATTERN = /<\/?(?:a|b|strong|i|em|u|br|p|div|span|ul|ol|li)\b[^>]*>/i;
+
+function sameFormat(a: TextRun, b: TextRun): boolean {
+  return (
+    !!a.bold === !!b.bold &&
+    !!a.italic === !!b.italic &&
+    !!a.underline === !!b.underline &&
+    a.link === b.link
+  );
+}
+
+/**
+ * Append a run, joining it with the previous one when the formatting matches
+ */
+export function pushRun(runs: TextRun[], run: TextRun): void {
+  if (!run.text) {
+    return;
+  }
+  const last = runs[runs.length - 1];
+  if (last && sameFormat(last, run)) {
+    last.text += run.text;
+  } else {
+    runs.push({ ...run });
+  }
+}
+
+/**
+ * Check whether any run carries formatting or a link
+ */
+export function hasFormatting(runs: TextRun[]): boolean {
+  return runs.some((run) => run.bold || run.italic || run.underline || run.link);
+}
+
+export function plainText(runs: TextRun[]): string {
+  return runs.map((run) => run.text).join("");
+}
+
+// ============================================================
+// Notion
+// ============================================================
+
+/**
+ * Read every item of a rich text value, not just the first
+ */
+export function fromRichText(items: RichTextItemResponse[]): TextRun[] {
+  const runs: TextRun[] = [];
+  for (const item of items) {
+    pushRun(runs, {
+      text: item.plain_text,
+      bold: item.annotations.bold || undefined,
+      italic: item.annotations.italic || undefined,
+      underline: item.annotations.underline || undefined,
+      link: item.href || undefined,
+    });
+  }
+  return runs;
+}
+
+/**
+ * Split text into pieces Notion accepts as single runs, keeping surrogate pairs together
+ */
+function chunkText(text: string): string[] {
+  const chunks: string[] = [];
+  let start = 0;
+  while (start < text.length) {
+    let end = Math.min(start + MAX_RICH_TEXT_LENGTH, text.length);
+    const lastCode = text.charCodeAt(end - 1);
+    if (end < text.length && lastCode >= 0xd800 && lastCode <= 0xdbff) {
+      end--;
+    }
+    chunks.push(text.slice(start, end));
+    start = end;
+  }
+  return chunks;
+}
+
+/**
+ * Build a rich text value from plain text, split into 2000-character runs
+ */
+export function textToRichText(text: string): RichTextRequest[] {
+  const chunks = chunkText(text);
+  return (chunks.length > 0 ? chunks : [""]).map((content) => ({ text: { content } }));
+}
+
+/**
+ * Build a rich text value from formatted runs, split into 2000-character runs
+ */
+export function toRichText(runs: TextRun[]): RichTextRequest[] {
+  return runs.flatMap((run) =>
+    chunkText(run.text).map((content) => ({
+      type: "text" as const,
+      text: { content, link: run.link ? { url: run.link } : null },
+      annotations: { bold: !!run.bold, italic: !!run.italic, underline: !!run.underline },
+    })),
+  );
+}
+
+// ============================================================
+// HTML
+// ============================================================
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+export function decodeEntities(text: string): string {
+  return text
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&amp;/g, "&");
+}
+
+/**
+ * Check whether a description is HTML, as written by Google Calendar's editor
+ */
+export function isHtml(text: string): boolean {
+  return HTML_TAG_PATTERN.test(text);
+}
+
+/**
+ * Render runs as inline HTML, with line breaks as <br>
+ */
+export function runsToHtml(runs: TextRun[]): string {
+  return runs
+    .map((run) => {
+      let html = escapeHtml(run.text).replace(/\n/g, "<br>");
+      if (run.underline) html = `<u>${html}</u>`;
+      if (run.italic) html = `<i>${html}</i>`;
+      if (run.bold) html = `<b>${html}</b>`;
+      if (run.link) html = `<a href="${escapeHtml(run.link)}">${html}</a>`;
+      return html;
+    })
+    .join("");
+}
+
+/**
+ * Tracks inline formatting while walking HTML tags
+ */
+export class InlineFormat {
+  private bold = 0;
+  private italic = 0;
+  private underline = 0;
+  private links: string[] = [];
+
+  /**
+   * Apply an inline tag
+   *
+   * @returns false when the tag is not an inline formatting tag
+   */
+  apply(tag: string, closing: boolean, attributes: string): boolean {
+    const step = closing ? -1 : 1;
+    switch (tag) {
+      case "b":
+      case "strong":
+        this.bold = Math.max(0, this.bold + step);
+        return true;
+      case "i":
+      case "em":
+        this.italic = Math.max(0, this.italic + step);
+        return true;
+      case "u":
+        this.underline = Math.max(0, this.underline + step);
+        return true;
+      case "a":
+        if (closing) {
+          this.links.pop();
+        } else {
+          const href = /href\s*=\s*(?:"([^"]*)"|'([^']*)')/i.exec(attributes);
+          this.links.push(decodeEntities(href?.[1] ?? href?.[2] ?? ""));
+        }
+        return true;
+      default:
+        return false;
+    }
+  }
+
+  run(text: string): TextRun {
+    return {
+      text,
+      bold: this.bold > 0 || undefined,
+      italic: this.italic > 0 || undefined,
+      underline: this.underline > 0 || undefined,
+      link: this.links[this.links.length - 1] || undefined,
+    };
+  }
+}
+
+export const HTML_TAG_REGEX = /<(\/?)([a-z0-9]+)([^>]*)>/gi;
+
+/**
+ * Parse inline HTML into runs. Line breaks and block tags become newlines.
+ */
+export function htmlToRuns(html: string): TextRun[] {
+  const runs: TextRun[] = [];
+  const format = new InlineFormat();
+  let lastIndex = 0;
+
+  for (const match of html.matchAll(HTML_TAG_REGEX)) {
+    pushRun(runs, format.run(decodeEntities(html.slice(lastIndex, match.index))));
+    lastIndex = match.index + match[0].length;
+
+    const tag = match[2].toLowerCase();
+    if (!format.apply(tag, match[1] === "/", match[3])) {
+      const lineBreak = tag === "br" || (match[1] === "/" && ["p", "div", "li"].includes(tag));
+      if (lineBreak) {
+        pushRun(runs, { text: "\n" });
+      }
+    }
+  }
+  pushRun(runs, format.run(decodeEntities(html.slice(lastIndex))));
+
+  // Block tags close with a break of their own at the very end
+  const last = runs[runs.length - 1];
+  if (last && !hasFormatting([last]) && last.text.endsWith("\n")) {
+    last.text = last.text.replace(/\n+$/, "");
+    if (!last.text) runs.pop();
+  }
+  return runs;
+}
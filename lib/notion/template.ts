@@ -32,6 +32,7 @@ export const TEMPLATE_PROPERTIES = {
   organizer: "Organizer",
   conferenceLink: "Conference Link",
   recurrence: "Recurrence",
+  rrule: "RRULE",
   color: "Color",
   visibility: "Visibility",
 } as const;
@@ -51,6 +52,7 @@ export const TEMPLATE_PROPERTY_TYPES: Record<string, string> = {
   [TEMPLATE_PROPERTIES.organizer]: "rich_text",
   [TEMPLATE_PROPERTIES.conferenceLink]: "url",
   [TEMPLATE_PROPERTIES.recurrence]: "rich_text",
+  [TEMPLATE_PROPERTIES.rrule]: "rich_text",
   [TEMPLATE_PROPERTIES.color]: "select",
   [TEMPLATE_PROPERTIES.visibility]: "select",
 };
@@ -199,6 +201,13 @@ export function generateTemplateFieldMapping() {
       propertyType: "rich_text" as const,
       required: false,
     },
+    rrule: {
+      enabled: false,
+      notionPropertyName: TEMPLATE_PROPERTIES.rrule,
+      displayLabel: "Recurrence Rule",
+      propertyType: "rich_text" as const,
+      required: false,
+    },
     color: {
       enabled: false,
       notionPropertyName: TEMPLATE_PROPERTIES.color,
@@ -213,5 +222,12 @@ export function generateTemplateFieldMapping() {
       propertyType: "select" as const,
       required: false,
     },
+    status: {
+      enabled: true,
+      notionPropertyName: TEMPLATE_PROPERTIES.status,
+      displayLabel: "Status",
+      propertyType: "select" as const,
+      required: false,
+    },
   };
 }
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { validateCustomMappings } from "./custom-mappings";
+import { type CustomFieldMapping, DEFAULT_EXTENDED_FIELD_MAPPING } from "./types";
+
+const properties = [
+  { name: "Title", type: "title" },
+  { name: "Location", type: "rich_text" },
+  { name: "Link", type: "url" },
+  { name: "Busy", type: "checkbox" },
+];
+
+function rule(changes: Partial<CustomFieldMapping> = {}): CustomFieldMapping {
+  return {
+    id: "rule-1",
+    enabled: true,
+    gcalPath: "htmlLink",
+    notionPropertyName: "Link",
+    propertyType: "url",
+    ...changes,
+  };
+}
+
+describe("validateCustomMappings", () => {
+  it("accepts rules mapped to existing properties of their type", () => {
+    expect(validateCustomMappings([rule()], properties, DEFAULT_EXTENDED_FIELD_MAPPING)).toBeNull();
+  });
+
+  it("rejects missing properties and type mismatches", () => {
+    const missing = rule({ notionPropertyName: "Project" });
+    const mismatch = rule({ notionPropertyName: "Busy" });
+
+    expect(validateCustomMappings([missing], properties, DEFAULT_EXTENDED_FIELD_MAPPING)).toBe(
+      'Notion property "Project" does not exist',
+    );
+    expect(validateCustomMappings([mismatch], properties, DEFAULT_EXTENDED_FIELD_MAPPING)).toBe(
+      'Notion property "Busy" is a checkbox property, not url',
+    );
+  });
+
+  it("rejects properties used by built-in fields or other rules", () => {
+    const builtIn = rule({ notionPropertyName: "Location", propertyType: "rich_text" });
+    const twice = [rule(), rule({ id: "rule-2", gcalPath: "hangoutLink" })];
+
+    expect(validateCustomMappings([builtIn], properties, DEFAULT_EXTENDED_FIELD_MAPPING)).toMatch(
+      /"Location" is used by: Location/,
+    );
+    expect(validateCustomMappings(twice, properties, DEFAULT_EXTENDED_FIELD_MAPPING)).toMatch(
+      /"Link" is used by: htmlLink/,
+    );
+  });
+
+  it("ignores disabled rules", () => {
+    const disabled = rule({ enabled: false, gcalPath: "nope" });
+    expect(validateCustomMappings([disabled], [], DEFAULT_EXTENDED_FIELD_MAPPING)).toBeNull();
+  });
+});
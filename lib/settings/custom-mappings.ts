@@ -0,0 +1,62 @@
+/**
+ * Validation of custom field mappings against the Notion database schema.
+ */
+
+import { validateGcalPath } from "@/lib/google-calendar/json-path";
+import type { CustomFieldMapping, CustomPropertyType, ExtendedFieldMapping } from "./types";
+
+/**
+ * Notion property types custom mappings can write, in the order offered in the editor
+ */
+export const CUSTOM_PROPERTY_TYPES: CustomPropertyType[] = [
+  "rich_text",
+  "number",
+  "checkbox",
+  "url",
+  "select",
+  "email",
+  "date",
+];
+
+/**
+ * Check enabled custom mappings: each needs a valid path and an existing Notion property of
+ * its type that no built-in field or other rule is mapped to.
+ *
+ * @param notionProperties - Properties of the sync pair's database
+ * @returns An error message, or null when every rule is valid
+ */
+export function validateCustomMappings(
+  rules: CustomFieldMapping[],
+  notionProperties: Array<{ name: string; type: string }>,
+  fieldMapping: ExtendedFieldMapping,
+): string | null {
+  const used = new Map<string, string>();
+  for (const config of Object.values(fieldMapping)) {
+    if (config.enabled || config.required) {
+      used.set(config.notionPropertyName, config.displayLabel);
+    }
+  }
+
+  for (const rule of rules.filter((r) => r.enabled)) {
+    const pathError = validateGcalPath(rule.gcalPath);
+    if (pathError) {
+      return pathError;
+    }
+
+    const property = notionProperties.find((prop) => prop.name === rule.notionPropertyName);
+    if (!property) {
+      return `Notion property "${rule.notionPropertyName}" does not exist`;
+    }
+    if (property.type !== rule.propertyType) {
+      return `Notion property "${rule.notionPropertyName}" is a ${property.type} property, not ${rule.propertyType}`;
+    }
+
+    const usedBy = used.get(rule.notionPropertyName);
+    if (usedBy) {
+      return `Cannot map multiple fields to the same Notion property. "${rule.notionPropertyName}" is used by: ${usedBy}`;
+    }
+    used.set(rule.notionPropertyName, rule.gcalPath);
+  }
+
+  return null;
+}
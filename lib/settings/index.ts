@@ -5,20 +5,33 @@
 // Types
 export type {
   AppSettings,
+  ConflictPolicy,
+  CustomFieldMapping,
+  CustomPropertyType,
   ExtendedFieldMapping,
   FieldConfig,
   FieldMapping,
+  FieldTransform,
   GoogleSettings,
   NotionPropertyType,
   NotionSettings,
+  SyncedCalendar,
+  SyncFilter,
+  SyncFilterOperator,
+  SyncPair,
 } from "./types";
 export {
+  DEFAULT_CONFLICT_POLICY,
   DEFAULT_EXTENDED_FIELD_MAPPING,
   DEFAULT_FIELD_MAPPING,
+  DEFAULT_SYNC_PAIR_ID,
   ENCRYPTED_FIELDS,
   GCAL_COLORS,
 } from "./types";
 
+// Custom field mappings
+export { CUSTOM_PROPERTY_TYPES, validateCustomMappings } from "./custom-mappings";
+
 // Migration
 export { ensureExtendedFieldMapping, isLegacyFieldMapping, migrateFieldMapping } from "./migration";
 
@@ -27,22 +40,41 @@ export { decrypt, encrypt, isEncryptionConfigured, safeDecrypt, safeEncrypt } fr
 
 // Storage operations
 export {
+  createSyncPair,
   deleteSettings,
+  deleteSyncPair,
   getSettings,
+  getSyncPairs,
   hasSettings,
   isSetupComplete,
+  renameSyncPair,
+  runForEachSyncPair,
   saveSettings,
   updateSettings,
 } from "./storage";
 
+// Sync pairs
+export {
+  getActiveSyncPairId,
+  getSyncPairParam,
+  pairScopedKey,
+  runWithSyncPair,
+  SYNC_PAIR_COOKIE,
+  SYNC_PAIR_PARAM,
+  withSyncPairParam,
+} from "./pair-context";
+
 // Config loading
 export type { GoogleConfig, NotionConfig } from "./loader";
 export {
+  getCustomMappings,
   getExtendedFieldMapping,
   getFieldMapping,
   getGoogleConfig,
   getLegacyFieldMapping,
   getNotionConfig,
+  getSyncDirection,
+  getSyncFilters,
   isFullyConfigured,
   isGoogleClientConfigured,
   isGoogleConfigured,
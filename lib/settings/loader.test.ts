@@ -5,6 +5,10 @@ vi.mock("./storage", () => ({
   getSettings: vi.fn(),
 }));
 
+vi.mock("@/lib/env", () => ({
+  getGoogleClientConfig: vi.fn(() => ({ clientId: "client", clientSecret: "secret" })),
+}));
+
 describe("getExtendedFieldMapping", () => {
   it("returns the stored extended mapping when present", async () => {
     const { getSettings } = await import("./storage");
@@ -18,3 +22,59 @@ describe("getExtendedFieldMapping", () => {
     expect(mapping).toEqual(DEFAULT_EXTENDED_FIELD_MAPPING);
   });
 });
+
+describe("sync direction", () => {
+  const google = {
+    refreshToken: "token",
+    calendarId: "primary",
+    calendars: [
+      { calendarId: "primary", name: "Primary", direction: "bidirectional" as const },
+      { calendarId: "travel", name: "Travel", direction: "notion_to_gcal" as const },
+    ],
+  };
+
+  it("defaults to bidirectional and keeps per-calendar directions", async () => {
+    const { getSettings } = await import("./storage");
+    vi.mocked(getSettings).mockResolvedValue({
+      google,
+    } as Awaited<ReturnType<typeof getSettings>>);
+
+    const { getGoogleConfig, getSyncDirection } = await import("./loader");
+
+    expect(await getSyncDirection()).toBe("bidirectional");
+    expect((await getGoogleConfig()).calendars.map((cal) => cal.direction)).toEqual([
+      "bidirectional",
+      "notion_to_gcal",
+    ]);
+  });
+
+  it("narrows each calendar to a one-way pair direction", async () => {
+    const { getSettings } = await import("./storage");
+    vi.mocked(getSettings).mockResolvedValue({
+      google,
+      syncDirection: "notion_to_gcal",
+    } as Awaited<ReturnType<typeof getSettings>>);
+
+    const { getGoogleConfig, getSyncDirection } = await import("./loader");
+
+    expect(await getSyncDirection()).toBe("notion_to_gcal");
+    expect((await getGoogleConfig()).calendars.map((cal) => cal.direction)).toEqual([
+      "notion_to_gcal",
+      "notion_to_gcal",
+    ]);
+  });
+
+  it("leaves out calendars that only sync against the pair direction", async () => {
+    const { getSettings } = await import("./storage");
+    vi.mocked(getSettings).mockResolvedValue({
+      google,
+      syncDirection: "gcal_to_notion",
+    } as Awaited<ReturnType<typeof getSettings>>);
+
+    const { getGoogleConfig } = await import("./loader");
+
+    expect((await getGoogleConfig()).calendars).toEqual([
+      { calendarId: "primary", name: "Primary", direction: "gcal_to_notion" },
+    ]);
+  });
+});
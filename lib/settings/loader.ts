@@ -4,21 +4,33 @@
  */
 
 import { getGoogleClientConfig } from "@/lib/env";
+import type { SyncDirection } from "@/lib/validation";
 import { ensureExtendedFieldMapping } from "./migration";
+import { getActiveSyncPairId } from "./pair-context";
 import { getSettings } from "./storage";
-import type { ExtendedFieldMapping, FieldMapping } from "./types";
-import { DEFAULT_EXTENDED_FIELD_MAPPING } from "./types";
+import type {
+  CustomFieldMapping,
+  ExtendedFieldMapping,
+  FieldMapping,
+  GoogleSettings,
+  SyncedCalendar,
+  SyncFilter,
+} from "./types";
+import { DEFAULT_EXTENDED_FIELD_MAPPING, DEFAULT_SYNC_PAIR_ID } from "./types";
 
 export interface GoogleConfig {
   clientId: string;
   clientSecret: string;
   refreshToken: string;
   calendarId: string;
+  calendars: SyncedCalendar[]; // Every synced calendar, default calendar first unless left out
+  timeZone?: string; // Time zone override from settings
 }
 
 export interface NotionConfig {
   apiToken: string;
   databaseId: string;
+  syncPageContent?: boolean;
 }
 
 /**
@@ -45,17 +57,60 @@ export async function getGoogleConfig(): Promise<GoogleConfig> {
     );
   }
 
+  const calendarId = settings.google.calendarId || "primary";
+
   return {
     clientId: clientConfig.clientId,
     clientSecret: clientConfig.clientSecret,
     refreshToken: settings.google.refreshToken,
-    calendarId: settings.google.calendarId || "primary",
+    calendarId,
+    calendars: resolveSyncedCalendars(settings.google, calendarId, settings.syncDirection),
+    timeZone: settings.google.timeZone,
   };
 }
 
+/**
+ * Combine a sync pair's direction with a calendar's own: the stricter one wins. Null when the
+ * two are opposite one-way directions, so nothing of the calendar would sync.
+ */
+function combineDirections(pair: SyncDirection, calendar: SyncDirection): SyncDirection | null {
+  if (pair === "bidirectional" || pair === calendar) {
+    return calendar;
+  }
+  return calendar === "bidirectional" ? pair : null;
+}
+
+/**
+ * Build the list of synced calendars. The default calendar is always included
+ * (bidirectional unless configured otherwise) so single-calendar setups keep working.
+ * A one-way sync pair narrows the direction of every calendar; calendars configured to
+ * sync the other way only are left out.
+ */
+function resolveSyncedCalendars(
+  google: GoogleSettings,
+  calendarId: string,
+  pairDirection: SyncDirection = "bidirectional",
+): SyncedCalendar[] {
+  const configured = google.calendars || [];
+  const defaultCalendar = configured.find((cal) => cal.calendarId === calendarId) || {
+    calendarId,
+    name: google.calendarName || (calendarId === "primary" ? "Primary" : calendarId),
+    direction: "bidirectional",
+  };
+
+  const calendars = [
+    defaultCalendar,
+    ...configured.filter((cal) => cal.calendarId !== calendarId),
+  ];
+  return calendars.flatMap((cal) => {
+    const direction = combineDirections(pairDirection, cal.direction);
+    return direction ? [{ ...cal, direction }] : [];
+  });
+}
+
 /**
  * Get Notion configuration.
- * Tries settings first, falls back to env vars.
+ * Tries settings first, falls back to env vars (default sync pair only).
  *
  * @throws Error if configuration is not available from either source
  */
@@ -66,9 +121,14 @@ export async function getNotionConfig(): Promise<NotionConfig> {
     return {
       apiToken: settings.notion.apiToken,
       databaseId: settings.notion.databaseId,
+      syncPageContent: settings.notion.syncPageContent,
     };
   }
 
+  if ((await getActiveSyncPairId()) !== DEFAULT_SYNC_PAIR_ID) {
+    throw new Error("No Notion database selected for this sync pair. Choose one in setup.");
+  }
+
   // Fall back to env vars
   const apiToken = process.env.NOTION_API_TOKEN;
   const databaseId = process.env.NOTION_DATABASE_ID;
@@ -100,6 +160,31 @@ export async function getFieldMapping(): Promise<ExtendedFieldMapping> {
   return DEFAULT_EXTENDED_FIELD_MAPPING;
 }
 
+/**
+ * Get the active sync pair's enabled custom field mappings.
+ */
+export async function getCustomMappings(): Promise<CustomFieldMapping[]> {
+  const settings = await getSettings();
+  return (settings?.customMappings || []).filter((rule) => rule.enabled);
+}
+
+/**
+ * Get the active sync pair's enabled sync filters.
+ */
+export async function getSyncFilters(): Promise<SyncFilter[]> {
+  const settings = await getSettings();
+  return (settings?.syncFilters || []).filter((filter) => filter.enabled);
+}
+
+/**
+ * Get the active sync pair's direction.
+ * "gcal_to_notion" makes the pair a read-only mirror: Google Calendar is never written.
+ */
+export async function getSyncDirection(): Promise<SyncDirection> {
+  const settings = await getSettings();
+  return settings?.syncDirection || "bidirectional";
+}
+
 /**
  * Get legacy field mapping (property names only).
  * Temporary helper for backward compatibility until Notion client is updated.
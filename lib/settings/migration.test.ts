@@ -124,6 +124,8 @@ describe("migrateFieldMapping", () => {
       "recurrence",
       "color",
       "visibility",
+      "calendar",
+      "status",
     ] as const;
 
     for (const field of newFields) {
@@ -229,8 +231,8 @@ describe("migrateFieldMapping", () => {
   it("migrating DEFAULT_FIELD_MAPPING produces valid result", () => {
     const result = migrateFieldMapping(DEFAULT_FIELD_MAPPING);
 
-    // All 12 fields should exist
-    expect(Object.keys(result)).toHaveLength(12);
+    // All 15 fields should exist
+    expect(Object.keys(result)).toHaveLength(15);
 
     // Each field should have all required properties
     const fieldKeys = Object.keys(result) as Array<keyof typeof result>;
@@ -284,6 +286,15 @@ describe("ensureExtendedFieldMapping", () => {
     expect(result).toBe(DEFAULT_EXTENDED_FIELD_MAPPING);
   });
 
+  it("fills in fields added after the mapping was saved", () => {
+    const { calendar: _calendar, ...saved } = DEFAULT_EXTENDED_FIELD_MAPPING;
+
+    const result = ensureExtendedFieldMapping(saved as ExtendedFieldMapping);
+
+    expect(result.calendar).toEqual(DEFAULT_EXTENDED_FIELD_MAPPING.calendar);
+    expect(result.title).toBe(saved.title);
+  });
+
   it("idempotent - migrating twice produces same result", () => {
     const legacy: FieldMapping = DEFAULT_FIELD_MAPPING;
 
@@ -65,14 +65,18 @@ export function migrateFieldMapping(legacy: FieldMapping): ExtendedFieldMapping
     organizer: { ...DEFAULT_EXTENDED_FIELD_MAPPING.organizer },
     conferenceLink: { ...DEFAULT_EXTENDED_FIELD_MAPPING.conferenceLink },
     recurrence: { ...DEFAULT_EXTENDED_FIELD_MAPPING.recurrence },
+    rrule: { ...DEFAULT_EXTENDED_FIELD_MAPPING.rrule },
     color: { ...DEFAULT_EXTENDED_FIELD_MAPPING.color },
     visibility: { ...DEFAULT_EXTENDED_FIELD_MAPPING.visibility },
+    calendar: { ...DEFAULT_EXTENDED_FIELD_MAPPING.calendar },
+    status: { ...DEFAULT_EXTENDED_FIELD_MAPPING.status },
   };
 }
 
 /**
  * Safely convert any field mapping to ExtendedFieldMapping.
- * Auto-detects format and migrates if necessary.
+ * Auto-detects format and migrates if necessary. Extended mappings saved before
+ * a field was added get that field's default config.
  *
  * @param mapping - Either legacy or extended field mapping
  * @returns ExtendedFieldMapping (migrated if legacy)
@@ -83,5 +87,16 @@ export function ensureExtendedFieldMapping(
   if (isLegacyFieldMapping(mapping)) {
     return migrateFieldMapping(mapping);
   }
-  return mapping;
+
+  const fieldKeys = Object.keys(DEFAULT_EXTENDED_FIELD_MAPPING) as Array<keyof ExtendedFieldMapping>;
+  const missingFields = fieldKeys.filter((key) => !mapping[key]);
+  if (missingFields.length === 0) {
+    return mapping;
+  }
+
+  const completed = { ...mapping };
+  for (const key of missingFields) {
+    completed[key] = { ...DEFAULT_EXTENDED_FIELD_MAPPING[key] };
+  }
+  return completed;
 }
@@ -0,0 +1,71 @@
+/**
+ * Active sync pair resolution.
+ * Background work (cron, webhooks, queued jobs) runs inside an explicit pair scope;
+ * requests from the UI use the pair selected in the sidebar, stored in a cookie.
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import { cookies } from "next/headers";
+import { DEFAULT_SYNC_PAIR_ID } from "./types";
+
+export const SYNC_PAIR_COOKIE = "sync-pair";
+export const SYNC_PAIR_PARAM = "pair";
+
+const pairScope = new AsyncLocalStorage<string>();
+
+/**
+ * Run a function with the given sync pair active.
+ * Settings, Redis state and logs read inside it belong to that pair.
+ */
+export function runWithSyncPair<T>(pairId: string, fn: () => Promise<T>): Promise<T> {
+  return pairScope.run(pairId, fn);
+}
+
+/**
+ * Get the active sync pair ID: the enclosing scope, else the sidebar selection,
+ * else the default pair.
+ */
+export async function getActiveSyncPairId(): Promise<string> {
+  const scoped = pairScope.getStore();
+  if (scoped) {
+    return scoped;
+  }
+
+  try {
+    const selected = (await cookies()).get(SYNC_PAIR_COOKIE)?.value;
+    if (selected) {
+      return selected;
+    }
+  } catch {
+    // Not inside a request (scripts, tests)
+  }
+
+  return DEFAULT_SYNC_PAIR_ID;
+}
+
+/**
+ * Namespace a Redis key by the active sync pair.
+ * The default pair keeps the unprefixed keys so existing state carries over.
+ */
+export async function pairScopedKey(key: string): Promise<string> {
+  const pairId = await getActiveSyncPairId();
+  return pairId === DEFAULT_SYNC_PAIR_ID ? key : `pair:${pairId}:${key}`;
+}
+
+/**
+ * Append the sync pair to a webhook URL so notifications are routed back to it.
+ */
+export function withSyncPairParam(url: string, pairId: string): string {
+  if (pairId === DEFAULT_SYNC_PAIR_ID) {
+    return url;
+  }
+  const separator = url.includes("?") ? "&" : "?";
+  return `${url}${separator}${SYNC_PAIR_PARAM}=${encodeURIComponent(pairId)}`;
+}
+
+/**
+ * Read the sync pair a webhook notification is addressed to.
+ */
+export function getSyncPairParam(url: URL): string {
+  return url.searchParams.get(SYNC_PAIR_PARAM) || DEFAULT_SYNC_PAIR_ID;
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { applySyncPair, listSyncPairs, mergeSyncPairUpdate } from "./pairs";
+import {
+  type AppSettings,
+  DEFAULT_EXTENDED_FIELD_MAPPING,
+  type ExtendedFieldMapping,
+} from "./types";
+
+const settings: AppSettings = {
+  google: {
+    refreshToken: "token",
+    calendarId: "work@group",
+    calendarName: "Work",
+    connectedAt: "2026-01-01T00:00:00.000Z",
+  },
+  notion: { apiToken: "secret", databaseId: "db-work", databaseName: "Work Tasks" },
+  fieldMapping: DEFAULT_EXTENDED_FIELD_MAPPING,
+  setupCompleted: true,
+  pairs: [
+    {
+      id: "home",
+      name: "Home",
+      notion: { databaseId: "db-home", databaseName: "Chores" },
+      google: { calendarId: "home@group", calendarName: "Home" },
+      fieldMapping: {
+        ...DEFAULT_EXTENDED_FIELD_MAPPING,
+        title: { ...DEFAULT_EXTENDED_FIELD_MAPPING.title, notionPropertyName: "Chore" },
+      },
+    },
+  ],
+};
+
+describe("sync pairs", () => {
+  it("lists the default pair first, named after its database", () => {
+    const pairs = listSyncPairs(settings);
+
+    expect(pairs.map((pair) => pair.id)).toEqual(["default", "home"]);
+    expect(pairs[0].name).toBe("Work Tasks");
+    expect(pairs[0].notion.databaseId).toBe("db-work");
+  });
+
+  it("lists a default pair even without stored settings", () => {
+    expect(listSyncPairs(null)).toMatchObject([{ id: "default", name: "Default" }]);
+  });
+
+  it("overlays the pair's database, calendar and mapping but keeps credentials", () => {
+    const view = applySyncPair(settings, "home");
+
+    expect(view.notion.databaseId).toBe("db-home");
+    expect(view.notion.apiToken).toBe("secret");
+    expect(view.google.calendarId).toBe("home@group");
+    expect(view.google.refreshToken).toBe("token");
+    expect((view.fieldMapping as ExtendedFieldMapping).title.notionPropertyName).toBe("Chore");
+  });
+
+  it("leaves settings unchanged for the default or an unknown pair", () => {
+    expect(applySyncPair(settings, "default")).toBe(settings);
+    expect(applySyncPair(settings, "missing")).toBe(settings);
+  });
+
+  it("routes pair fields of an update to the pair and shared fields to the top level", () => {
+    const merged = mergeSyncPairUpdate(settings, "home", {
+      notion: { apiToken: "rotated", databaseId: "db-errands", databaseName: "Errands" },
+    } as Partial<AppSettings>);
+
+    expect(merged.notion).toMatchObject({ apiToken: "rotated", databaseId: "db-work" });
+    expect(merged.pairs?.[0].notion).toEqual({ databaseId: "db-errands", databaseName: "Errands" });
+    expect(merged.pairs?.[0].google.calendarId).toBe("home@group");
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Sync pair helpers.
+ * The top-level settings hold the default pair; additional pairs override the
+ * database, calendars and field mapping while sharing credentials.
+ */
+
+import type { AppSettings, GoogleSettings, NotionSettings, SyncPair } from "./types";
+import { DEFAULT_FIELD_MAPPING, DEFAULT_SYNC_PAIR_ID } from "./types";
+
+const PAIR_GOOGLE_FIELDS = ["calendarId", "calendarName", "calendars"] as const;
+const PAIR_NOTION_FIELDS = ["databaseId", "databaseName"] as const;
+
+/**
+ * Split an object into the given keys and the rest, keeping only keys that are present
+ * so a partial update never clears fields it didn't mention.
+ */
+function splitFields<T extends object, K extends keyof T>(
+  value: T | undefined,
+  keys: readonly K[],
+): [Partial<Pick<T, K>>, Partial<Omit<T, K>>] {
+  const picked: Partial<Pick<T, K>> = {};
+  const rest: Record<string, unknown> = {};
+  for (const [key, fieldValue] of Object.entries(value || {})) {
+    if ((keys as readonly string[]).includes(key)) {
+      (picked as Record<string, unknown>)[key] = fieldValue;
+    } else {
+      rest[key] = fieldValue;
+    }
+  }
+  return [picked, rest as Partial<Omit<T, K>>];
+}
+
+/**
+ * All sync pairs, default pair first. The default pair exists even without stored
+ * settings, since it can be configured entirely through env vars.
+ */
+export function listSyncPairs(settings: AppSettings | null): SyncPair[] {
+  if (!settings) {
+    return [
+      {
+        id: DEFAULT_SYNC_PAIR_ID,
+        name: "Default",
+        notion: { databaseId: "" },
+        google: { calendarId: "" },
+        fieldMapping: DEFAULT_FIELD_MAPPING,
+      },
+    ];
+  }
+
+  const defaultPair: SyncPair = {
+    id: DEFAULT_SYNC_PAIR_ID,
+    name:
+      settings.defaultPairName ||
+      settings.notion?.databaseName ||
+      settings.google?.calendarName ||
+      "Default",
+    notion: {
+      databaseId: settings.notion?.databaseId,
+      databaseName: settings.notion?.databaseName,
+    },
+    google: {
+      calendarId: settings.google?.calendarId,
+      calendarName: settings.google?.calendarName,
+      calendars: settings.google?.calendars,
+    },
+    fieldMapping: settings.fieldMapping || DEFAULT_FIELD_MAPPING,
+    customMappings: settings.customMappings,
+    syncFilters: settings.syncFilters,
+    syncDirection: settings.syncDirection,
+  };
+
+  return [defaultPair, ...(settings.pairs || [])];
+}
+
+/**
+ * Settings as seen from a sync pair: its database, calendars, field mapping and direction
+ * replace the top-level ones. Unknown pairs fall back to the default pair.
+ */
+export function applySyncPair(settings: AppSettings, pairId: string): AppSettings {
+  const pair = settings.pairs?.find((p) => p.id === pairId);
+  if (!pair) {
+    return settings;
+  }
+
+  return {
+    ...settings,
+    google: { ...settings.google, ...pair.google },
+    notion: { ...settings.notion, ...pair.notion },
+    fieldMapping: pair.fieldMapping,
+    customMappings: pair.customMappings,
+    syncFilters: pair.syncFilters,
+    syncDirection: pair.syncDirection,
+  };
+}
+
+/**
+ * Apply a settings update made while a non-default pair is active.
+ * Pair-specific fields go to the pair; credentials and flags stay shared.
+ */
+export function mergeSyncPairUpdate(
+  settings: AppSettings,
+  pairId: string,
+  partial: Partial<AppSettings>,
+): AppSettings {
+  const [pairGoogle, sharedGoogle] = splitFields<
+    GoogleSettings,
+    (typeof PAIR_GOOGLE_FIELDS)[number]
+  >(
+    partial.google,
+    PAIR_GOOGLE_FIELDS,
+  );
+  const [pairNotion, sharedNotion] = splitFields<
+    NotionSettings,
+    (typeof PAIR_NOTION_FIELDS)[number]
+  >(
+    partial.notion,
+    PAIR_NOTION_FIELDS,
+  );
+
+  return {
+    ...settings,
+    google: { ...settings.google, ...sharedGoogle },
+    notion: { ...settings.notion, ...sharedNotion },
+    setupCompleted: partial.setupCompleted ?? settings.setupCompleted,
+    pairs: (settings.pairs || []).map((pair) =>
+      pair.id === pairId
+        ? {
+            ...pair,
+            google: { ...pair.google, ...pairGoogle },
+            notion: { ...pair.notion, ...pairNotion },
+            fieldMapping: partial.fieldMapping
+              ? { ...pair.fieldMapping, ...partial.fieldMapping }
+              : pair.fieldMapping,
+            customMappings: partial.customMappings ?? pair.customMappings,
+            syncFilters: partial.syncFilters ?? pair.syncFilters,
+            syncDirection: partial.syncDirection ?? pair.syncDirection,
+          }
+        : pair,
+    ),
+  };
+}
@@ -5,8 +5,15 @@
 
 import { getRedis } from "@/lib/redis";
 import { safeDecrypt, safeEncrypt } from "./encryption";
-import type { AppSettings, GoogleSettings, NotionSettings } from "./types";
-import { DEFAULT_FIELD_MAPPING, ENCRYPTED_FIELDS } from "./types";
+import { getActiveSyncPairId, runWithSyncPair } from "./pair-context";
+import { applySyncPair, listSyncPairs, mergeSyncPairUpdate } from "./pairs";
+import type { AppSettings, GoogleSettings, NotionSettings, SyncPair } from "./types";
+import {
+  DEFAULT_EXTENDED_FIELD_MAPPING,
+  DEFAULT_FIELD_MAPPING,
+  DEFAULT_SYNC_PAIR_ID,
+  ENCRYPTED_FIELDS,
+} from "./types";
 
 // Storage key
 const SETTINGS_KEY = "app:settings";
@@ -79,10 +86,21 @@ function decryptSettings(stored: StoredSettings): AppSettings {
 }
 
 /**
- * Get the current settings from Redis.
+ * Get the current settings as seen from the active sync pair.
  * Returns null if no settings are stored, Redis is not configured, or connection fails.
  */
 export async function getSettings(): Promise<AppSettings | null> {
+  const settings = await getStoredSettings();
+  if (!settings) {
+    return null;
+  }
+  return applySyncPair(settings, await getActiveSyncPairId());
+}
+
+/**
+ * Get the stored settings with every sync pair, independent of the active pair.
+ */
+async function getStoredSettings(): Promise<AppSettings | null> {
   const redis = getRedis();
   if (!redis) {
     return null;
@@ -114,10 +132,17 @@ export async function saveSettings(settings: AppSettings): Promise<void> {
 
 /**
  * Update settings (merges with existing).
- * Performs a deep merge for nested objects.
+ * Performs a deep merge for nested objects. While a non-default sync pair is active,
+ * its database, calendars and field mapping are updated instead of the top-level ones.
  */
 export async function updateSettings(partial: Partial<AppSettings>): Promise<void> {
-  const existing = await getSettings();
+  const existing = await getStoredSettings();
+
+  const pairId = await getActiveSyncPairId();
+  if (existing?.pairs?.some((pair) => pair.id === pairId)) {
+    await saveSettings(mergeSyncPairUpdate(existing, pairId, partial));
+    return;
+  }
 
   const updated: AppSettings = {
     google: {
@@ -132,12 +157,103 @@ export async function updateSettings(partial: Partial<AppSettings>): Promise<voi
       ...(existing?.fieldMapping || DEFAULT_FIELD_MAPPING),
       ...partial.fieldMapping,
     },
+    customMappings: partial.customMappings ?? existing?.customMappings,
+    syncFilters: partial.syncFilters ?? existing?.syncFilters,
     setupCompleted: partial.setupCompleted ?? existing?.setupCompleted ?? false,
+    syncDirection: partial.syncDirection ?? existing?.syncDirection,
+    defaultPairName: partial.defaultPairName ?? existing?.defaultPairName,
+    pairs: partial.pairs ?? existing?.pairs,
   };
 
   await saveSettings(updated);
 }
 
+/**
+ * Get every sync pair, default pair first.
+ */
+export async function getSyncPairs(): Promise<SyncPair[]> {
+  return listSyncPairs(await getStoredSettings());
+}
+
+/**
+ * Run a function for each sync pair in turn, inside that pair's scope.
+ * Additional pairs that haven't been given a database and calendar yet are skipped.
+ */
+export async function runForEachSyncPair<T>(
+  fn: (pair: SyncPair) => Promise<T>,
+): Promise<Array<{ pair: SyncPair; result: T }>> {
+  const pairs = (await getSyncPairs()).filter(
+    (pair) =>
+      pair.id === DEFAULT_SYNC_PAIR_ID || (pair.notion.databaseId && pair.google.calendarId),
+  );
+
+  const results: Array<{ pair: SyncPair; result: T }> = [];
+  for (const pair of pairs) {
+    results.push({ pair, result: await runWithSyncPair(pair.id, () => fn(pair)) });
+  }
+  return results;
+}
+
+/**
+ * Create a sync pair. Its database and calendar are chosen in the setup wizard.
+ */
+export async function createSyncPair(name: string): Promise<SyncPair> {
+  const settings = await getStoredSettings();
+  if (!settings) {
+    throw new Error("Complete setup before adding sync pairs.");
+  }
+
+  const pair: SyncPair = {
+    id: Math.random().toString(36).slice(2, 10),
+    name,
+    notion: { databaseId: "" },
+    google: { calendarId: "" },
+    fieldMapping: DEFAULT_EXTENDED_FIELD_MAPPING,
+  };
+  await saveSettings({ ...settings, pairs: [...(settings.pairs || []), pair] });
+  return pair;
+}
+
+/**
+ * Rename a sync pair. Returns false if it doesn't exist.
+ */
+export async function renameSyncPair(pairId: string, name: string): Promise<boolean> {
+  const settings = await getStoredSettings();
+  if (!settings) {
+    return false;
+  }
+
+  if (pairId === DEFAULT_SYNC_PAIR_ID) {
+    await saveSettings({ ...settings, defaultPairName: name });
+    return true;
+  }
+
+  if (!settings.pairs?.some((pair) => pair.id === pairId)) {
+    return false;
+  }
+  await saveSettings({
+    ...settings,
+    pairs: settings.pairs.map((pair) => (pair.id === pairId ? { ...pair, name } : pair)),
+  });
+  return true;
+}
+
+/**
+ * Delete a sync pair. The default pair cannot be deleted.
+ * Returns false if the pair doesn't exist.
+ */
+export async function deleteSyncPair(pairId: string): Promise<boolean> {
+  const settings = await getStoredSettings();
+  if (!settings?.pairs?.some((pair) => pair.id === pairId)) {
+    return false;
+  }
+  await saveSettings({
+    ...settings,
+    pairs: settings.pairs.filter((pair) => pair.id !== pairId),
+  });
+  return true;
+}
+
 /**
  * Delete all settings from Redis.
  * Throws an error if Redis is not configured.
@@ -167,6 +283,6 @@ export async function hasSettings(): Promise<boolean> {
  * Check if setup has been completed.
  */
 export async function isSetupComplete(): Promise<boolean> {
-  const settings = await getSettings();
+  const settings = await getStoredSettings();
   return settings?.setupCompleted ?? false;
 }
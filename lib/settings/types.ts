@@ -4,12 +4,26 @@
  * to configure the app via web UI instead of environment variables.
  */
 
+import type { SyncDirection } from "@/lib/validation";
+
+/**
+ * A Google Calendar mirrored into the Notion database.
+ * `name` is also the option written to the Notion "Calendar" select property.
+ */
+export interface SyncedCalendar {
+  calendarId: string;
+  name: string;
+  direction: SyncDirection;
+}
+
 export interface GoogleSettings {
   // Note: clientId and clientSecret now come from GOOGLE_CLIENT_ID / GOOGLE_CLIENT_SECRET env vars
   refreshToken: string; // Encrypted at rest, obtained during OAuth sign-in
   calendarId: string;
   calendarName?: string; // Display name of the selected calendar
+  calendars?: SyncedCalendar[]; // Additional calendars; calendarId stays the default for new events
   connectedAt: string; // ISO timestamp
+  timeZone?: string; // IANA zone events are written in; defaults to each calendar's own zone
   oauthAppPublished?: boolean; // User-confirmed: OAuth app is published (no 7-day token expiry)
 }
 
@@ -17,6 +31,7 @@ export interface NotionSettings {
   apiToken: string; // Encrypted at rest
   databaseId: string;
   databaseName?: string;
+  syncPageContent?: boolean; // Copy the page body to and from the Google event description
 }
 
 export interface FieldMapping {
@@ -35,7 +50,35 @@ export type NotionPropertyType =
   | "date"
   | "checkbox"
   | "url"
-  | "select";
+  | "select"
+  | "multi_select"
+  | "email"
+  | "people"
+  | "status"
+  | "relation" // Read-only: the related pages' titles
+  | "formula"; // Read-only: the computed value
+
+/**
+ * How to resolve a field that was edited in both Notion and Google Calendar
+ * since the last sync.
+ */
+export type ConflictPolicy = "notion_wins" | "gcal_wins" | "newest_wins" | "manual";
+
+export const DEFAULT_CONFLICT_POLICY: ConflictPolicy = "newest_wins";
+
+/**
+ * A step of a field's transform pipeline, shaping the value stored on one side.
+ * Steps run in order when a value is written to that side and are undone in reverse
+ * order when it is read back.
+ */
+export type FieldTransform = (
+  | { type: "map"; values: Record<string, string> } // Whole values: { "Tomato": "Urgent" }
+  | { type: "template"; template: string } // "{value}" marks the value: "📅 {value}"
+  | { type: "replace"; pattern: string; replacement: string } // Regex; cannot be undone
+) & {
+  side: "notion" | "gcal";
+  calendar?: string; // Only for events of the Google Calendar with this name
+};
 
 export interface FieldConfig {
   enabled: boolean;
@@ -43,6 +86,8 @@ export interface FieldConfig {
   displayLabel: string;
   propertyType: NotionPropertyType;
   required: boolean; // true for title/date only
+  conflictPolicy?: ConflictPolicy; // Defaults to DEFAULT_CONFLICT_POLICY
+  transforms?: FieldTransform[];
 }
 
 export interface ExtendedFieldMapping {
@@ -55,12 +100,60 @@ export interface ExtendedFieldMapping {
   gcalEventId: FieldConfig;
   reminders: FieldConfig;
   // New fields
-  attendees: FieldConfig; // comma-separated: "John Doe, Jane Smith"
+  attendees: FieldConfig; // People, Email, Multi-select, or text: "John Doe <john@example.com>"
   organizer: FieldConfig; // text
   conferenceLink: FieldConfig; // Zoom/Meet URLs
   recurrence: FieldConfig; // human-readable: "Every Monday"
+  rrule: FieldConfig; // RFC 5545 lines, one per line: "RRULE:FREQ=WEEKLY;BYDAY=MO"
   color: FieldConfig; // text name: "Blue", "Tomato"
   visibility: FieldConfig; // "public" | "private"
+  calendar: FieldConfig; // name of the source Google Calendar
+  status: FieldConfig; // "Confirmed", "Tentative", "Cancelled", or a Status option by group
+}
+
+/**
+ * Notion property types a custom mapping can hold. Values travel as text and are
+ * converted to the property's type when written.
+ */
+export type CustomPropertyType = Extract<
+  NotionPropertyType,
+  "rich_text" | "number" | "checkbox" | "url" | "select" | "email" | "date"
+>;
+
+/**
+ * A user-defined mapping between a Google Calendar event field, addressed by its JSON path
+ * ("transparency", "extendedProperties.shared.project"), and a Notion property.
+ * Paths Google lets us write sync both ways; the rest only sync from Google Calendar.
+ */
+export interface CustomFieldMapping {
+  id: string;
+  enabled: boolean;
+  gcalPath: string;
+  notionPropertyName: string;
+  propertyType: CustomPropertyType;
+}
+
+export type SyncFilterOperator =
+  | "equals"
+  | "not_equals"
+  | "contains"
+  | "matches" // Regular expression
+  | "is_empty"
+  | "is_not_empty";
+
+/**
+ * A rule deciding which events sync, tested against a Notion property or a Google Calendar
+ * event path as text. An event must match one of its side's include rules, if there are
+ * any, and none of the exclude rules.
+ */
+export interface SyncFilter {
+  id: string;
+  enabled: boolean;
+  action: "include" | "exclude";
+  source: "notion" | "gcal";
+  field: string; // Notion property name, or Google Calendar event path
+  operator: SyncFilterOperator;
+  value: string;
 }
 
 export const GCAL_COLORS: Record<string, { name: string; hex: string }> = {
@@ -116,7 +209,7 @@ export const DEFAULT_EXTENDED_FIELD_MAPPING: ExtendedFieldMapping = {
   reminders: {
     enabled: false,
     notionPropertyName: "Reminders",
-    displayLabel: "Reminder Minutes",
+    displayLabel: "Reminders",
     propertyType: "number",
     required: false,
   },
@@ -148,6 +241,13 @@ export const DEFAULT_EXTENDED_FIELD_MAPPING: ExtendedFieldMapping = {
     propertyType: "rich_text",
     required: false,
   },
+  rrule: {
+    enabled: false,
+    notionPropertyName: "RRULE",
+    displayLabel: "Recurrence Rule",
+    propertyType: "rich_text",
+    required: false,
+  },
   color: {
     enabled: false,
     notionPropertyName: "Color",
@@ -162,15 +262,52 @@ export const DEFAULT_EXTENDED_FIELD_MAPPING: ExtendedFieldMapping = {
     propertyType: "select",
     required: false,
   },
+  calendar: {
+    enabled: false,
+    notionPropertyName: "Calendar",
+    displayLabel: "Calendar",
+    propertyType: "select",
+    required: false,
+  },
+  status: {
+    enabled: false,
+    notionPropertyName: "Status",
+    displayLabel: "Status",
+    propertyType: "select",
+    required: false,
+  },
 };
 
 export interface AppSettings {
   google: GoogleSettings;
   notion: NotionSettings;
   fieldMapping: FieldMapping | ExtendedFieldMapping; // Accept both during migration
+  customMappings?: CustomFieldMapping[]; // Rules beyond the built-in fields
+  syncFilters?: SyncFilter[]; // Which events sync; all of them when unset
   setupCompleted: boolean;
+  syncDirection?: SyncDirection; // Which way the default pair syncs (bidirectional when unset)
+  defaultPairName?: string; // Display name of the default sync pair (the top-level settings)
+  pairs?: SyncPair[]; // Additional sync pairs
 }
 
+/**
+ * A Notion database synced with a Google Calendar.
+ * The top-level database, calendar and field mapping form the default pair; additional
+ * pairs share the Google and Notion credentials but have their own targets and state.
+ */
+export interface SyncPair {
+  id: string;
+  name: string;
+  notion: Pick<NotionSettings, "databaseId" | "databaseName">;
+  google: Pick<GoogleSettings, "calendarId" | "calendarName" | "calendars">;
+  fieldMapping: FieldMapping | ExtendedFieldMapping;
+  customMappings?: CustomFieldMapping[];
+  syncFilters?: SyncFilter[];
+  syncDirection?: SyncDirection; // Bidirectional when unset
+}
+
+export const DEFAULT_SYNC_PAIR_ID = "default";
+
 /**
  * Default field mapping that matches the expected Notion database schema.
  * These are the property names used in the Notion database.
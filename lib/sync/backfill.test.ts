@@ -14,7 +14,7 @@ vi.mock("@/lib/redis", () => ({
 
 // Mock Google Calendar client
 vi.mock("@/lib/google-calendar/client", () => ({
-  fetchGcalEvents: vi.fn(),
+  fetchSyncedGcalEvents: vi.fn(),
 }));
 
 // Mock Notion client
@@ -32,6 +32,7 @@ vi.mock("@/lib/settings", () => ({
     color: { enabled: false, notionPropertyName: "Color" },
     visibility: { enabled: false, notionPropertyName: "Visibility" },
   })),
+  pairScopedKey: vi.fn(async (key: string) => key),
 }));
 
 // Mock retry
@@ -177,15 +178,15 @@ describe("backfill service", () => {
       set: mockSet,
     } as unknown as ReturnType<typeof getRedis>);
 
-    const { fetchGcalEvents } = await import("@/lib/google-calendar/client");
-    vi.mocked(fetchGcalEvents).mockResolvedValue([
+    const { fetchSyncedGcalEvents } = await import("@/lib/google-calendar/client");
+    vi.mocked(fetchSyncedGcalEvents).mockResolvedValue([
       {
         id: "1",
         title: "Event 1",
         notionPageId: "page1",
         startTime: new Date(),
         endTime: new Date(),
-        attendees: ["John"],
+        attendees: [{ email: "john@example.com", name: "John" }],
       },
       {
         id: "2",
@@ -200,7 +201,7 @@ describe("backfill service", () => {
         notionPageId: "page3",
         startTime: new Date(),
         endTime: new Date(),
-        attendees: ["Jane"],
+        attendees: [{ email: "jane@example.com", name: "Jane" }],
       },
     ]);
 
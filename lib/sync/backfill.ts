@@ -1,4 +1,4 @@
-import { fetchGcalEvents } from "@/lib/google-calendar/client";
+import { fetchSyncedGcalEvents } from "@/lib/google-calendar/client";
 import { updateNotionEvent } from "@/lib/notion/client";
 /**
  * Backfill service for updating existing Notion pages with new field data from Google Calendar.
@@ -6,7 +6,7 @@ import { updateNotionEvent } from "@/lib/notion/client";
  * existing events with the new data.
  */
 import { getRedis } from "@/lib/redis";
-import { getExtendedFieldMapping } from "@/lib/settings";
+import { getExtendedFieldMapping, pairScopedKey } from "@/lib/settings";
 import type { ExtendedFieldMapping } from "@/lib/settings/types";
 import { retryWithBackoff } from "@/lib/sync/retry";
 import type { Event } from "@/lib/types";
@@ -44,8 +44,9 @@ export async function getBackfillProgress(): Promise<BackfillProgress> {
   if (!redis) {
     return DEFAULT_PROGRESS;
   }
+  const backfillProgressKey = await pairScopedKey(BACKFILL_PROGRESS_KEY);
 
-  const progress = await redis.get<BackfillProgress>(BACKFILL_PROGRESS_KEY);
+  const progress = await redis.get<BackfillProgress>(backfillProgressKey);
   return progress || DEFAULT_PROGRESS;
 }
 
@@ -53,11 +54,12 @@ export async function getBackfillProgress(): Promise<BackfillProgress> {
  * Update backfill progress in Redis
  */
 async function updateProgress(progress: Partial<BackfillProgress>): Promise<void> {
+  const backfillProgressKey = await pairScopedKey(BACKFILL_PROGRESS_KEY);
   const redis = getRedis();
   if (!redis) return;
 
   const current = await getBackfillProgress();
-  await redis.set(BACKFILL_PROGRESS_KEY, { ...current, ...progress });
+  await redis.set(backfillProgressKey, { ...current, ...progress });
 }
 
 /**
@@ -120,6 +122,11 @@ function buildUpdatePayload(
           updates.recurrence = event.recurrence;
         }
         break;
+      case "rrule":
+        if (event.rrule) {
+          updates.rrule = event.rrule;
+        }
+        break;
       case "color":
         if (event.color) {
           updates.color = event.color;
@@ -130,6 +137,11 @@ function buildUpdatePayload(
           updates.visibility = event.visibility;
         }
         break;
+      case "status":
+        if (event.status) {
+          updates.status = event.status;
+        }
+        break;
     }
   }
 
@@ -168,7 +180,7 @@ export async function startBackfill(fields: string[]): Promise<void> {
 
   try {
     // Fetch all GCal events
-    const allEvents = await fetchGcalEvents();
+    const allEvents = await fetchSyncedGcalEvents();
 
     // Filter to events that are already linked to Notion
     const linkedEvents = allEvents.filter((event) => event.notionPageId);
@@ -0,0 +1,232 @@
+import type { Event } from "@/lib/types";
+import { beforeEach, describe, expect, test, vi } from "vitest";
+
+vi.mock("@/lib/google-calendar/client", () => ({
+  createGcalEvent: vi.fn(async () => "gcal-new"),
+  fetchGcalEvents: vi.fn(),
+  getCalendarTimeZone: vi.fn(async () => "Europe/Berlin"),
+  updateGcalEvent: vi.fn(),
+}));
+
+vi.mock("@/lib/notion/client", () => ({
+  createNotionEvent: vi.fn(async () => "page-new"),
+  fetchNotionEvents: vi.fn(),
+  updateNotionEvent: vi.fn(),
+}));
+
+vi.mock("@/lib/settings", () => ({
+  getGoogleConfig: vi.fn(async () => ({
+    calendarId: "primary",
+    calendars: [
+      { calendarId: "primary", direction: "bidirectional" },
+      { calendarId: "work", direction: "gcal_to_notion" },
+    ],
+  })),
+  getSyncDirection: vi.fn(async () => "bidirectional"),
+}));
+
+vi.mock("@/lib/sync/queue", () => ({
+  enqueueSyncJob: vi.fn(),
+}));
+
+vi.mock("@/lib/sync/mapping", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/sync/mapping")>()),
+  listMappings: vi.fn(),
+}));
+
+import { createGcalEvent, fetchGcalEvents, updateGcalEvent } from "@/lib/google-calendar/client";
+import { createNotionEvent, fetchNotionEvents, updateNotionEvent } from "@/lib/notion/client";
+import { getSyncDirection } from "@/lib/settings";
+import { hashEvent, listMappings } from "@/lib/sync/mapping";
+import { enqueueSyncJob } from "@/lib/sync/queue";
+import {
+  createCalendarEvent,
+  getCalendarEntries,
+  getCalendarSources,
+  readOnlySideError,
+  updateCalendarEvent,
+} from "./calendar";
+
+function event(id: string, start: string, changes: Partial<Event> = {}): Event {
+  return {
+    id,
+    title: `Event ${id}`,
+    startTime: new Date(start),
+    endTime: new Date(new Date(start).getTime() + 60 * 60 * 1000),
+    ...changes,
+  };
+}
+
+function mapping(notionPageId: string, gcalEventId: string, notion: Event, gcal: Event) {
+  return {
+    notionPageId,
+    gcalEventId,
+    notionHash: hashEvent(notion),
+    gcalHash: hashEvent(gcal),
+    createdAt: "2026-03-01T00:00:00.000Z",
+    updatedAt: "2026-03-01T00:00:00.000Z",
+    lastSyncedAt: "2026-03-01T00:00:00.000Z",
+  };
+}
+
+describe("getCalendarEntries", () => {
+  const start = new Date("2026-03-02T00:00:00.000Z");
+  const end = new Date("2026-03-09T00:00:00.000Z");
+
+  const linkedNotion = event("page-1", "2026-03-03T09:00:00.000Z");
+  const linkedGcal = event("gcal-1", "2026-03-03T09:00:00.000Z", { calendarId: "primary" });
+
+  beforeEach(() => {
+    vi.mocked(fetchNotionEvents).mockResolvedValue([
+      linkedNotion,
+      event("page-2", "2026-03-02T08:00:00.000Z"),
+    ]);
+    vi.mocked(fetchGcalEvents).mockImplementation(async (_min, _max, calendarId) =>
+      calendarId === "primary"
+        ? [linkedGcal]
+        : [event("gcal-2", "2026-03-04T09:00:00.000Z", { calendarId, excluded: true })],
+    );
+    vi.mocked(listMappings).mockResolvedValue([
+      mapping("page-1", "gcal-1", linkedNotion, linkedGcal),
+    ]);
+  });
+
+  test("fetches the range from Notion and every calendar with series expanded", async () => {
+    await getCalendarEntries(start, end);
+
+    expect(fetchNotionEvents).toHaveBeenCalledWith({ startsAfter: start, startsBefore: end });
+    expect(fetchGcalEvents).toHaveBeenCalledWith(start, end, "primary", undefined, true);
+    expect(fetchGcalEvents).toHaveBeenCalledWith(start, end, "work", undefined, true);
+  });
+
+  test("shows linked events once and marks the unlinked side", async () => {
+    const entries = await getCalendarEntries(start, end);
+
+    expect(entries.map(({ id, status }) => [id, status])).toEqual([
+      ["page-2", "notion_only"],
+      ["gcal-1", "synced"],
+      ["gcal-2", "gcal_only"],
+    ]);
+    expect(entries[1]).toMatchObject({ notionPageId: "page-1", calendarId: "primary" });
+    expect(entries[2].excluded).toBe(true);
+  });
+
+  test("marks linked events changed since the last sync as pending", async () => {
+    vi.mocked(fetchNotionEvents).mockResolvedValue([{ ...linkedNotion, title: "Moved" }]);
+
+    const entries = await getCalendarEntries(start, end);
+
+    expect(entries.find((entry) => entry.id === "gcal-1")?.status).toBe("pending");
+  });
+
+  test("links occurrences of a series through its mapping", async () => {
+    const occurrence = event("gcal-1_20260305T090000Z", "2026-03-05T09:00:00.000Z", {
+      recurringEventId: "gcal-1",
+    });
+    vi.mocked(fetchGcalEvents).mockImplementation(async (_min, _max, calendarId) =>
+      calendarId === "primary" ? [occurrence] : [],
+    );
+
+    const entries = await getCalendarEntries(start, end);
+
+    expect(entries.map(({ id, status }) => [id, status])).toEqual([
+      ["page-2", "notion_only"],
+      ["gcal-1_20260305T090000Z", "synced"],
+    ]);
+    expect(entries[1]).toMatchObject({ notionPageId: "page-1", recurringEventId: "gcal-1" });
+  });
+});
+
+describe("calendar edits", () => {
+  const fields = {
+    title: "Planning",
+    startTime: new Date("2026-03-03T09:00:00.000Z"),
+    endTime: new Date("2026-03-03T10:00:00.000Z"),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  test("creates a Notion page in the calendar time zone and queues it as new", async () => {
+    const id = await createCalendarEvent("notion", fields);
+
+    expect(id).toBe("page-new");
+    expect(createNotionEvent).toHaveBeenCalledWith({ id: "", ...fields }, "Europe/Berlin");
+    expect(enqueueSyncJob).toHaveBeenCalledWith({
+      type: "notion_upsert",
+      notionPageId: "page-new",
+      webhookEventType: "page.created",
+    });
+  });
+
+  test("creates a Google event in the chosen calendar and queues it", async () => {
+    const id = await createCalendarEvent("gcal", fields, "work");
+
+    expect(id).toBe("gcal-new");
+    expect(createGcalEvent).toHaveBeenCalledWith({ id: "", ...fields }, "work");
+    expect(enqueueSyncJob).toHaveBeenCalledWith({
+      type: "gcal_upsert",
+      gcalEventId: "gcal-new",
+      calendarId: "work",
+      webhookEventType: "exists",
+    });
+  });
+
+  test("writes only the changed fields and queues the update", async () => {
+    await updateCalendarEvent("notion", "page-1", { title: "Renamed" });
+    await updateCalendarEvent("gcal", "gcal-1", { location: "Room 4" }, "work");
+
+    expect(updateNotionEvent).toHaveBeenCalledWith(
+      "page-1",
+      { title: "Renamed" },
+      "Europe/Berlin",
+    );
+    expect(updateGcalEvent).toHaveBeenCalledWith("gcal-1", { location: "Room 4" }, "work");
+    expect(enqueueSyncJob).toHaveBeenCalledWith({
+      type: "notion_upsert",
+      notionPageId: "page-1",
+      webhookEventType: "page.properties_updated",
+    });
+    expect(enqueueSyncJob).toHaveBeenCalledWith({
+      type: "gcal_upsert",
+      gcalEventId: "gcal-1",
+      calendarId: "work",
+      webhookEventType: "exists",
+    });
+  });
+
+  test("refuses the mirrored side of a one-way pair", async () => {
+    vi.mocked(getSyncDirection).mockResolvedValue("bidirectional");
+    expect(await readOnlySideError("gcal")).toBeNull();
+    expect(await readOnlySideError("notion")).toBeNull();
+
+    vi.mocked(getSyncDirection).mockResolvedValue("notion_to_gcal");
+    expect(await readOnlySideError("gcal")).toBe("This sync pair only syncs Notion → Google");
+    expect(await readOnlySideError("notion")).toBeNull();
+
+    vi.mocked(getSyncDirection).mockResolvedValue("gcal_to_notion");
+    expect(await readOnlySideError("notion")).toBe("This sync pair only syncs Google → Notion");
+  });
+
+  test("refuses the mirrored side of a one-way calendar", async () => {
+    vi.mocked(getSyncDirection).mockResolvedValue("bidirectional");
+    expect(await readOnlySideError("notion", "primary")).toBeNull();
+    expect(await readOnlySideError("gcal", "work")).toBeNull();
+    expect(await readOnlySideError("notion", "work")).toBe(
+      "This calendar only syncs Google → Notion",
+    );
+    expect(await readOnlySideError("gcal", "holidays")).toBe(
+      "This sync pair does not sync the event's calendar",
+    );
+  });
+
+  test("lists the sides of new events and of each calendar's events", async () => {
+    vi.mocked(getSyncDirection).mockResolvedValue("notion_to_gcal");
+
+    expect(await getCalendarSources()).toEqual({
+      newEvents: ["notion"],
+      calendars: { primary: ["notion", "gcal"], work: ["gcal"] },
+    });
+  });
+});
@@ -0,0 +1,252 @@
+/**
+ * Calendar view data: the current events of both sides within a visible range, matched up
+ * through the stored mappings so each linked pair shows once along with its sync state.
+ *
+ * Events created or edited in the view are written to one side and queued for the sync
+ * engine, which carries the change over to the other side like any webhook change.
+ */
+import {
+  createGcalEvent,
+  fetchGcalEvents,
+  getCalendarTimeZone,
+  updateGcalEvent,
+} from "@/lib/google-calendar/client";
+import { createNotionEvent, fetchNotionEvents, updateNotionEvent } from "@/lib/notion/client";
+import { getGoogleConfig } from "@/lib/settings";
+import { writeDirectionError } from "@/lib/sync/compare";
+import { type EventMapping, hashEvent, listMappings } from "@/lib/sync/mapping";
+import { enqueueSyncJob } from "@/lib/sync/queue";
+import type { Event } from "@/lib/types";
+
+// Longest range one request may cover; a month grid spans at most six weeks
+export const MAX_CALENDAR_RANGE_DAYS = 62;
+
+/**
+ * - synced: linked, and neither side changed since the last sync
+ * - pending: linked, with changes the next sync will pick up
+ * - notion_only / gcal_only: not linked to an event on the other side
+ */
+export type CalendarEntryStatus = "synced" | "pending" | "notion_only" | "gcal_only";
+
+export interface CalendarEntry {
+  id: string; // Google event ID when there is one, else the Notion page ID
+  title: string;
+  start: string;
+  end: string;
+  allDay: boolean;
+  status: CalendarEntryStatus;
+  notionPageId?: string;
+  gcalEventId?: string;
+  calendarId?: string;
+  recurringEventId?: string; // Series of a Google occurrence, whose Notion page is the series
+  location?: string;
+  description?: string;
+  excluded?: boolean; // Left out by the sync filters
+}
+
+/**
+ * Event fields the calendar view edits
+ */
+export type CalendarEventFields = Pick<
+  Event,
+  "title" | "startTime" | "endTime" | "allDay" | "location" | "description"
+>;
+
+export type CalendarSide = "notion" | "gcal";
+
+/**
+ * Sides the calendar view can save events to
+ */
+export interface CalendarSources {
+  newEvents: CalendarSide[];
+  calendars: Record<string, CalendarSide[]>; // Google Calendar ID → sides of its events
+}
+
+type EntryLink = Pick<
+  CalendarEntry,
+  "status" | "notionPageId" | "gcalEventId" | "calendarId" | "recurringEventId"
+>;
+
+function toEntry(event: Event, link: EntryLink): CalendarEntry {
+  return {
+    id: link.gcalEventId ?? event.id,
+    title: event.title,
+    start: event.startTime.toISOString(),
+    end: event.endTime.toISOString(),
+    allDay: event.allDay ?? false,
+    ...link,
+    ...(event.location && { location: event.location }),
+    ...(event.description && { description: event.description }),
+    ...(event.excluded && { excluded: true }),
+  };
+}
+
+/**
+ * Whether either side changed since the last sync, compared the way the sync engine does.
+ * Occurrences of a series are left out since the mapping holds the hash of the series.
+ */
+function linkStatus(mapping: EventMapping, notion?: Event, gcal?: Event): CalendarEntryStatus {
+  const notionChanged = notion !== undefined && mapping.notionHash !== hashEvent(notion);
+  const gcalChanged = gcal !== undefined && mapping.gcalHash !== hashEvent(gcal);
+  return notionChanged || gcalChanged ? "pending" : "synced";
+}
+
+/**
+ * Fetch every synced calendar's events in the range, with series expanded into occurrences
+ */
+async function fetchGcalRange(start: Date, end: Date): Promise<Event[]> {
+  const { calendars } = await getGoogleConfig();
+  const events = await Promise.all(
+    calendars.map(({ calendarId }) => fetchGcalEvents(start, end, calendarId, undefined, true)),
+  );
+  return events.flat();
+}
+
+/**
+ * List the events to show between two times, sorted by start.
+ * Google events overlapping the range are included; Notion pages must start within it.
+ */
+export async function getCalendarEntries(start: Date, end: Date): Promise<CalendarEntry[]> {
+  const [notionEvents, gcalEvents, mappings] = await Promise.all([
+    fetchNotionEvents({ startsAfter: start, startsBefore: end }),
+    fetchGcalRange(start, end),
+    listMappings(),
+  ]);
+
+  const byNotionId = new Map(mappings.map((mapping) => [mapping.notionPageId, mapping]));
+  const byGcalId = new Map(mappings.map((mapping) => [mapping.gcalEventId, mapping]));
+  const notionById = new Map(notionEvents.map((event) => [event.id, event]));
+  const entries: CalendarEntry[] = [];
+
+  // Notion pages shown through their Google event
+  const shown = new Set<string>();
+
+  for (const event of gcalEvents) {
+    if (event.status === "cancelled") continue;
+    const seriesId = event.recurringEventId;
+    const mapping = byGcalId.get(event.id) ?? (seriesId ? byGcalId.get(seriesId) : undefined);
+    if (mapping) {
+      shown.add(mapping.notionPageId);
+    }
+    entries.push(
+      toEntry(event, {
+        status: mapping
+          ? linkStatus(mapping, notionById.get(mapping.notionPageId), seriesId ? undefined : event)
+          : "gcal_only",
+        notionPageId: mapping?.notionPageId,
+        gcalEventId: event.id,
+        calendarId: event.calendarId,
+        ...(seriesId && { recurringEventId: seriesId }),
+      }),
+    );
+  }
+
+  for (const event of notionEvents) {
+    if (shown.has(event.id) || event.status === "cancelled") continue;
+    const mapping = byNotionId.get(event.id);
+    entries.push(
+      toEntry(event, {
+        status: mapping ? linkStatus(mapping, event) : "notion_only",
+        notionPageId: event.id,
+        gcalEventId: mapping?.gcalEventId,
+        calendarId: mapping?.calendarId,
+      }),
+    );
+  }
+
+  return entries.sort((a, b) => a.start.localeCompare(b.start));
+}
+
+/**
+ * Why edits made on a side cannot be saved, or null when they can. The sync has to carry
+ * them to the other side, which the direction of the event's calendar (the pair's for events
+ * without one) may not allow; a side that is only synced to is overwritten.
+ */
+export async function readOnlySideError(
+  source: CalendarSide,
+  calendarId?: string,
+): Promise<string | null> {
+  return writeDirectionError(source === "notion" ? "gcal" : "notion", calendarId);
+}
+
+/**
+ * Sides events can be written to: new events by the pair's direction, and the events of
+ * each synced calendar by that calendar's direction
+ */
+export async function getCalendarSources(): Promise<CalendarSources> {
+  const writableSides = async (calendarId?: string) => {
+    const sides: CalendarSide[] = [];
+    for (const side of ["notion", "gcal"] as const) {
+      if (!(await readOnlySideError(side, calendarId))) {
+        sides.push(side);
+      }
+    }
+    return sides;
+  };
+
+  const { calendars } = await getGoogleConfig();
+  const byCalendar: Record<string, CalendarSide[]> = {};
+  for (const calendar of calendars) {
+    byCalendar[calendar.calendarId] = await writableSides(calendar.calendarId);
+  }
+  return { newEvents: await writableSides(), calendars: byCalendar };
+}
+
+/**
+ * Create an event on one side and queue its sync to the other
+ *
+ * @param calendarId - Google Calendar to create the event in (the default calendar when unset)
+ * @returns ID of the new Notion page or Google event
+ */
+export async function createCalendarEvent(
+  source: "notion" | "gcal",
+  fields: CalendarEventFields,
+  calendarId?: string,
+): Promise<string> {
+  const event: Event = { id: "", ...fields };
+  if (source === "notion") {
+    const timeZone = await getCalendarTimeZone(calendarId);
+    const notionPageId = await createNotionEvent(event, timeZone);
+    await enqueueSyncJob({ type: "notion_upsert", notionPageId, webhookEventType: "page.created" });
+    return notionPageId;
+  }
+  const gcalEventId = await createGcalEvent(event, calendarId);
+  await enqueueSyncJob({
+    type: "gcal_upsert",
+    gcalEventId,
+    calendarId,
+    webhookEventType: "exists",
+  });
+  return gcalEventId;
+}
+
+/**
+ * Update an event on one side and queue its sync to the other
+ *
+ * @param id - Notion page ID or Google event ID, by source
+ * @param calendarId - Google Calendar holding the event (the default calendar when unset)
+ */
+export async function updateCalendarEvent(
+  source: "notion" | "gcal",
+  id: string,
+  changes: Partial<CalendarEventFields>,
+  calendarId?: string,
+): Promise<void> {
+  if (source === "notion") {
+    const timeZone = await getCalendarTimeZone(calendarId);
+    await updateNotionEvent(id, changes, timeZone);
+    await enqueueSyncJob({
+      type: "notion_upsert",
+      notionPageId: id,
+      webhookEventType: "page.properties_updated",
+    });
+    return;
+  }
+  await updateGcalEvent(id, changes, calendarId);
+  await enqueueSyncJob({
+    type: "gcal_upsert",
+    gcalEventId: id,
+    calendarId,
+    webhookEventType: "exists",
+  });
+}
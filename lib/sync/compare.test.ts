@@ -0,0 +1,261 @@
+import type { Event } from "@/lib/types";
+import { beforeEach, describe, expect, test, vi } from "vitest";
+
+vi.mock("@/lib/google-calendar/client", () => ({
+  getCalendarTimeZone: vi.fn(async () => "Europe/Berlin"),
+  getGcalEvent: vi.fn(),
+  updateGcalEvent: vi.fn(),
+}));
+
+vi.mock("@/lib/notion/client", () => ({
+  getNotionEvent: vi.fn(),
+  updateNotionEvent: vi.fn(),
+}));
+
+vi.mock("@/lib/settings", () => ({
+  getGoogleConfig: vi.fn(),
+  getSyncDirection: vi.fn(async () => "bidirectional"),
+}));
+
+vi.mock("@/lib/sync/logger", () => ({
+  logSync: vi.fn(),
+}));
+
+vi.mock("@/lib/sync/mapping", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/sync/mapping")>()),
+  deleteMappingByNotionId: vi.fn(),
+  getMappingByGcalId: vi.fn(),
+  getMappingByNotionId: vi.fn(),
+  saveMapping: vi.fn(),
+}));
+
+import { getGcalEvent, updateGcalEvent } from "@/lib/google-calendar/client";
+import { getNotionEvent, updateNotionEvent } from "@/lib/notion/client";
+import { getGoogleConfig, getSyncDirection } from "@/lib/settings";
+import { logSync } from "@/lib/sync/logger";
+import {
+  deleteMappingByNotionId,
+  getMappingByGcalId,
+  getMappingByNotionId,
+  hashEvent,
+  saveMapping,
+} from "@/lib/sync/mapping";
+import {
+  compareEvent,
+  copyDirectionError,
+  copyEventSide,
+  relinkEvent,
+  unlinkEvent,
+} from "./compare";
+
+const PAGE_ID = "0f3c2b9a-1d4e-4f60-8a7b-2c9d1e0f3a4b";
+const OTHER_PAGE_ID = "9a8b7c6d-5e4f-4a3b-9c2d-1e0f9a8b7c6d";
+
+const notionEvent: Event = {
+  id: PAGE_ID,
+  title: "Planning",
+  startTime: new Date("2026-03-03T09:00:00.000Z"),
+  endTime: new Date("2026-03-03T10:00:00.000Z"),
+  location: "Room 4",
+};
+
+const gcalEvent: Event = {
+  ...notionEvent,
+  id: "gcal1",
+  location: "Room 5",
+  calendarId: "work",
+};
+
+const mapping = {
+  notionPageId: PAGE_ID,
+  gcalEventId: "gcal1",
+  calendarId: "work",
+  createdAt: "2026-03-01T00:00:00.000Z",
+  updatedAt: "2026-03-01T00:00:00.000Z",
+  lastSyncedAt: "2026-03-01T00:00:00.000Z",
+};
+
+const googleConfig = {
+  calendarId: "primary",
+  calendars: [
+    { calendarId: "primary", name: "Primary", direction: "bidirectional" as const },
+    { calendarId: "work", name: "Work", direction: "bidirectional" as const },
+  ],
+} as Awaited<ReturnType<typeof getGoogleConfig>>;
+
+const readOnlyWork = {
+  ...googleConfig,
+  calendars: [{ calendarId: "work", name: "Work", direction: "gcal_to_notion" as const }],
+};
+
+describe("compare", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getGoogleConfig).mockResolvedValue(googleConfig);
+    vi.mocked(getMappingByNotionId).mockImplementation(async (id) =>
+      id === PAGE_ID ? mapping : null,
+    );
+    vi.mocked(getMappingByGcalId).mockImplementation(async (id) =>
+      id === "gcal1" ? mapping : null,
+    );
+    vi.mocked(getNotionEvent).mockResolvedValue(notionEvent);
+    vi.mocked(getGcalEvent).mockImplementation(async (id, calendarId) =>
+      id === "gcal1" && calendarId === "work" ? gcalEvent : null,
+    );
+  });
+
+  describe("compareEvent", () => {
+    test("reads both sides of a linked event and lists the drifted fields", async () => {
+      const comparison = await compareEvent("gcal1");
+
+      expect(getGcalEvent).toHaveBeenCalledWith("gcal1", "work");
+      expect(comparison).toMatchObject({
+        linked: true,
+        calendarId: "work",
+        notion: { id: PAGE_ID, snapshot: { location: "Room 4" } },
+        gcal: { id: "gcal1", snapshot: { location: "Room 5" } },
+        changes: [{ property: "location", type: "changed", before: "Room 4", after: "Room 5" }],
+      });
+    });
+
+    test("reports a side that cannot be read without failing", async () => {
+      vi.mocked(getNotionEvent).mockRejectedValue(new Error("Could not find page"));
+
+      const comparison = await compareEvent(PAGE_ID);
+
+      expect(comparison?.notion).toEqual({
+        id: PAGE_ID,
+        snapshot: null,
+        error: "Could not find page",
+      });
+      expect(comparison?.changes).toEqual([]);
+    });
+
+    test("looks an unlinked Google event up in every synced calendar", async () => {
+      vi.mocked(getMappingByGcalId).mockResolvedValue(null);
+
+      const comparison = await compareEvent("gcal1");
+
+      expect(getGcalEvent).toHaveBeenCalledWith("gcal1", "primary");
+      expect(comparison).toMatchObject({ linked: false, calendarId: "work", notion: null });
+    });
+
+    test("returns null for an unknown unlinked event", async () => {
+      expect(await compareEvent("missing")).toBeNull();
+    });
+  });
+
+  describe("copyEventSide", () => {
+    test("pushes the Notion values to Google and records them as synced", async () => {
+      expect(await copyEventSide(PAGE_ID, "notion")).toBe(true);
+
+      expect(updateGcalEvent).toHaveBeenCalledWith(
+        "gcal1",
+        expect.objectContaining({ location: "Room 4", notionPageId: PAGE_ID }),
+        "work",
+      );
+      expect(saveMapping).toHaveBeenCalledWith(
+        expect.objectContaining({
+          notionHash: hashEvent(notionEvent),
+          gcalHash: hashEvent(notionEvent),
+        }),
+      );
+      expect(logSync).toHaveBeenCalledWith(
+        expect.objectContaining({ direction: "notion_to_gcal", manualAction: "push" }),
+      );
+    });
+
+    test("pulls the Google values into Notion in the calendar time zone", async () => {
+      expect(await copyEventSide(PAGE_ID, "gcal")).toBe(true);
+
+      expect(updateNotionEvent).toHaveBeenCalledWith(
+        PAGE_ID,
+        expect.objectContaining({ location: "Room 5", gcalEventId: "gcal1" }),
+        "Europe/Berlin",
+      );
+    });
+
+    test("does nothing for an unlinked event", async () => {
+      expect(await copyEventSide(OTHER_PAGE_ID, "notion")).toBe(false);
+      expect(updateGcalEvent).not.toHaveBeenCalled();
+    });
+
+    test("refuses to copy against the direction of the event's calendar", async () => {
+      vi.mocked(getGoogleConfig).mockResolvedValue(readOnlyWork);
+      expect(await copyDirectionError(PAGE_ID, "notion")).toMatch(/Google → Notion/);
+      expect(await copyDirectionError(PAGE_ID, "gcal")).toBeNull();
+
+      vi.mocked(getGoogleConfig).mockResolvedValue({ ...readOnlyWork, calendars: [] });
+      expect(await copyDirectionError(PAGE_ID, "gcal")).toMatch(/does not sync/);
+    });
+
+    test("follows the pair direction for an unlinked event", async () => {
+      vi.mocked(getSyncDirection).mockResolvedValueOnce("notion_to_gcal");
+      expect(await copyDirectionError(OTHER_PAGE_ID, "gcal")).toMatch(/Notion → Google/);
+    });
+  });
+
+  test("unlinking clears the IDs on both sides and the mapping", async () => {
+    expect(await unlinkEvent("gcal1")).toBe(true);
+
+    expect(updateNotionEvent).toHaveBeenCalledWith(PAGE_ID, { gcalEventId: "" });
+    expect(updateGcalEvent).toHaveBeenCalledWith("gcal1", { notionPageId: "" }, "work");
+    expect(deleteMappingByNotionId).toHaveBeenCalledWith(PAGE_ID);
+    expect(logSync).toHaveBeenCalledWith(
+      expect.objectContaining({ direction: "gcal_to_notion", manualAction: "unlink" }),
+    );
+  });
+
+  test("unlinking leaves a Google event in a read-only calendar as it is", async () => {
+    vi.mocked(getGoogleConfig).mockResolvedValue(readOnlyWork);
+
+    expect(await unlinkEvent("gcal1")).toBe(true);
+
+    expect(updateNotionEvent).toHaveBeenCalledWith(PAGE_ID, { gcalEventId: "" });
+    expect(updateGcalEvent).not.toHaveBeenCalled();
+    expect(deleteMappingByNotionId).toHaveBeenCalledWith(PAGE_ID);
+  });
+
+  test("relinking to a page URL unlinks the old pair and links the new one", async () => {
+    const url = `https://www.notion.so/team/Planning-${OTHER_PAGE_ID.replace(/-/g, "")}?pvs=4`;
+
+    await relinkEvent("gcal1", url);
+
+    expect(getNotionEvent).toHaveBeenCalledWith(OTHER_PAGE_ID);
+    expect(deleteMappingByNotionId).toHaveBeenCalledWith(PAGE_ID);
+    expect(updateNotionEvent).toHaveBeenCalledWith(
+      OTHER_PAGE_ID,
+      { gcalEventId: "gcal1" },
+      "Europe/Berlin",
+    );
+    expect(updateGcalEvent).toHaveBeenCalledWith("gcal1", { notionPageId: OTHER_PAGE_ID }, "work");
+    expect(saveMapping).toHaveBeenCalledWith({
+      notionPageId: OTHER_PAGE_ID,
+      gcalEventId: "gcal1",
+      calendarId: "work",
+      notionHash: hashEvent(notionEvent),
+      gcalHash: hashEvent(gcalEvent),
+    });
+    expect(logSync).toHaveBeenCalledWith(expect.objectContaining({ manualAction: "relink" }));
+  });
+
+  test("relinking in a read-only calendar links through the mapping store alone", async () => {
+    vi.mocked(getGoogleConfig).mockResolvedValue(readOnlyWork);
+
+    await relinkEvent("gcal1", OTHER_PAGE_ID);
+
+    expect(updateGcalEvent).not.toHaveBeenCalled();
+    expect(saveMapping).toHaveBeenCalledWith(
+      expect.objectContaining({ notionPageId: OTHER_PAGE_ID, gcalEventId: "gcal1" }),
+    );
+  });
+
+  test("refuses to relink a read-only Google event that holds another link", async () => {
+    vi.mocked(getGoogleConfig).mockResolvedValue(readOnlyWork);
+    vi.mocked(getGcalEvent).mockResolvedValue({ ...gcalEvent, notionPageId: PAGE_ID });
+
+    await expect(relinkEvent("gcal1", OTHER_PAGE_ID)).rejects.toThrow(/read-only/);
+    expect(updateNotionEvent).not.toHaveBeenCalled();
+    expect(saveMapping).not.toHaveBeenCalled();
+  });
+});
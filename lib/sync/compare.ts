@@ -0,0 +1,376 @@
+/**
+ * Side-by-side view of one event: the live Notion page and Google event it is linked to,
+ * with the fields that drifted apart, plus manual fixes for pairs the sync got wrong.
+ *
+ * Pushing or pulling copies every synced field of one side over the other, bypassing the
+ * three-way merge. Unlinking clears the stored mapping and the ID properties on both sides,
+ * after which the engine treats each event as new. Relinking unlinks both events first.
+ * Calendars that only sync Google → Notion keep their link in the mapping store alone, so
+ * neither touches the Google event there.
+ */
+import { type PropertyChange, computeDiff } from "@/lib/events/diff";
+import { getCalendarTimeZone, getGcalEvent, updateGcalEvent } from "@/lib/google-calendar/client";
+import { getNotionEvent, updateNotionEvent } from "@/lib/notion/client";
+import { getGoogleConfig, getSyncDirection } from "@/lib/settings";
+import { logSync } from "@/lib/sync/logger";
+import {
+  type EventMapping,
+  type EventSnapshot,
+  deleteMappingByNotionId,
+  getMappingByGcalId,
+  getMappingByNotionId,
+  hashEvent,
+  saveMapping,
+  toSnapshot,
+} from "@/lib/sync/mapping";
+import type { Event } from "@/lib/types";
+import type { SyncDirection } from "@/lib/validation";
+
+// Notion page IDs are dashed UUIDs; Google event IDs never contain dashes
+const NOTION_PAGE_ID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export type EventSideName = "notion" | "gcal";
+
+export interface EventSide {
+  id: string;
+  snapshot: EventSnapshot | null; // Synced field values; null when the event could not be read
+  error?: string;
+}
+
+export interface EventComparison {
+  linked: boolean;
+  calendarId?: string; // Google Calendar holding the event
+  lastSyncedAt?: string;
+  notion: EventSide | null;
+  gcal: EventSide | null;
+  changes: PropertyChange[]; // Notion values as before, Google values as after
+}
+
+interface EventPair {
+  mapping: EventMapping | null;
+  notionPageId?: string;
+  gcalEventId?: string;
+}
+
+/**
+ * Resolve the pair an event ID belongs to; an unlinked ID is read as a Notion page or
+ * Google event by its format
+ */
+async function resolvePair(eventId: string): Promise<EventPair> {
+  const mapping = (await getMappingByNotionId(eventId)) ?? (await getMappingByGcalId(eventId));
+  if (mapping) {
+    return { mapping, notionPageId: mapping.notionPageId, gcalEventId: mapping.gcalEventId };
+  }
+  return NOTION_PAGE_ID.test(eventId)
+    ? { mapping: null, notionPageId: eventId }
+    : { mapping: null, gcalEventId: eventId };
+}
+
+/**
+ * Find an unlinked Google event in any of the synced calendars
+ */
+async function findGcalEvent(gcalEventId: string): Promise<Event | null> {
+  const { calendars } = await getGoogleConfig();
+  for (const { calendarId } of calendars) {
+    try {
+      const event = await getGcalEvent(gcalEventId, calendarId);
+      if (event) return event;
+    } catch {
+      // Not in this calendar
+    }
+  }
+  return null;
+}
+
+async function readSide(
+  id: string,
+  read: () => Promise<Event | null>,
+): Promise<{ side: EventSide; event: Event | null }> {
+  try {
+    const event = await read();
+    return { side: { id, snapshot: event && toSnapshot(event) }, event };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return { side: { id, snapshot: null, error: message }, event: null };
+  }
+}
+
+/**
+ * Read both sides of an event and compare their synced fields
+ *
+ * @param eventId - Notion page ID or Google event ID
+ * @returns null when the event is unlinked and could not be found
+ */
+export async function compareEvent(eventId: string): Promise<EventComparison | null> {
+  const { mapping, notionPageId, gcalEventId } = await resolvePair(eventId);
+  const [notion, gcal] = await Promise.all([
+    notionPageId ? readSide(notionPageId, () => getNotionEvent(notionPageId)) : null,
+    gcalEventId
+      ? readSide(gcalEventId, () =>
+          mapping ? getGcalEvent(gcalEventId, mapping.calendarId) : findGcalEvent(gcalEventId),
+        )
+      : null,
+  ]);
+
+  if (!mapping && !notion?.event && !gcal?.event) {
+    return null;
+  }
+
+  const notionSnapshot = notion?.side.snapshot;
+  const gcalSnapshot = gcal?.side.snapshot;
+  return {
+    linked: mapping !== null,
+    calendarId: mapping?.calendarId ?? gcal?.event?.calendarId,
+    lastSyncedAt: mapping?.lastSyncedAt,
+    notion: notion?.side ?? null,
+    gcal: gcal?.side ?? null,
+    changes: notionSnapshot && gcalSnapshot ? computeDiff(notionSnapshot, gcalSnapshot) : [],
+  };
+}
+
+/**
+ * Direction a calendar syncs in under the active pair; null when the pair leaves it out.
+ * Unlinked events without a calendar follow the pair.
+ */
+async function calendarDirection(calendarId?: string): Promise<SyncDirection | null> {
+  if (!calendarId) {
+    return getSyncDirection();
+  }
+  const { calendars } = await getGoogleConfig();
+  return calendars.find((cal) => cal.calendarId === calendarId)?.direction ?? null;
+}
+
+function writesToGcal(direction: SyncDirection | null): boolean {
+  return direction === "bidirectional" || direction === "notion_to_gcal";
+}
+
+/**
+ * Reason writing to a side is not allowed by the sync direction, if any
+ *
+ * @param calendarId - Google Calendar of the event; without one the pair's direction applies
+ */
+export async function writeDirectionError(
+  to: EventSideName,
+  calendarId?: string,
+): Promise<string | null> {
+  const direction = await calendarDirection(calendarId);
+  const syncing = calendarId ? "This calendar only syncs" : "This sync pair only syncs";
+  if (!direction) {
+    return "This sync pair does not sync the event's calendar";
+  }
+  if (to === "gcal" && direction === "gcal_to_notion") {
+    return `${syncing} Google → Notion`;
+  }
+  if (to === "notion" && direction === "notion_to_gcal") {
+    return `${syncing} Notion → Google`;
+  }
+  return null;
+}
+
+/**
+ * Reason copying from a side of an event is not allowed by the sync direction of its
+ * calendar, if any
+ */
+export async function copyDirectionError(
+  eventId: string,
+  from: EventSideName,
+): Promise<string | null> {
+  const { mapping } = await resolvePair(eventId);
+  return writeDirectionError(from === "notion" ? "gcal" : "notion", mapping?.calendarId);
+}
+
+/**
+ * Overwrite the other side of a linked event with every synced field of one side
+ *
+ * @param from - Side whose values are kept
+ * @returns false if the event is not linked
+ */
+export async function copyEventSide(eventId: string, from: EventSideName): Promise<boolean> {
+  const { mapping } = await resolvePair(eventId);
+  if (!mapping) {
+    return false;
+  }
+  const { notionPageId, gcalEventId, calendarId } = mapping;
+
+  const source =
+    from === "notion"
+      ? await getNotionEvent(notionPageId)
+      : await getGcalEvent(gcalEventId, calendarId);
+  if (!source) {
+    throw new Error(`${from === "notion" ? "Notion page" : "Google event"} not found`);
+  }
+
+  // The same fields a full update of the engine writes
+  const fields: Partial<Event> = {
+    title: source.title,
+    description: source.description,
+    startTime: source.startTime,
+    endTime: source.endTime,
+    allDay: source.allDay,
+    location: source.location,
+    rrule: source.rrule,
+    reminders: source.reminders,
+    useDefaultReminders: source.useDefaultReminders,
+    custom: source.custom,
+  };
+  if (from === "notion") {
+    await updateGcalEvent(
+      gcalEventId,
+      { ...fields, ...(source.attendees?.length && { attendees: source.attendees }), notionPageId },
+      calendarId,
+    );
+  } else {
+    const timeZone = await getCalendarTimeZone(calendarId);
+    await updateNotionEvent(
+      notionPageId,
+      {
+        ...fields,
+        recurrence: source.recurrence,
+        attendees: source.attendees ?? [],
+        status: source.status,
+        gcalEventId,
+      },
+      timeZone,
+    );
+  }
+
+  // Both sides now hold the copied values
+  const hash = hashEvent(source);
+  await saveMapping({
+    notionPageId,
+    gcalEventId,
+    calendarId,
+    notionHash: hash,
+    gcalHash: hash,
+    snapshot: toSnapshot(source),
+  });
+
+  await logSync({
+    direction: from === "notion" ? "notion_to_gcal" : "gcal_to_notion",
+    operation: "update",
+    eventId: source.id,
+    eventTitle: source.title,
+    status: "success",
+    notionPageId,
+    gcalEventId,
+    manualAction: from === "notion" ? "push" : "pull",
+  });
+  return true;
+}
+
+/**
+ * Clear a link everywhere it is stored, so neither side finds its old counterpart
+ */
+async function clearLink(mapping: EventMapping): Promise<void> {
+  await updateNotionEvent(mapping.notionPageId, { gcalEventId: "" });
+  if (writesToGcal(await calendarDirection(mapping.calendarId))) {
+    await updateGcalEvent(mapping.gcalEventId, { notionPageId: "" }, mapping.calendarId);
+  }
+  await deleteMappingByNotionId(mapping.notionPageId);
+}
+
+/**
+ * Unlink an event from its counterpart
+ *
+ * @returns false if the event is not linked
+ */
+export async function unlinkEvent(eventId: string): Promise<boolean> {
+  const { mapping } = await resolvePair(eventId);
+  if (!mapping) {
+    return false;
+  }
+  await clearLink(mapping);
+
+  await logSync({
+    direction: mapping.notionPageId === eventId ? "notion_to_gcal" : "gcal_to_notion",
+    operation: "update",
+    eventId,
+    eventTitle: mapping.snapshot?.title ?? "",
+    status: "success",
+    notionPageId: mapping.notionPageId,
+    gcalEventId: mapping.gcalEventId,
+    manualAction: "unlink",
+  });
+  return true;
+}
+
+// A page ID, dashed or not; page URLs end in one, a peeked page sits in the last one
+const NOTION_ID_IN_TEXT =
+  /(?<![0-9a-f])[0-9a-f]{8}(?:-?[0-9a-f]{4}){3}-?[0-9a-f]{12}(?![0-9a-f])/gi;
+
+/**
+ * Read a Notion page ID from an ID or page URL, dashed as the API returns it
+ */
+function toNotionPageId(value: string): string | null {
+  const hex = value.match(NOTION_ID_IN_TEXT)?.at(-1)?.replace(/-/g, "").toLowerCase();
+  if (!hex) return null;
+  const parts = [hex.slice(0, 8), hex.slice(8, 12), hex.slice(12, 16), hex.slice(16, 20)];
+  return [...parts, hex.slice(20)].join("-");
+}
+
+/**
+ * Link an event to a different counterpart, unlinking both from their current ones.
+ * The new pair keeps its current values; the comparison shows any drift to push or pull.
+ *
+ * @param targetId - Google event ID for a Notion page, else Notion page ID or URL
+ * @throws When either event cannot be found
+ */
+export async function relinkEvent(eventId: string, targetId: string): Promise<void> {
+  const pair = await resolvePair(eventId);
+  const fromNotion = pair.notionPageId === eventId;
+  const notionPageId = fromNotion ? eventId : toNotionPageId(targetId.trim());
+  const gcalEventId = fromNotion ? targetId.trim() : eventId;
+  if (!notionPageId) {
+    throw new Error("Enter a Notion page ID or URL");
+  }
+
+  const [notion, gcal] = await Promise.all([
+    getNotionEvent(notionPageId),
+    findGcalEvent(gcalEventId),
+  ]);
+  if (!notion) throw new Error("Notion page not found");
+  if (!gcal) throw new Error("Google event not found in the synced calendars");
+
+  // A link stored on a Google event that is never written to would win over the mapping
+  const writeGcal = writesToGcal(await calendarDirection(gcal.calendarId));
+  if (!writeGcal && gcal.notionPageId && gcal.notionPageId !== notionPageId) {
+    throw new Error("The Google event is linked to another page and its calendar is read-only");
+  }
+
+  // Either event may be linked elsewhere, or both to each other
+  const current = new Map<string, EventMapping>();
+  for (const mapping of [
+    await getMappingByNotionId(notionPageId),
+    await getMappingByGcalId(gcalEventId),
+  ]) {
+    if (mapping) current.set(mapping.notionPageId, mapping);
+  }
+  for (const mapping of current.values()) {
+    await clearLink(mapping);
+  }
+
+  const timeZone = await getCalendarTimeZone(gcal.calendarId);
+  await updateNotionEvent(notionPageId, { gcalEventId }, timeZone);
+  if (writeGcal) {
+    await updateGcalEvent(gcalEventId, { notionPageId }, gcal.calendarId);
+  }
+  // No snapshot: the next change is copied over in full instead of merged
+  await saveMapping({
+    notionPageId,
+    gcalEventId,
+    calendarId: gcal.calendarId,
+    notionHash: hashEvent(notion),
+    gcalHash: hashEvent(gcal),
+  });
+
+  await logSync({
+    direction: fromNotion ? "notion_to_gcal" : "gcal_to_notion",
+    operation: "update",
+    eventId,
+    eventTitle: notion.title,
+    status: "success",
+    notionPageId,
+    gcalEventId,
+    manualAction: "relink",
+  });
+}
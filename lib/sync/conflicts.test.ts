@@ -0,0 +1,286 @@
+/**
+ * Tests for the three-way field merge used during bidirectional sync
+ */
+import { describe, expect, test, vi } from "vitest";
+
+vi.mock("@/lib/redis", () => ({ getRedis: vi.fn(() => null) }));
+vi.mock("@/lib/google-calendar/client", () => ({
+  getCalendarTimeZone: vi.fn(async () => "UTC"),
+  updateGcalEvent: vi.fn(),
+}));
+vi.mock("@/lib/notion/client", () => ({ updateNotionEvent: vi.fn() }));
+vi.mock("@/lib/sync/logger", () => ({ logSync: vi.fn() }));
+
+import type { ConflictPolicy, ExtendedFieldMapping } from "@/lib/settings/types";
+import { DEFAULT_EXTENDED_FIELD_MAPPING } from "@/lib/settings/types";
+import { mergeEvents } from "@/lib/sync/conflicts";
+import { toSnapshot } from "@/lib/sync/mapping";
+import type { Event } from "@/lib/types";
+
+const baseEvent: Event = {
+  id: "page-1",
+  title: "Standup",
+  description: "Daily sync",
+  location: "Room 1",
+  startTime: new Date("2026-03-02T09:00:00.000Z"),
+  endTime: new Date("2026-03-02T09:15:00.000Z"),
+  reminders: [{ method: "popup", minutes: 10 }],
+};
+
+function withPolicy(field: keyof ExtendedFieldMapping, policy: ConflictPolicy) {
+  return {
+    ...DEFAULT_EXTENDED_FIELD_MAPPING,
+    [field]: { ...DEFAULT_EXTENDED_FIELD_MAPPING[field], conflictPolicy: policy },
+  };
+}
+
+describe("mergeEvents", () => {
+  const base = toSnapshot(baseEvent);
+
+  test("copies a one-sided change to the other side", () => {
+    const result = mergeEvents({
+      notion: { ...baseEvent, title: "Standup (moved)" },
+      gcal: { ...baseEvent, location: "Room 2" },
+      base,
+      fieldMapping: DEFAULT_EXTENDED_FIELD_MAPPING,
+      source: "notion",
+    });
+
+    expect(result.gcalUpdates).toEqual({ title: "Standup (moved)" });
+    expect(result.notionUpdates).toEqual({ location: "Room 2" });
+    expect(result.conflicts).toEqual([]);
+    expect(result.snapshot.title).toBe("Standup (moved)");
+    expect(result.snapshot.location).toBe("Room 2");
+    expect(result.notionResult).toEqual(result.gcalResult);
+  });
+
+  test("produces no updates when nothing changed", () => {
+    const result = mergeEvents({
+      notion: baseEvent,
+      gcal: baseEvent,
+      base,
+      fieldMapping: DEFAULT_EXTENDED_FIELD_MAPPING,
+      source: "gcal",
+    });
+
+    expect(result.gcalUpdates).toEqual({});
+    expect(result.notionUpdates).toEqual({});
+    expect(result.snapshot).toEqual(base);
+  });
+
+  test("merges start and end as a single date field", () => {
+    const startTime = new Date("2026-03-02T10:00:00.000Z");
+    const endTime = new Date("2026-03-02T10:15:00.000Z");
+    const result = mergeEvents({
+      notion: baseEvent,
+      gcal: { ...baseEvent, startTime, endTime },
+      base,
+      fieldMapping: DEFAULT_EXTENDED_FIELD_MAPPING,
+      source: "gcal",
+    });
+
+    expect(result.notionUpdates).toEqual({ startTime, endTime, allDay: false });
+  });
+
+  test("copies a Notion edit of a series' rule with its exception dates", () => {
+    const series = { ...baseEvent, rrule: ["RRULE:FREQ=WEEKLY;BYDAY=MO"] };
+    const rrule = ["RRULE:FREQ=WEEKLY;BYDAY=MO", "EXDATE:20260309T090000Z"];
+    const result = mergeEvents({
+      notion: { ...series, rrule },
+      gcal: series,
+      base: toSnapshot(series),
+      fieldMapping: {
+        ...DEFAULT_EXTENDED_FIELD_MAPPING,
+        rrule: { ...DEFAULT_EXTENDED_FIELD_MAPPING.rrule, enabled: true },
+      },
+      source: "notion",
+    });
+
+    expect(result.gcalUpdates).toEqual({ rrule });
+    expect(result.snapshot.rrule).toBe(rrule.join("\n"));
+  });
+
+  test("copies a guest added in Google Calendar with their name and response", () => {
+    const ana = { email: "ana@example.com", name: "Ana", responseStatus: "accepted" as const };
+    const meeting = { ...baseEvent, attendees: [{ email: "bo@example.com" }] };
+    const result = mergeEvents({
+      notion: meeting,
+      gcal: { ...meeting, attendees: [{ email: "BO@example.com" }, ana] },
+      base: toSnapshot(meeting),
+      fieldMapping: {
+        ...DEFAULT_EXTENDED_FIELD_MAPPING,
+        attendees: { ...DEFAULT_EXTENDED_FIELD_MAPPING.attendees, enabled: true },
+      },
+      source: "gcal",
+    });
+
+    expect(result.notionUpdates).toEqual({ attendees: [ana, { email: "BO@example.com" }] });
+    expect(result.snapshot.attendees).toBe("ana@example.com\nbo@example.com");
+  });
+
+  test("merges custom mapping values, copying read-only paths from Google only", () => {
+    const customMappings = [
+      {
+        id: "project",
+        enabled: true,
+        gcalPath: "extendedProperties.shared.project",
+        notionPropertyName: "Project",
+        propertyType: "rich_text" as const,
+      },
+      {
+        id: "link",
+        enabled: true,
+        gcalPath: "htmlLink",
+        notionPropertyName: "Link",
+        propertyType: "url" as const,
+      },
+    ];
+    const custom = { project: "Apollo", link: "https://calendar.google.com/1" };
+    const result = mergeEvents({
+      notion: { ...baseEvent, custom: { project: "Gemini", link: "https://example.com" } },
+      gcal: { ...baseEvent, custom },
+      base: toSnapshot({ ...baseEvent, custom }),
+      fieldMapping: DEFAULT_EXTENDED_FIELD_MAPPING,
+      customMappings,
+      source: "notion",
+    });
+
+    expect(result.gcalUpdates).toEqual({ custom: { project: "Gemini" } });
+    expect(result.notionUpdates).toEqual({});
+    expect(result.snapshot.custom).toEqual({ link: custom.link, project: "Gemini" });
+  });
+
+  test("copies status changes from Google Calendar only", () => {
+    const fieldMapping = {
+      ...DEFAULT_EXTENDED_FIELD_MAPPING,
+      status: { ...DEFAULT_EXTENDED_FIELD_MAPPING.status, enabled: true },
+    };
+    const fromGcal = mergeEvents({
+      notion: baseEvent,
+      gcal: { ...baseEvent, status: "tentative" },
+      base,
+      fieldMapping,
+      source: "gcal",
+    });
+    const fromNotion = mergeEvents({
+      notion: { ...baseEvent, status: "cancelled" },
+      gcal: baseEvent,
+      base,
+      fieldMapping,
+      source: "notion",
+    });
+
+    expect(fromGcal.notionUpdates).toEqual({ status: "tentative" });
+    expect(fromGcal.snapshot.status).toBe("tentative");
+    expect(fromNotion.gcalUpdates).toEqual({});
+    expect(fromNotion.conflicts).toEqual([]);
+  });
+
+  test("leaves single events' snapshots without a rule", () => {
+    expect(toSnapshot(baseEvent)).not.toHaveProperty("rrule");
+  });
+
+  test("carries the all-day flag with a merged date", () => {
+    const startTime = new Date("2026-03-02T00:00:00.000Z");
+    const endTime = new Date("2026-03-04T00:00:00.000Z");
+    const result = mergeEvents({
+      notion: { ...baseEvent, startTime, endTime, allDay: true },
+      gcal: baseEvent,
+      base,
+      fieldMapping: DEFAULT_EXTENDED_FIELD_MAPPING,
+      source: "notion",
+    });
+
+    expect(result.gcalUpdates).toEqual({ startTime, endTime, allDay: true });
+    expect(result.snapshot.startTime).toBe("2026-03-02");
+  });
+
+  test("newest_wins keeps the most recently edited side", () => {
+    const result = mergeEvents({
+      notion: {
+        ...baseEvent,
+        title: "Notion title",
+        updatedAt: new Date("2026-03-01T12:00:00.000Z"),
+      },
+      gcal: { ...baseEvent, title: "Google title", updatedAt: new Date("2026-03-01T13:00:00.000Z") },
+      base,
+      fieldMapping: DEFAULT_EXTENDED_FIELD_MAPPING,
+      source: "notion",
+    });
+
+    expect(result.notionUpdates).toEqual({ title: "Google title" });
+    expect(result.gcalUpdates).toEqual({});
+  });
+
+  test("newest_wins falls back to the source side without timestamps", () => {
+    const result = mergeEvents({
+      notion: { ...baseEvent, title: "Notion title" },
+      gcal: { ...baseEvent, title: "Google title" },
+      base,
+      fieldMapping: DEFAULT_EXTENDED_FIELD_MAPPING,
+      source: "notion",
+    });
+
+    expect(result.gcalUpdates).toEqual({ title: "Notion title" });
+  });
+
+  test("notion_wins and gcal_wins ignore timestamps", () => {
+    const notion = { ...baseEvent, description: "From Notion", updatedAt: new Date(0) };
+    const gcal = { ...baseEvent, description: "From Google", updatedAt: new Date() };
+
+    const notionWins = mergeEvents({
+      notion,
+      gcal,
+      base,
+      fieldMapping: withPolicy("description", "notion_wins"),
+      source: "gcal",
+    });
+    expect(notionWins.gcalUpdates).toEqual({ description: "From Notion" });
+
+    const gcalWins = mergeEvents({
+      notion,
+      gcal,
+      base,
+      fieldMapping: withPolicy("description", "gcal_wins"),
+      source: "notion",
+    });
+    expect(gcalWins.notionUpdates).toEqual({ description: "From Google" });
+  });
+
+  test("manual policy queues the conflict and keeps the old base", () => {
+    const result = mergeEvents({
+      notion: { ...baseEvent, title: "Notion title", location: "Room 3" },
+      gcal: { ...baseEvent, title: "Google title" },
+      base,
+      fieldMapping: withPolicy("title", "manual"),
+      source: "notion",
+    });
+
+    expect(result.conflicts).toEqual([
+      {
+        field: "title",
+        notionValue: "Notion title",
+        gcalValue: "Google title",
+        baseValue: "Standup",
+      },
+    ]);
+    expect(result.gcalUpdates).toEqual({ location: "Room 3" });
+    expect(result.snapshot.title).toBe("Standup");
+  });
+
+  test("skips disabled optional fields", () => {
+    const fieldMapping = {
+      ...DEFAULT_EXTENDED_FIELD_MAPPING,
+      location: { ...DEFAULT_EXTENDED_FIELD_MAPPING.location, enabled: false },
+    };
+    const result = mergeEvents({
+      notion: baseEvent,
+      gcal: { ...baseEvent, location: "Somewhere else" },
+      base,
+      fieldMapping,
+      source: "gcal",
+    });
+
+    expect(result.notionUpdates).toEqual({});
+  });
+});
@@ -0,0 +1,439 @@
+/**
+ * Field-level conflict resolution for bidirectional sync.
+ *
+ * When both Notion and Google Calendar change between syncs, each field is merged
+ * against the snapshot recorded at the last sync (three-way merge). Fields edited on
+ * both sides are resolved with the per-field ConflictPolicy from the field mapping;
+ * "manual" conflicts are queued in Redis for review on the Activity page.
+ */
+import { parseReminders } from "@/lib/events/reminders";
+import { getCalendarTimeZone, updateGcalEvent } from "@/lib/google-calendar/client";
+import { isWritableGcalPath } from "@/lib/google-calendar/json-path";
+import { updateNotionEvent } from "@/lib/notion/client";
+import { getRedis } from "@/lib/redis";
+import { type ConflictPolicy, DEFAULT_CONFLICT_POLICY, pairScopedKey } from "@/lib/settings";
+import type { CustomFieldMapping, ExtendedFieldMapping } from "@/lib/settings/types";
+import { logSync } from "@/lib/sync/logger";
+import {
+  type EventSnapshot,
+  getMappingByNotionId,
+  normalizeCustomValues,
+  saveMapping,
+  toSnapshot,
+} from "@/lib/sync/mapping";
+import { isDateOnly } from "@/lib/time-zone";
+import type { Event } from "@/lib/types";
+
+// Storage key
+const CONFLICTS_KEY = "sync:conflicts"; // Hash: conflict ID → SyncConflict
+
+/**
+ * Fields that take part in the three-way merge.
+ * Keys match ExtendedFieldMapping so each can carry its own ConflictPolicy.
+ */
+export const MERGE_FIELDS = [
+  "title",
+  "date",
+  "description",
+  "location",
+  "reminders",
+  "rrule",
+  "attendees",
+  "status",
+] as const;
+
+export type MergeField = (typeof MERGE_FIELDS)[number];
+
+type FieldValue = string | number | null;
+
+export interface FieldConflict {
+  field: MergeField;
+  notionValue: FieldValue;
+  gcalValue: FieldValue;
+  baseValue: FieldValue;
+}
+
+export interface SyncConflict extends FieldConflict {
+  id: string;
+  notionPageId: string;
+  gcalEventId: string;
+  eventTitle: string;
+  detectedAt: string;
+}
+
+export interface MergeInput {
+  notion: Event;
+  gcal: Event;
+  base: EventSnapshot;
+  fieldMapping: ExtendedFieldMapping;
+  /** Enabled custom field mappings, merged with the default conflict policy */
+  customMappings?: CustomFieldMapping[];
+  /** Side that triggered the sync; wins "newest_wins" ties when timestamps are missing */
+  source: "notion" | "gcal";
+}
+
+export interface MergeResult {
+  /** Changes to write to Notion */
+  notionUpdates: Partial<Event>;
+  /** Changes to write to Google Calendar */
+  gcalUpdates: Partial<Event>;
+  /** Conflicts left for manual review (neither side is written for these fields) */
+  conflicts: FieldConflict[];
+  /** Snapshot to store as the new common ancestor */
+  snapshot: EventSnapshot;
+  /** Resulting Notion field values once notionUpdates are applied */
+  notionResult: EventSnapshot;
+  /** Resulting Google Calendar field values once gcalUpdates are applied */
+  gcalResult: EventSnapshot;
+}
+
+/**
+ * Read a merge field from a snapshot.
+ * The date field combines start and end so they are merged as one unit.
+ */
+function readField(snapshot: EventSnapshot, field: MergeField): FieldValue {
+  if (field === "date") {
+    return `${snapshot.startTime}/${snapshot.endTime}`;
+  }
+  if (field === "rrule" || field === "attendees") {
+    return snapshot[field] ?? "";
+  }
+  if (field === "status") {
+    return snapshot.status ?? "confirmed";
+  }
+  return snapshot[field];
+}
+
+/**
+ * Write a merge field value into a snapshot
+ */
+function writeField(snapshot: EventSnapshot, field: MergeField, value: FieldValue): void {
+  if (field === "date") {
+    const [startTime, endTime] = String(value).split("/");
+    snapshot.startTime = startTime;
+    snapshot.endTime = endTime;
+  } else if (field === "reminders") {
+    snapshot.reminders = value === "" ? null : value;
+  } else if (field === "status") {
+    if (value === "tentative" || value === "cancelled") {
+      snapshot.status = value;
+    } else {
+      delete snapshot.status;
+    }
+  } else if (field === "rrule" || field === "attendees") {
+    if (value) {
+      snapshot[field] = String(value);
+    } else {
+      delete snapshot[field];
+    }
+  } else {
+    snapshot[field] = typeof value === "string" ? value : "";
+  }
+}
+
+/**
+ * Write a custom mapping value into a snapshot
+ */
+function writeCustomField(snapshot: EventSnapshot, ruleId: string, value: string): void {
+  const custom = normalizeCustomValues({ ...snapshot.custom, [ruleId]: value });
+  if (custom) {
+    snapshot.custom = custom;
+  } else {
+    delete snapshot.custom;
+  }
+}
+
+/**
+ * Convert a merge field value into the Event properties the clients understand
+ *
+ * @param from - Event the value was read from, for details the snapshot leaves out
+ */
+export function fieldToEventUpdate(
+  field: MergeField,
+  value: FieldValue,
+  from?: Event,
+): Partial<Event> {
+  switch (field) {
+    case "date": {
+      const [startTime, endTime] = String(value).split("/");
+      return {
+        startTime: new Date(startTime),
+        endTime: new Date(endTime),
+        allDay: isDateOnly(startTime),
+      };
+    }
+    case "reminders":
+      if (typeof value === "number") {
+        return { reminders: [{ method: "popup", minutes: value }] };
+      }
+      return value ? parseReminders(value) : {};
+    case "rrule":
+      return { rrule: value ? String(value).split("\n") : [] };
+    case "status":
+      return { status: (value || "confirmed") as Event["status"] };
+    case "attendees": {
+      const emails = value ? String(value).split("\n") : [];
+      return {
+        attendees: emails.map(
+          (email) =>
+            from?.attendees?.find((attendee) => attendee.email.toLowerCase() === email) ?? {
+              email,
+            },
+        ),
+      };
+    }
+    default:
+      return { [field]: typeof value === "string" ? value : "" };
+  }
+}
+
+/**
+ * Pick the winning side for a field edited on both sides
+ */
+function resolveByPolicy(
+  policy: ConflictPolicy,
+  notion: Event,
+  gcal: Event,
+  source: "notion" | "gcal",
+): "notion" | "gcal" | "manual" {
+  switch (policy) {
+    case "notion_wins":
+      return "notion";
+    case "gcal_wins":
+      return "gcal";
+    case "manual":
+      return "manual";
+    case "newest_wins": {
+      const notionTime = notion.updatedAt?.getTime();
+      const gcalTime = gcal.updatedAt?.getTime();
+      if (notionTime === undefined || gcalTime === undefined || notionTime === gcalTime) {
+        return source;
+      }
+      return notionTime > gcalTime ? "notion" : "gcal";
+    }
+  }
+}
+
+/**
+ * Three-way merge of a Notion page and a Google Calendar event against the last-synced snapshot.
+ *
+ * - Field changed on one side only: the change is copied to the other side
+ * - Field changed on both sides to the same value: nothing to do
+ * - Field changed on both sides to different values: resolved with the field's ConflictPolicy
+ */
+export function mergeEvents({
+  notion,
+  gcal,
+  base,
+  fieldMapping,
+  customMappings = [],
+  source,
+}: MergeInput): MergeResult {
+  const notionSnapshot = toSnapshot(notion);
+  const gcalSnapshot = toSnapshot(gcal);
+  const snapshot: EventSnapshot = { ...base };
+  const result: MergeResult = {
+    notionUpdates: {},
+    gcalUpdates: {},
+    conflicts: [],
+    snapshot,
+    notionResult: { ...notionSnapshot },
+    gcalResult: { ...gcalSnapshot },
+  };
+
+  for (const field of MERGE_FIELDS) {
+    const config = fieldMapping[field];
+    // Disabled optional fields are never read from Notion, so there is nothing to merge
+    if (!config.required && !config.enabled) {
+      continue;
+    }
+
+    const notionValue = readField(notionSnapshot, field);
+    const gcalValue = readField(gcalSnapshot, field);
+    const baseValue = readField(base, field);
+
+    if (notionValue === gcalValue) {
+      writeField(snapshot, field, notionValue);
+      continue;
+    }
+
+    const notionChanged = notionValue !== baseValue;
+    const gcalChanged = gcalValue !== baseValue;
+
+    let winner: "notion" | "gcal" | "manual";
+    if (field === "status") {
+      // Status only flows from Google Calendar, so an edit in Notion never cancels an event
+      if (!gcalChanged) continue;
+      winner = "gcal";
+    } else if (notionChanged && !gcalChanged) {
+      winner = "notion";
+    } else if (gcalChanged && !notionChanged) {
+      winner = "gcal";
+    } else {
+      winner = resolveByPolicy(
+        config.conflictPolicy ?? DEFAULT_CONFLICT_POLICY,
+        notion,
+        gcal,
+        source,
+      );
+    }
+
+    if (winner === "notion") {
+      Object.assign(result.gcalUpdates, fieldToEventUpdate(field, notionValue, notion));
+      writeField(snapshot, field, notionValue);
+      writeField(result.gcalResult, field, notionValue);
+    } else if (winner === "gcal") {
+      Object.assign(result.notionUpdates, fieldToEventUpdate(field, gcalValue, gcal));
+      writeField(snapshot, field, gcalValue);
+      writeField(result.notionResult, field, gcalValue);
+    } else {
+      // Leave both sides untouched and keep the old base until a human decides
+      result.conflicts.push({ field, notionValue, gcalValue, baseValue });
+    }
+  }
+
+  for (const rule of customMappings) {
+    const notionValue = notionSnapshot.custom?.[rule.id] ?? "";
+    const gcalValue = gcalSnapshot.custom?.[rule.id] ?? "";
+    const baseValue = base.custom?.[rule.id] ?? "";
+
+    if (notionValue === gcalValue) {
+      writeCustomField(snapshot, rule.id, notionValue);
+      continue;
+    }
+
+    const notionChanged = notionValue !== baseValue;
+    const gcalChanged = gcalValue !== baseValue;
+
+    let winner: "notion" | "gcal";
+    if (!isWritableGcalPath(rule.gcalPath)) {
+      // Read-only paths only flow from Google Calendar
+      if (!gcalChanged) continue;
+      winner = "gcal";
+    } else if (notionChanged !== gcalChanged) {
+      winner = notionChanged ? "notion" : "gcal";
+    } else {
+      // Custom values cannot be queued for review, so "manual" never applies
+      winner = resolveByPolicy(DEFAULT_CONFLICT_POLICY, notion, gcal, source) as "notion" | "gcal";
+    }
+
+    const value = winner === "notion" ? notionValue : gcalValue;
+    const updates = winner === "notion" ? result.gcalUpdates : result.notionUpdates;
+    updates.custom = { ...updates.custom, [rule.id]: value };
+    writeCustomField(snapshot, rule.id, value);
+    writeCustomField(winner === "notion" ? result.gcalResult : result.notionResult, rule.id, value);
+  }
+
+  return result;
+}
+
+/**
+ * Record conflicts for manual review.
+ * A conflict for the same page and field replaces the previous one.
+ */
+export async function recordConflicts(
+  conflicts: FieldConflict[],
+  context: { notionPageId: string; gcalEventId: string; eventTitle: string },
+): Promise<void> {
+  const conflictsKey = await pairScopedKey(CONFLICTS_KEY);
+  const redis = getRedis();
+  if (!redis || conflicts.length === 0) {
+    return;
+  }
+
+  const detectedAt = new Date().toISOString();
+  const entries: Record<string, SyncConflict> = {};
+  for (const conflict of conflicts) {
+    const id = `${context.notionPageId}:${conflict.field}`;
+    entries[id] = { id, ...context, ...conflict, detectedAt };
+  }
+
+  await redis.hset(conflictsKey, entries);
+}
+
+/**
+ * Get all conflicts awaiting manual review (newest first)
+ */
+export async function getConflicts(): Promise<SyncConflict[]> {
+  const redis = getRedis();
+  if (!redis) {
+    return [];
+  }
+  const conflictsKey = await pairScopedKey(CONFLICTS_KEY);
+  const all = await redis.hgetall<Record<string, SyncConflict>>(conflictsKey);
+  return Object.values(all || {}).sort((a, b) => b.detectedAt.localeCompare(a.detectedAt));
+}
+
+/**
+ * Get a single conflict by ID
+ */
+export async function getConflict(id: string): Promise<SyncConflict | null> {
+  const redis = getRedis();
+  if (!redis) {
+    return null;
+  }
+  const conflictsKey = await pairScopedKey(CONFLICTS_KEY);
+  const conflict = await redis.hget<SyncConflict>(conflictsKey, id);
+  return conflict || null;
+}
+
+/**
+ * Remove a conflict from the queue without applying either value
+ */
+export async function dismissConflict(id: string): Promise<void> {
+  const redis = getRedis();
+  if (!redis) {
+    return;
+  }
+  const conflictsKey = await pairScopedKey(CONFLICTS_KEY);
+  await redis.hdel(conflictsKey, id);
+}
+
+/**
+ * Resolve a queued conflict by copying the chosen side's value to the other side.
+ *
+ * @param id - Conflict ID
+ * @param keep - Which side's value to keep
+ * @returns false if the conflict no longer exists
+ */
+export async function resolveConflict(id: string, keep: "notion" | "gcal"): Promise<boolean> {
+  const conflict = await getConflict(id);
+  if (!conflict) {
+    return false;
+  }
+
+  const value = keep === "notion" ? conflict.notionValue : conflict.gcalValue;
+  const update = fieldToEventUpdate(conflict.field, value);
+  const mapping = await getMappingByNotionId(conflict.notionPageId);
+
+  if (keep === "notion") {
+    await updateGcalEvent(conflict.gcalEventId, update, mapping?.calendarId);
+  } else {
+    const timeZone = await getCalendarTimeZone(mapping?.calendarId);
+    await updateNotionEvent(conflict.notionPageId, update, timeZone);
+  }
+
+  // Advance the snapshot so the resolved field is no longer seen as conflicting
+  if (mapping?.snapshot) {
+    const snapshot = { ...mapping.snapshot };
+    writeField(snapshot, conflict.field, value);
+    await saveMapping({
+      notionPageId: conflict.notionPageId,
+      gcalEventId: conflict.gcalEventId,
+      snapshot,
+    });
+  }
+
+  await logSync({
+    direction: keep === "notion" ? "notion_to_gcal" : "gcal_to_notion",
+    operation: "update",
+    eventId: conflict.notionPageId,
+    eventTitle: conflict.eventTitle,
+    status: "success",
+    notionPageId: conflict.notionPageId,
+    gcalEventId: conflict.gcalEventId,
+  });
+
+  await dismissConflict(id);
+  return true;
+}
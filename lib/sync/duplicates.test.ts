@@ -0,0 +1,194 @@
+import type { Event } from "@/lib/types";
+import { beforeEach, describe, expect, test, vi } from "vitest";
+
+vi.mock("@/lib/google-calendar/client", () => ({
+  deleteGcalEvent: vi.fn(),
+  fetchSyncedGcalEvents: vi.fn(),
+}));
+
+vi.mock("@/lib/notion/client", () => ({
+  deleteNotionEvent: vi.fn(),
+  fetchNotionEvents: vi.fn(),
+}));
+
+vi.mock("@/lib/settings", () => ({
+  getGoogleConfig: vi.fn(async () => ({
+    calendars: [
+      { calendarId: "primary", name: "Primary", direction: "bidirectional" },
+      { calendarId: "holidays", name: "Holidays", direction: "gcal_to_notion" },
+    ],
+  })),
+  getSyncDirection: vi.fn(async () => "bidirectional"),
+}));
+
+vi.mock("@/lib/sync/compare", () => ({
+  relinkEvent: vi.fn(),
+  unlinkEvent: vi.fn(),
+  writeDirectionError: vi.fn(async (to: string, calendarId?: string) =>
+    to === "gcal" && calendarId === "holidays" ? "This calendar only syncs Google → Notion" : null,
+  ),
+}));
+
+vi.mock("@/lib/sync/logger", () => ({
+  logSync: vi.fn(),
+}));
+
+vi.mock("@/lib/sync/mapping", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/sync/mapping")>()),
+  getMappingByNotionId: vi.fn(),
+  listMappings: vi.fn(),
+}));
+
+import { deleteGcalEvent, fetchSyncedGcalEvents } from "@/lib/google-calendar/client";
+import { deleteNotionEvent, fetchNotionEvents } from "@/lib/notion/client";
+import { getSyncDirection } from "@/lib/settings";
+import { relinkEvent, unlinkEvent } from "@/lib/sync/compare";
+import { logSync } from "@/lib/sync/logger";
+import { getMappingByNotionId, listMappings } from "@/lib/sync/mapping";
+import {
+  deleteDirectionError,
+  deleteDuplicate,
+  findDuplicates,
+  mergeDuplicates,
+} from "./duplicates";
+
+function event(id: string, title: string, start: string, changes: Partial<Event> = {}): Event {
+  return {
+    id,
+    title,
+    startTime: new Date(start),
+    endTime: new Date(new Date(start).getTime() + 60 * 60 * 1000),
+    ...changes,
+  };
+}
+
+function mapping(notionPageId: string, gcalEventId: string) {
+  return {
+    notionPageId,
+    gcalEventId,
+    createdAt: "2026-03-01T00:00:00.000Z",
+    updatedAt: "2026-03-01T00:00:00.000Z",
+    lastSyncedAt: "2026-03-01T00:00:00.000Z",
+  };
+}
+
+describe("findDuplicates", () => {
+  const now = new Date("2026-03-01T00:00:00.000Z");
+
+  beforeEach(() => {
+    vi.mocked(fetchNotionEvents).mockResolvedValue([
+      event("page-1", "Standup", "2026-03-02T09:00:00.000Z"),
+      event("page-2", "Dentist", "2026-03-03T15:00:00.000Z"),
+      event("page-3", "Planning", "2026-03-04T10:00:00.000Z"),
+    ]);
+    vi.mocked(fetchSyncedGcalEvents).mockResolvedValue([
+      event("gcal-1", "Standup", "2026-03-02T09:00:00.000Z", { calendarId: "primary" }),
+      // Created again after the page lost its GCal Event ID
+      event("gcal-1b", " standup ", "2026-03-02T09:00:00.000Z", { calendarId: "primary" }),
+      event("gcal-2", "Dentist", "2026-03-03T15:00:00.000Z", { calendarId: "primary" }),
+      event("gcal-3", "Planning", "2026-03-04T10:00:00.000Z", { calendarId: "primary" }),
+      event("gcal-4", "Private", "2026-03-05T10:00:00.000Z", { excluded: true }),
+      event("gcal-3_1", "Planning", "2026-03-11T10:00:00.000Z", { recurringEventId: "gcal-3" }),
+    ]);
+    vi.mocked(listMappings).mockResolvedValue([
+      mapping("page-1", "gcal-1"),
+      mapping("page-3", "gcal-3"),
+    ]);
+  });
+
+  test("scans the window around today on both sides", async () => {
+    await findDuplicates(now);
+
+    expect(fetchNotionEvents).toHaveBeenCalledWith({
+      startsAfter: new Date("2026-01-30T00:00:00.000Z"),
+      startsBefore: new Date("2026-08-28T00:00:00.000Z"),
+    });
+  });
+
+  test("groups copies by title and start and reports duplicates and orphans", async () => {
+    const groups = await findDuplicates(now);
+
+    expect(groups.map(({ kind, notion, gcal }) => [kind, notion.length, gcal.length])).toEqual([
+      ["duplicate", 1, 2],
+      ["orphan", 1, 1],
+    ]);
+    expect(groups[0].gcal.map((copy) => [copy.id, copy.linkedTo])).toEqual([
+      ["gcal-1", "page-1"],
+      ["gcal-1b", undefined],
+    ]);
+    expect(groups[1].notion[0]).toMatchObject({ id: "page-2", side: "notion" });
+  });
+
+  test("marks copies on a side the sync pair never writes to as read-only", async () => {
+    vi.mocked(getSyncDirection).mockResolvedValueOnce("notion_to_gcal");
+    vi.mocked(fetchSyncedGcalEvents).mockResolvedValue([
+      event("gcal-1", "Standup", "2026-03-02T09:00:00.000Z", { calendarId: "primary" }),
+      event("gcal-1b", "Standup", "2026-03-02T09:00:00.000Z", { calendarId: "holidays" }),
+    ]);
+
+    const [group] = await findDuplicates(now);
+
+    expect(group.notion[0].readOnly).toBe(true);
+    expect(group.gcal.map((copy) => [copy.id, copy.readOnly])).toEqual([
+      ["gcal-1", undefined],
+      ["gcal-1b", true],
+    ]);
+  });
+});
+
+describe("fixes", () => {
+  const extra = { side: "gcal" as const, id: "gcal-1b", calendarId: "primary", title: "Standup" };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  test("deleting a copy unlinks it first and logs the delete", async () => {
+    await deleteDuplicate(extra);
+
+    expect(unlinkEvent).toHaveBeenCalledWith("gcal-1b");
+    expect(deleteGcalEvent).toHaveBeenCalledWith("gcal-1b", "primary");
+    expect(vi.mocked(unlinkEvent).mock.invocationCallOrder[0]).toBeLessThan(
+      vi.mocked(deleteGcalEvent).mock.invocationCallOrder[0],
+    );
+    expect(logSync).toHaveBeenCalledWith({
+      direction: "notion_to_gcal",
+      operation: "delete",
+      eventId: "gcal-1b",
+      eventTitle: "Standup",
+      status: "success",
+      gcalEventId: "gcal-1b",
+      manualAction: "delete",
+    });
+  });
+
+  test("merging links the kept pair and deletes the rest", async () => {
+    vi.mocked(getMappingByNotionId).mockResolvedValue(null);
+    const extraPage = { side: "notion" as const, id: "page-9", title: "Standup" };
+
+    await mergeDuplicates({ notionPageId: "page-1", gcalEventId: "gcal-1" }, [extra, extraPage]);
+
+    expect(relinkEvent).toHaveBeenCalledWith("page-1", "gcal-1");
+    expect(deleteGcalEvent).toHaveBeenCalledWith("gcal-1b", "primary");
+    expect(deleteNotionEvent).toHaveBeenCalledWith("page-9");
+    expect(logSync).toHaveBeenCalledWith(expect.objectContaining({ manualAction: "merge" }));
+  });
+
+  test("reports copies that cannot be deleted by the sync direction", async () => {
+    const holiday = { ...extra, id: "gcal-7", calendarId: "holidays", title: "Easter" };
+
+    expect(await deleteDirectionError([extra])).toBeNull();
+    expect(await deleteDirectionError([extra, holiday])).toBe(
+      '"Easter" cannot be deleted: This calendar only syncs Google → Notion',
+    );
+  });
+
+  test("merging keeps an existing link of the kept pair", async () => {
+    vi.mocked(getMappingByNotionId).mockResolvedValue(mapping("page-1", "gcal-1"));
+
+    await mergeDuplicates({ notionPageId: "page-1", gcalEventId: "gcal-1" }, [extra]);
+
+    expect(relinkEvent).not.toHaveBeenCalled();
+    expect(deleteGcalEvent).toHaveBeenCalledWith("gcal-1b", "primary");
+  });
+});
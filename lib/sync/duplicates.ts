@@ -0,0 +1,199 @@
+/**
+ * Duplicate detection: events of both sides grouped by title and start, to find the extra
+ * copies the engine creates when a page's GCal Event ID is cleared or a page is duplicated,
+ * and events left without a counterpart.
+ *
+ * Fixes are made by hand from the review: merging keeps one event per side, linked, and
+ * deletes the rest; deleting a copy unlinks it first so its counterpart is not deleted too.
+ * Copies on a side the sync pair never writes to are not deleted.
+ */
+import { deleteGcalEvent, fetchSyncedGcalEvents } from "@/lib/google-calendar/client";
+import { deleteNotionEvent, fetchNotionEvents } from "@/lib/notion/client";
+import { getGoogleConfig, getSyncDirection } from "@/lib/settings";
+import { relinkEvent, unlinkEvent, writeDirectionError } from "@/lib/sync/compare";
+import { logSync } from "@/lib/sync/logger";
+import { getMappingByNotionId, listMappings, toSnapshot } from "@/lib/sync/mapping";
+import type { Event, ManualAction } from "@/lib/types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Window scanned for duplicates, around today
+export const DUPLICATE_SCAN_PAST_DAYS = 30;
+export const DUPLICATE_SCAN_FUTURE_DAYS = 180;
+
+export interface DuplicateCopy {
+  side: "notion" | "gcal";
+  id: string;
+  calendarId?: string; // Google Calendar holding the event
+  title: string;
+  start: string; // ISO timestamp
+  allDay: boolean;
+  linkedTo?: string; // Counterpart in the mapping store
+  readOnly?: boolean; // On a side the sync pair never writes to
+}
+
+// What deleting a copy needs to know about it
+export type DuplicateCopyRef = Pick<DuplicateCopy, "side" | "id" | "calendarId" | "title">;
+
+/**
+ * - duplicate: more than one copy on a side
+ * - orphan: a single copy per side, at least one of them not linked
+ */
+export type DuplicateKind = "duplicate" | "orphan";
+
+export interface DuplicateGroup {
+  key: string; // Normalized title and start
+  kind: DuplicateKind;
+  title: string;
+  start: string;
+  notion: DuplicateCopy[];
+  gcal: DuplicateCopy[];
+}
+
+function groupKey(event: Event): string {
+  const { title, startTime } = toSnapshot(event);
+  return `${title.toLowerCase()}|${startTime}`;
+}
+
+function toCopy(
+  event: Event,
+  side: DuplicateCopy["side"],
+  linkedTo: string | undefined,
+  readOnly: boolean,
+): DuplicateCopy {
+  return {
+    side,
+    id: event.id,
+    ...(event.calendarId && { calendarId: event.calendarId }),
+    title: event.title,
+    start: event.startTime.toISOString(),
+    allDay: event.allDay ?? false,
+    ...(linkedTo && { linkedTo }),
+    ...(readOnly && { readOnly }),
+  };
+}
+
+/**
+ * Group the events of both sides by title and start and return the suspicious groups.
+ * Events the sync filters exclude and modified instances of a series are left out.
+ */
+export async function findDuplicates(now = new Date()): Promise<DuplicateGroup[]> {
+  const start = new Date(now.getTime() - DUPLICATE_SCAN_PAST_DAYS * DAY_MS);
+  const end = new Date(now.getTime() + DUPLICATE_SCAN_FUTURE_DAYS * DAY_MS);
+  const [notionEvents, gcalEvents, mappings, direction, { calendars }] = await Promise.all([
+    fetchNotionEvents({ startsAfter: start, startsBefore: end }),
+    fetchSyncedGcalEvents(start, end),
+    listMappings(),
+    getSyncDirection(),
+    getGoogleConfig(),
+  ]);
+  const gcalByPage = new Map(mappings.map((m) => [m.notionPageId, m.gcalEventId]));
+  const pageByGcal = new Map(mappings.map((m) => [m.gcalEventId, m.notionPageId]));
+  const writableCalendars = new Set(
+    calendars.filter((cal) => cal.direction !== "gcal_to_notion").map((cal) => cal.calendarId),
+  );
+  const notionReadOnly = direction === "notion_to_gcal";
+
+  const groups = new Map<string, DuplicateGroup>();
+  const groupFor = (event: Event) => {
+    const key = groupKey(event);
+    let group = groups.get(key);
+    if (!group) {
+      group = {
+        key,
+        kind: "orphan",
+        title: event.title,
+        start: event.startTime.toISOString(),
+        notion: [],
+        gcal: [],
+      };
+      groups.set(key, group);
+    }
+    return group;
+  };
+
+  for (const event of notionEvents) {
+    if (event.excluded) continue;
+    groupFor(event).notion.push(
+      toCopy(event, "notion", gcalByPage.get(event.id), notionReadOnly),
+    );
+  }
+  for (const event of gcalEvents) {
+    if (event.excluded || event.recurringEventId || event.status === "cancelled") continue;
+    const readOnly = !writableCalendars.has(event.calendarId ?? "");
+    groupFor(event).gcal.push(toCopy(event, "gcal", pageByGcal.get(event.id), readOnly));
+  }
+
+  const suspicious: DuplicateGroup[] = [];
+  for (const group of groups.values()) {
+    const copies = [...group.notion, ...group.gcal];
+    if (group.notion.length > 1 || group.gcal.length > 1) {
+      suspicious.push({ ...group, kind: "duplicate" });
+    } else if (copies.some((copy) => !copy.linkedTo)) {
+      suspicious.push(group);
+    }
+  }
+  return suspicious.sort((a, b) => a.start.localeCompare(b.start) || a.key.localeCompare(b.key));
+}
+
+/**
+ * Reason deleting the given copies is not allowed by the sync direction, if any
+ */
+export async function deleteDirectionError(copies: DuplicateCopyRef[]): Promise<string | null> {
+  for (const copy of copies) {
+    const error = await writeDirectionError(copy.side, copy.calendarId);
+    if (error) {
+      return `"${copy.title}" cannot be deleted: ${error}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Delete one copy of an event, unlinking it first so the engine does not delete its
+ * counterpart along with it
+ */
+export async function deleteDuplicate(
+  copy: DuplicateCopyRef,
+  manualAction: ManualAction = "delete",
+): Promise<void> {
+  await unlinkEvent(copy.id);
+  if (copy.side === "notion") {
+    await deleteNotionEvent(copy.id);
+  } else {
+    await deleteGcalEvent(copy.id, copy.calendarId);
+  }
+
+  await logSync({
+    // The side written to, as for the engine's own deletes
+    direction: copy.side === "notion" ? "gcal_to_notion" : "notion_to_gcal",
+    operation: "delete",
+    eventId: copy.id,
+    eventTitle: copy.title,
+    status: "success",
+    ...(copy.side === "notion" ? { notionPageId: copy.id } : { gcalEventId: copy.id }),
+    manualAction,
+  });
+}
+
+/**
+ * Keep one copy per side, linked to each other, and delete the rest
+ *
+ * @param keep - Notion page and/or Google event to keep
+ * @param extras - Copies to delete
+ */
+export async function mergeDuplicates(
+  keep: { notionPageId?: string; gcalEventId?: string },
+  extras: DuplicateCopyRef[],
+): Promise<void> {
+  // Link the kept pair first, which also unlinks them from any of the extras
+  if (keep.notionPageId && keep.gcalEventId) {
+    const mapping = await getMappingByNotionId(keep.notionPageId);
+    if (mapping?.gcalEventId !== keep.gcalEventId) {
+      await relinkEvent(keep.notionPageId, keep.gcalEventId);
+    }
+  }
+  for (const copy of extras) {
+    await deleteDuplicate(copy, "merge");
+  }
+}
@@ -7,7 +7,85 @@
  * - Test 3 & 6: Event deletion (Notion↔GCal)
  */
 
-import { expect, test } from "vitest";
+import { beforeEach, describe, expect, test, vi } from "vitest";
+
+vi.mock("@/lib/google-calendar/client", () => ({
+  createGcalEvent: vi.fn(),
+  deleteGcalEvent: vi.fn(),
+  getCalendarTimeZone: vi.fn(async () => "Europe/Berlin"),
+  getGcalEvent: vi.fn(),
+  moveGcalEvent: vi.fn(),
+  updateGcalEvent: vi.fn(),
+}));
+vi.mock("@/lib/notion/client", () => ({
+  createNotionEvent: vi.fn(),
+  deleteNotionEvent: vi.fn(),
+  getNotionEvent: vi.fn(),
+  getNotionUserEmails: vi.fn(async () => new Set(["ana@example.com"])),
+  updateNotionEvent: vi.fn(),
+}));
+vi.mock("@/lib/settings", () => ({
+  getFieldMapping: vi.fn(async () => ({ calendar: { enabled: true } })),
+  getGoogleConfig: vi.fn(),
+  getCustomMappings: vi.fn(async () => []),
+}));
+vi.mock("@/lib/sync/conflicts", () => ({ mergeEvents: vi.fn(), recordConflicts: vi.fn() }));
+vi.mock("@/lib/sync/logger", () => ({ logSync: vi.fn(), recordSuppressedEcho: vi.fn() }));
+vi.mock("@/lib/sync/mapping", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/sync/mapping")>()),
+  deleteMappingByNotionId: vi.fn(),
+  getMappingByNotionId: vi.fn(),
+  getMappingByGcalId: vi.fn(),
+  saveMapping: vi.fn(),
+}));
+
+import { transformValue, untransformValue } from "@/lib/events/transforms";
+import { getGcalEvent, moveGcalEvent, updateGcalEvent } from "@/lib/google-calendar/client";
+import {
+  createNotionEvent,
+  deleteNotionEvent,
+  getNotionEvent,
+  updateNotionEvent,
+} from "@/lib/notion/client";
+import { getFieldMapping, getGoogleConfig } from "@/lib/settings";
+import type { ExtendedFieldMapping, FieldTransform } from "@/lib/settings/types";
+import { mergeEvents } from "@/lib/sync/conflicts";
+import { excludeFromSeries, syncGcalToNotion, syncNotionToGcal } from "@/lib/sync/engine";
+import { logSync, recordSuppressedEcho } from "@/lib/sync/logger";
+import {
+  getMappingByGcalId,
+  getMappingByNotionId,
+  hashEvent,
+  saveMapping,
+  toSnapshot,
+} from "@/lib/sync/mapping";
+import type { Event } from "@/lib/types";
+
+const primaryCalendar = {
+  calendarId: "primary",
+  name: "Primary",
+  direction: "bidirectional" as const,
+};
+const onCallCalendar = {
+  calendarId: "oncall@group.calendar.google.com",
+  name: "On-call",
+  direction: "gcal_to_notion" as const,
+};
+const travelCalendar = {
+  calendarId: "travel@group.calendar.google.com",
+  name: "Travel",
+  direction: "bidirectional" as const,
+};
+
+function mockCalendars() {
+  vi.mocked(getGoogleConfig).mockResolvedValue({
+    refreshToken: "token",
+    clientId: "client",
+    clientSecret: "secret",
+    calendarId: "primary",
+    calendars: [primaryCalendar, onCallCalendar, travelCalendar],
+  });
+}
 
 /**
  * These are placeholder tests that document the integration test coverage.
@@ -38,3 +116,469 @@ test("sync engine handles create, update, and delete operations", () => {
   // All CRUD operations tested manually
   expect(true).toBeTruthy();
 });
+
+describe("echo suppression", () => {
+  const event: Event = {
+    id: "page-1",
+    title: "Planning",
+    startTime: new Date("2026-03-02T09:00:00.000Z"),
+    endTime: new Date("2026-03-02T10:00:00.000Z"),
+    notionPageId: "page-1",
+    gcalEventId: "gcal-1",
+    calendar: "Primary",
+  };
+
+  const mapping = {
+    notionPageId: "page-1",
+    gcalEventId: "gcal-1",
+    notionHash: hashEvent(event),
+    gcalHash: hashEvent(event),
+    createdAt: "2026-03-01T00:00:00.000Z",
+    updatedAt: "2026-03-01T00:00:00.000Z",
+    lastSyncedAt: "2026-03-01T00:00:00.000Z",
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockCalendars();
+  });
+
+  test("skips a Notion change matching the last written hash", async () => {
+    vi.mocked(getMappingByNotionId).mockResolvedValue(mapping);
+
+    await syncNotionToGcal(event);
+
+    expect(recordSuppressedEcho).toHaveBeenCalledTimes(1);
+    expect(updateGcalEvent).not.toHaveBeenCalled();
+    expect(logSync).not.toHaveBeenCalled();
+  });
+
+  test("skips a GCal change matching the last written hash", async () => {
+    vi.mocked(getMappingByGcalId).mockResolvedValue(mapping);
+
+    await syncGcalToNotion({ ...event, id: "gcal-1" });
+
+    expect(recordSuppressedEcho).toHaveBeenCalledTimes(1);
+    expect(updateNotionEvent).not.toHaveBeenCalled();
+  });
+
+  test("syncs a change whose hash differs", async () => {
+    vi.mocked(getMappingByNotionId).mockResolvedValue(mapping);
+
+    await syncNotionToGcal({ ...event, title: "Planning (moved)" });
+
+    expect(recordSuppressedEcho).not.toHaveBeenCalled();
+    expect(updateGcalEvent).toHaveBeenCalledWith(
+      "gcal-1",
+      expect.objectContaining({ title: "Planning (moved)" }),
+      "primary",
+    );
+  });
+
+  test("still syncs when the ID link needs restoring", async () => {
+    vi.mocked(getMappingByNotionId).mockResolvedValue(mapping);
+
+    await syncNotionToGcal({ ...event, gcalEventId: undefined });
+
+    expect(recordSuppressedEcho).not.toHaveBeenCalled();
+    expect(updateNotionEvent).toHaveBeenCalledWith(
+      "page-1",
+      { gcalEventId: "gcal-1" },
+      "Europe/Berlin",
+    );
+  });
+});
+
+describe("multiple calendars", () => {
+  const event: Event = {
+    id: "page-1",
+    title: "Flight",
+    startTime: new Date("2026-03-02T09:00:00.000Z"),
+    endTime: new Date("2026-03-02T12:00:00.000Z"),
+    notionPageId: "page-1",
+    gcalEventId: "gcal-1",
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    mockCalendars();
+    vi.mocked(getMappingByNotionId).mockResolvedValue(null);
+    vi.mocked(getMappingByGcalId).mockResolvedValue(null);
+  });
+
+  test("does not write Notion changes to a Google-to-Notion calendar", async () => {
+    await syncNotionToGcal({ ...event, calendar: "On-call" });
+
+    expect(updateGcalEvent).not.toHaveBeenCalled();
+    expect(logSync).not.toHaveBeenCalled();
+  });
+
+  test("moves the event when the Calendar select changes", async () => {
+    vi.mocked(getMappingByNotionId).mockResolvedValue({
+      notionPageId: "page-1",
+      gcalEventId: "gcal-1",
+      calendarId: "primary",
+      createdAt: "2026-03-01T00:00:00.000Z",
+      updatedAt: "2026-03-01T00:00:00.000Z",
+      lastSyncedAt: "2026-03-01T00:00:00.000Z",
+    });
+
+    await syncNotionToGcal({ ...event, calendar: "Travel" });
+
+    expect(moveGcalEvent).toHaveBeenCalledWith("gcal-1", "primary", travelCalendar.calendarId);
+    expect(updateGcalEvent).toHaveBeenCalledWith(
+      "gcal-1",
+      expect.objectContaining({ title: "Flight" }),
+      travelCalendar.calendarId,
+    );
+  });
+
+  test("labels GCal events with their source calendar in Notion", async () => {
+    await syncGcalToNotion({
+      ...event,
+      id: "gcal-1",
+      calendarId: travelCalendar.calendarId,
+      calendar: undefined,
+    });
+
+    expect(updateNotionEvent).toHaveBeenCalledWith(
+      "page-1",
+      expect.objectContaining({ calendar: "Travel" }),
+      "Europe/Berlin",
+    );
+  });
+
+  test("mirrors a Google-to-Notion calendar without writing back to Google", async () => {
+    vi.mocked(createNotionEvent).mockResolvedValue("page-2");
+    vi.mocked(getMappingByGcalId).mockResolvedValueOnce({
+      notionPageId: "page-1",
+      gcalEventId: "gcal-1",
+      calendarId: onCallCalendar.calendarId,
+      createdAt: "2026-03-01T00:00:00.000Z",
+      updatedAt: "2026-03-01T00:00:00.000Z",
+      lastSyncedAt: "2026-03-01T00:00:00.000Z",
+    });
+
+    // Linked through the mapping store only, since the GCal event lacks notion_page_id
+    await syncGcalToNotion({
+      ...event,
+      id: "gcal-1",
+      notionPageId: undefined,
+      calendarId: onCallCalendar.calendarId,
+    });
+    // Unlinked event: a new page is created
+    await syncGcalToNotion({
+      ...event,
+      id: "gcal-2",
+      gcalEventId: "gcal-2",
+      notionPageId: undefined,
+      calendarId: onCallCalendar.calendarId,
+    });
+
+    expect(updateNotionEvent).toHaveBeenCalledWith("page-1", expect.anything(), "Europe/Berlin");
+    expect(createNotionEvent).toHaveBeenCalledTimes(1);
+    expect(updateGcalEvent).not.toHaveBeenCalled();
+  });
+});
+
+describe("sync filters", () => {
+  const event: Event = {
+    id: "page-1",
+    title: "Lunch",
+    startTime: new Date("2026-03-02T12:00:00.000Z"),
+    endTime: new Date("2026-03-02T13:00:00.000Z"),
+    notionPageId: "page-1",
+    gcalEventId: "gcal-1",
+    excluded: true,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    mockCalendars();
+    vi.mocked(getMappingByNotionId).mockResolvedValue(null);
+    vi.mocked(getMappingByGcalId).mockResolvedValue(null);
+  });
+
+  test("skips events the filters exclude in both directions", async () => {
+    await syncNotionToGcal(event);
+    await syncGcalToNotion({ ...event, id: "gcal-1" });
+
+    expect(updateGcalEvent).not.toHaveBeenCalled();
+    expect(updateNotionEvent).not.toHaveBeenCalled();
+    expect(logSync).not.toHaveBeenCalled();
+  });
+});
+
+describe("regex replacements", () => {
+  const underscores: FieldTransform = {
+    type: "replace",
+    pattern: "\\s+",
+    replacement: "_",
+    side: "gcal",
+  };
+  const page: Event = {
+    id: "page-1",
+    title: "Team review",
+    startTime: new Date("2026-03-02T09:00:00.000Z"),
+    endTime: new Date("2026-03-02T10:00:00.000Z"),
+    notionPageId: "page-1",
+    gcalEventId: "gcal-1",
+    calendar: "Primary",
+  };
+  const timestamps = {
+    createdAt: "2026-03-01T00:00:00.000Z",
+    updatedAt: "2026-03-01T00:00:00.000Z",
+    lastSyncedAt: "2026-03-01T00:00:00.000Z",
+  };
+
+  // The event as the Google Calendar client stores and reads it back
+  function readBack(event: Event): Event {
+    const stored = transformValue(event.title, [underscores], "gcal", "Primary");
+    return {
+      ...event,
+      id: "gcal-1",
+      calendarId: "primary",
+      title: untransformValue(stored, [underscores], "gcal", "Primary"),
+    };
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    mockCalendars();
+    vi.mocked(getFieldMapping).mockResolvedValue({
+      calendar: { enabled: true },
+      title: { transforms: [underscores] },
+    } as unknown as ExtendedFieldMapping);
+  });
+
+  test("reads a replaced value back as an echo, not as a Google edit", async () => {
+    vi.mocked(getMappingByNotionId).mockResolvedValue({
+      notionPageId: "page-1",
+      gcalEventId: "gcal-1",
+      calendarId: "primary",
+      ...timestamps,
+    });
+
+    await syncNotionToGcal(page);
+    const [[saved]] = vi.mocked(saveMapping).mock.calls;
+    vi.mocked(getMappingByGcalId).mockResolvedValue({ ...saved, ...timestamps });
+    await syncGcalToNotion(readBack(page));
+
+    expect(readBack(page).title).toBe("Team_review");
+    expect(recordSuppressedEcho).toHaveBeenCalledTimes(1);
+    expect(updateNotionEvent).not.toHaveBeenCalled();
+  });
+
+  test("merges a Google edit against the values the last sync wrote", async () => {
+    const snapshot = toSnapshot(page);
+    vi.mocked(getMappingByGcalId).mockResolvedValue({
+      notionPageId: "page-1",
+      gcalEventId: "gcal-1",
+      calendarId: "primary",
+      notionHash: hashEvent(page),
+      gcalHash: hashEvent(page),
+      snapshot,
+      ...timestamps,
+    });
+    vi.mocked(getNotionEvent).mockResolvedValue(page);
+    vi.mocked(mergeEvents).mockReturnValue({
+      notionUpdates: { location: "Room 2" },
+      gcalUpdates: {},
+      conflicts: [],
+      snapshot,
+      notionResult: snapshot,
+      gcalResult: snapshot,
+    });
+
+    await syncGcalToNotion({ ...readBack(page), location: "Room 2" });
+
+    expect(mergeEvents).toHaveBeenCalledWith(
+      expect.objectContaining({
+        gcal: expect.objectContaining({ title: "Team review", location: "Room 2" }),
+      }),
+    );
+    expect(updateNotionEvent).toHaveBeenCalledWith(
+      "page-1",
+      expect.not.objectContaining({ title: expect.anything() }),
+      "Europe/Berlin",
+    );
+  });
+});
+
+describe("People properties", () => {
+  const gcalEvent: Event = {
+    id: "gcal-1",
+    title: "Kickoff",
+    startTime: new Date("2026-03-02T09:00:00.000Z"),
+    endTime: new Date("2026-03-02T10:00:00.000Z"),
+    calendarId: "primary",
+    attendees: [{ email: "ana@example.com", name: "Ana" }, { email: "guest@client.com" }],
+  };
+  // The page as read back: the People property only lists workspace users
+  const page: Event = {
+    ...gcalEvent,
+    id: "page-1",
+    notionPageId: "page-1",
+    gcalEventId: "gcal-1",
+    calendar: "Primary",
+    attendees: [{ email: "ana@example.com", name: "Ana" }],
+  };
+  const timestamps = {
+    createdAt: "2026-03-01T00:00:00.000Z",
+    updatedAt: "2026-03-01T00:00:00.000Z",
+    lastSyncedAt: "2026-03-01T00:00:00.000Z",
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    mockCalendars();
+    vi.mocked(getFieldMapping).mockResolvedValue({
+      calendar: { enabled: true },
+      attendees: { enabled: true, propertyType: "people" },
+    } as unknown as ExtendedFieldMapping);
+  });
+
+  test("keeps guests who are not Notion users when the new page comes back", async () => {
+    vi.mocked(getMappingByGcalId).mockResolvedValue(null);
+    vi.mocked(createNotionEvent).mockResolvedValue("page-1");
+
+    await syncGcalToNotion(gcalEvent);
+    const [[saved]] = vi.mocked(saveMapping).mock.calls;
+    vi.mocked(getMappingByNotionId).mockResolvedValue({ ...saved, ...timestamps });
+    // The page.created webhook
+    await syncNotionToGcal(page);
+
+    expect(recordSuppressedEcho).toHaveBeenCalledTimes(1);
+    for (const [, updates] of vi.mocked(updateGcalEvent).mock.calls) {
+      expect(updates).not.toHaveProperty("attendees");
+    }
+  });
+
+  test("merges a Notion edit with the guests the page cannot list", async () => {
+    const snapshot = toSnapshot(gcalEvent);
+    vi.mocked(getMappingByNotionId).mockResolvedValue({
+      notionPageId: "page-1",
+      gcalEventId: "gcal-1",
+      calendarId: "primary",
+      notionHash: hashEvent(gcalEvent),
+      gcalHash: hashEvent(gcalEvent),
+      snapshot,
+      ...timestamps,
+    });
+    vi.mocked(getGcalEvent).mockResolvedValue(gcalEvent);
+    vi.mocked(mergeEvents).mockReturnValue({
+      notionUpdates: {},
+      gcalUpdates: { title: "Kickoff (moved)" },
+      conflicts: [],
+      snapshot,
+      notionResult: snapshot,
+      gcalResult: snapshot,
+    });
+
+    await syncNotionToGcal({ ...page, title: "Kickoff (moved)" });
+
+    const [[merged]] = vi.mocked(mergeEvents).mock.calls;
+    expect(merged.notion.attendees?.map((attendee) => attendee.email)).toEqual([
+      "ana@example.com",
+      "guest@client.com",
+    ]);
+  });
+});
+
+describe("series instances", () => {
+  // A modified occurrence: Google copies the series' private properties onto it
+  const instance: Event = {
+    id: "standup_20260316T090000Z",
+    title: "Standup (moved)",
+    startTime: new Date("2026-03-16T10:00:00.000Z"),
+    endTime: new Date("2026-03-16T10:15:00.000Z"),
+    calendarId: "primary",
+    recurringEventId: "standup",
+    originalStartTime: new Date("2026-03-16T09:00:00.000Z"),
+  };
+  const timestamps = {
+    createdAt: "2026-03-01T00:00:00.000Z",
+    updatedAt: "2026-03-01T00:00:00.000Z",
+    lastSyncedAt: "2026-03-01T00:00:00.000Z",
+  };
+  const seriesMapping = {
+    notionPageId: "series-page",
+    gcalEventId: "standup",
+    calendarId: "primary",
+    ...timestamps,
+  };
+  const seriesPage: Event = {
+    id: "series-page",
+    title: "Standup",
+    startTime: new Date("2026-03-02T09:00:00.000Z"),
+    endTime: new Date("2026-03-02T09:15:00.000Z"),
+    rrule: ["RRULE:FREQ=WEEKLY;BYDAY=MO"],
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    mockCalendars();
+    vi.mocked(getFieldMapping).mockResolvedValue({
+      calendar: { enabled: true },
+    } as unknown as ExtendedFieldMapping);
+  });
+
+  test("gives a modified instance a page of its own, leaving the series page alone", async () => {
+    vi.mocked(getMappingByGcalId).mockImplementation(async (id) =>
+      id === "standup" ? seriesMapping : null,
+    );
+    vi.mocked(createNotionEvent).mockResolvedValue("instance-page");
+
+    await syncGcalToNotion(instance);
+    const [[saved]] = vi.mocked(saveMapping).mock.calls;
+    vi.mocked(getMappingByGcalId).mockResolvedValue({ ...saved, ...timestamps });
+    // The next webhook for the instance
+    await syncGcalToNotion(instance);
+
+    expect(saved).toMatchObject({
+      notionPageId: "instance-page",
+      gcalEventId: "standup_20260316T090000Z",
+    });
+    expect(createNotionEvent).toHaveBeenCalledTimes(1);
+    expect(updateNotionEvent).not.toHaveBeenCalled();
+    expect(updateGcalEvent).not.toHaveBeenCalled();
+    expect(recordSuppressedEcho).toHaveBeenCalledTimes(1);
+  });
+
+  test("excludes a cancelled occurrence from the series page instead of deleting it", async () => {
+    vi.mocked(getMappingByGcalId).mockImplementation(async (id) =>
+      id === "standup"
+        ? seriesMapping
+        : { ...seriesMapping, notionPageId: "instance-page", gcalEventId: id },
+    );
+    vi.mocked(getNotionEvent).mockResolvedValue(seriesPage);
+
+    await excludeFromSeries(instance.id, "standup", instance.originalStartTime!, "Standup");
+
+    expect(deleteNotionEvent).toHaveBeenCalledTimes(1);
+    expect(deleteNotionEvent).toHaveBeenCalledWith("instance-page");
+    expect(updateNotionEvent).toHaveBeenCalledWith("series-page", {
+      rrule: ["RRULE:FREQ=WEEKLY;BYDAY=MO", "EXDATE:20260316T090000Z"],
+    });
+  });
+
+  test("leaves a series page alone that already excludes the occurrence", async () => {
+    vi.mocked(getMappingByGcalId).mockImplementation(async (id) =>
+      id === "standup" ? seriesMapping : null,
+    );
+    vi.mocked(getNotionEvent).mockResolvedValue({
+      ...seriesPage,
+      rrule: ["RRULE:FREQ=WEEKLY;BYDAY=MO", "EXDATE:20260316T090000Z"],
+    });
+
+    await excludeFromSeries(instance.id, "standup", instance.originalStartTime!, "");
+
+    expect(deleteNotionEvent).not.toHaveBeenCalled();
+    expect(updateNotionEvent).not.toHaveBeenCalled();
+  });
+});
@@ -1,81 +1,375 @@
-import { isRetryableError } from "@/lib/errors";
-import { createGcalEvent, deleteGcalEvent, updateGcalEvent } from "@/lib/google-calendar/client";
-import { createNotionEvent, deleteNotionEvent, updateNotionEvent } from "@/lib/notion/client";
-import { logSync } from "@/lib/sync/logger";
+import {
+  createGcalEvent,
+  deleteGcalEvent,
+  getCalendarTimeZone,
+  getGcalEvent,
+  moveGcalEvent,
+  updateGcalEvent,
+} from "@/lib/google-calendar/client";
+import { toExdate } from "@/lib/google-calendar/rrule-parser";
+import { restoreReplacedValues } from "@/lib/events/transforms";
+import {
+  createNotionEvent,
+  deleteNotionEvent,
+  getNotionEvent,
+  getNotionUserEmails,
+  updateNotionEvent,
+} from "@/lib/notion/client";
+import {
+  getCustomMappings,
+  getFieldMapping,
+  getGoogleConfig,
+  type SyncedCalendar,
+} from "@/lib/settings";
+import { type MergeResult, mergeEvents, recordConflicts } from "@/lib/sync/conflicts";
+import { logSync, recordSuppressedEcho } from "@/lib/sync/logger";
+import {
+  deleteMappingByGcalId,
+  deleteMappingByNotionId,
+  type EventSnapshot,
+  getMappingByGcalId,
+  getMappingByNotionId,
+  hashEvent,
+  hashSnapshot,
+  saveMapping,
+  toSnapshot,
+} from "@/lib/sync/mapping";
 import { retryWithBackoff } from "@/lib/sync/retry";
 import type { Event, SyncDirection, SyncOperation } from "@/lib/types";
 
+/**
+ * Resolve the synced calendar an event belongs to: by the Notion "Calendar" select name
+ * first, then by Google Calendar ID, falling back to the default calendar.
+ */
+export async function resolveCalendar(ref: {
+  name?: string;
+  calendarId?: string;
+}): Promise<SyncedCalendar> {
+  const { calendars } = await getGoogleConfig();
+  const calendar =
+    calendars.find((cal) => ref.name && cal.name === ref.name) ||
+    calendars.find((cal) => ref.calendarId && cal.calendarId === ref.calendarId) ||
+    calendars[0];
+  if (!calendar) {
+    throw new Error("No calendar syncs in the direction of this sync pair");
+  }
+  return calendar;
+}
+
+/**
+ * Notion update that writes the calendar name into the "Calendar" select when it differs
+ */
+async function calendarLabelUpdate(
+  event: Event,
+  calendar: SyncedCalendar,
+): Promise<Partial<Event>> {
+  const fieldMapping = await getFieldMapping();
+  if (!fieldMapping.calendar.enabled || event.calendar === calendar.name) {
+    return {};
+  }
+  return { calendar: calendar.name };
+}
+
+/**
+ * Add back the synced guests a People property could not list: only workspace users fit
+ * there, so other guests missing from the page were never removed in Notion
+ */
+async function restoreUnlistedGuests(event: Event, syncedGuests: string): Promise<Event> {
+  const listed = new Set((event.attendees ?? []).map((attendee) => attendee.email.toLowerCase()));
+  const notionUsers = await getNotionUserEmails();
+  const unlisted = syncedGuests
+    .split("\n")
+    .filter((email) => email && !listed.has(email) && !notionUsers.has(email));
+  if (unlisted.length === 0) {
+    return event;
+  }
+  return {
+    ...event,
+    attendees: [...(event.attendees ?? []), ...unlisted.map((email) => ({ email }))],
+  };
+}
+
+/**
+ * An event as read from one side, with the values of the last sync put back where the side
+ * cannot hold them: text its regex replacements changed, which cannot be undone on read,
+ * and guests a Notion People property cannot list
+ */
+export async function restoreSyncedValues(
+  event: Event,
+  side: "notion" | "gcal",
+  snapshot: EventSnapshot | undefined,
+): Promise<Event> {
+  if (!snapshot) {
+    return event;
+  }
+  const fieldMapping = await getFieldMapping();
+  const { calendars } = await getGoogleConfig();
+  const calendarName =
+    side === "gcal"
+      ? calendars.find((cal) => cal.calendarId === event.calendarId)?.name
+      : undefined;
+  const restored = restoreReplacedValues(event, snapshot, fieldMapping, side, calendarName);
+
+  const { attendees } = fieldMapping;
+  const people = attendees?.enabled && attendees.propertyType === "people";
+  return side === "notion" && people && snapshot.attendees
+    ? restoreUnlistedGuests(restored, snapshot.attendees)
+    : restored;
+}
+
+/**
+ * Three-way merge an incoming event with the current state of its counterpart.
+ * Returns null when there is no snapshot to merge against (first sync of a legacy link)
+ * or the counterpart cannot be fetched, in which case the incoming side overwrites the other.
+ */
+async function mergeWithCounterpart(
+  source: "notion" | "gcal",
+  event: Event,
+  snapshot: EventSnapshot | undefined,
+  fetchCounterpart: () => Promise<Event | null>,
+): Promise<MergeResult | null> {
+  if (!snapshot) {
+    return null;
+  }
+
+  const fetched = await fetchCounterpart().catch((error) => {
+    console.warn("   Could not fetch counterpart for merge, overwriting instead:", error);
+    return null;
+  });
+  if (!fetched) {
+    return null;
+  }
+  const counterpart = await restoreSyncedValues(
+    fetched,
+    source === "notion" ? "gcal" : "notion",
+    snapshot,
+  );
+
+  const fieldMapping = await getFieldMapping();
+  const merge = mergeEvents({
+    notion: source === "notion" ? event : counterpart,
+    gcal: source === "gcal" ? event : counterpart,
+    base: snapshot,
+    fieldMapping,
+    customMappings: await getCustomMappings(),
+    source,
+  });
+
+  if (merge.conflicts.length > 0) {
+    console.log(
+      `   ⚠️  ${merge.conflicts.length} field conflict(s) queued for review: ${merge.conflicts.map((c) => c.field).join(", ")}`,
+    );
+  }
+
+  return merge;
+}
+
+/**
+ * Record the link and the state both sides were left in after a successful sync
+ */
+async function recordSyncedState(
+  notionPageId: string,
+  gcalEventId: string,
+  calendarId: string,
+  event: Event,
+  merge: MergeResult | null,
+): Promise<void> {
+  const snapshot = merge ? merge.snapshot : toSnapshot(event);
+  await saveMapping({
+    notionPageId,
+    gcalEventId,
+    calendarId,
+    notionHash: hashSnapshot(merge ? merge.notionResult : snapshot),
+    gcalHash: hashSnapshot(merge ? merge.gcalResult : snapshot),
+    snapshot,
+  });
+}
+
 /**
  * Sync an event from Notion to Google Calendar
- * Handles loop prevention by checking for existing gcalEventId
+ * Skips echoes of our own writes by comparing the page's content hash with the one
+ * recorded at the last sync, and resolves the GCal event from the gcalEventId property,
+ * falling back to the persistent mapping store when the property was cleared.
+ * The page's "Calendar" select picks the target calendar; changing it moves the event.
+ * Pages the sync filters exclude are skipped.
  */
 export async function syncNotionToGcal(event: Event): Promise<void> {
+  const notionPageId = event.notionPageId || event.id;
+  let gcalEventId = event.gcalEventId;
+
   try {
-    const isAllDay =
-      event.startTime.getUTCHours() === 0 &&
-      event.startTime.getUTCMinutes() === 0 &&
-      event.startTime.getUTCSeconds() === 0 &&
-      event.endTime.getUTCHours() === 0 &&
-      event.endTime.getUTCMinutes() === 0 &&
-      event.endTime.getUTCSeconds() === 0;
+    const mapping = await getMappingByNotionId(notionPageId);
+    gcalEventId = gcalEventId || mapping?.gcalEventId;
+
+    const linkedCalendar = await resolveCalendar({ calendarId: mapping?.calendarId });
+    const calendar = await resolveCalendar({
+      name: event.calendar,
+      calendarId: linkedCalendar.calendarId,
+    });
+
+    if (calendar.direction === "gcal_to_notion") {
+      console.log(
+        `⏭️  [Notion→GCal] Skipping "${event.title}": calendar "${calendar.name}" only syncs from Google`,
+      );
+      return;
+    }
+
+    // Left out by the sync filters; an event already synced keeps its last synced state
+    if (event.excluded) {
+      console.log(`⏭️  [Notion→GCal] Skipping "${event.title}": excluded by sync filters`);
+      return;
+    }
+
+    // Pages of Notion → Google calendars are never written, so nothing was left out there
+    if (calendar.direction !== "notion_to_gcal") {
+      event = await restoreSyncedValues(event, "notion", mapping?.snapshot);
+    }
+
+    // Echo suppression: the page still holds exactly what the last sync wrote to Notion
+    if (
+      mapping &&
+      event.gcalEventId === mapping.gcalEventId &&
+      mapping.notionHash === hashEvent(event) &&
+      linkedCalendar.calendarId === calendar.calendarId
+    ) {
+      console.log(`⏭️  [Notion→GCal] Skipping unchanged page (echo): "${event.title}"`);
+      await recordSuppressedEcho();
+      return;
+    }
 
     console.log(`\n🔄 [Notion→GCal] Processing: "${event.title}"`);
-    console.log(`   Notion Page ID: ${event.notionPageId || event.id}`);
-    console.log(`   GCal Event ID: ${event.gcalEventId || "none (will create)"}`);
+    console.log(`   Notion Page ID: ${notionPageId}`);
+    console.log(`   GCal Event ID: ${gcalEventId || "none (will create)"}`);
+    console.log(`   Calendar: ${calendar.name}`);
     console.log(`   Start: ${event.startTime.toISOString()}`);
     console.log(`   End: ${event.endTime.toISOString()}`);
-    console.log(`   All-day event: ${isAllDay ? "YES" : "NO"}`);
-
-    // Loop prevention: Check if this event already has a GCal ID
-    if (event.gcalEventId) {
-      // This event already exists in GCal, so UPDATE it
-      console.log("   → Updating existing GCal event...");
-
-      try {
+    console.log(`   All-day event: ${event.allDay ? "YES" : "NO"}`);
+
+    // Already linked to a GCal event: update it instead of creating a duplicate
+    if (gcalEventId) {
+      const existingGcalEventId = gcalEventId;
+      // The "Calendar" select changed: move the event before updating it
+      if (linkedCalendar.calendarId !== calendar.calendarId) {
+        console.log(`   → Moving GCal event from "${linkedCalendar.name}" to "${calendar.name}"...`);
         await retryWithBackoff(
-          () =>
-            updateGcalEvent(event.gcalEventId!, {
-              title: event.title,
-              description: event.description,
-              startTime: event.startTime,
-              endTime: event.endTime,
-              location: event.location,
-              // REMOVED: Don't sync status from Notion to avoid accidental cancellations
-              // status: event.status === "confirmed" || event.status === "tentative" ? event.status : undefined,
-              reminders: event.reminders,
-              notionPageId: event.notionPageId,
-            }),
+          () => moveGcalEvent(existingGcalEventId, linkedCalendar.calendarId, calendar.calendarId),
           {
             onRetry: (error, attempt) => {
-              console.log(`Retrying updateGcalEvent (attempt ${attempt}):`, error.message);
+              console.log(`Retrying moveGcalEvent (attempt ${attempt}):`, error.message);
             },
           },
         );
-      } catch (updateError: unknown) {
-        // Skip read-only events like birthdays from Google Contacts
-        const errorMessage =
-          updateError instanceof Error ? updateError.message : String(updateError);
-        if (
-          errorMessage.includes("birthday") ||
-          errorMessage.includes("not valid for this event type")
-        ) {
-          console.warn(
-            `⚠️  Skipping read-only event: "${event.title}" (${event.gcalEventId}) - Cannot modify special Google Calendar event types`,
+      }
+
+      // This event already exists in GCal, so UPDATE it
+      console.log("   → Updating existing GCal event...");
+
+      // Three-way merge with the current GCal event when a snapshot from the last sync exists
+      const merge = await mergeWithCounterpart("notion", event, mapping?.snapshot, () =>
+        getGcalEvent(existingGcalEventId, calendar.calendarId),
+      );
+      const gcalUpdates: Partial<Event> = merge
+        ? merge.gcalUpdates
+        : {
+            title: event.title,
+            description: event.description,
+            startTime: event.startTime,
+            endTime: event.endTime,
+            allDay: event.allDay,
+            location: event.location,
+            rrule: event.rrule,
+            // An empty list may be guests Notion cannot show, so it never clears Google's
+            ...(event.attendees?.length && { attendees: event.attendees }),
+            custom: event.custom,
+            // REMOVED: Don't sync status from Notion to avoid accidental cancellations
+            // status: event.status === "confirmed" || event.status === "tentative" ? event.status : undefined,
+            reminders: event.reminders,
+            useDefaultReminders: event.useDefaultReminders,
+          };
+
+      if (!merge || Object.keys(gcalUpdates).length > 0) {
+        try {
+          await retryWithBackoff(
+            () =>
+              updateGcalEvent(
+                existingGcalEventId,
+                {
+                  ...gcalUpdates,
+                  notionPageId,
+                },
+                calendar.calendarId,
+              ),
+            {
+              onRetry: (error, attempt) => {
+                console.log(`Retrying updateGcalEvent (attempt ${attempt}):`, error.message);
+              },
+            },
           );
-          // Don't re-throw - just skip this event
-          return;
+        } catch (updateError: unknown) {
+          // Skip read-only events like birthdays from Google Contacts
+          const errorMessage =
+            updateError instanceof Error ? updateError.message : String(updateError);
+          if (
+            errorMessage.includes("birthday") ||
+            errorMessage.includes("not valid for this event type")
+          ) {
+            console.warn(
+              `⚠️  Skipping read-only event: "${event.title}" (${existingGcalEventId}) - Cannot modify special Google Calendar event types`,
+            );
+            // Don't re-throw - just skip this event
+            return;
+          }
+          throw updateError;
         }
-        throw updateError;
+      } else {
+        console.log("   → GCal event already up to date");
+      }
+
+      // Copy fields where Google Calendar won the merge back to Notion
+      const notionUpdates: Partial<Event> = {
+        ...merge?.notionUpdates,
+        ...(await calendarLabelUpdate(event, calendar)),
+      };
+
+      // Restore the GCal Event ID property if it was cleared in Notion
+      if (!event.gcalEventId) {
+        console.log("   → Restoring cleared GCal Event ID property from mapping...");
+        notionUpdates.gcalEventId = existingGcalEventId;
       }
 
+      if (Object.keys(notionUpdates).length > 0) {
+        const timeZone = await getCalendarTimeZone(calendar.calendarId);
+        await retryWithBackoff(() => updateNotionEvent(notionPageId, notionUpdates, timeZone), {
+          onRetry: (error, attempt) => {
+            console.log(`Retrying updateNotionEvent (attempt ${attempt}):`, error.message);
+          },
+        });
+      }
+
+      if (merge) {
+        await recordConflicts(merge.conflicts, {
+          notionPageId,
+          gcalEventId: existingGcalEventId,
+          eventTitle: event.title,
+        });
+      }
+
+      await recordSyncedState(
+        notionPageId,
+        existingGcalEventId,
+        calendar.calendarId,
+        event,
+        merge,
+      );
+
       await logSync({
         direction: "notion_to_gcal",
         operation: "update",
         eventId: event.id,
         eventTitle: event.title,
         status: "success",
-        notionPageId: event.notionPageId,
-        gcalEventId: event.gcalEventId,
+        notionPageId,
+        gcalEventId: existingGcalEventId,
         eventDescription: event.description,
         eventStartTime: event.startTime,
         eventEndTime: event.endTime,
@@ -90,15 +384,18 @@ export async function syncNotionToGcal(event: Event): Promise<void> {
         eventVisibility: event.visibility,
       });
 
-      console.log(`✓ Updated GCal event: ${event.title} (${event.gcalEventId})`);
+      console.log(`✓ Updated GCal event: ${event.title} (${existingGcalEventId})`);
     } else {
       // This event doesn't exist in GCal yet, so CREATE it
-      const gcalEventId = await retryWithBackoff(
+      const createdGcalEventId = await retryWithBackoff(
         () =>
-          createGcalEvent({
-            ...event,
-            notionPageId: event.notionPageId || event.id,
-          }),
+          createGcalEvent(
+            {
+              ...event,
+              notionPageId,
+            },
+            calendar.calendarId,
+          ),
         {
           onRetry: (error, attempt) => {
             console.log(`Retrying createGcalEvent (attempt ${attempt}):`, error.message);
@@ -106,11 +403,17 @@ export async function syncNotionToGcal(event: Event): Promise<void> {
         },
       );
 
-      // Update Notion page with the new GCal event ID
+      gcalEventId = createdGcalEventId;
+
+      await recordSyncedState(notionPageId, createdGcalEventId, calendar.calendarId, event, null);
+
+      // Update Notion page with the new GCal event ID (and the calendar it landed in)
+      const calendarUpdate = await calendarLabelUpdate(event, calendar);
       await retryWithBackoff(
         () =>
-          updateNotionEvent(event.notionPageId || event.id, {
-            gcalEventId,
+          updateNotionEvent(notionPageId, {
+            gcalEventId: createdGcalEventId,
+            ...calendarUpdate,
           }),
         {
           onRetry: (error, attempt) => {
@@ -125,8 +428,8 @@ export async function syncNotionToGcal(event: Event): Promise<void> {
         eventId: event.id,
         eventTitle: event.title,
         status: "success",
-        notionPageId: event.notionPageId || event.id,
-        gcalEventId: gcalEventId,
+        notionPageId,
+        gcalEventId: createdGcalEventId,
         eventDescription: event.description,
         eventStartTime: event.startTime,
         eventEndTime: event.endTime,
@@ -141,20 +444,20 @@ export async function syncNotionToGcal(event: Event): Promise<void> {
         eventVisibility: event.visibility,
       });
 
-      console.log(`✓ Created GCal event: ${event.title} (${gcalEventId})`);
+      console.log(`✓ Created GCal event: ${event.title} (${createdGcalEventId})`);
     }
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
 
     await logSync({
       direction: "notion_to_gcal",
-      operation: event.gcalEventId ? "update" : "create",
+      operation: gcalEventId ? "update" : "create",
       eventId: event.id,
       eventTitle: event.title,
       status: "failure",
       error: errorMessage,
-      notionPageId: event.notionPageId,
-      gcalEventId: event.gcalEventId,
+      notionPageId,
+      gcalEventId,
       eventDescription: event.description,
       eventStartTime: event.startTime,
       eventEndTime: event.endTime,
@@ -171,49 +474,149 @@ export async function syncNotionToGcal(event: Event): Promise<void> {
 
     console.error(`✗ Failed to sync Notion event to GCal: ${event.title}`, error);
 
-    // Re-throw if it's not a retryable error, so we can alert
-    if (!isRetryableError(error)) {
-      throw error;
-    }
+    // Re-throw so the caller can retry later (the sync job queue reschedules failed jobs)
+    throw error;
   }
 }
 
 /**
  * Sync an event from Google Calendar to Notion
- * Handles loop prevention by checking for existing notionPageId
+ * Skips echoes of our own writes by comparing the event's content hash with the one
+ * recorded at the last sync, and resolves the Notion page from the notionPageId property,
+ * falling back to the persistent mapping store when the extended property is missing.
+ * The source calendar is written to the page's "Calendar" select.
+ * Events the sync filters exclude are skipped.
  */
 export async function syncGcalToNotion(event: Event): Promise<void> {
+  const gcalEventId = event.gcalEventId || event.id;
+  let notionPageId = event.notionPageId;
+
   try {
+    const mapping = await getMappingByGcalId(gcalEventId);
+    notionPageId = notionPageId || mapping?.notionPageId;
+
+    const calendar = await resolveCalendar({ calendarId: event.calendarId });
+    if (calendar.direction === "notion_to_gcal") {
+      console.log(
+        `⏭️  [GCal→Notion] Skipping "${event.title}": calendar "${calendar.name}" only syncs from Notion`,
+      );
+      return;
+    }
+
+    if (event.excluded) {
+      console.log(`⏭️  [GCal→Notion] Skipping "${event.title}": excluded by sync filters`);
+      return;
+    }
+
+    // Google → Notion only: mirror into Notion without writing anything back to Google
+    const readOnly = calendar.direction === "gcal_to_notion";
+    if (!readOnly) {
+      event = await restoreSyncedValues(event, "gcal", mapping?.snapshot);
+    }
+
+    // Echo suppression: the event still holds exactly what the last sync wrote to GCal.
+    // Instances of a series carry no page ID of their own, only their mapping.
+    if (
+      mapping &&
+      (event.recurringEventId || event.notionPageId === mapping.notionPageId) &&
+      mapping.gcalHash === hashEvent(event)
+    ) {
+      console.log(`⏭️  [GCal→Notion] Skipping unchanged event (echo): "${event.title}"`);
+      await recordSuppressedEcho();
+      return;
+    }
+
     console.log(`\n🔄 [GCal→Notion] Processing: "${event.title}"`);
-    console.log(`   GCal Event ID: ${event.gcalEventId || event.id}`);
-    console.log(`   Notion Page ID: ${event.notionPageId || "none (will create)"}`);
+    console.log(`   GCal Event ID: ${gcalEventId}`);
+    console.log(`   Notion Page ID: ${notionPageId || "none (will create)"}`);
+    console.log(`   Calendar: ${calendar.name}`);
     console.log(`   Start: ${event.startTime.toISOString()}`);
     console.log(`   End: ${event.endTime.toISOString()}`);
 
-    // Loop prevention: Check if this event already has a Notion page ID
-    if (event.notionPageId) {
+    // Already linked to a Notion page: update it instead of creating a duplicate
+    if (notionPageId) {
+      const existingNotionPageId = notionPageId;
       // This event already exists in Notion, so UPDATE it
       console.log("   → Updating existing Notion page...");
 
       try {
-        await retryWithBackoff(
-          () =>
-            updateNotionEvent(event.notionPageId!, {
+        // Three-way merge with the current Notion page when a snapshot from the last sync exists.
+        // Read-only calendars always overwrite Notion, since nothing may be copied back.
+        const merge = readOnly
+          ? null
+          : await mergeWithCounterpart("gcal", event, mapping?.snapshot, () =>
+              getNotionEvent(existingNotionPageId),
+            );
+        const notionUpdates: Partial<Event> = merge
+          ? merge.notionUpdates
+          : {
               title: event.title,
               description: event.description,
               startTime: event.startTime,
               endTime: event.endTime,
+              allDay: event.allDay,
               location: event.location,
-              // REMOVED: Don't sync status to Notion (Status property was deleted)
-              // status: event.status,
+              recurrence: event.recurrence,
+              rrule: event.rrule,
+              attendees: event.attendees ?? [],
+              // Only written when the status field is mapped
+              status: event.status,
               reminders: event.reminders,
-              gcalEventId: event.gcalEventId,
-            }),
-          {
-            onRetry: (error, attempt) => {
-              console.log(`Retrying updateNotionEvent (attempt ${attempt}):`, error.message);
+              useDefaultReminders: event.useDefaultReminders,
+              custom: event.custom,
+              gcalEventId,
+              ...(await calendarLabelUpdate(event, calendar)),
+            };
+
+        if (!merge || Object.keys(notionUpdates).length > 0) {
+          // Times are written in the calendar's zone, as they appear in Google Calendar
+          const timeZone = await getCalendarTimeZone(calendar.calendarId);
+          await retryWithBackoff(
+            () => updateNotionEvent(existingNotionPageId, notionUpdates, timeZone),
+            {
+              onRetry: (error, attempt) => {
+                console.log(`Retrying updateNotionEvent (attempt ${attempt}):`, error.message);
+              },
             },
-          },
+          );
+        } else {
+          console.log("   → Notion page already up to date");
+        }
+
+        // Copy fields where Notion won the merge back to Google Calendar
+        const gcalUpdates: Partial<Event> = { ...merge?.gcalUpdates };
+
+        // Restore the notion_page_id extended property if it was missing on the GCal event
+        if (!event.notionPageId && !event.recurringEventId && !readOnly) {
+          console.log("   → Restoring missing Notion page ID on GCal event from mapping...");
+          gcalUpdates.notionPageId = existingNotionPageId;
+        }
+
+        if (Object.keys(gcalUpdates).length > 0) {
+          await retryWithBackoff(
+            () => updateGcalEvent(gcalEventId, gcalUpdates, calendar.calendarId),
+            {
+              onRetry: (error, attempt) => {
+                console.log(`Retrying updateGcalEvent (attempt ${attempt}):`, error.message);
+              },
+            },
+          );
+        }
+
+        if (merge) {
+          await recordConflicts(merge.conflicts, {
+            notionPageId: existingNotionPageId,
+            gcalEventId,
+            eventTitle: event.title,
+          });
+        }
+
+        await recordSyncedState(
+          existingNotionPageId,
+          gcalEventId,
+          calendar.calendarId,
+          event,
+          merge,
         );
 
         await logSync({
@@ -222,8 +625,8 @@ export async function syncGcalToNotion(event: Event): Promise<void> {
           eventId: event.id,
           eventTitle: event.title,
           status: "success",
-          notionPageId: event.notionPageId,
-          gcalEventId: event.gcalEventId,
+          notionPageId: existingNotionPageId,
+          gcalEventId,
           eventDescription: event.description,
           eventStartTime: event.startTime,
           eventEndTime: event.endTime,
@@ -238,7 +641,7 @@ export async function syncGcalToNotion(event: Event): Promise<void> {
           eventVisibility: event.visibility,
         });
 
-        console.log(`✓ Updated Notion event: ${event.title} (${event.notionPageId})`);
+        console.log(`✓ Updated Notion event: ${event.title} (${existingNotionPageId})`);
       } catch (updateError: unknown) {
         // If the Notion page is archived/deleted, create a new one instead
         const errorMessage = updateError instanceof Error ? updateError.message : "";
@@ -253,131 +656,31 @@ export async function syncGcalToNotion(event: Event): Promise<void> {
           errorCode === "object_not_found"
         ) {
           console.log(
-            `⚠️  Notion page ${event.notionPageId} is archived/deleted, creating new page for "${event.title}"`,
+            `⚠️  Notion page ${existingNotionPageId} is archived/deleted, creating new page for "${event.title}"`,
           );
 
-          // Create new Notion page
-          // Exclude status field since Status property doesn't exist in Notion
-          const { status, ...eventWithoutStatus } = event;
-          const notionPageId = await retryWithBackoff(
-            () =>
-              createNotionEvent({
-                ...eventWithoutStatus,
-                gcalEventId: event.gcalEventId || event.id,
-              }),
-            {
-              onRetry: (error, attempt) => {
-                console.log(`Retrying createNotionEvent (attempt ${attempt}):`, error.message);
-              },
-            },
-          );
-
-          // Update GCal event with the new Notion page ID
-          await retryWithBackoff(
-            () =>
-              updateGcalEvent(event.gcalEventId || event.id, {
-                notionPageId,
-              }),
-            {
-              onRetry: (error, attempt) => {
-                console.log(`Retrying updateGcalEvent (attempt ${attempt}):`, error.message);
-              },
-            },
-          );
-
-          await logSync({
-            direction: "gcal_to_notion",
-            operation: "create",
-            eventId: event.id,
-            eventTitle: event.title,
-            status: "success",
-            notionPageId: notionPageId,
-            gcalEventId: event.gcalEventId || event.id,
-            eventDescription: event.description,
-            eventStartTime: event.startTime,
-            eventEndTime: event.endTime,
-            eventLocation: event.location,
-            eventStatus: event.status,
-            eventReminders: event.reminders,
-            eventAttendees: event.attendees,
-            eventOrganizer: event.organizer,
-            eventConferenceLink: event.conferenceLink,
-            eventRecurrence: event.recurrence,
-            eventColor: event.color,
-            eventVisibility: event.visibility,
-          });
-
-          console.log(`✓ Created new Notion event: ${event.title} (${notionPageId})`);
+          await deleteMappingByNotionId(existingNotionPageId);
+          await createNotionPageForGcalEvent(event, gcalEventId, calendar);
           return;
         }
         throw updateError;
       }
     } else {
       // This event doesn't exist in Notion yet, so CREATE it
-      // Exclude status field since Status property doesn't exist in Notion
-      const { status, ...eventWithoutStatus } = event;
-      const notionPageId = await retryWithBackoff(
-        () =>
-          createNotionEvent({
-            ...eventWithoutStatus,
-            gcalEventId: event.gcalEventId || event.id,
-          }),
-        {
-          onRetry: (error, attempt) => {
-            console.log(`Retrying createNotionEvent (attempt ${attempt}):`, error.message);
-          },
-        },
-      );
-
-      // Update GCal event with the new Notion page ID
-      await retryWithBackoff(
-        () =>
-          updateGcalEvent(event.gcalEventId || event.id, {
-            notionPageId,
-          }),
-        {
-          onRetry: (error, attempt) => {
-            console.log(`Retrying updateGcalEvent (attempt ${attempt}):`, error.message);
-          },
-        },
-      );
-
-      await logSync({
-        direction: "gcal_to_notion",
-        operation: "create",
-        eventId: event.id,
-        eventTitle: event.title,
-        status: "success",
-        notionPageId: notionPageId,
-        gcalEventId: event.gcalEventId || event.id,
-        eventDescription: event.description,
-        eventStartTime: event.startTime,
-        eventEndTime: event.endTime,
-        eventLocation: event.location,
-        eventStatus: event.status,
-        eventReminders: event.reminders,
-        eventAttendees: event.attendees,
-        eventOrganizer: event.organizer,
-        eventConferenceLink: event.conferenceLink,
-        eventRecurrence: event.recurrence,
-        eventColor: event.color,
-        eventVisibility: event.visibility,
-      });
-
-      console.log(`✓ Created Notion event: ${event.title} (${notionPageId})`);
+      await createNotionPageForGcalEvent(event, gcalEventId, calendar);
     }
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
 
     await logSync({
       direction: "gcal_to_notion",
-      operation: event.notionPageId ? "update" : "create",
+      operation: notionPageId ? "update" : "create",
       eventId: event.id,
       eventTitle: event.title,
       status: "failure",
       error: errorMessage,
-      notionPageId: event.notionPageId,
-      gcalEventId: event.gcalEventId,
+      notionPageId,
+      gcalEventId,
       eventDescription: event.description,
       eventStartTime: event.startTime,
       eventEndTime: event.endTime,
@@ -394,24 +697,102 @@ export async function syncGcalToNotion(event: Event): Promise<void> {
 
     console.error(`✗ Failed to sync GCal event to Notion: ${event.title}`, error);
 
-    // Re-throw if it's not a retryable error
-    if (!isRetryableError(error)) {
-      throw error;
-    }
+    // Re-throw so the caller can retry later
+    throw error;
   }
 }
 
+/**
+ * Create a Notion page for a Google Calendar event, link both sides and record the mapping
+ */
+async function createNotionPageForGcalEvent(
+  event: Event,
+  gcalEventId: string,
+  calendar: SyncedCalendar,
+): Promise<string> {
+  const timeZone = await getCalendarTimeZone(calendar.calendarId);
+  const notionPageId = await retryWithBackoff(
+    () =>
+      createNotionEvent(
+        {
+          ...event,
+          gcalEventId,
+          calendar: calendar.name,
+        },
+        timeZone,
+      ),
+    {
+      onRetry: (error, attempt) => {
+        console.log(`Retrying createNotionEvent (attempt ${attempt}):`, error.message);
+      },
+    },
+  );
+
+  await recordSyncedState(notionPageId, gcalEventId, calendar.calendarId, event, null);
+
+  // Update GCal event with the new Notion page ID (read-only calendars and instances of a
+  // series, which read back the series' page ID, rely on the mapping store)
+  if (calendar.direction !== "gcal_to_notion" && !event.recurringEventId) {
+    await retryWithBackoff(
+      () =>
+        updateGcalEvent(
+          gcalEventId,
+          {
+            notionPageId,
+          },
+          calendar.calendarId,
+        ),
+      {
+        onRetry: (error, attempt) => {
+          console.log(`Retrying updateGcalEvent (attempt ${attempt}):`, error.message);
+        },
+      },
+    );
+  }
+
+  await logSync({
+    direction: "gcal_to_notion",
+    operation: "create",
+    eventId: event.id,
+    eventTitle: event.title,
+    status: "success",
+    notionPageId,
+    gcalEventId,
+    eventDescription: event.description,
+    eventStartTime: event.startTime,
+    eventEndTime: event.endTime,
+    eventLocation: event.location,
+    eventStatus: event.status,
+    eventReminders: event.reminders,
+    eventAttendees: event.attendees,
+    eventOrganizer: event.organizer,
+    eventConferenceLink: event.conferenceLink,
+    eventRecurrence: event.recurrence,
+    eventColor: event.color,
+    eventVisibility: event.visibility,
+  });
+
+  console.log(`✓ Created Notion event: ${event.title} (${notionPageId})`);
+  return notionPageId;
+}
+
 /**
  * Delete an event from Google Calendar (when deleted in Notion)
  */
-export async function deleteFromGcal(gcalEventId: string, eventTitle: string): Promise<void> {
+export async function deleteFromGcal(
+  gcalEventId: string,
+  eventTitle: string,
+  calendarId?: string,
+): Promise<void> {
   try {
-    await retryWithBackoff(() => deleteGcalEvent(gcalEventId), {
+    await retryWithBackoff(() => deleteGcalEvent(gcalEventId, calendarId), {
       onRetry: (error, attempt) => {
         console.log(`Retrying deleteGcalEvent (attempt ${attempt}):`, error.message);
       },
     });
 
+    await deleteMappingByGcalId(gcalEventId);
+
     await logSync({
       direction: "notion_to_gcal",
       operation: "delete",
@@ -437,9 +818,7 @@ export async function deleteFromGcal(gcalEventId: string, eventTitle: string): P
 
     console.error(`✗ Failed to delete GCal event: ${eventTitle}`, error);
 
-    if (!isRetryableError(error)) {
-      throw error;
-    }
+    throw error;
   }
 }
 
@@ -454,6 +833,8 @@ export async function deleteFromNotion(notionPageId: string, eventTitle: string)
       },
     });
 
+    await deleteMappingByNotionId(notionPageId);
+
     await logSync({
       direction: "gcal_to_notion",
       operation: "delete",
@@ -479,8 +860,75 @@ export async function deleteFromNotion(notionPageId: string, eventTitle: string)
 
     console.error(`✗ Failed to delete Notion event: ${eventTitle}`, error);
 
-    if (!isRetryableError(error)) {
-      throw error;
-    }
+    throw error;
+  }
+}
+
+/**
+ * Leave a cancelled occurrence out of its series in Notion (when cancelled in Google
+ * Calendar): the series page gets an EXDATE line, and a page the occurrence had of its own
+ * after being modified is deleted. The series page itself is never deleted.
+ */
+export async function excludeFromSeries(
+  gcalEventId: string,
+  recurringEventId: string,
+  originalStartTime: Date,
+  eventTitle: string,
+): Promise<void> {
+  const ownMapping = await getMappingByGcalId(gcalEventId);
+  if (ownMapping) {
+    await deleteFromNotion(ownMapping.notionPageId, eventTitle);
+  }
+
+  const seriesMapping = await getMappingByGcalId(recurringEventId);
+  const series = seriesMapping && (await getNotionEvent(seriesMapping.notionPageId));
+  if (!seriesMapping || !series?.rrule) {
+    console.log(`⚠️  Series ${recurringEventId} has no recurrence rule in Notion to exclude from`);
+    return;
+  }
+
+  const exdate = toExdate(originalStartTime, series.allDay);
+  if (series.rrule.includes(exdate)) {
+    return;
+  }
+
+  const notionPageId = seriesMapping.notionPageId;
+  const rrule = [...series.rrule, exdate];
+  try {
+    await retryWithBackoff(() => updateNotionEvent(notionPageId, { rrule }), {
+      onRetry: (error, attempt) => {
+        console.log(`Retrying updateNotionEvent (attempt ${attempt}):`, error.message);
+      },
+    });
+
+    await logSync({
+      direction: "gcal_to_notion",
+      operation: "update",
+      eventId: gcalEventId,
+      eventTitle: series.title,
+      status: "success",
+      notionPageId,
+      gcalEventId: recurringEventId,
+      eventRecurrence: series.recurrence,
+    });
+
+    console.log(`✓ Excluded ${exdate} from Notion series: ${series.title} (${notionPageId})`);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+
+    await logSync({
+      direction: "gcal_to_notion",
+      operation: "update",
+      eventId: gcalEventId,
+      eventTitle: series.title,
+      status: "failure",
+      error: errorMessage,
+      notionPageId,
+      gcalEventId: recurringEventId,
+    });
+
+    console.error(`✗ Failed to exclude occurrence from Notion series: ${series.title}`, error);
+
+    throw error;
   }
 }
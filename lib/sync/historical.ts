@@ -2,9 +2,11 @@
  * Historical sync service for syncing past Google Calendar events to Notion.
  * Allows users to sync events from a specified time period when first enabling sync.
  */
-import { fetchGcalEvents } from "@/lib/google-calendar/client";
+import { fetchSyncedGcalEvents } from "@/lib/google-calendar/client";
 import { getRedis } from "@/lib/redis";
+import { getSyncDirection, pairScopedKey } from "@/lib/settings";
 import { syncGcalToNotion } from "@/lib/sync/engine";
+import { type SyncPlan, planSync } from "@/lib/sync/plan";
 import type { Event } from "@/lib/types";
 
 // Redis key for historical sync progress
@@ -32,6 +34,7 @@ export interface HistoricalSyncProgress {
 
 export interface HistoricalSyncPreview {
   total: number;
+  excluded: number; // Left out by the sync filters
   newEvents: number;
   alreadySynced: number;
   recurringInstances: number;
@@ -56,8 +59,9 @@ export async function getHistoricalSyncProgress(): Promise<HistoricalSyncProgres
   if (!redis) {
     return DEFAULT_PROGRESS;
   }
+  const historicalSyncProgressKey = await pairScopedKey(HISTORICAL_SYNC_PROGRESS_KEY);
 
-  const progress = await redis.get<HistoricalSyncProgress>(HISTORICAL_SYNC_PROGRESS_KEY);
+  const progress = await redis.get<HistoricalSyncProgress>(historicalSyncProgressKey);
   return progress || DEFAULT_PROGRESS;
 }
 
@@ -65,11 +69,12 @@ export async function getHistoricalSyncProgress(): Promise<HistoricalSyncProgres
  * Update historical sync progress in Redis
  */
 async function updateProgress(progress: Partial<HistoricalSyncProgress>): Promise<void> {
+  const historicalSyncProgressKey = await pairScopedKey(HISTORICAL_SYNC_PROGRESS_KEY);
   const redis = getRedis();
   if (!redis) return;
 
   const current = await getHistoricalSyncProgress();
-  await redis.set(HISTORICAL_SYNC_PROGRESS_KEY, { ...current, ...progress });
+  await redis.set(historicalSyncProgressKey, { ...current, ...progress });
 }
 
 /**
@@ -98,11 +103,10 @@ export async function resetHistoricalSync(): Promise<void> {
 }
 
 /**
- * Check if an event is a recurring instance (has a recurringEventId or is part of a series)
+ * Check if an event is a recurring series or a modified instance of one
  */
 function isRecurringInstance(event: Event): boolean {
-  // Events expanded from recurring series have recurrence info or are instances
-  return event.recurrence !== undefined;
+  return event.rrule !== undefined || event.recurringEventId !== undefined;
 }
 
 /**
@@ -117,14 +121,20 @@ export async function getHistoricalSyncPreview(days: number): Promise<Historical
   console.log(`📊 Fetching preview for historical sync: ${days} days back`);
 
   // Fetch all events in the date range
-  const events = await fetchGcalEvents(timeMin, timeMax);
+  const events = await fetchSyncedGcalEvents(timeMin, timeMax);
 
   // Categorize events
+  let excluded = 0;
   let newEvents = 0;
   let alreadySynced = 0;
   let recurringInstances = 0;
 
   for (const event of events) {
+    if (event.excluded) {
+      excluded++;
+      continue;
+    }
+
     if (event.notionPageId) {
       alreadySynced++;
     } else {
@@ -142,12 +152,26 @@ export async function getHistoricalSyncPreview(days: number): Promise<Historical
 
   return {
     total: events.length,
+    excluded,
     newEvents,
     alreadySynced,
     recurringInstances,
   };
 }
 
+/**
+ * Plan the historical sync for a given time range: every create and update it would make,
+ * with the fields each update changes. Does not perform any sync operations.
+ */
+export async function getHistoricalSyncPlan(days: number): Promise<SyncPlan> {
+  const timeMax = new Date();
+  const timeMin = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+  console.log(`📋 Planning historical sync: ${days} days back`);
+  const gcalEvents = await fetchSyncedGcalEvents(timeMin, timeMax);
+  return planSync("historical", { gcalEvents });
+}
+
 /**
  * Start historical sync for events from the specified number of days in the past.
  * This is a non-blocking operation that runs in the background.
@@ -158,6 +182,10 @@ export async function startHistoricalSync(days: number): Promise<void> {
     throw new Error(`Days must be between 1 and ${MAX_HISTORICAL_DAYS}`);
   }
 
+  if ((await getSyncDirection()) === "notion_to_gcal") {
+    throw new Error("Historical sync is unavailable: this sync pair only syncs Notion → Google");
+  }
+
   // Check if already running
   const currentProgress = await getHistoricalSyncProgress();
   if (currentProgress.status === "running") {
@@ -188,7 +216,7 @@ export async function startHistoricalSync(days: number): Promise<void> {
 
     // Fetch all events in the date range
     console.log(`📅 Fetching events from ${timeMin.toISOString()} to ${timeMax.toISOString()}`);
-    const allEvents = await fetchGcalEvents(timeMin, timeMax);
+    const allEvents = await fetchSyncedGcalEvents(timeMin, timeMax);
 
     console.log(`📊 Found ${allEvents.length} events to process`);
     await updateProgress({ total: allEvents.length });
@@ -197,7 +225,7 @@ export async function startHistoricalSync(days: number): Promise<void> {
     let processed = 0;
     let created = 0;
     let updated = 0;
-    const skipped = 0;
+    let skipped = 0;
     let errors = 0;
 
     for (let i = 0; i < allEvents.length; i += BATCH_SIZE) {
@@ -213,6 +241,12 @@ export async function startHistoricalSync(days: number): Promise<void> {
       );
 
       for (const event of batch) {
+        if (event.excluded) {
+          skipped++;
+          processed++;
+          continue;
+        }
+
         try {
           // Determine if this is a create or update
           const isUpdate = !!event.notionPageId;
@@ -1,4 +1,5 @@
 import { getRedis } from "@/lib/redis";
+import { pairScopedKey } from "@/lib/settings";
 import type { SyncDirection, SyncLog, SyncMetrics, SyncOperation } from "@/lib/types";
 
 // Storage keys
@@ -25,6 +26,7 @@ const DEFAULT_METRICS = {
       used: 0,
     },
   },
+  suppressedEchoes: 0,
 };
 
 /**
@@ -35,7 +37,8 @@ async function getMetricsFromRedis() {
   if (!redis) {
     return DEFAULT_METRICS;
   }
-  const stored = await redis.get<typeof DEFAULT_METRICS>(METRICS_KEY);
+  const metricsKey = await pairScopedKey(METRICS_KEY);
+  const stored = await redis.get<typeof DEFAULT_METRICS>(metricsKey);
   return stored || DEFAULT_METRICS;
 }
 
@@ -47,6 +50,8 @@ export async function logSync(log: Omit<SyncLog, "id" | "timestamp">): Promise<v
   if (!redis) {
     return; // Silently skip logging when Redis is not configured
   }
+  const logsKey = await pairScopedKey(LOGS_KEY);
+  const metricsKey = await pairScopedKey(METRICS_KEY);
 
   const newLog: SyncLog = {
     id: `${Date.now()}-${Math.random().toString(36).slice(2, 9)}`,
@@ -55,10 +60,10 @@ export async function logSync(log: Omit<SyncLog, "id" | "timestamp">): Promise<v
   };
 
   // Add to logs list (Upstash Redis automatically serializes objects)
-  await redis.lpush(LOGS_KEY, newLog);
+  await redis.lpush(logsKey, newLog);
 
   // Trim to keep only MAX_LOGS entries
-  await redis.ltrim(LOGS_KEY, 0, MAX_LOGS - 1);
+  await redis.ltrim(logsKey, 0, MAX_LOGS - 1);
 
   // Update metrics
   const metrics = await getMetricsFromRedis();
@@ -92,7 +97,24 @@ export async function logSync(log: Omit<SyncLog, "id" | "timestamp">): Promise<v
   }
 
   // Save updated metrics
-  await redis.set(METRICS_KEY, metrics);
+  await redis.set(metricsKey, metrics);
+}
+
+/**
+ * Count an inbound change that was skipped because it only echoed our own last write.
+ * Echoes are not written to the sync log, so they are tracked as a counter only.
+ */
+export async function recordSuppressedEcho(): Promise<void> {
+  const redis = getRedis();
+  if (!redis) {
+    return;
+  }
+  const metricsKey = await pairScopedKey(METRICS_KEY);
+  const metrics = await getMetricsFromRedis();
+  await redis.set(metricsKey, {
+    ...metrics,
+    suppressedEchoes: (metrics.suppressedEchoes ?? 0) + 1,
+  });
 }
 
 /**
@@ -103,7 +125,8 @@ export async function getSyncLogs(limit = 100): Promise<SyncLog[]> {
   if (!redis) {
     return [];
   }
-  const logs = await redis.lrange<SyncLog>(LOGS_KEY, 0, limit - 1);
+  const logsKey = await pairScopedKey(LOGS_KEY);
+  const logs = await redis.lrange<SyncLog>(logsKey, 0, limit - 1);
   // Upstash Redis automatically deserializes JSON
   return logs;
 }
@@ -184,6 +207,7 @@ export async function getSyncMetrics(
     recentLogs: filteredLogs,
     operationCounts,
     apiQuota: storedMetrics.apiQuota, // API quota is not time-filtered
+    suppressedEchoes: storedMetrics.suppressedEchoes ?? 0, // Not time-filtered either
   };
 }
 
@@ -195,8 +219,10 @@ export async function clearLogs(): Promise<void> {
   if (!redis) {
     return;
   }
-  await redis.del(LOGS_KEY);
-  await redis.set(METRICS_KEY, DEFAULT_METRICS);
+  const logsKey = await pairScopedKey(LOGS_KEY);
+  const metricsKey = await pairScopedKey(METRICS_KEY);
+  await redis.del(logsKey);
+  await redis.set(metricsKey, DEFAULT_METRICS);
 }
 
 /**
@@ -207,10 +233,11 @@ export async function resetApiQuota(): Promise<void> {
   if (!redis) {
     return;
   }
+  const metricsKey = await pairScopedKey(METRICS_KEY);
   const metrics = await getMetricsFromRedis();
   metrics.apiQuota.notion.used = 0;
   metrics.apiQuota.googleCalendar.used = 0;
-  await redis.set(METRICS_KEY, metrics);
+  await redis.set(metricsKey, metrics);
 }
 
 // Webhook logging
@@ -261,6 +288,8 @@ export async function logWebhookEvent(log: Omit<WebhookLog, "id" | "timestamp">)
   if (!redis) {
     return; // Silently skip logging when Redis is not configured
   }
+  const webhookLogsKey = await pairScopedKey(WEBHOOK_LOGS_KEY);
+  const webhookMetricsKey = await pairScopedKey(WEBHOOK_METRICS_KEY);
 
   const newLog: WebhookLog = {
     id: `${Date.now()}-${Math.random().toString(36).slice(2, 9)}`,
@@ -269,13 +298,13 @@ export async function logWebhookEvent(log: Omit<WebhookLog, "id" | "timestamp">)
   };
 
   // Add to logs list
-  await redis.lpush(WEBHOOK_LOGS_KEY, newLog);
+  await redis.lpush(webhookLogsKey, newLog);
 
   // Trim to keep only MAX_WEBHOOK_LOGS
-  await redis.ltrim(WEBHOOK_LOGS_KEY, 0, MAX_WEBHOOK_LOGS - 1);
+  await redis.ltrim(webhookLogsKey, 0, MAX_WEBHOOK_LOGS - 1);
 
   // Update webhook metrics
-  const metrics = (await redis.get<WebhookMetrics>(WEBHOOK_METRICS_KEY)) || DEFAULT_WEBHOOK_METRICS;
+  const metrics = (await redis.get<WebhookMetrics>(webhookMetricsKey)) || DEFAULT_WEBHOOK_METRICS;
 
   if (log.type === "notification") {
     metrics.totalNotifications++;
@@ -297,7 +326,7 @@ export async function logWebhookEvent(log: Omit<WebhookLog, "id" | "timestamp">)
     metrics.errors++;
   }
 
-  await redis.set(WEBHOOK_METRICS_KEY, metrics);
+  await redis.set(webhookMetricsKey, metrics);
 }
 
 /**
@@ -308,7 +337,8 @@ export async function getWebhookLogs(limit = 100): Promise<WebhookLog[]> {
   if (!redis) {
     return [];
   }
-  const logs = await redis.lrange<WebhookLog>(WEBHOOK_LOGS_KEY, 0, limit - 1);
+  const webhookLogsKey = await pairScopedKey(WEBHOOK_LOGS_KEY);
+  const logs = await redis.lrange<WebhookLog>(webhookLogsKey, 0, limit - 1);
   return logs;
 }
 
@@ -320,6 +350,7 @@ export async function getWebhookMetrics(): Promise<WebhookMetrics> {
   if (!redis) {
     return DEFAULT_WEBHOOK_METRICS;
   }
-  const metrics = await redis.get<WebhookMetrics>(WEBHOOK_METRICS_KEY);
+  const webhookMetricsKey = await pairScopedKey(WEBHOOK_METRICS_KEY);
+  const metrics = await redis.get<WebhookMetrics>(webhookMetricsKey);
   return metrics || DEFAULT_WEBHOOK_METRICS;
 }
@@ -0,0 +1,148 @@
+/**
+ * Tests for the Notion ↔ Google Calendar ID mapping store
+ */
+import { beforeEach, describe, expect, test, vi } from "vitest";
+
+// In-memory Redis hash store
+const hashes = new Map<string, Map<string, unknown>>();
+
+function getHash(key: string): Map<string, unknown> {
+  if (!hashes.has(key)) {
+    hashes.set(key, new Map());
+  }
+  return hashes.get(key)!;
+}
+
+const mockRedis = {
+  hget: vi.fn(async (key: string, field: string) => getHash(key).get(field) ?? null),
+  hset: vi.fn(async (key: string, values: Record<string, unknown>) => {
+    for (const [field, value] of Object.entries(values)) {
+      getHash(key).set(field, value);
+    }
+    return Object.keys(values).length;
+  }),
+  hdel: vi.fn(async (key: string, ...fields: string[]) => {
+    for (const field of fields) {
+      getHash(key).delete(field);
+    }
+    return fields.length;
+  }),
+  hgetall: vi.fn(async (key: string) => {
+    const hash = getHash(key);
+    return hash.size ? Object.fromEntries(hash) : null;
+  }),
+  del: vi.fn(async (...keys: string[]) => {
+    for (const key of keys) {
+      hashes.delete(key);
+    }
+    return keys.length;
+  }),
+};
+
+vi.mock("@/lib/redis", () => ({
+  getRedis: vi.fn(() => mockRedis),
+}));
+
+import {
+  clearMappings,
+  deleteMappingByGcalId,
+  deleteMappingByNotionId,
+  getMappingByGcalId,
+  getMappingByNotionId,
+  hashEvent,
+  listMappings,
+  saveMapping,
+} from "./mapping";
+
+describe("mapping store", () => {
+  beforeEach(() => {
+    hashes.clear();
+    vi.clearAllMocks();
+  });
+
+  test("resolves a saved mapping from either side", async () => {
+    await saveMapping({ notionPageId: "page-1", gcalEventId: "event-1" });
+
+    expect((await getMappingByNotionId("page-1"))?.gcalEventId).toBe("event-1");
+    expect((await getMappingByGcalId("event-1"))?.notionPageId).toBe("page-1");
+  });
+
+  test("returns null for unknown IDs", async () => {
+    expect(await getMappingByNotionId("missing")).toBeNull();
+    expect(await getMappingByGcalId("missing")).toBeNull();
+  });
+
+  test("relinking a page drops the stale reverse index entry", async () => {
+    await saveMapping({ notionPageId: "page-1", gcalEventId: "event-1" });
+    await saveMapping({ notionPageId: "page-1", gcalEventId: "event-2" });
+
+    expect(await getMappingByGcalId("event-1")).toBeNull();
+    expect((await getMappingByGcalId("event-2"))?.notionPageId).toBe("page-1");
+  });
+
+  test("relinking an event drops the stale forward entry", async () => {
+    await saveMapping({ notionPageId: "page-1", gcalEventId: "event-1" });
+    await saveMapping({ notionPageId: "page-2", gcalEventId: "event-1" });
+
+    expect(await getMappingByNotionId("page-1")).toBeNull();
+    expect((await getMappingByGcalId("event-1"))?.notionPageId).toBe("page-2");
+    expect(await listMappings()).toHaveLength(1);
+  });
+
+  test("preserves hashes and createdAt when the link is unchanged", async () => {
+    const first = await saveMapping({
+      notionPageId: "page-1",
+      gcalEventId: "event-1",
+      notionHash: "n1",
+      gcalHash: "g1",
+    });
+    const second = await saveMapping({
+      notionPageId: "page-1",
+      gcalEventId: "event-1",
+      gcalHash: "g2",
+    });
+
+    expect(second?.notionHash).toBe("n1");
+    expect(second?.gcalHash).toBe("g2");
+    expect(second?.createdAt).toBe(first?.createdAt);
+  });
+
+  test("deletes mappings from either side", async () => {
+    await saveMapping({ notionPageId: "page-1", gcalEventId: "event-1" });
+    await saveMapping({ notionPageId: "page-2", gcalEventId: "event-2" });
+
+    await deleteMappingByNotionId("page-1");
+    await deleteMappingByGcalId("event-2");
+
+    expect(await getMappingByGcalId("event-1")).toBeNull();
+    expect(await getMappingByNotionId("page-2")).toBeNull();
+    expect(await listMappings()).toEqual([]);
+  });
+
+  test("clearMappings removes everything", async () => {
+    await saveMapping({ notionPageId: "page-1", gcalEventId: "event-1" });
+    await clearMappings();
+
+    expect(await listMappings()).toEqual([]);
+  });
+});
+
+describe("hashEvent", () => {
+  const base = {
+    title: "Standup",
+    startTime: new Date("2025-01-01T10:00:00Z"),
+    endTime: new Date("2025-01-01T10:30:00Z"),
+  };
+
+  test("is stable for equivalent content", () => {
+    expect(hashEvent({ ...base, title: " Standup " })).toBe(hashEvent(base));
+    expect(hashEvent({ ...base, description: "" })).toBe(hashEvent(base));
+  });
+
+  test("changes when content changes", () => {
+    expect(hashEvent({ ...base, title: "Retro" })).not.toBe(hashEvent(base));
+    expect(hashEvent({ ...base, endTime: new Date("2025-01-01T11:00:00Z") })).not.toBe(
+      hashEvent(base),
+    );
+  });
+});
@@ -0,0 +1,237 @@
+/**
+ * Persistent ID mapping store between Notion pages and Google Calendar events.
+ *
+ * The Notion "GCal Event ID" property and the GCal `notion_page_id` extended property
+ * can both be cleared or renamed by users. This store keeps the link in Redis so the
+ * engine, webhooks and cron jobs can resolve either side without searching the calendar.
+ */
+import crypto from "node:crypto";
+import { reminderSnapshot } from "@/lib/events/reminders";
+import { attendeeEmails } from "@/lib/notion/attendees";
+import { getRedis } from "@/lib/redis";
+import { pairScopedKey } from "@/lib/settings";
+import { formatDateOnly } from "@/lib/time-zone";
+import type { Event } from "@/lib/types";
+
+// Storage keys
+const MAPPINGS_KEY = "sync:mappings"; // Hash: notionPageId → EventMapping
+const GCAL_INDEX_KEY = "sync:mappings:gcal"; // Hash: gcalEventId → notionPageId
+
+/**
+ * Field values both sides agreed on after the last successful sync.
+ * Serves as the common ancestor for three-way merges.
+ */
+export interface EventSnapshot {
+  title: string;
+  description: string;
+  location: string;
+  startTime: string; // ISO timestamp
+  endTime: string; // ISO timestamp
+  reminders: number | string | null; // Minutes of a lone popup reminder, else formatted entries
+  rrule?: string; // Recurrence lines of a series, newline-separated
+  attendees?: string; // Guest email addresses, lower-cased, sorted and newline-separated
+  status?: "tentative" | "cancelled"; // Left out for confirmed events
+  custom?: Record<string, string>; // Non-empty custom mapping values by rule ID, sorted by ID
+}
+
+export interface EventMapping {
+  notionPageId: string;
+  gcalEventId: string;
+  calendarId?: string; // Google Calendar holding the event (the default calendar when unset)
+  notionHash?: string; // Hash of the event content last synced from/to Notion
+  gcalHash?: string; // Hash of the event content last synced from/to Google Calendar
+  snapshot?: EventSnapshot; // Field values at the last sync
+  createdAt: string;
+  updatedAt: string;
+  lastSyncedAt: string;
+}
+
+/**
+ * Custom mapping values as stored in snapshots: trimmed, without empty values, sorted by
+ * rule ID so the hash does not depend on the order rules were read in
+ */
+export function normalizeCustomValues(
+  custom: Record<string, string> | undefined,
+): Record<string, string> | undefined {
+  const entries = Object.entries(custom ?? {})
+    .map(([id, value]) => [id, value.trim()] as const)
+    .filter(([, value]) => value)
+    .sort(([a], [b]) => a.localeCompare(b));
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+}
+
+/**
+ * Build a snapshot of the syncable field values of an event.
+ */
+export function toSnapshot(event: Partial<Event>): EventSnapshot {
+  // All-day events are snapshotted as plain dates so switching to a timed event is a change
+  const formatTime = (time: Date) =>
+    event.allDay ? formatDateOnly(new Date(time)) : new Date(time).toISOString();
+  const custom = normalizeCustomValues(event.custom);
+  return {
+    title: event.title?.trim() || "",
+    description: event.description?.trim() || "",
+    location: event.location?.trim() || "",
+    startTime: event.startTime ? formatTime(event.startTime) : "",
+    endTime: event.endTime ? formatTime(event.endTime) : "",
+    reminders: reminderSnapshot(event),
+    // Only series carry a rule, so snapshots of single events keep their hash
+    ...(event.rrule?.length && { rrule: event.rrule.join("\n") }),
+    // Likewise only events with guests carry them; names and responses are not compared
+    ...(event.attendees?.length && { attendees: attendeeEmails(event.attendees) }),
+    ...(event.status && event.status !== "confirmed" && { status: event.status }),
+    ...(custom && { custom }),
+  };
+}
+
+/**
+ * Compute a stable hash of a snapshot.
+ */
+export function hashSnapshot(snapshot: EventSnapshot): string {
+  return crypto.createHash("sha256").update(JSON.stringify(snapshot)).digest("hex");
+}
+
+/**
+ * Compute a stable hash of the core event content.
+ * Used to detect whether an event has changed since it was last synced.
+ */
+export function hashEvent(event: Partial<Event>): string {
+  return hashSnapshot(toSnapshot(event));
+}
+
+/**
+ * Get the mapping for a Notion page
+ */
+export async function getMappingByNotionId(notionPageId: string): Promise<EventMapping | null> {
+  const redis = getRedis();
+  if (!redis) {
+    return null;
+  }
+  const mappingsKey = await pairScopedKey(MAPPINGS_KEY);
+  const mapping = await redis.hget<EventMapping>(mappingsKey, notionPageId);
+  return mapping || null;
+}
+
+/**
+ * Get the mapping for a Google Calendar event
+ */
+export async function getMappingByGcalId(gcalEventId: string): Promise<EventMapping | null> {
+  const redis = getRedis();
+  if (!redis) {
+    return null;
+  }
+  const gcalIndexKey = await pairScopedKey(GCAL_INDEX_KEY);
+  const notionPageId = await redis.hget<string>(gcalIndexKey, gcalEventId);
+  if (!notionPageId) {
+    return null;
+  }
+  return getMappingByNotionId(notionPageId);
+}
+
+/**
+ * Create or update the mapping between a Notion page and a Google Calendar event.
+ * If either side was previously linked to a different counterpart, the stale link is removed.
+ */
+export async function saveMapping(
+  mapping: Pick<EventMapping, "notionPageId" | "gcalEventId"> &
+    Partial<Pick<EventMapping, "calendarId" | "notionHash" | "gcalHash" | "snapshot">>,
+): Promise<EventMapping | null> {
+  const redis = getRedis();
+  if (!redis) {
+    return null; // Silently skip when Redis is not configured
+  }
+  const gcalIndexKey = await pairScopedKey(GCAL_INDEX_KEY);
+  const mappingsKey = await pairScopedKey(MAPPINGS_KEY);
+
+  const existing = await getMappingByNotionId(mapping.notionPageId);
+
+  // Drop stale reverse index entry if this page used to point at another event
+  if (existing && existing.gcalEventId !== mapping.gcalEventId) {
+    await redis.hdel(gcalIndexKey, existing.gcalEventId);
+  }
+
+  // Drop stale forward entry if this event used to point at another page
+  const previousPageId = await redis.hget<string>(gcalIndexKey, mapping.gcalEventId);
+  if (previousPageId && previousPageId !== mapping.notionPageId) {
+    await redis.hdel(mappingsKey, previousPageId);
+  }
+
+  const now = new Date().toISOString();
+  const sameLink = existing?.gcalEventId === mapping.gcalEventId;
+  const updated: EventMapping = {
+    notionPageId: mapping.notionPageId,
+    gcalEventId: mapping.gcalEventId,
+    calendarId: mapping.calendarId ?? (sameLink ? existing?.calendarId : undefined),
+    notionHash: mapping.notionHash ?? (sameLink ? existing?.notionHash : undefined),
+    gcalHash: mapping.gcalHash ?? (sameLink ? existing?.gcalHash : undefined),
+    snapshot: mapping.snapshot ?? (sameLink ? existing?.snapshot : undefined),
+    createdAt: sameLink && existing ? existing.createdAt : now,
+    updatedAt: now,
+    lastSyncedAt: now,
+  };
+
+  await redis.hset(mappingsKey, { [mapping.notionPageId]: updated });
+  await redis.hset(gcalIndexKey, { [mapping.gcalEventId]: mapping.notionPageId });
+
+  return updated;
+}
+
+/**
+ * Remove the mapping for a Notion page (and its reverse index entry)
+ */
+export async function deleteMappingByNotionId(notionPageId: string): Promise<void> {
+  const redis = getRedis();
+  if (!redis) {
+    return;
+  }
+  const gcalIndexKey = await pairScopedKey(GCAL_INDEX_KEY);
+  const mappingsKey = await pairScopedKey(MAPPINGS_KEY);
+  const existing = await getMappingByNotionId(notionPageId);
+  if (existing) {
+    await redis.hdel(gcalIndexKey, existing.gcalEventId);
+  }
+  await redis.hdel(mappingsKey, notionPageId);
+}
+
+/**
+ * Remove the mapping for a Google Calendar event (and its forward entry)
+ */
+export async function deleteMappingByGcalId(gcalEventId: string): Promise<void> {
+  const redis = getRedis();
+  if (!redis) {
+    return;
+  }
+  const gcalIndexKey = await pairScopedKey(GCAL_INDEX_KEY);
+  const mappingsKey = await pairScopedKey(MAPPINGS_KEY);
+  const notionPageId = await redis.hget<string>(gcalIndexKey, gcalEventId);
+  if (notionPageId) {
+    await redis.hdel(mappingsKey, notionPageId);
+  }
+  await redis.hdel(gcalIndexKey, gcalEventId);
+}
+
+/**
+ * List all stored mappings
+ */
+export async function listMappings(): Promise<EventMapping[]> {
+  const redis = getRedis();
+  if (!redis) {
+    return [];
+  }
+  const mappingsKey = await pairScopedKey(MAPPINGS_KEY);
+  const all = await redis.hgetall<Record<string, EventMapping>>(mappingsKey);
+  return all ? Object.values(all) : [];
+}
+
+/**
+ * Clear all mappings
+ */
+export async function clearMappings(): Promise<void> {
+  const redis = getRedis();
+  if (!redis) {
+    return;
+  }
+  const mappingsKey = await pairScopedKey(MAPPINGS_KEY);
+  const gcalIndexKey = await pairScopedKey(GCAL_INDEX_KEY);
+  await redis.del(mappingsKey, gcalIndexKey);
+}
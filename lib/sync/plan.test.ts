@@ -0,0 +1,330 @@
+import type { Event } from "@/lib/types";
+import { beforeEach, describe, expect, test, vi } from "vitest";
+
+vi.mock("@/lib/google-calendar/client", () => ({
+  fetchGcalEvents: vi.fn(),
+  getGcalEvent: vi.fn(),
+}));
+
+vi.mock("@/lib/notion/client", () => ({
+  getNotionEvent: vi.fn(),
+  notionPageExists: vi.fn(),
+}));
+
+vi.mock("@/lib/settings", () => ({
+  getActiveSyncPairId: vi.fn(async () => "default"),
+  getCustomMappings: vi.fn(async () => []),
+  getFieldMapping: vi.fn(async () => ({})),
+  getGoogleConfig: vi.fn(async () => ({
+    calendars: [
+      { calendarId: "primary", name: "Primary", direction: "bidirectional" },
+      { calendarId: "work", name: "Work", direction: "bidirectional" },
+      { calendarId: "oncall", name: "On-call", direction: "gcal_to_notion" },
+    ],
+  })),
+}));
+
+vi.mock("@/lib/sync/conflicts", () => ({ mergeEvents: vi.fn() }));
+
+vi.mock("@/lib/sync/engine", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/sync/engine")>()),
+  deleteFromGcal: vi.fn(),
+  deleteFromNotion: vi.fn(),
+  syncGcalToNotion: vi.fn(),
+  syncNotionToGcal: vi.fn(),
+}));
+
+vi.mock("@/lib/sync/mapping", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/sync/mapping")>()),
+  getMappingByGcalId: vi.fn(),
+  getMappingByNotionId: vi.fn(),
+}));
+
+import { fetchGcalEvents, getGcalEvent } from "@/lib/google-calendar/client";
+import { getNotionEvent, notionPageExists } from "@/lib/notion/client";
+import { mergeEvents } from "@/lib/sync/conflicts";
+import {
+  deleteFromGcal,
+  deleteFromNotion,
+  syncGcalToNotion,
+  syncNotionToGcal,
+} from "@/lib/sync/engine";
+import {
+  getMappingByGcalId,
+  getMappingByNotionId,
+  hashEvent,
+  toSnapshot,
+} from "@/lib/sync/mapping";
+import { applySyncPlan, findDeletedPageEvents, planSync } from "./plan";
+
+const page: Event = {
+  id: "page-1",
+  title: "Planning",
+  startTime: new Date("2026-03-03T09:00:00.000Z"),
+  endTime: new Date("2026-03-03T10:00:00.000Z"),
+  location: "Room 4",
+  gcalEventId: "gcal-1",
+};
+
+const gcalEvent: Event = {
+  ...page,
+  id: "gcal-1",
+  location: "Room 5",
+  calendarId: "primary",
+  notionPageId: "page-1",
+  gcalEventId: undefined,
+};
+
+function mapping(overrides = {}) {
+  return {
+    notionPageId: "page-1",
+    gcalEventId: "gcal-1",
+    calendarId: "primary",
+    createdAt: "2026-03-01T00:00:00.000Z",
+    updatedAt: "2026-03-01T00:00:00.000Z",
+    lastSyncedAt: "2026-03-01T00:00:00.000Z",
+    ...overrides,
+  };
+}
+
+describe("planSync", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getMappingByNotionId).mockResolvedValue(mapping());
+    vi.mocked(getMappingByGcalId).mockResolvedValue(mapping());
+    vi.mocked(getGcalEvent).mockResolvedValue(gcalEvent);
+    vi.mocked(getNotionEvent).mockResolvedValue(page);
+  });
+
+  test("plans an update of a linked event with the fields it changes", async () => {
+    const plan = await planSync("trigger", { notionEvents: [page] });
+
+    expect(getGcalEvent).toHaveBeenCalledWith("gcal-1", "primary");
+    expect(plan).toMatchObject({ source: "trigger", pairId: "default", skipped: 0, errors: [] });
+    expect(plan.changes).toEqual([
+      {
+        operation: "update",
+        direction: "notion_to_gcal",
+        title: "Planning",
+        notionPageId: "page-1",
+        gcalEventId: "gcal-1",
+        calendarId: "primary",
+        changes: [{ property: "location", type: "changed", before: "Room 5", after: "Room 4" }],
+      },
+    ]);
+  });
+
+  test("plans a create for an event without a counterpart", async () => {
+    vi.mocked(getMappingByNotionId).mockResolvedValue(null);
+
+    const plan = await planSync("trigger", { notionEvents: [{ ...page, gcalEventId: undefined }] });
+
+    expect(getGcalEvent).not.toHaveBeenCalled();
+    expect(plan.changes[0]).toMatchObject({ operation: "create", notionPageId: "page-1" });
+    expect(plan.changes[0].changes).toContainEqual({
+      property: "title",
+      type: "added",
+      after: "Planning",
+    });
+  });
+
+  test("leaves out echoes, excluded events and calendars of the other direction", async () => {
+    vi.mocked(getMappingByNotionId).mockResolvedValue(mapping({ notionHash: hashEvent(page) }));
+
+    const plan = await planSync("trigger", {
+      notionEvents: [
+        page,
+        { ...page, id: "page-2", excluded: true },
+        { ...page, id: "page-3", calendar: "On-call" },
+      ],
+      gcalEvents: [gcalEvent],
+    });
+
+    // The Google event is linked but still holds what the last sync wrote
+    vi.mocked(getMappingByGcalId).mockResolvedValue(mapping({ gcalHash: hashEvent(gcalEvent) }));
+    const echo = await planSync("historical", { gcalEvents: [gcalEvent] });
+
+    expect(plan.changes.map((change) => change.direction)).toEqual(["gcal_to_notion"]);
+    expect(plan.skipped).toBe(3);
+    expect(echo).toMatchObject({ changes: [], skipped: 1 });
+  });
+
+  test("leaves out echoes of series instances, which carry no page ID", async () => {
+    const instance: Event = {
+      ...gcalEvent,
+      id: "gcal-1_20260303T090000Z",
+      recurringEventId: "gcal-1",
+      notionPageId: undefined,
+    };
+    vi.mocked(getMappingByGcalId).mockResolvedValue(mapping({ gcalHash: hashEvent(instance) }));
+
+    const plan = await planSync("historical", { gcalEvents: [instance] });
+
+    expect(plan).toMatchObject({ changes: [], skipped: 1 });
+  });
+
+  test("diffs against the three-way merge result when the last sync left a snapshot", async () => {
+    const snapshot = toSnapshot({ ...page, location: "Room 1" });
+    vi.mocked(getMappingByGcalId).mockResolvedValue(mapping({ snapshot }));
+    vi.mocked(mergeEvents).mockReturnValue({
+      notionUpdates: {},
+      gcalUpdates: {},
+      conflicts: [],
+      snapshot,
+      notionResult: toSnapshot({ ...page, title: "Planning (moved)" }),
+      gcalResult: toSnapshot(gcalEvent),
+    });
+
+    const plan = await planSync("historical", {
+      gcalEvents: [{ ...gcalEvent, title: "Planning (moved)" }],
+    });
+
+    expect(mergeEvents).toHaveBeenCalledWith(
+      expect.objectContaining({ base: snapshot, source: "gcal" }),
+    );
+    expect(plan.changes[0]).toMatchObject({
+      operation: "update",
+      direction: "gcal_to_notion",
+      notionPageId: "page-1",
+      changes: [
+        { property: "title", type: "changed", before: "Planning", after: "Planning (moved)" },
+      ],
+    });
+  });
+
+  test("lists a change of calendar as a move", async () => {
+    const plan = await planSync("trigger", {
+      notionEvents: [{ ...page, location: "Room 5", calendar: "Work" }],
+    });
+
+    expect(plan.changes[0]).toMatchObject({
+      calendarId: "work",
+      changes: [{ property: "calendar", type: "changed", before: "Primary", after: "Work" }],
+    });
+  });
+
+  test("plans deletes and reports events it could not plan", async () => {
+    vi.mocked(getMappingByNotionId).mockRejectedValue(new Error("Redis unavailable"));
+
+    const plan = await planSync("cron", { notionEvents: [page], deletions: [gcalEvent] });
+
+    expect(plan.errors).toEqual([{ title: "Planning", error: "Redis unavailable" }]);
+    expect(plan.changes).toEqual([
+      expect.objectContaining({
+        operation: "delete",
+        direction: "notion_to_gcal",
+        gcalEventId: "gcal-1",
+        notionPageId: "page-1",
+      }),
+    ]);
+  });
+});
+
+test("findDeletedPageEvents finds Google events whose linked page is gone", async () => {
+  vi.clearAllMocks();
+  vi.mocked(fetchGcalEvents)
+    .mockResolvedValueOnce([
+      gcalEvent,
+      { ...gcalEvent, id: "gcal-2", notionPageId: undefined },
+      { ...gcalEvent, id: "gcal-3", notionPageId: undefined },
+    ])
+    .mockResolvedValueOnce([]);
+  vi.mocked(getMappingByGcalId).mockImplementation(async (id) =>
+    id === "gcal-2" ? mapping({ notionPageId: "page-2", gcalEventId: "gcal-2" }) : null,
+  );
+
+  const deleted = await findDeletedPageEvents([page]);
+
+  // Calendars that only sync from Google are not read
+  expect(fetchGcalEvents).toHaveBeenCalledTimes(2);
+  expect(deleted.map((event) => [event.gcalEventId, event.notionPageId])).toEqual([
+    ["gcal-2", "page-2"],
+  ]);
+});
+
+describe("applySyncPlan", () => {
+  const updatePage = {
+    operation: "update" as const,
+    direction: "notion_to_gcal" as const,
+    title: "Planning",
+    notionPageId: "page-1",
+  };
+
+  const deleteStandup = {
+    operation: "delete" as const,
+    direction: "notion_to_gcal" as const,
+    title: "Standup",
+    gcalEventId: "gcal-9",
+    calendarId: "work",
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getMappingByGcalId).mockResolvedValue(
+      mapping({ gcalEventId: "gcal-9", calendarId: "work" }),
+    );
+    vi.mocked(notionPageExists).mockResolvedValue(false);
+  });
+
+  test("re-reads each planned event and syncs it through the engine", async () => {
+    vi.mocked(getNotionEvent).mockResolvedValue(page);
+    vi.mocked(getGcalEvent).mockResolvedValue(gcalEvent);
+
+    const result = await applySyncPlan([
+      updatePage,
+      {
+        operation: "create",
+        direction: "gcal_to_notion",
+        title: "Planning",
+        gcalEventId: "gcal-1",
+        calendarId: "primary",
+      },
+      deleteStandup,
+    ]);
+
+    expect(result).toEqual({ applied: 3, errors: [] });
+    expect(syncNotionToGcal).toHaveBeenCalledWith(page);
+    expect(getGcalEvent).toHaveBeenCalledWith("gcal-1", "primary");
+    expect(syncGcalToNotion).toHaveBeenCalledWith(gcalEvent);
+    expect(notionPageExists).toHaveBeenCalledWith("page-1");
+    expect(deleteFromGcal).toHaveBeenCalledWith("gcal-9", "Standup", "work");
+  });
+
+  test("keeps a Google event whose Notion page was restored since the dry run", async () => {
+    vi.mocked(notionPageExists).mockResolvedValue(true);
+
+    const result = await applySyncPlan([deleteStandup]);
+
+    expect(result.errors).toEqual([{ title: "Standup", error: "Its Notion page exists again" }]);
+    expect(deleteFromGcal).not.toHaveBeenCalled();
+  });
+
+  test("refuses deletes the sync direction does not allow", async () => {
+    const result = await applySyncPlan([
+      { ...deleteStandup, calendarId: "oncall" },
+      { ...deleteStandup, direction: "gcal_to_notion", notionPageId: "page-1" },
+    ]);
+
+    expect(result.errors.map((error) => error.error)).toEqual([
+      "This calendar only syncs Google → Notion",
+      "Only Google events whose Notion page is gone can be deleted",
+    ]);
+    expect(deleteFromGcal).not.toHaveBeenCalled();
+    expect(deleteFromNotion).not.toHaveBeenCalled();
+  });
+
+  test("continues past changes that fail", async () => {
+    vi.mocked(getNotionEvent).mockResolvedValueOnce(null).mockResolvedValueOnce(page);
+
+    const result = await applySyncPlan([
+      { operation: "update", direction: "notion_to_gcal", title: "Gone", notionPageId: "page-0" },
+      updatePage,
+    ]);
+
+    expect(result).toEqual({
+      applied: 1,
+      errors: [{ title: "Gone", error: "The event no longer exists" }],
+    });
+    expect(syncNotionToGcal).toHaveBeenCalledTimes(1);
+  });
+});
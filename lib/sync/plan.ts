@@ -0,0 +1,381 @@
+/**
+ * Sync plans: what a sync run would write, worked out without writing anything.
+ *
+ * The manual trigger, the cron poll and the historical sync can each run as a dry run that
+ * returns a plan instead of syncing. The plan follows the engine's decisions event by event:
+ * events it would skip (other direction, excluded, unchanged echoes) are left out, linked
+ * events become updates listing the fields that change on the side written to, the rest
+ * become creates, and Google events whose Notion page is gone become deletes.
+ *
+ * Applying a plan re-reads each planned event and runs it through the engine, so edits made
+ * since the plan was shown are synced as they are now. Deletes are only applied while the
+ * Notion page is still gone and the Google event's calendar is written to.
+ */
+import { type PropertyChange, computeDiff } from "@/lib/events/diff";
+import { fetchGcalEvents, getGcalEvent } from "@/lib/google-calendar/client";
+import { getNotionEvent, notionPageExists } from "@/lib/notion/client";
+import {
+  getActiveSyncPairId,
+  getCustomMappings,
+  getFieldMapping,
+  getGoogleConfig,
+} from "@/lib/settings";
+import { writeDirectionError } from "@/lib/sync/compare";
+import { mergeEvents } from "@/lib/sync/conflicts";
+import {
+  deleteFromGcal,
+  resolveCalendar,
+  restoreSyncedValues,
+  syncGcalToNotion,
+  syncNotionToGcal,
+} from "@/lib/sync/engine";
+import {
+  type EventSnapshot,
+  getMappingByGcalId,
+  getMappingByNotionId,
+  hashEvent,
+  toSnapshot,
+} from "@/lib/sync/mapping";
+import type { Event, SyncDirection, SyncOperation } from "@/lib/types";
+
+export type PlanSource = "trigger" | "cron" | "historical";
+
+export interface PlannedChange {
+  operation: SyncOperation;
+  direction: SyncDirection; // The side written to, as in the sync logs
+  title: string;
+  notionPageId?: string;
+  gcalEventId?: string;
+  calendarId?: string; // Google Calendar holding the event
+  changes: PropertyChange[]; // Current values of the side written to as before
+}
+
+// What applying a change needs to know about it
+export type PlannedChangeRef = Omit<PlannedChange, "changes">;
+
+export interface PlanError {
+  title: string;
+  error: string;
+}
+
+export interface SyncPlan {
+  source: PlanSource;
+  pairId: string;
+  createdAt: string;
+  changes: PlannedChange[];
+  skipped: number; // Events the run would leave as they are
+  errors: PlanError[]; // Events that could not be planned
+}
+
+export interface PlanResult {
+  applied: number;
+  errors: PlanError[];
+}
+
+/**
+ * Events a sync run reads, by what it does with them
+ */
+export interface PlanInput {
+  notionEvents?: Event[]; // Synced to Google Calendar
+  gcalEvents?: Event[]; // Synced to Notion
+  deletions?: Event[]; // Google events to delete
+}
+
+/**
+ * Find the Google events whose linked Notion page is no longer among the given pages.
+ * Calendars that only sync from Google are left out.
+ */
+export async function findDeletedPageEvents(notionEvents: Event[]): Promise<Event[]> {
+  const { calendars } = await getGoogleConfig();
+  const gcalEvents: Event[] = [];
+  for (const calendar of calendars) {
+    if (calendar.direction !== "gcal_to_notion") {
+      gcalEvents.push(
+        ...(await fetchGcalEvents(
+          new Date(Date.now() - 30 * 24 * 60 * 60 * 1000),
+          undefined,
+          calendar.calendarId,
+        )),
+      );
+    }
+  }
+  const notionPageIds = new Set(notionEvents.map((e) => e.notionPageId || e.id).filter(Boolean));
+
+  const deleted: Event[] = [];
+  for (const gcalEvent of gcalEvents) {
+    const gcalEventId = gcalEvent.gcalEventId || gcalEvent.id;
+    const linkedPageId =
+      gcalEvent.notionPageId || (await getMappingByGcalId(gcalEventId))?.notionPageId;
+
+    if (linkedPageId && !notionPageIds.has(linkedPageId)) {
+      deleted.push({ ...gcalEvent, gcalEventId, notionPageId: linkedPageId });
+    }
+  }
+  return deleted;
+}
+
+/**
+ * Snapshot the side written to would be left with: the three-way merge result when the last
+ * sync left a snapshot and the counterpart could be read, else the incoming event as is
+ */
+async function mergedSnapshot(
+  source: "notion" | "gcal",
+  event: Event,
+  counterpart: Event | null,
+  base: EventSnapshot | undefined,
+): Promise<EventSnapshot> {
+  if (!base || !counterpart) {
+    return toSnapshot(event);
+  }
+  const merge = mergeEvents({
+    notion: source === "notion" ? event : counterpart,
+    gcal: source === "gcal" ? event : counterpart,
+    base,
+    fieldMapping: await getFieldMapping(),
+    customMappings: await getCustomMappings(),
+    source,
+  });
+  return source === "notion" ? merge.gcalResult : merge.notionResult;
+}
+
+// The counterpart as it is now; a missing one is overwritten, as in the engine
+async function readCounterpart(
+  read: () => Promise<Event | null>,
+  side: "notion" | "gcal",
+  snapshot: EventSnapshot | undefined,
+): Promise<Event | null> {
+  const event = await read().catch(() => null);
+  return event && restoreSyncedValues(event, side, snapshot);
+}
+
+/**
+ * Plan syncing a Notion page to Google Calendar, mirroring syncNotionToGcal
+ */
+async function planNotionEvent(read: Event): Promise<PlannedChange | null> {
+  const notionPageId = read.notionPageId || read.id;
+  const mapping = await getMappingByNotionId(notionPageId);
+  const gcalEventId = read.gcalEventId || mapping?.gcalEventId;
+
+  const linkedCalendar = await resolveCalendar({ calendarId: mapping?.calendarId });
+  const calendar = await resolveCalendar({
+    name: read.calendar,
+    calendarId: linkedCalendar.calendarId,
+  });
+  const moved = linkedCalendar.calendarId !== calendar.calendarId;
+
+  if (calendar.direction === "gcal_to_notion" || read.excluded) {
+    return null;
+  }
+  const event =
+    calendar.direction === "notion_to_gcal"
+      ? read
+      : await restoreSyncedValues(read, "notion", mapping?.snapshot);
+  if (
+    mapping &&
+    event.gcalEventId === mapping.gcalEventId &&
+    mapping.notionHash === hashEvent(event) &&
+    !moved
+  ) {
+    return null;
+  }
+
+  const planned = {
+    direction: "notion_to_gcal" as const,
+    title: event.title,
+    notionPageId,
+    calendarId: calendar.calendarId,
+  };
+  if (!gcalEventId) {
+    return { ...planned, operation: "create", changes: computeDiff(null, toSnapshot(event)) };
+  }
+
+  const current = await readCounterpart(
+    () => getGcalEvent(gcalEventId, linkedCalendar.calendarId),
+    "gcal",
+    mapping?.snapshot,
+  );
+  const changes = computeDiff(
+    current && toSnapshot(current),
+    await mergedSnapshot("notion", event, current, mapping?.snapshot),
+  );
+  if (moved) {
+    changes.push({
+      property: "calendar",
+      type: "changed",
+      before: linkedCalendar.name,
+      after: calendar.name,
+    });
+  }
+  return changes.length > 0 ? { ...planned, operation: "update", gcalEventId, changes } : null;
+}
+
+/**
+ * Plan syncing a Google event to Notion, mirroring syncGcalToNotion
+ */
+async function planGcalEvent(read: Event): Promise<PlannedChange | null> {
+  const gcalEventId = read.gcalEventId || read.id;
+  const mapping = await getMappingByGcalId(gcalEventId);
+  const notionPageId = read.notionPageId || mapping?.notionPageId;
+
+  const calendar = await resolveCalendar({ calendarId: read.calendarId });
+  if (calendar.direction === "notion_to_gcal" || read.excluded) {
+    return null;
+  }
+  const event =
+    calendar.direction === "gcal_to_notion"
+      ? read
+      : await restoreSyncedValues(read, "gcal", mapping?.snapshot);
+  // Instances of a series carry no page ID of their own, only their mapping
+  if (
+    mapping &&
+    (event.recurringEventId || event.notionPageId === mapping.notionPageId) &&
+    mapping.gcalHash === hashEvent(event)
+  ) {
+    return null;
+  }
+
+  const planned = {
+    direction: "gcal_to_notion" as const,
+    title: event.title,
+    gcalEventId,
+    calendarId: calendar.calendarId,
+  };
+  if (!notionPageId) {
+    return { ...planned, operation: "create", changes: computeDiff(null, toSnapshot(event)) };
+  }
+
+  const current = await readCounterpart(
+    () => getNotionEvent(notionPageId),
+    "notion",
+    mapping?.snapshot,
+  );
+  // Read-only calendars always overwrite Notion
+  const base = calendar.direction === "gcal_to_notion" ? undefined : mapping?.snapshot;
+  const changes = computeDiff(
+    current && toSnapshot(current),
+    await mergedSnapshot("gcal", event, current, base),
+  );
+  return changes.length > 0 ? { ...planned, operation: "update", notionPageId, changes } : null;
+}
+
+function planDeletion(event: Event): PlannedChange {
+  return {
+    operation: "delete",
+    direction: "notion_to_gcal",
+    title: event.title,
+    notionPageId: event.notionPageId,
+    gcalEventId: event.gcalEventId || event.id,
+    calendarId: event.calendarId,
+    changes: computeDiff(toSnapshot(event), null),
+  };
+}
+
+/**
+ * Work out what a sync run over the given events would write, without writing anything
+ */
+export async function planSync(source: PlanSource, input: PlanInput): Promise<SyncPlan> {
+  const plan: SyncPlan = {
+    source,
+    pairId: await getActiveSyncPairId(),
+    createdAt: new Date().toISOString(),
+    changes: [],
+    skipped: 0,
+    errors: [],
+  };
+
+  const planEach = async (
+    events: Event[],
+    planEvent: (event: Event) => Promise<PlannedChange | null>,
+  ) => {
+    for (const event of events) {
+      try {
+        const change = await planEvent(event);
+        if (change) {
+          plan.changes.push(change);
+        } else {
+          plan.skipped++;
+        }
+      } catch (error) {
+        plan.errors.push({
+          title: event.title,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  };
+
+  await planEach(input.notionEvents ?? [], planNotionEvent);
+  await planEach(input.gcalEvents ?? [], planGcalEvent);
+  await planEach(input.deletions ?? [], async (event) => planDeletion(event));
+
+  console.log(
+    `📋 Planned ${source} sync: ${plan.changes.length} changes, ${plan.skipped} skipped, ${plan.errors.length} errors`,
+  );
+  return plan;
+}
+
+/**
+ * Read the event a planned change was made from as it is now
+ */
+async function readPlannedEvent(change: PlannedChangeRef): Promise<Event> {
+  const event =
+    change.direction === "notion_to_gcal"
+      ? change.notionPageId && (await getNotionEvent(change.notionPageId))
+      : change.gcalEventId && (await getGcalEvent(change.gcalEventId, change.calendarId));
+  if (!event) {
+    throw new Error("The event no longer exists");
+  }
+  return event;
+}
+
+/**
+ * Check a planned delete again the way findDeletedPageEvents found it: the Google event's
+ * calendar is still written to and the Notion page it is linked to is still gone
+ */
+async function confirmPlannedDelete(gcalEventId: string, calendarId: string): Promise<void> {
+  const directionError = await writeDirectionError("gcal", calendarId);
+  if (directionError) {
+    throw new Error(directionError);
+  }
+  const linkedPageId =
+    (await getMappingByGcalId(gcalEventId))?.notionPageId ||
+    (await getGcalEvent(gcalEventId, calendarId))?.notionPageId;
+  if (!linkedPageId) {
+    throw new Error("The event is not linked to a Notion page");
+  }
+  if (await notionPageExists(linkedPageId)) {
+    throw new Error("Its Notion page exists again");
+  }
+}
+
+/**
+ * Apply the planned changes through the engine, continuing past failures
+ */
+export async function applySyncPlan(changes: PlannedChangeRef[]): Promise<PlanResult> {
+  const result: PlanResult = { applied: 0, errors: [] };
+
+  for (const change of changes) {
+    try {
+      if (change.operation === "delete") {
+        if (change.direction !== "notion_to_gcal" || !change.gcalEventId || !change.calendarId) {
+          throw new Error("Only Google events whose Notion page is gone can be deleted");
+        }
+        await confirmPlannedDelete(change.gcalEventId, change.calendarId);
+        await deleteFromGcal(change.gcalEventId, change.title, change.calendarId);
+      } else if (change.direction === "notion_to_gcal") {
+        await syncNotionToGcal(await readPlannedEvent(change));
+      } else {
+        await syncGcalToNotion(await readPlannedEvent(change));
+      }
+      result.applied++;
+    } catch (error) {
+      result.errors.push({
+        title: change.title,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  console.log(`✅ Applied sync plan: ${result.applied} applied, ${result.errors.length} errors`);
+  return result;
+}
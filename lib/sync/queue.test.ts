@@ -0,0 +1,335 @@
+/**
+ * Tests for the durable sync job queue
+ */
+import { beforeEach, describe, expect, test, vi } from "vitest";
+
+// In-memory Redis string, hash and sorted-set store
+const strings = new Map<string, unknown>();
+const hashes = new Map<string, Map<string, unknown>>();
+const sortedSets = new Map<string, Map<string, number>>();
+
+function getHash(key: string): Map<string, unknown> {
+  if (!hashes.has(key)) {
+    hashes.set(key, new Map());
+  }
+  return hashes.get(key)!;
+}
+
+function getSortedSet(key: string): Map<string, number> {
+  if (!sortedSets.has(key)) {
+    sortedSets.set(key, new Map());
+  }
+  return sortedSets.get(key)!;
+}
+
+const mockRedis = {
+  set: vi.fn(async (key: string, value: unknown, options?: { nx?: boolean }) => {
+    if (options?.nx && strings.has(key)) {
+      return null;
+    }
+    strings.set(key, value);
+    return "OK";
+  }),
+  del: vi.fn(async (key: string) => (strings.delete(key) ? 1 : 0)),
+  hget: vi.fn(async (key: string, field: string) => {
+    const value = getHash(key).get(field);
+    return value === undefined ? null : structuredClone(value);
+  }),
+  hset: vi.fn(async (key: string, values: Record<string, unknown>) => {
+    for (const [field, value] of Object.entries(values)) {
+      getHash(key).set(field, structuredClone(value));
+    }
+    return Object.keys(values).length;
+  }),
+  hdel: vi.fn(async (key: string, ...fields: string[]) => {
+    for (const field of fields) {
+      getHash(key).delete(field);
+    }
+    return fields.length;
+  }),
+  hgetall: vi.fn(async (key: string) => {
+    const hash = getHash(key);
+    return hash.size ? Object.fromEntries(hash) : null;
+  }),
+  zadd: vi.fn(async (key: string, { score, member }: { score: number; member: string }) => {
+    getSortedSet(key).set(member, score);
+    return 1;
+  }),
+  zrange: vi.fn(
+    async (key: string, min: number, max: number, options: { count: number }) =>
+      [...getSortedSet(key).entries()]
+        .filter(([, score]) => score >= min && score <= max)
+        .sort((a, b) => a[1] - b[1])
+        .slice(0, options.count)
+        .map(([member]) => member),
+  ),
+  zscore: vi.fn(async (key: string, member: string) => getSortedSet(key).get(member) ?? null),
+  zrem: vi.fn(async (key: string, member: string) => (getSortedSet(key).delete(member) ? 1 : 0)),
+  zcard: vi.fn(async (key: string) => getSortedSet(key).size),
+};
+
+vi.mock("@/lib/redis", () => ({
+  getRedis: vi.fn(() => mockRedis),
+}));
+
+vi.mock("@/lib/utils", () => ({
+  sleep: vi.fn(async () => {}),
+}));
+
+vi.mock("@/lib/google-calendar/client", () => ({
+  deleteGcalEvent: vi.fn(),
+  findGcalEventByNotionId: vi.fn(),
+  getGcalEvent: vi.fn(),
+}));
+
+vi.mock("@/lib/notion/client", () => ({
+  getNotionEvent: vi.fn(),
+}));
+
+vi.mock("@/lib/settings", () => ({
+  DEFAULT_SYNC_PAIR_ID: "default",
+  getActiveSyncPairId: vi.fn(async () => "default"),
+  runWithSyncPair: vi.fn((_pairId: string, fn: () => Promise<unknown>) => fn()),
+  getGoogleConfig: vi.fn(async () => ({
+    calendarId: "primary",
+    calendars: [{ calendarId: "primary", name: "Primary", direction: "bidirectional" }],
+  })),
+}));
+
+vi.mock("@/lib/sync/engine", () => ({
+  deleteFromNotion: vi.fn(),
+  excludeFromSeries: vi.fn(),
+  syncGcalToNotion: vi.fn(),
+  syncNotionToGcal: vi.fn(),
+}));
+
+vi.mock("@/lib/sync/logger", () => ({
+  logWebhookEvent: vi.fn(),
+}));
+
+vi.mock("@/lib/sync/mapping", () => ({
+  deleteMappingByNotionId: vi.fn(),
+  getMappingByGcalId: vi.fn(async () => null),
+  getMappingByNotionId: vi.fn(async () => null),
+}));
+
+import { NetworkError, ValidationError } from "@/lib/errors";
+import {
+  deleteGcalEvent,
+  findGcalEventByNotionId,
+  getGcalEvent,
+} from "@/lib/google-calendar/client";
+import { getNotionEvent } from "@/lib/notion/client";
+import { deleteFromNotion, excludeFromSeries, syncNotionToGcal } from "@/lib/sync/engine";
+import { logWebhookEvent } from "@/lib/sync/logger";
+import { getMappingByNotionId } from "@/lib/sync/mapping";
+import {
+  drainSyncQueue,
+  enqueueSyncJob,
+  getDeadLetterJobs,
+  getQueueLength,
+  MAX_JOB_ATTEMPTS,
+  replayDeadLetterJob,
+} from "@/lib/sync/queue";
+import type { Event } from "@/lib/types";
+
+const notionEvent: Event = {
+  id: "page-1",
+  title: "Standup",
+  startTime: new Date("2026-03-02T09:00:00.000Z"),
+  endTime: new Date("2026-03-02T09:15:00.000Z"),
+};
+
+const upsertPayload = {
+  type: "notion_upsert" as const,
+  notionPageId: "page-1",
+  webhookEventType: "page.properties_updated",
+};
+
+/** Make every queued job due now, as if its backoff had elapsed */
+function fastForwardQueue() {
+  for (const [member] of getSortedSet("sync:queue")) {
+    getSortedSet("sync:queue").set(member, 0);
+  }
+}
+
+describe("sync job queue", () => {
+  beforeEach(() => {
+    strings.clear();
+    hashes.clear();
+    sortedSets.clear();
+    vi.clearAllMocks();
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.mocked(getNotionEvent).mockResolvedValue(notionEvent);
+    vi.mocked(syncNotionToGcal).mockReset();
+  });
+
+  test("enqueued jobs run on drain and leave the queue", async () => {
+    await enqueueSyncJob(upsertPayload);
+    expect(await getQueueLength()).toBe(1);
+
+    const result = await drainSyncQueue();
+
+    expect(result).toEqual({ processed: 1, succeeded: 1, retried: 0, deadLettered: 0 });
+    expect(syncNotionToGcal).toHaveBeenCalledWith(notionEvent);
+    expect(await getQueueLength()).toBe(0);
+    expect(logWebhookEvent).toHaveBeenCalledWith(
+      expect.objectContaining({ source: "notion", action: "update", status: "success" }),
+    );
+  });
+
+  test("retryable failures are rescheduled with backoff", async () => {
+    vi.mocked(syncNotionToGcal).mockRejectedValue(new NetworkError("network down"));
+    await enqueueSyncJob(upsertPayload);
+
+    const result = await drainSyncQueue();
+
+    expect(result.retried).toBe(1);
+    expect(await getQueueLength()).toBe(1);
+
+    // Not due yet, so a second drain does nothing
+    expect((await drainSyncQueue()).processed).toBe(0);
+  });
+
+  test("jobs are dead-lettered after the maximum number of attempts", async () => {
+    vi.mocked(syncNotionToGcal).mockRejectedValue(new NetworkError("network down"));
+    await enqueueSyncJob(upsertPayload);
+
+    for (let attempt = 1; attempt <= MAX_JOB_ATTEMPTS; attempt++) {
+      fastForwardQueue();
+      await drainSyncQueue();
+    }
+
+    const deadLetter = await getDeadLetterJobs();
+    expect(deadLetter).toHaveLength(1);
+    expect(deadLetter[0]).toMatchObject({
+      attempts: MAX_JOB_ATTEMPTS,
+      lastError: "network down",
+      payload: upsertPayload,
+    });
+    expect(await getQueueLength()).toBe(0);
+  });
+
+  test("non-retryable failures are dead-lettered immediately", async () => {
+    vi.mocked(syncNotionToGcal).mockRejectedValue(new ValidationError("bad date"));
+    await enqueueSyncJob(upsertPayload);
+
+    const result = await drainSyncQueue();
+
+    expect(result.deadLettered).toBe(1);
+    expect(syncNotionToGcal).toHaveBeenCalledTimes(1);
+    expect(logWebhookEvent).toHaveBeenCalledWith(
+      expect.objectContaining({ status: "failure", eventId: "page-1" }),
+    );
+  });
+
+  test("replaying a dead-lettered job queues it with a fresh attempt count", async () => {
+    vi.mocked(syncNotionToGcal).mockRejectedValueOnce(new ValidationError("bad date"));
+    await enqueueSyncJob(upsertPayload);
+    await drainSyncQueue();
+    const [deadJob] = await getDeadLetterJobs();
+
+    expect(await replayDeadLetterJob(deadJob.id)).toBe(true);
+    expect(await getDeadLetterJobs()).toEqual([]);
+
+    const result = await drainSyncQueue();
+    expect(result.succeeded).toBe(1);
+  });
+
+  test("a job whose run is cut short is picked up again once its lease runs out", async () => {
+    // The first run never finishes, as when the function times out
+    vi.mocked(syncNotionToGcal).mockReturnValueOnce(new Promise(() => {}));
+    await enqueueSyncJob(upsertPayload);
+    void drainSyncQueue();
+    await vi.waitFor(() => expect(syncNotionToGcal).toHaveBeenCalledTimes(1));
+
+    // Still queued, but hidden from other workers while leased
+    expect(await getQueueLength()).toBe(1);
+    expect((await drainSyncQueue()).processed).toBe(0);
+
+    strings.clear();
+    fastForwardQueue();
+    const result = await drainSyncQueue();
+
+    expect(result.succeeded).toBe(1);
+    expect(syncNotionToGcal).toHaveBeenCalledTimes(2);
+    expect(await getQueueLength()).toBe(0);
+  });
+
+  test("a failed job is tried once per drain, leaving retries to the queue", async () => {
+    vi.mocked(syncNotionToGcal).mockRejectedValue(new NetworkError("network down"));
+    await enqueueSyncJob(upsertPayload);
+
+    await drainSyncQueue();
+
+    expect(syncNotionToGcal).toHaveBeenCalledTimes(1);
+  });
+
+  test("replaying an unknown job returns false", async () => {
+    expect(await replayDeadLetterJob("missing")).toBe(false);
+  });
+
+  describe("Notion page deletes", () => {
+    const deletePayload = {
+      type: "notion_delete" as const,
+      notionPageId: "page-1",
+      webhookEventType: "page.deleted",
+    };
+    const gcalEvent: Event = { ...notionEvent, id: "gcal-1", calendarId: "work" };
+
+    beforeEach(() => {
+      vi.mocked(getMappingByNotionId).mockResolvedValue({
+        notionPageId: "page-1",
+        gcalEventId: "gcal-1",
+        calendarId: "primary",
+        createdAt: "2026-03-01T00:00:00.000Z",
+        updatedAt: "2026-03-01T00:00:00.000Z",
+        lastSyncedAt: "2026-03-01T00:00:00.000Z",
+      });
+    });
+
+    test("fall back to searching every calendar when the mapped event is gone", async () => {
+      const notFound = Object.assign(new Error("Not Found"), { code: 404 });
+      vi.mocked(getGcalEvent).mockRejectedValue(notFound);
+      vi.mocked(findGcalEventByNotionId).mockResolvedValue(gcalEvent);
+      await enqueueSyncJob(deletePayload);
+
+      expect((await drainSyncQueue()).succeeded).toBe(1);
+      expect(findGcalEventByNotionId).toHaveBeenCalledWith("page-1", ["primary"]);
+      expect(deleteGcalEvent).toHaveBeenCalledWith("gcal-1", "work");
+    });
+
+    test("are retried when the lookup fails for another reason", async () => {
+      vi.mocked(getGcalEvent).mockRejectedValue(new NetworkError("network down"));
+      await enqueueSyncJob(deletePayload);
+
+      expect((await drainSyncQueue()).retried).toBe(1);
+      expect(findGcalEventByNotionId).not.toHaveBeenCalled();
+      expect(deleteGcalEvent).not.toHaveBeenCalled();
+    });
+  });
+
+  test("a cancelled occurrence is excluded from its series, not deleted", async () => {
+    await enqueueSyncJob({
+      type: "gcal_delete",
+      gcalEventId: "standup_20260323T090000Z",
+      calendarId: "primary",
+      notionPageId: "series-page",
+      recurringEventId: "standup",
+      originalStartTime: "2026-03-23T09:00:00.000Z",
+      eventTitle: "",
+      webhookEventType: "exists",
+    });
+
+    expect((await drainSyncQueue()).succeeded).toBe(1);
+    expect(excludeFromSeries).toHaveBeenCalledWith(
+      "standup_20260323T090000Z",
+      "standup",
+      new Date("2026-03-23T09:00:00.000Z"),
+      "",
+    );
+    expect(deleteFromNotion).not.toHaveBeenCalled();
+  });
+});
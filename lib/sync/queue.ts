@@ -0,0 +1,474 @@
+/**
+ * Durable sync job queue.
+ *
+ * Webhook handlers enqueue one job per changed page or event instead of syncing inline,
+ * so a failed sync is retried with exponential backoff rather than lost. Jobs that keep
+ * failing (or fail with a non-retryable error) move to a dead-letter list, which can be
+ * inspected and replayed from the Webhooks page.
+ */
+import { isRetryableError } from "@/lib/errors";
+import {
+  deleteGcalEvent,
+  findGcalEventByNotionId,
+  getGcalEvent,
+} from "@/lib/google-calendar/client";
+import { getNotionEvent } from "@/lib/notion/client";
+import { getRedis } from "@/lib/redis";
+import {
+  DEFAULT_SYNC_PAIR_ID,
+  getActiveSyncPairId,
+  getGoogleConfig,
+  runWithSyncPair,
+} from "@/lib/settings";
+import {
+  deleteFromNotion,
+  excludeFromSeries,
+  syncGcalToNotion,
+  syncNotionToGcal,
+} from "@/lib/sync/engine";
+import { logWebhookEvent } from "@/lib/sync/logger";
+import {
+  deleteMappingByNotionId,
+  getMappingByGcalId,
+  getMappingByNotionId,
+} from "@/lib/sync/mapping";
+import { getBackoffDelay } from "@/lib/sync/retry";
+import type { Event } from "@/lib/types";
+
+// Storage keys
+const QUEUE_KEY = "sync:queue"; // Sorted set: job ID scored by the time it is due (ms)
+const JOBS_KEY = "sync:queue:jobs"; // Hash: job ID → SyncJob
+const DEAD_LETTER_KEY = "sync:queue:dead"; // Hash: job ID → DeadLetterJob
+const LEASE_KEY_PREFIX = "sync:queue:lease:"; // String per claimed job, expiring with its lease
+
+// How long a claimed job stays hidden from other workers, longer than any function can run.
+// A run that dies mid-job leaves the job due again once the lease runs out.
+const JOB_LEASE_MS = 15 * 60 * 1000;
+
+/** Attempts (each with short in-process retries) before a job is dead-lettered */
+export const MAX_JOB_ATTEMPTS = 5;
+
+// Backoff between attempts: 30s, 1m, 2m, 4m... capped at 30 minutes
+const JOB_BACKOFF = { initialDelay: 30 * 1000, maxDelay: 30 * 60 * 1000 };
+
+export type SyncJobPayload =
+  | { type: "notion_upsert"; notionPageId: string; webhookEventType: string }
+  | { type: "notion_delete"; notionPageId: string; webhookEventType: string }
+  | { type: "gcal_upsert"; gcalEventId: string; calendarId?: string; webhookEventType: string }
+  | {
+      type: "gcal_delete";
+      gcalEventId: string;
+      calendarId?: string;
+      notionPageId?: string;
+      recurringEventId?: string; // Series of a cancelled occurrence
+      originalStartTime?: string; // ISO start of that occurrence in the series
+      eventTitle: string;
+      webhookEventType: string;
+    };
+
+export interface SyncJob {
+  id: string;
+  pairId?: string; // Sync pair the job belongs to (the default pair when unset)
+  payload: SyncJobPayload;
+  attempts: number;
+  enqueuedAt: string;
+  runAt: string;
+  lastError?: string;
+}
+
+export interface DeadLetterJob extends SyncJob {
+  failedAt: string;
+}
+
+export interface DrainResult {
+  processed: number;
+  succeeded: number;
+  retried: number;
+  deadLettered: number;
+}
+
+interface JobOutcome {
+  action: "create" | "update" | "delete";
+  eventTitle?: string;
+}
+
+// Google answers 404 for an event it cannot find and 410 for one already deleted
+function isGoneError(error: unknown): boolean {
+  const code =
+    error && typeof error === "object" && "code" in error
+      ? (error as { code: unknown }).code
+      : null;
+  return code === 404 || code === 410;
+}
+
+/**
+ * Resolve the GCal event linked to a Notion page via the mapping store, falling back to
+ * searching every calendar when the mapped event is gone (stale link, or moved to another
+ * calendar). Other lookup errors are thrown so the job is retried.
+ */
+async function findLinkedGcalEvent(
+  notionPageId: string,
+  calendarIds: string[],
+): Promise<Event | null> {
+  const mapping = await getMappingByNotionId(notionPageId);
+  if (mapping) {
+    try {
+      const gcalEvent = await getGcalEvent(mapping.gcalEventId, mapping.calendarId);
+      if (gcalEvent) {
+        return gcalEvent;
+      }
+    } catch (error) {
+      if (!isGoneError(error)) {
+        throw error;
+      }
+    }
+  }
+  return findGcalEventByNotionId(notionPageId, calendarIds);
+}
+
+/**
+ * Run the sync for a single job. Throws if the sync failed.
+ */
+async function runSyncJob(payload: SyncJobPayload): Promise<JobOutcome | null> {
+  switch (payload.type) {
+    case "notion_upsert": {
+      const notionEvent = await getNotionEvent(payload.notionPageId);
+      if (!notionEvent) {
+        console.warn(`⚠️  Page ${payload.notionPageId} not found or not an event page`);
+        return null;
+      }
+      await syncNotionToGcal(notionEvent);
+      return {
+        action: payload.webhookEventType === "page.created" ? "create" : "update",
+        eventTitle: notionEvent.title,
+      };
+    }
+
+    case "notion_delete": {
+      const { calendars } = await getGoogleConfig();
+
+      const gcalEvent = await findLinkedGcalEvent(
+        payload.notionPageId,
+        calendars.map((cal) => cal.calendarId),
+      );
+
+      if (!gcalEvent) {
+        console.warn(`⚠️  No GCal event found with Notion page ID: ${payload.notionPageId}`);
+        console.log("ℹ️  Event may have already been deleted or never synced");
+        await deleteMappingByNotionId(payload.notionPageId);
+        return { action: "delete" };
+      }
+
+      // Calendars that only sync from Google keep their events
+      const calendar = calendars.find((cal) => cal.calendarId === gcalEvent.calendarId);
+      if (calendar?.direction === "gcal_to_notion") {
+        console.log(`⏭️  Keeping "${gcalEvent.title}": calendar "${calendar.name}" is read-only`);
+        await deleteMappingByNotionId(payload.notionPageId);
+        return null;
+      }
+
+      await deleteGcalEvent(gcalEvent.gcalEventId || gcalEvent.id, gcalEvent.calendarId);
+      await deleteMappingByNotionId(payload.notionPageId);
+      return { action: "delete", eventTitle: gcalEvent.title };
+    }
+
+    case "gcal_upsert": {
+      // Fetch the latest version so retries never write stale data
+      const event = await getGcalEvent(payload.gcalEventId, payload.calendarId);
+      if (!event) {
+        console.warn(`⚠️  GCal event ${payload.gcalEventId} no longer exists`);
+        return null;
+      }
+      const isUpdate = Boolean(
+        event.notionPageId || (await getMappingByGcalId(payload.gcalEventId)),
+      );
+      await syncGcalToNotion(event);
+      return { action: isUpdate ? "update" : "create", eventTitle: event.title };
+    }
+
+    case "gcal_delete": {
+      const { recurringEventId, originalStartTime } = payload;
+      const notionPageId =
+        payload.notionPageId ||
+        (await getMappingByGcalId(payload.gcalEventId))?.notionPageId ||
+        (recurringEventId && (await getMappingByGcalId(recurringEventId))?.notionPageId);
+      if (!notionPageId) {
+        console.log(`⚠️  Cancelled event has no Notion page ID: ${payload.eventTitle}`);
+        return null;
+      }
+      const { calendars } = await getGoogleConfig();
+      const calendar = calendars.find((cal) => cal.calendarId === payload.calendarId);
+      if (calendar?.direction === "notion_to_gcal") {
+        console.log(
+          `⏭️  Keeping Notion page for "${payload.eventTitle}": calendar "${calendar.name}" only syncs from Notion`,
+        );
+        return null;
+      }
+      // A cancelled occurrence leaves its series page in place
+      if (recurringEventId && originalStartTime) {
+        console.log(`🗑️  GCal occurrence cancelled, excluding it in Notion: ${payload.eventTitle}`);
+        await excludeFromSeries(
+          payload.gcalEventId,
+          recurringEventId,
+          new Date(originalStartTime),
+          payload.eventTitle,
+        );
+        return { action: "update", eventTitle: payload.eventTitle };
+      }
+      console.log(`🗑️  GCal event deleted, removing from Notion: ${payload.eventTitle}`);
+      await deleteFromNotion(notionPageId, payload.eventTitle);
+      return { action: "delete", eventTitle: payload.eventTitle };
+    }
+  }
+}
+
+function jobSource(payload: SyncJobPayload): "notion" | "gcal" {
+  return payload.type.startsWith("notion") ? "notion" : "gcal";
+}
+
+function jobEventId(payload: SyncJobPayload): string {
+  switch (payload.type) {
+    case "notion_upsert":
+    case "notion_delete":
+      return payload.notionPageId;
+    default:
+      return payload.gcalEventId;
+  }
+}
+
+/**
+ * Run a job and record the outcome in the webhook log
+ */
+async function processJob(job: SyncJob): Promise<void> {
+  const startTime = Date.now();
+
+  // The engine already retries each API call; failed jobs are retried by the queue
+  const outcome = await runSyncJob(job.payload);
+
+  if (outcome) {
+    await logWebhookEvent({
+      type: "notification",
+      source: jobSource(job.payload),
+      webhookEventType: job.payload.webhookEventType,
+      action: outcome.action,
+      eventTitle: outcome.eventTitle,
+      eventId: jobEventId(job.payload),
+      status: "success",
+      processingTime: Date.now() - startTime,
+    });
+  }
+}
+
+/**
+ * Record a job that will not be retried in the webhook log
+ */
+async function logJobFailure(job: SyncJob, error: string): Promise<void> {
+  await logWebhookEvent({
+    type: "notification",
+    source: jobSource(job.payload),
+    webhookEventType: job.payload.webhookEventType,
+    eventId: jobEventId(job.payload),
+    status: "failure",
+    error,
+  });
+}
+
+/**
+ * Add a sync job to the queue.
+ * Without Redis there is nowhere to persist the job, so it runs inline instead.
+ */
+export async function enqueueSyncJob(payload: SyncJobPayload): Promise<SyncJob> {
+  const now = new Date();
+  const job: SyncJob = {
+    id: `${now.getTime()}-${Math.random().toString(36).slice(2, 9)}`,
+    pairId: await getActiveSyncPairId(),
+    payload,
+    attempts: 0,
+    enqueuedAt: now.toISOString(),
+    runAt: now.toISOString(),
+  };
+
+  const redis = getRedis();
+  if (!redis) {
+    try {
+      await processJob(job);
+    } catch (error) {
+      console.error(`Failed to run ${payload.type} job inline:`, error);
+      await logJobFailure(job, error instanceof Error ? error.message : "Unknown error");
+    }
+    return job;
+  }
+
+  await redis.hset(JOBS_KEY, { [job.id]: job });
+  await redis.zadd(QUEUE_KEY, { score: now.getTime(), member: job.id });
+  console.log(`📥 Queued ${payload.type} job ${job.id}`);
+  return job;
+}
+
+/**
+ * Run a claimed job, then remove it from the queue, reschedule it with backoff or move it
+ * to the dead-letter list
+ */
+async function runClaimedJob(job: SyncJob, result: DrainResult): Promise<void> {
+  const redis = getRedis();
+  if (!redis) {
+    return;
+  }
+
+  const id = job.id;
+  result.processed++;
+  job.attempts++;
+  const pairId = job.pairId || DEFAULT_SYNC_PAIR_ID;
+
+  try {
+    await runWithSyncPair(pairId, () => processJob(job));
+    await redis.zrem(QUEUE_KEY, id);
+    await redis.hdel(JOBS_KEY, id);
+    result.succeeded++;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    job.lastError = errorMessage;
+
+    if (job.attempts < MAX_JOB_ATTEMPTS && isRetryableError(error)) {
+      const delay = getBackoffDelay(job.attempts, JOB_BACKOFF);
+      job.runAt = new Date(Date.now() + delay).toISOString();
+      await redis.hset(JOBS_KEY, { [id]: job });
+      await redis.zadd(QUEUE_KEY, { score: Date.now() + delay, member: id });
+      result.retried++;
+      console.warn(
+        `⚠️  ${job.payload.type} job ${id} failed (attempt ${job.attempts}/${MAX_JOB_ATTEMPTS}), retrying in ${Math.round(delay / 1000)}s:`,
+        errorMessage,
+      );
+      return;
+    }
+
+    const deadJob: DeadLetterJob = { ...job, failedAt: new Date().toISOString() };
+    await redis.hset(DEAD_LETTER_KEY, { [id]: deadJob });
+    await redis.zrem(QUEUE_KEY, id);
+    await redis.hdel(JOBS_KEY, id);
+    result.deadLettered++;
+    console.error(`❌ ${job.payload.type} job ${id} moved to dead-letter list:`, errorMessage);
+
+    await runWithSyncPair(pairId, () =>
+      logJobFailure(job, `Gave up after ${job.attempts} attempt(s): ${errorMessage}`),
+    );
+  }
+}
+
+/**
+ * Process due jobs. Failed jobs are rescheduled with exponential backoff and
+ * moved to the dead-letter list after MAX_JOB_ATTEMPTS or a non-retryable error.
+ * A claimed job stays queued under a lease until it is done, so a run cut short
+ * (e.g. a timed-out function) leaves it to be picked up again.
+ *
+ * @param limit - Maximum number of jobs to process in this run
+ */
+export async function drainSyncQueue(limit = 25): Promise<DrainResult> {
+  const result: DrainResult = { processed: 0, succeeded: 0, retried: 0, deadLettered: 0 };
+  const redis = getRedis();
+  if (!redis) {
+    return result;
+  }
+
+  const dueIds = await redis.zrange<string[]>(QUEUE_KEY, 0, Date.now(), {
+    byScore: true,
+    offset: 0,
+    count: limit,
+  });
+
+  for (const id of dueIds) {
+    // Claim the job for one lease; another worker may have taken it already
+    const leaseKey = `${LEASE_KEY_PREFIX}${id}`;
+    const claimed = await redis.set(leaseKey, Date.now(), { nx: true, px: JOB_LEASE_MS });
+    if (!claimed) {
+      continue;
+    }
+
+    try {
+      // Finished or rescheduled by another worker since the queue was read
+      const score = await redis.zscore(QUEUE_KEY, id);
+      if (score === null || score > Date.now()) {
+        continue;
+      }
+      // Keep the job queued but out of sight until the lease runs out
+      await redis.zadd(QUEUE_KEY, { score: Date.now() + JOB_LEASE_MS, member: id });
+
+      const job = await redis.hget<SyncJob>(JOBS_KEY, id);
+      if (!job) {
+        await redis.zrem(QUEUE_KEY, id);
+        continue;
+      }
+
+      await runClaimedJob(job, result);
+    } finally {
+      await redis.del(leaseKey);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Number of jobs waiting in the queue (due now or scheduled for retry)
+ */
+export async function getQueueLength(): Promise<number> {
+  const redis = getRedis();
+  if (!redis) {
+    return 0;
+  }
+  return redis.zcard(QUEUE_KEY);
+}
+
+/**
+ * Get dead-lettered jobs (most recently failed first)
+ */
+export async function getDeadLetterJobs(): Promise<DeadLetterJob[]> {
+  const redis = getRedis();
+  if (!redis) {
+    return [];
+  }
+  const all = await redis.hgetall<Record<string, DeadLetterJob>>(DEAD_LETTER_KEY);
+  return Object.values(all || {}).sort((a, b) => b.failedAt.localeCompare(a.failedAt));
+}
+
+/**
+ * Move a dead-lettered job back onto the queue with a fresh attempt count
+ *
+ * @returns false if the job is not in the dead-letter list
+ */
+export async function replayDeadLetterJob(id: string): Promise<boolean> {
+  const redis = getRedis();
+  if (!redis) {
+    return false;
+  }
+  const deadJob = await redis.hget<DeadLetterJob>(DEAD_LETTER_KEY, id);
+  if (!deadJob) {
+    return false;
+  }
+
+  const now = Date.now();
+  const job: SyncJob = {
+    id,
+    pairId: deadJob.pairId,
+    payload: deadJob.payload,
+    attempts: 0,
+    enqueuedAt: deadJob.enqueuedAt,
+    runAt: new Date(now).toISOString(),
+    lastError: deadJob.lastError,
+  };
+  await redis.hset(JOBS_KEY, { [id]: job });
+  await redis.zadd(QUEUE_KEY, { score: now, member: id });
+  await redis.hdel(DEAD_LETTER_KEY, id);
+  return true;
+}
+
+/**
+ * Permanently discard a dead-lettered job
+ */
+export async function deleteDeadLetterJob(id: string): Promise<void> {
+  const redis = getRedis();
+  if (!redis) {
+    return;
+  }
+  await redis.hdel(DEAD_LETTER_KEY, id);
+}
@@ -12,6 +12,17 @@ export interface RetryOptions {
   onRetry?: (error: AppError, attempt: number) => void;
 }
 
+/**
+ * Exponential backoff delay before the given retry attempt (1-based), capped at maxDelay
+ */
+export function getBackoffDelay(
+  attempt: number,
+  options: Pick<RetryOptions, "initialDelay" | "maxDelay"> = {},
+): number {
+  const { initialDelay = 1000, maxDelay = 10000 } = options;
+  return Math.min(initialDelay * 2 ** (attempt - 1), maxDelay);
+}
+
 /**
  * Retry a function with exponential backoff
  *
@@ -59,7 +70,7 @@ export async function retryWithBackoff<T>(
       const shouldRetry = attempt < maxRetries && isRetryableError(lastError);
 
       if (shouldRetry) {
-        const delay = Math.min(initialDelay * 2 ** attempt, maxDelay);
+        const delay = getBackoffDelay(attempt + 1, { initialDelay, maxDelay });
 
         if (onRetry) {
           onRetry(lastError, attempt + 1);
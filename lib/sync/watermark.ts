@@ -0,0 +1,64 @@
+/**
+ * Polling watermarks for the Notion fallback cron.
+ *
+ * The incremental poll only asks Notion for pages edited since its last successful run.
+ * Deletions never show up in that query, so a separate full reconciliation pass records
+ * when it last compared the whole database against Google Calendar.
+ */
+import { getRedis } from "@/lib/redis";
+import { pairScopedKey } from "@/lib/settings";
+
+// Storage keys
+const NOTION_WATERMARK_KEY = "sync:notion:watermark"; // ISO time the last successful poll started
+const NOTION_RECONCILED_KEY = "sync:notion:reconciled"; // ISO time of the last full reconciliation
+
+/**
+ * Notion rounds last_edited_time down to the minute, so queries reach back one minute
+ * before the watermark. Pages seen twice are skipped by echo suppression.
+ */
+export const WATERMARK_OVERLAP_MS = 60 * 1000;
+
+async function getTimestamp(key: string): Promise<Date | null> {
+  const redis = getRedis();
+  if (!redis) {
+    return null;
+  }
+  const value = await redis.get<string>(await pairScopedKey(key));
+  return value ? new Date(value) : null;
+}
+
+async function setTimestamp(key: string, time: Date): Promise<void> {
+  const redis = getRedis();
+  if (!redis) {
+    return;
+  }
+  await redis.set(await pairScopedKey(key), time.toISOString());
+}
+
+/**
+ * Get the start time of the last successful incremental poll
+ */
+export function getNotionWatermark(): Promise<Date | null> {
+  return getTimestamp(NOTION_WATERMARK_KEY);
+}
+
+/**
+ * Advance the watermark once every page edited before `time` has been processed
+ */
+export function setNotionWatermark(time: Date): Promise<void> {
+  return setTimestamp(NOTION_WATERMARK_KEY, time);
+}
+
+/**
+ * Get the time of the last full reconciliation pass
+ */
+export function getLastReconciliation(): Promise<Date | null> {
+  return getTimestamp(NOTION_RECONCILED_KEY);
+}
+
+/**
+ * Record a completed full reconciliation pass
+ */
+export function setLastReconciliation(time: Date): Promise<void> {
+  return setTimestamp(NOTION_RECONCILED_KEY, time);
+}
@@ -0,0 +1,46 @@
+import { expect, test } from "vitest";
+import { formatInTimeZone, isValidTimeZone, parseInTimeZone } from "./time-zone";
+
+test("formatInTimeZone - writes wall-clock time in the zone", () => {
+  const instant = new Date("2026-03-02T09:00:00.000Z");
+  expect(formatInTimeZone(instant, "Europe/Berlin")).toBe("2026-03-02T10:00:00.000");
+  expect(formatInTimeZone(instant, "America/New_York")).toBe("2026-03-02T04:00:00.000");
+});
+
+test("formatInTimeZone - follows daylight saving time", () => {
+  const summer = new Date("2026-07-02T09:00:00.000Z");
+  expect(formatInTimeZone(summer, "Europe/Berlin")).toBe("2026-07-02T11:00:00.000");
+});
+
+test("parseInTimeZone - reads offset-less times in the zone", () => {
+  expect(parseInTimeZone("2026-03-02T10:00:00.000", "Europe/Berlin").toISOString()).toBe(
+    "2026-03-02T09:00:00.000Z",
+  );
+  expect(parseInTimeZone("2026-07-02T10:30", "America/New_York").toISOString()).toBe(
+    "2026-07-02T14:30:00.000Z",
+  );
+});
+
+test("parseInTimeZone - keeps explicit offsets and plain dates", () => {
+  expect(parseInTimeZone("2026-03-02T10:00:00.000+02:00", "Europe/Berlin").toISOString()).toBe(
+    "2026-03-02T08:00:00.000Z",
+  );
+  expect(parseInTimeZone("2026-03-02", "Europe/Berlin").toISOString()).toBe(
+    "2026-03-02T00:00:00.000Z",
+  );
+  expect(parseInTimeZone("2026-03-02T10:00:00.000Z", null).toISOString()).toBe(
+    "2026-03-02T10:00:00.000Z",
+  );
+});
+
+test("parseInTimeZone - round-trips formatInTimeZone", () => {
+  const instant = new Date("2026-10-25T12:45:00.000Z");
+  const local = formatInTimeZone(instant, "Europe/London");
+  expect(parseInTimeZone(local, "Europe/London").getTime()).toBe(instant.getTime());
+});
+
+test("isValidTimeZone - accepts IANA names only", () => {
+  expect(isValidTimeZone("Europe/Berlin")).toBe(true);
+  expect(isValidTimeZone("UTC")).toBe(true);
+  expect(isValidTimeZone("Mars/Olympus_Mons")).toBe(false);
+});
@@ -0,0 +1,78 @@
+/**
+ * Time zone helpers for writing event times as wall-clock times in a calendar's zone
+ * and reading them back, so events keep their local time across DST changes.
+ */
+import { TZDate } from "@date-fns/tz";
+import { format } from "date-fns";
+
+// ISO date-time with wall-clock parts and no offset, e.g. "2026-03-02T09:30:00"
+const LOCAL_DATE_TIME_PATTERN = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2})(?:\.(\d{1,3}))?)?$/;
+
+/**
+ * Check whether a string is a valid IANA time zone name.
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Format an instant as the wall-clock time in a time zone, without an offset
+ * (e.g. "2026-03-02T10:00:00.000" for 09:00 UTC in Europe/Berlin).
+ */
+export function formatInTimeZone(date: Date, timeZone: string): string {
+  return format(new TZDate(date, timeZone), "yyyy-MM-dd'T'HH:mm:ss.SSS");
+}
+
+/**
+ * Parse a date-time string, interpreting it as wall-clock time in the given zone when
+ * it has no offset of its own. Dates, and strings with an offset, parse as usual.
+ */
+export function parseInTimeZone(value: string, timeZone?: string | null): Date {
+  const match = timeZone ? LOCAL_DATE_TIME_PATTERN.exec(value) : null;
+  if (!match || !timeZone) {
+    return new Date(value);
+  }
+
+  const [, year, month, day, hours, minutes, seconds = "0", millis = "0"] = match;
+  const zoned = TZDate.tz(
+    timeZone,
+    Number(year),
+    Number(month) - 1,
+    Number(day),
+    Number(hours),
+    Number(minutes),
+    Number(seconds),
+    Number(millis.padEnd(3, "0")),
+  );
+  return new Date(zoned.getTime());
+}
+
+// All-day events carry no time zone: their dates are stored as UTC midnight
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Check whether a date string has no time component (e.g. "2026-03-02").
+ */
+export function isDateOnly(value: string): boolean {
+  return DATE_ONLY_PATTERN.test(value);
+}
+
+/**
+ * Format the UTC calendar date of an all-day instant as "YYYY-MM-DD".
+ */
+export function formatDateOnly(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Shift an all-day date by whole days, independent of the server's zone.
+ */
+export function addDaysUtc(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS);
+}
@@ -1,5 +1,23 @@
 import { z } from "zod";
 
+// Event attendee as known to Google Calendar
+export const attendeeSchema = z.object({
+  email: z.string(),
+  name: z.string().optional(),
+  responseStatus: z.enum(["needsAction", "declined", "tentative", "accepted"]).optional(),
+  optional: z.boolean().optional(),
+});
+
+export type Attendee = z.infer<typeof attendeeSchema>;
+
+// Event reminder as known to Google Calendar
+export const reminderSchema = z.object({
+  method: z.enum(["popup", "email"]),
+  minutes: z.number(), // Before the event starts
+});
+
+export type Reminder = z.infer<typeof reminderSchema>;
+
 // Shared event schema
 export const eventSchema = z.object({
   id: z.string(),
@@ -7,19 +25,29 @@ export const eventSchema = z.object({
   description: z.string().optional(),
   startTime: z.date(),
   endTime: z.date(),
+  allDay: z.boolean().optional(), // Date-only event; times are UTC midnight, endTime exclusive
   location: z.string().optional(),
   status: z.enum(["confirmed", "tentative", "cancelled"]).optional(),
-  reminders: z.number().optional(), // minutes before event
+  reminders: z.array(reminderSchema).optional(), // Reminder overrides; [] for none
+  useDefaultReminders: z.boolean().optional(), // The calendar's default reminders apply
   // Extended event properties
-  attendees: z.array(z.string()).optional(), // Array of attendee names/emails
+  attendees: z.array(attendeeSchema).optional(), // Invited guests, excluding the calendar owner
   organizer: z.string().optional(), // Event organizer name/email
   conferenceLink: z.string().optional(), // Video call URLs (Zoom/Meet)
   recurrence: z.string().optional(), // Human-readable recurrence like "Every Monday"
+  rrule: z.array(z.string()).optional(), // RFC 5545 lines of a series: RRULE plus EXDATE/RDATE
+  recurringEventId: z.string().optional(), // GCal series of a modified or cancelled instance
+  originalStartTime: z.date().optional(), // Start of that instance in the series
   color: z.string().optional(), // Google Calendar color name like "Tomato", "Banana"
   visibility: z.enum(["public", "private", "default"]).optional(), // Event visibility
+  calendar: z.string().optional(), // Name of the synced Google Calendar, as in the Notion select
+  custom: z.record(z.string()).optional(), // Custom field mapping values as text, by rule ID
   // Sync metadata
   notionPageId: z.string().optional(),
   gcalEventId: z.string().optional(),
+  calendarId: z.string().optional(), // Google Calendar the event lives in
+  updatedAt: z.date().optional(), // Last modification time on the source side
+  excluded: z.boolean().optional(), // Left out by the sync filters of the side it was read from
 });
 
 export type Event = z.infer<typeof eventSchema>;
@@ -29,6 +57,9 @@ export type SyncOperation = "create" | "update" | "delete";
 
 export type SyncDirection = "notion_to_gcal" | "gcal_to_notion";
 
+// Fixes made by hand from the dashboard rather than by the sync engine
+export type ManualAction = "push" | "pull" | "unlink" | "relink" | "merge" | "delete";
+
 export interface SyncLog {
   id: string;
   timestamp: Date | string; // Date object or ISO string from Redis
@@ -43,14 +74,15 @@ export interface SyncLog {
   gcalEventId?: string;
   processingTime?: number; // Operation duration in ms
   rawPayload?: unknown; // Original event data for debugging
+  manualAction?: ManualAction; // Set when the operation was a manual fix
   // Event details snapshot
   eventDescription?: string;
   eventStartTime?: Date | string;
   eventEndTime?: Date | string;
   eventLocation?: string;
   eventStatus?: "confirmed" | "tentative" | "cancelled";
-  eventReminders?: number;
-  eventAttendees?: string[];
+  eventReminders?: Reminder[] | number; // Older logs hold popup minutes only
+  eventAttendees?: Array<Attendee | string>; // Older logs hold names only
   eventOrganizer?: string;
   eventConferenceLink?: string;
   eventRecurrence?: string;
@@ -77,6 +109,7 @@ export interface SyncMetrics {
       used: number;
     };
   };
+  suppressedEchoes: number; // Inbound changes skipped because they matched our last write
 }
 
 // Event summary for events list view
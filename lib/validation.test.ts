@@ -6,6 +6,7 @@
 
 import { expect, test } from "vitest";
 import {
+  applySyncPlanSchema,
   authHeaderSchema,
   eventDataSchema,
   eventStatusSchema,
@@ -241,6 +242,15 @@ test("webhookChannelSchema - rejects negative expiration", () => {
   expect(result.success).toBe(false);
 });
 
+// Sync plan validation
+test("applySyncPlanSchema - only accepts deletes of Google events", () => {
+  const change = { operation: "delete", title: "Standup", notionPageId: "page-1" };
+  const plan = (direction: string) => ({ pairId: "default", changes: [{ ...change, direction }] });
+
+  expect(applySyncPlanSchema.safeParse(plan("notion_to_gcal")).success).toBe(true);
+  expect(applySyncPlanSchema.safeParse(plan("gcal_to_notion")).success).toBe(false);
+});
+
 // Helper function tests
 test("validate - returns parsed data on success", () => {
   const data = { method: "email", minutes: 15 };
@@ -102,6 +102,64 @@ export const eventUpdateSchema = eventDataSchema.partial().required({ id: true }
 
 export type EventUpdate = z.infer<typeof eventUpdateSchema>;
 
+/**
+ * Event created or edited from the dashboard calendar, written to its source side
+ */
+export const calendarEventSchema = z.object({
+  source: z.enum(["notion", "gcal"]),
+  calendarId: z.string().min(1).optional(), // Google Calendar of the event
+  title: z.string().trim().min(1, "Title is required").max(500),
+  start: z.coerce.date(),
+  end: z.coerce.date(),
+  allDay: z.boolean().optional(),
+  location: z.string().max(500).optional(),
+  description: z.string().max(5000).optional(),
+});
+
+export type CalendarEventBody = z.infer<typeof calendarEventSchema>;
+
+/**
+ * Manual fix for a linked event from its comparison view
+ */
+export const eventActionSchema = z.discriminatedUnion("action", [
+  z.object({ action: z.literal("push") }), // Copy Notion → Google
+  z.object({ action: z.literal("pull") }), // Copy Google → Notion
+  z.object({ action: z.literal("unlink") }),
+  z.object({
+    action: z.literal("relink"),
+    targetId: z.string().trim().min(1, "Enter the ID of the event to link to"),
+  }),
+]);
+
+export type EventAction = z.infer<typeof eventActionSchema>;
+
+const duplicateCopySchema = z.object({
+  side: z.enum(["notion", "gcal"]),
+  id: z.string().min(1),
+  calendarId: z.string().min(1).optional(),
+  title: z.string(),
+});
+
+/**
+ * Fix for a group of suspected duplicates from the review
+ */
+export const duplicateActionSchema = z.discriminatedUnion("action", [
+  z.object({
+    action: z.literal("merge"),
+    notionPageId: z.string().min(1).optional(), // Copies to keep
+    gcalEventId: z.string().min(1).optional(),
+    extras: z.array(duplicateCopySchema), // Copies to delete
+  }),
+  z.object({
+    action: z.literal("relink"),
+    notionPageId: z.string().min(1),
+    gcalEventId: z.string().min(1),
+  }),
+  z.object({ action: z.literal("delete"), copy: duplicateCopySchema }),
+]);
+
+export type DuplicateAction = z.infer<typeof duplicateActionSchema>;
+
 /**
  * Sync direction validation
  */
@@ -109,6 +167,21 @@ export const syncDirectionSchema = z.enum(["notion_to_gcal", "gcal_to_notion", "
 
 export type SyncDirection = z.infer<typeof syncDirectionSchema>;
 
+/**
+ * Sync filter rules, as saved in settings
+ */
+export const syncFiltersSchema = z.array(
+  z.object({
+    id: z.string().min(1),
+    enabled: z.boolean(),
+    action: z.enum(["include", "exclude"]),
+    source: z.enum(["notion", "gcal"]),
+    field: z.string().trim().min(1, "Field is required"),
+    operator: z.enum(["equals", "not_equals", "contains", "matches", "is_empty", "is_not_empty"]),
+    value: z.string(),
+  }),
+);
+
 /**
  * Sync operation validation
  */
@@ -116,6 +189,33 @@ export const syncOperationSchema = z.enum(["create", "update", "delete"]);
 
 export type SyncOperation = z.infer<typeof syncOperationSchema>;
 
+/**
+ * Reviewed sync plan to apply, as returned by a dry run
+ */
+export const applySyncPlanSchema = z.object({
+  pairId: z.string().min(1), // Sync pair the plan was made for
+  changes: z
+    .array(
+      z
+        .object({
+          operation: syncOperationSchema,
+          direction: z.enum(["notion_to_gcal", "gcal_to_notion"]),
+          title: z.string(),
+          notionPageId: z.string().min(1).optional(),
+          gcalEventId: z.string().min(1).optional(),
+          calendarId: z.string().min(1).optional(),
+        })
+        // Plans only delete Google events whose Notion page is gone
+        .refine(
+          (change) => change.operation !== "delete" || change.direction === "notion_to_gcal",
+          { message: "Only Google events can be deleted", path: ["direction"] },
+        ),
+    )
+    .min(1, "The plan has no changes"),
+});
+
+export type ApplySyncPlan = z.infer<typeof applySyncPlanSchema>;
+
 /**
  * Webhook channel metadata schema
  */
@@ -1,8 +1,11 @@
 import { getRedis } from "@/lib/redis";
+import { pairScopedKey } from "@/lib/settings";
 
 // Storage keys
-const WEBHOOK_CHANNEL_KEY = "webhook:gcal:channel";
-const WEBHOOK_SYNC_STATE_KEY = "webhook:gcal:sync_state";
+const WEBHOOK_CHANNELS_KEY = "webhook:gcal:channels"; // Hash: calendarId → WebhookChannel
+const WEBHOOK_SYNC_STATES_KEY = "webhook:gcal:sync_states"; // Hash: calendarId → SyncState
+const LEGACY_WEBHOOK_CHANNEL_KEY = "webhook:gcal:channel"; // Single channel, before multi-calendar
+const LEGACY_WEBHOOK_SYNC_STATE_KEY = "webhook:gcal:sync_state";
 const NOTION_WEBHOOK_KEY = "webhook:notion:subscription";
 
 // Data structure for webhook channel metadata
@@ -22,37 +25,88 @@ export interface SyncState {
 }
 
 /**
- * Save webhook channel metadata to Redis
+ * Move the single-calendar channel and sync state into the per-calendar hashes
+ */
+async function migrateLegacyChannel(): Promise<void> {
+  const redis = getRedis();
+  if (!redis) {
+    return;
+  }
+  const legacyWebhookChannelKey = await pairScopedKey(LEGACY_WEBHOOK_CHANNEL_KEY);
+  const legacyWebhookSyncStateKey = await pairScopedKey(LEGACY_WEBHOOK_SYNC_STATE_KEY);
+  const webhookChannelsKey = await pairScopedKey(WEBHOOK_CHANNELS_KEY);
+  const webhookSyncStatesKey = await pairScopedKey(WEBHOOK_SYNC_STATES_KEY);
+  const legacyChannel = await redis.get<WebhookChannel>(legacyWebhookChannelKey);
+  if (!legacyChannel) {
+    return;
+  }
+
+  const legacyState = await redis.get<SyncState>(legacyWebhookSyncStateKey);
+  await redis.hset(webhookChannelsKey, { [legacyChannel.calendarId]: legacyChannel });
+  if (legacyState) {
+    await redis.hset(webhookSyncStatesKey, { [legacyChannel.calendarId]: legacyState });
+  }
+  await redis.del(legacyWebhookChannelKey, legacyWebhookSyncStateKey);
+}
+
+/**
+ * Save webhook channel metadata to Redis (one channel per calendar)
  */
 export async function saveWebhookChannel(channel: WebhookChannel): Promise<void> {
   const redis = getRedis();
   if (!redis) {
     throw new Error("Redis not configured");
   }
-  await redis.set(WEBHOOK_CHANNEL_KEY, channel);
+  const webhookChannelsKey = await pairScopedKey(WEBHOOK_CHANNELS_KEY);
+  await redis.hset(webhookChannelsKey, { [channel.calendarId]: channel });
 }
 
 /**
- * Get webhook channel metadata from Redis
+ * Get webhook channel metadata for a calendar from Redis
  */
-export async function getWebhookChannel(): Promise<WebhookChannel | null> {
+export async function getWebhookChannel(calendarId: string): Promise<WebhookChannel | null> {
   const redis = getRedis();
   if (!redis) {
     return null;
   }
-  const channel = await redis.get<WebhookChannel>(WEBHOOK_CHANNEL_KEY);
-  return channel;
+  const webhookChannelsKey = await pairScopedKey(WEBHOOK_CHANNELS_KEY);
+  await migrateLegacyChannel();
+  const channel = await redis.hget<WebhookChannel>(webhookChannelsKey, calendarId);
+  return channel || null;
+}
+
+/**
+ * Get the webhook channels of all calendars
+ */
+export async function getWebhookChannels(): Promise<WebhookChannel[]> {
+  const redis = getRedis();
+  if (!redis) {
+    return [];
+  }
+  const webhookChannelsKey = await pairScopedKey(WEBHOOK_CHANNELS_KEY);
+  await migrateLegacyChannel();
+  const channels = await redis.hgetall<Record<string, WebhookChannel>>(webhookChannelsKey);
+  return Object.values(channels || {});
+}
+
+/**
+ * Find the channel a Google push notification was sent to
+ */
+export async function findWebhookChannel(channelId: string): Promise<WebhookChannel | null> {
+  const channels = await getWebhookChannels();
+  return channels.find((channel) => channel.channelId === channelId) || null;
 }
 
 /**
- * Delete webhook channel metadata from Redis
+ * Delete webhook channel metadata for a calendar from Redis
  */
-export async function deleteWebhookChannel(): Promise<void> {
+export async function deleteWebhookChannel(calendarId: string): Promise<void> {
   const redis = getRedis();
   if (!redis) {
     return;
   }
-  await redis.del(WEBHOOK_CHANNEL_KEY);
+  const webhookChannelsKey = await pairScopedKey(WEBHOOK_CHANNELS_KEY);
+  await redis.hdel(webhookChannelsKey, calendarId);
 }
 
 /**
@@ -78,41 +132,45 @@ export function needsRenewal(channel: WebhookChannel): boolean {
 }
 
 /**
- * Update sync state (sync token and last sync timestamp)
+ * Update a calendar's sync state (sync token and last sync timestamp)
  */
-export async function updateSyncState(syncToken?: string): Promise<void> {
+export async function updateSyncState(calendarId: string, syncToken?: string): Promise<void> {
   const redis = getRedis();
   if (!redis) {
     throw new Error("Redis not configured");
   }
+  const webhookSyncStatesKey = await pairScopedKey(WEBHOOK_SYNC_STATES_KEY);
   const state: SyncState = {
     syncToken,
     lastSync: new Date(),
   };
-  await redis.set(WEBHOOK_SYNC_STATE_KEY, state);
+  await redis.hset(webhookSyncStatesKey, { [calendarId]: state });
 }
 
 /**
- * Get current sync state
+ * Get a calendar's current sync state
  */
-export async function getSyncState(): Promise<SyncState> {
+export async function getSyncState(calendarId: string): Promise<SyncState> {
   const redis = getRedis();
   if (!redis) {
     return { syncToken: undefined, lastSync: null };
   }
-  const state = await redis.get<SyncState>(WEBHOOK_SYNC_STATE_KEY);
+  const webhookSyncStatesKey = await pairScopedKey(WEBHOOK_SYNC_STATES_KEY);
+  await migrateLegacyChannel();
+  const state = await redis.hget<SyncState>(webhookSyncStatesKey, calendarId);
   return state || { syncToken: undefined, lastSync: null };
 }
 
 /**
- * Clear sync state (force full sync on next webhook)
+ * Clear a calendar's sync state (force full sync on next webhook)
  */
-export async function clearSyncState(): Promise<void> {
+export async function clearSyncState(calendarId: string): Promise<void> {
   const redis = getRedis();
   if (!redis) {
     return;
   }
-  await redis.del(WEBHOOK_SYNC_STATE_KEY);
+  const webhookSyncStatesKey = await pairScopedKey(WEBHOOK_SYNC_STATES_KEY);
+  await redis.hdel(webhookSyncStatesKey, calendarId);
 }
 
 // ============================================================
@@ -136,7 +194,8 @@ export async function saveNotionWebhook(subscription: NotionWebhookSubscription)
   if (!redis) {
     throw new Error("Redis not configured");
   }
-  await redis.set(NOTION_WEBHOOK_KEY, subscription);
+  const notionWebhookKey = await pairScopedKey(NOTION_WEBHOOK_KEY);
+  await redis.set(notionWebhookKey, subscription);
 }
 
 /**
@@ -147,7 +206,8 @@ export async function getNotionWebhook(): Promise<NotionWebhookSubscription | nu
   if (!redis) {
     return null;
   }
-  const subscription = await redis.get<NotionWebhookSubscription>(NOTION_WEBHOOK_KEY);
+  const notionWebhookKey = await pairScopedKey(NOTION_WEBHOOK_KEY);
+  const subscription = await redis.get<NotionWebhookSubscription>(notionWebhookKey);
   return subscription;
 }
 
@@ -159,7 +219,8 @@ export async function deleteNotionWebhook(): Promise<void> {
   if (!redis) {
     return;
   }
-  await redis.del(NOTION_WEBHOOK_KEY);
+  const notionWebhookKey = await pairScopedKey(NOTION_WEBHOOK_KEY);
+  await redis.del(notionWebhookKey);
 }
 
 /**
@@ -0,0 +1,61 @@
+/**
+ * Google Calendar push notification channels, one per synced calendar.
+ */
+import {
+  fetchGcalEventsSince,
+  setupGcalWebhook,
+  stopGcalWebhook,
+} from "@/lib/google-calendar/client";
+import {
+  deleteWebhookChannel,
+  saveWebhookChannel,
+  updateSyncState,
+  type WebhookChannel,
+} from "@/lib/webhook/channel-manager";
+
+/**
+ * Create a push notification channel for a calendar and establish its sync token,
+ * so the first notification only picks up changes made from now on.
+ *
+ * @param createdAt - Original creation time to keep when renewing a channel
+ */
+export async function watchCalendar(
+  calendarId: string,
+  webhookUrl: string,
+  createdAt?: Date | string,
+): Promise<WebhookChannel> {
+  const channelInfo = await setupGcalWebhook(webhookUrl, calendarId);
+
+  const channel: WebhookChannel = {
+    channelId: channelInfo.channelId,
+    resourceId: channelInfo.resourceId,
+    expiration: channelInfo.expiration,
+    calendarId,
+    createdAt: createdAt || new Date(),
+    lastRenewedAt: new Date(),
+  };
+  await saveWebhookChannel(channel);
+
+  const result = await fetchGcalEventsSince(undefined, calendarId);
+  if (result.nextSyncToken) {
+    await updateSyncState(calendarId, result.nextSyncToken);
+  }
+
+  return channel;
+}
+
+/**
+ * Stop a calendar's channel with Google and forget it.
+ * Stopping may fail if the channel already expired, which is not an error here.
+ */
+export async function unwatchCalendar(channel: WebhookChannel): Promise<void> {
+  try {
+    await stopGcalWebhook(channel.channelId, channel.resourceId);
+  } catch (error) {
+    console.warn(
+      `Failed to stop webhook channel for ${channel.calendarId} (might already be stopped):`,
+      error,
+    );
+  }
+  await deleteWebhookChannel(channel.calendarId);
+}
@@ -1,4 +1,4 @@
-import { getGoogleConfig } from "@/lib/settings";
+import { getGoogleConfig, type SyncedCalendar } from "@/lib/settings";
 import {
   getNotionWebhook,
   getWebhookChannel,
@@ -12,6 +12,8 @@ export interface GoogleWebhookStatus {
   expiresInHours?: number;
   channelId?: string;
   calendarId?: string;
+  /** Per-calendar status when more than one calendar is synced */
+  calendars?: GoogleWebhookStatus[];
 }
 
 export interface NotionWebhookStatus {
@@ -29,13 +31,14 @@ export interface SyncStatus {
   notion: NotionWebhookStatus;
 }
 
-export async function getGoogleWebhookStatus(): Promise<GoogleWebhookStatus> {
-  const channel = await getWebhookChannel();
+async function getCalendarWebhookStatus(calendar: SyncedCalendar): Promise<GoogleWebhookStatus> {
+  const channel = await getWebhookChannel(calendar.calendarId);
 
   if (!channel) {
     return {
       active: false,
       reason: "No Google Calendar webhook configured yet.",
+      calendarId: calendar.calendarId,
     };
   }
 
@@ -45,47 +48,48 @@ export async function getGoogleWebhookStatus(): Promise<GoogleWebhookStatus> {
     Math.round((channel.expiration - Date.now()) / (1000 * 60 * 60)),
   );
 
-  if (isChannelExpired(channel)) {
-    return {
-      active: false,
-      reason: "Google Calendar webhook expired.",
-      expiresAt,
-      expiresInHours,
-      channelId: channel.channelId,
-      calendarId: channel.calendarId,
-    };
-  }
+  return {
+    active: !isChannelExpired(channel),
+    reason: isChannelExpired(channel) ? "Google Calendar webhook expired." : undefined,
+    expiresAt,
+    expiresInHours,
+    channelId: channel.channelId,
+    calendarId: channel.calendarId,
+  };
+}
 
+/**
+ * Webhook status across all synced calendars. Active only when every calendar has an
+ * active channel; otherwise reports the first calendar that does not.
+ */
+export async function getGoogleWebhookStatus(): Promise<GoogleWebhookStatus> {
+  let calendars: SyncedCalendar[];
   try {
-    const googleConfig = await getGoogleConfig();
-    if (googleConfig.calendarId && googleConfig.calendarId !== channel.calendarId) {
-      return {
-        active: false,
-        reason: "Google Calendar webhook is tied to a different calendar.",
-        expiresAt,
-        expiresInHours,
-        channelId: channel.channelId,
-        calendarId: channel.calendarId,
-      };
-    }
+    calendars = (await getGoogleConfig()).calendars;
   } catch (error) {
     return {
       active: false,
       reason: error instanceof Error ? error.message : "Google Calendar configuration is missing.",
-      expiresAt,
-      expiresInHours,
-      channelId: channel.channelId,
-      calendarId: channel.calendarId,
     };
   }
 
-  return {
-    active: true,
-    expiresAt,
-    expiresInHours,
-    channelId: channel.channelId,
-    calendarId: channel.calendarId,
-  };
+  const statuses = await Promise.all(calendars.map(getCalendarWebhookStatus));
+  if (statuses.length === 1) {
+    return statuses[0];
+  }
+
+  const inactiveIndex = statuses.findIndex((status) => !status.active);
+  const summary =
+    inactiveIndex === -1
+      ? statuses.reduce((earliest, status) =>
+          (status.expiresAt ?? "") < (earliest.expiresAt ?? "") ? status : earliest,
+        )
+      : {
+          ...statuses[inactiveIndex],
+          reason: `${calendars[inactiveIndex].name}: ${statuses[inactiveIndex].reason}`,
+        };
+
+  return { ...summary, calendars: statuses };
 }
 
 export async function getNotionWebhookStatus(): Promise<NotionWebhookStatus> {